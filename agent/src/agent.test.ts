@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAgent } from './agent';
+import type { AgentOptions } from './agent';
+import { signDirectToken } from './directServer';
+import { CommandError } from './handlers';
+import { createMemoryBackend } from './memoryBackend';
+import { createFakeMusicPlayer, createMusicHandlers } from './music';
+import type { Logger } from './types';
+import { createFakeZoomController, createZoomHandlers } from './zoom';
+
+const DEVICE_ID = 'device-1';
+
+const silent: Logger = { info: () => {}, warn: () => {}, error: () => {} };
+
+/** A token from the device's key, as the dashboard would get from issue_direct_token(). */
+const tokenFor = (key: string, commandTypes: string[]) =>
+  signDirectToken(key, {
+    device_id: DEVICE_ID,
+    user_id: 'operator',
+    command_types: commandTypes,
+    expires_at: Math.floor(Date.now() / 1000) + 600,
+  });
+
+const setup = (options: Partial<AgentOptions> = {}) => {
+  const backend = createMemoryBackend();
+  const zoom = createFakeZoomController();
+  const music = createFakeMusicPlayer();
+  const agent = createAgent({
+    deviceId: DEVICE_ID,
+    backend,
+    handlers: { ...createZoomHandlers(zoom), ...createMusicHandlers(music) },
+    pollIntervalMs: 60_000,
+    heartbeatIntervalMs: 60_000,
+    logger: silent,
+    ...options,
+  });
+  return { backend, zoom, music, agent };
+};
+
+describe('agent', () => {
+  it('runs pending commands in sent_at order and records the output', async () => {
+    const { backend, zoom, agent } = setup();
+    zoom.state.muted = false;
+    backend.enqueue({ device_id: DEVICE_ID, command_type: 'start_zoom_video', sent_at: '2025-11-01T10:00:01.000Z' });
+    backend.enqueue({ device_id: DEVICE_ID, command_type: 'mute_zoom', sent_at: '2025-11-01T10:00:00.000Z' });
+
+    await agent.processPending();
+
+    expect(zoom.calls).toEqual(['mute', 'startVideo']);
+    expect(backend.commands.map((command) => command.status)).toEqual(['executed', 'executed']);
+    expect(backend.commands[1].result).toEqual({ muted: true });
+    expect(zoom.state).toMatchObject({ muted: true, videoOn: true });
+  });
+
+  it('records the error code when a handler fails', async () => {
+    const { backend, agent } = setup();
+    backend.enqueue({ device_id: DEVICE_ID, command_type: 'stop_zoom_recording' });
+
+    await agent.processPending();
+
+    expect(backend.commands[0]).toMatchObject({ status: 'failed', error_code: 'not_recording', attempts: 1 });
+  });
+
+  it('stores the player state as the output of music commands', async () => {
+    const { backend, music, agent } = setup();
+    backend.enqueue({ device_id: DEVICE_ID, command_type: 'play_track', payload: { index: 2 } });
+    backend.enqueue({ device_id: DEVICE_ID, command_type: 'play_track', payload: { index: 9 } });
+
+    await agent.processPending();
+
+    expect(music.calls).toEqual(['playTrack', 'playTrack']);
+    expect(backend.commands[0]).toMatchObject({
+      status: 'executed',
+      result: { now_playing: expect.objectContaining({ title: 'Warm Up', state: 'playing' }) },
+    });
+    expect(backend.commands[1]).toMatchObject({ status: 'failed', error_code: 'no_such_track' });
+  });
+
+  it('fails commands without a handler', async () => {
+    const { backend, agent } = setup();
+    backend.enqueue({ device_id: DEVICE_ID, command_type: 'restart_pc' });
+
+    await agent.processPending();
+
+    expect(backend.commands[0]).toMatchObject({ status: 'failed', error_code: 'no_handler' });
+  });
+
+  it('retries a transient failure with backoff until its attempts are used up', async () => {
+    const { backend, agent } = setup({
+      retryDelayMs: 60_000,
+      handlers: {
+        mute_zoom: async () => {
+          throw new CommandError('zoom_busy', 'Zoom is still starting', { retryable: true });
+        },
+      },
+    });
+    backend.enqueue({ device_id: DEVICE_ID, command_type: 'mute_zoom', max_attempts: 2 });
+
+    await agent.processPending();
+    const retryAt = backend.commands[0].next_attempt_at;
+    expect(backend.commands[0]).toMatchObject({ status: 'pending', attempts: 1, error_code: 'zoom_busy' });
+    expect(new Date(retryAt!).getTime()).toBeGreaterThan(Date.now() + 50_000);
+
+    // Not due yet
+    await agent.processPending();
+    expect(backend.commands[0].attempts).toBe(1);
+
+    backend.commands[0].next_attempt_at = new Date().toISOString();
+    await agent.processPending();
+    await agent.stop();
+    expect(backend.commands[0]).toMatchObject({ status: 'failed', attempts: 2, error_code: 'zoom_busy' });
+  });
+
+  it('runs a command only once when it is pushed and polled', async () => {
+    const { backend, zoom, agent } = setup();
+    await agent.start();
+    backend.enqueue({ device_id: DEVICE_ID, command_type: 'unmute_zoom' });
+
+    await vi.waitFor(() => expect(backend.commands[0].status).toBe('executed'));
+    await agent.processPending();
+    await agent.stop();
+
+    expect(zoom.calls).toEqual(['unmute']);
+    expect(backend.devices.get(DEVICE_ID)?.status).toBe('offline');
+  });
+
+  it('records a direct command and takes over its queued fallback', async () => {
+    const { backend, zoom, agent } = setup({ directDelivery: true });
+    await agent.start();
+    await agent.processPending();
+
+    // The dashboard's fallback row, inserted without being pushed to the agent
+    const fallback = createMemoryBackend().enqueue({
+      device_id: DEVICE_ID,
+      command_type: 'unmute_zoom',
+      idempotency_key: 'click-1',
+    });
+    backend.commands.push(fallback);
+
+    const token = tokenFor(agent.getDirectKey()!, ['unmute_zoom']);
+    expect(agent.deliverDirect({ ...fallback, id: 'direct-1', delivery_path: 'direct' }, token)).toBe(true);
+    expect(agent.deliverDirect({ ...fallback, id: 'direct-2', delivery_path: 'direct' }, token)).toBe(false);
+
+    await vi.waitFor(() => expect(backend.commands[0]).toMatchObject({ status: 'executed', delivery_path: 'direct' }));
+    await agent.processPending();
+    await agent.stop();
+
+    expect(zoom.calls).toEqual(['unmute']);
+    expect(backend.commands).toHaveLength(1);
+  });
+
+  it('drops a direct command the backend rejects instead of running it', async () => {
+    const { backend, zoom, agent } = setup({ directDelivery: true });
+    await agent.start();
+    const recordDirectCommand = vi.spyOn(backend, 'recordDirectCommand');
+
+    const command = createMemoryBackend().enqueue({ device_id: DEVICE_ID, command_type: 'unmute_zoom' });
+    const token = tokenFor(agent.getDirectKey()!, ['mute_zoom']);
+    expect(agent.deliverDirect({ ...command, delivery_path: 'direct' }, token)).toBe(true);
+
+    await vi.waitFor(() => expect(recordDirectCommand).toHaveBeenCalledTimes(1));
+    await agent.processPending();
+    await agent.stop();
+
+    expect(recordDirectCommand).toHaveBeenCalledTimes(1);
+    expect(zoom.calls).toEqual([]);
+    expect(backend.commands).toHaveLength(0);
+  });
+});
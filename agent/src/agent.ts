@@ -0,0 +1,433 @@
+import { RejectedError } from './backend';
+import type { AgentBackend } from './backend';
+import { CommandError } from './handlers';
+import type { CommandHandlers } from './handlers';
+import type { Command, CommandUpdate, DeviceAddress, DeviceState, JsonSchema, Logger } from './types';
+
+const MAX_SEEN = 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+
+export interface AgentOptions {
+  deviceId: string;
+  backend: AgentBackend;
+  handlers: CommandHandlers;
+  /**
+   * Catch-up poll interval. With a push-capable backend this is only a
+   * safety net; without one it is the delivery latency.
+   */
+  pollIntervalMs: number;
+  heartbeatIntervalMs: number;
+  /**
+   * Delay before the first retry of a transiently failed command; doubled for
+   * every further attempt, up to five minutes.
+   */
+  retryDelayMs?: number;
+  /** Reported to the backend on start so the dashboard shows where the agent runs. */
+  address?: DeviceAddress;
+  /**
+   * Reads the live state shown on the device card. Called on start, every
+   * `stateIntervalMs` and after each command; a part is only reported when
+   * it changed since the last report.
+   */
+  readState?: () => Promise<DeviceState>;
+  stateIntervalMs?: number;
+  /**
+   * Accept commands over the LAN through `deliverDirect`. Reported to the
+   * backend on start, which also hands out the key local API tokens are
+   * checked with.
+   */
+  directDelivery?: boolean;
+  logger?: Logger;
+}
+
+export interface Agent {
+  start: () => Promise<void>;
+  stop: () => Promise<void>;
+  /** Polls the pending queue and runs everything found. Exposed for tests and manual runs. */
+  processPending: () => Promise<void>;
+  /**
+   * Queues a command that arrived over the LAN with `token`; the agent
+   * records it through the backend itself. False when the command (or its
+   * idempotency key) was already received, or direct delivery is off.
+   */
+  deliverDirect: (command: Command, token: string) => boolean;
+  /** Key local API tokens are signed with; null until the backend handed it out. */
+  getDirectKey: () => string | null;
+  /** Payload schema of every command type, by type; null until the backend handed them out. */
+  getPayloadSchemas: () => Record<string, JsonSchema> | null;
+}
+
+export const createAgent = ({
+  deviceId,
+  backend,
+  handlers,
+  pollIntervalMs,
+  heartbeatIntervalMs,
+  retryDelayMs = 5000,
+  address,
+  readState,
+  stateIntervalMs = 10_000,
+  directDelivery = false,
+  logger = console,
+}: AgentOptions): Agent => {
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let stateTimer: ReturnType<typeof setInterval> | null = null;
+  const retryTimers = new Set<ReturnType<typeof setTimeout>>();
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let unsubscribe: (() => Promise<void>) | null = null;
+  let draining: Promise<void> | null = null;
+  // Set between a (re)subscribe and the end of its catch-up poll. Pushed
+  // commands are held back meanwhile so an older row found by the poll still
+  // runs before a newer one that arrived over Realtime.
+  let catchingUp = false;
+
+  // Commands waiting to run, keyed by id so a row seen both over Realtime and
+  // by a catch-up poll is only queued once.
+  const queue = new Map<string, Command>();
+  // Ids this process has already taken off the queue. Bounded, since the
+  // claim in the backend is what ultimately guarantees exactly-once.
+  const seen = new Set<string>();
+  // Idempotency keys of commands taken off the queue, with how they arrived.
+  // A queued command whose key came in directly is the dashboard's fallback
+  // for a command that already ran; recording the direct one takes its row over.
+  const keyPaths = new Map<string, Command['delivery_path']>();
+
+  let directKey: string | null = null;
+  let payloadSchemas: Record<string, JsonSchema> | null = null;
+  // Latest state of direct commands the backend has not recorded yet, e.g.
+  // while the venue's internet is down. Retried on every poll.
+  const unrecorded = new Map<string, Command>();
+  // Token each direct command arrived with, until its outcome is recorded.
+  const directTokens = new Map<string, string>();
+
+  // JSON of the last state part each report sent, to skip unchanged ones.
+  const reportedState: { zoom?: string; nowPlaying?: string } = {};
+
+  const reportState = async () => {
+    if (!readState) return;
+
+    try {
+      const { zoom, nowPlaying } = await readState();
+
+      if (zoom && backend.reportZoomState && JSON.stringify(zoom) !== reportedState.zoom) {
+        await backend.reportZoomState(deviceId, zoom);
+        reportedState.zoom = JSON.stringify(zoom);
+      }
+      if (nowPlaying && backend.reportNowPlaying && JSON.stringify(nowPlaying) !== reportedState.nowPlaying) {
+        await backend.reportNowPlaying(deviceId, nowPlaying);
+        reportedState.nowPlaying = JSON.stringify(nowPlaying);
+      }
+    } catch (error) {
+      logger.warn('State report failed', error);
+    }
+  };
+
+  const remember = (command: Command) => {
+    seen.add(command.id);
+    if (seen.size > MAX_SEEN) {
+      seen.delete(seen.values().next().value as string);
+    }
+    if (command.idempotency_key) {
+      keyPaths.set(command.idempotency_key, command.delivery_path);
+      if (keyPaths.size > MAX_SEEN) {
+        keyPaths.delete(keyPaths.keys().next().value as string);
+      }
+    }
+  };
+
+  const forgetDirect = (commandId: string) => {
+    unrecorded.delete(commandId);
+    directTokens.delete(commandId);
+  };
+
+  /** False when the backend rejected the command for good; it is then dropped. */
+  const recordDirect = async (command: Command) => {
+    unrecorded.set(command.id, command);
+    try {
+      await backend.recordDirectCommand?.(command, directTokens.get(command.id) ?? '');
+      // A newer state may have been stored meanwhile; it is recorded next.
+      if (unrecorded.get(command.id) === command) {
+        unrecorded.delete(command.id);
+        if (command.status === 'executed' || command.status === 'failed') directTokens.delete(command.id);
+      }
+      return true;
+    } catch (error) {
+      if (error instanceof RejectedError) {
+        logger.error(`Direct command rejected, dropping it: ${command.id}`, error);
+        forgetDirect(command.id);
+        return false;
+      }
+
+      logger.warn(`Direct command not recorded yet: ${command.id}`, error);
+      if (unrecorded.size > MAX_SEEN) {
+        forgetDirect(unrecorded.keys().next().value as string);
+      }
+      return true;
+    }
+  };
+
+  const flushUnrecorded = async () => {
+    for (const command of [...unrecorded.values()]) {
+      await recordDirect(command);
+    }
+  };
+
+  // Direct commands only exist in the backend once the agent records them.
+  // One the backend rejects is not run; one it can't reach yet still is.
+  const claim = async (command: Command) => {
+    if (command.delivery_path === 'queue') return backend.claimCommand(command.id);
+
+    const claimed: Command = { ...command, status: 'delivered', delivered_at: new Date().toISOString(), attempts: 1 };
+    return (await recordDirect(claimed)) ? claimed : null;
+  };
+
+  const update = (command: Command, changes: CommandUpdate) =>
+    command.delivery_path === 'queue'
+      ? backend.updateCommand(command.id, changes)
+      : recordDirect({ ...command, ...changes });
+
+  const nextInOrder = () =>
+    [...queue.values()].sort(
+      (a, b) => a.sent_at.localeCompare(b.sent_at) || a.id.localeCompare(b.id)
+    )[0];
+
+  const scheduleRetry = (command: Command, delayMs: number) => {
+    // The row is pending again; let the next poll take it off the queue anew.
+    seen.delete(command.id);
+    const timer = setTimeout(() => {
+      retryTimers.delete(timer);
+      void poll();
+    }, delayMs);
+    retryTimers.add(timer);
+  };
+
+  const execute = async (command: Command) => {
+    // Expired commands and retries that are not due yet are not claimed.
+    const claimed = await claim(command);
+    if (!claimed) return;
+
+    const handler = handlers[claimed.command_type];
+    const startedAt = new Date().toISOString();
+
+    try {
+      if (!handler) {
+        throw new CommandError('no_handler', `No handler for command type "${claimed.command_type}"`);
+      }
+
+      logger.info(`Executing ${claimed.command_type} (${claimed.id}), attempt ${claimed.attempts}/${claimed.max_attempts}`);
+      const output = await handler(claimed);
+      const finishedAt = new Date().toISOString();
+
+      await update(claimed, {
+        status: 'executed',
+        executed_at: finishedAt,
+        started_at: startedAt,
+        finished_at: finishedAt,
+        result: output ?? null,
+        error_code: null,
+        error_message: null,
+      });
+      logger.info(`Command executed: ${claimed.id}`);
+    } catch (error) {
+      const commandError = error instanceof CommandError ? error : null;
+      const retry = Boolean(commandError?.retryable) && claimed.attempts < claimed.max_attempts;
+      const delayMs = Math.min(retryDelayMs * 2 ** (claimed.attempts - 1), MAX_RETRY_DELAY_MS);
+
+      const outcome = {
+        started_at: startedAt,
+        finished_at: new Date().toISOString(),
+        result: commandError?.output ?? null,
+        error_code: commandError?.code ?? 'handler_error',
+        error_message: error instanceof Error ? error.message : String(error),
+      };
+
+      if (retry) {
+        logger.warn(`Command failed, retrying in ${delayMs} ms: ${claimed.id}`, error);
+        await update(claimed, {
+          ...outcome,
+          status: 'pending',
+          next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
+        });
+        scheduleRetry(claimed, delayMs);
+      } else {
+        logger.error(`Command failed: ${claimed.id}`, error);
+        await update(claimed, { ...outcome, status: 'failed' });
+      }
+    }
+  };
+
+  const drain = (): Promise<void> => {
+    // A single drain loop runs commands one at a time in sent_at order;
+    // anything queued while it runs is picked up by the same loop.
+    if (!draining) {
+      draining = (async () => {
+        while (queue.size > 0) {
+          const command = nextInOrder();
+          queue.delete(command.id);
+          remember(command);
+
+          try {
+            await execute(command);
+          } catch (error) {
+            // Talking to the backend failed (e.g. network). Forget the id so a
+            // later poll can pick the row up again if it is still pending.
+            seen.delete(command.id);
+            logger.error(`Error processing command: ${command.id}`, error);
+          }
+
+          // Whatever the outcome, the command may have changed what the card should show.
+          void reportState();
+        }
+      })().finally(() => {
+        draining = null;
+        if (queue.size > 0) void drain();
+      });
+    }
+    return draining;
+  };
+
+  const enqueue = (commands: Command[]) => {
+    commands
+      .filter((command) => command.status === 'pending' && !seen.has(command.id))
+      .filter((command) => !command.idempotency_key || keyPaths.get(command.idempotency_key) !== 'direct')
+      .forEach((command) => queue.set(command.id, command));
+    return catchingUp ? Promise.resolve() : drain();
+  };
+
+  const processPending = async () => {
+    await enqueue(await backend.fetchPendingCommands(deviceId));
+  };
+
+  const catchUp = async () => {
+    catchingUp = true;
+    try {
+      const commands = await backend.fetchPendingCommands(deviceId);
+      catchingUp = false;
+      await enqueue(commands);
+    } catch (error) {
+      catchingUp = false;
+      logger.error('Catch-up poll error', error);
+      await drain();
+    }
+  };
+
+  const heartbeat = async () => {
+    try {
+      await backend.heartbeat(deviceId, 'online');
+    } catch (error) {
+      logger.warn('Heartbeat failed', error);
+    }
+  };
+
+  // Picks up schema changes made in the registry while the agent runs.
+  const loadPayloadSchemas = async () => {
+    if (!directDelivery || !backend.fetchPayloadSchemas) return;
+
+    try {
+      payloadSchemas = await backend.fetchPayloadSchemas();
+    } catch (error) {
+      logger.warn('Payload schema fetch failed', error);
+    }
+  };
+
+  const poll = async () => {
+    try {
+      await processPending();
+    } catch (error) {
+      logger.error('Poll error', error);
+    }
+    await flushUnrecorded();
+    await loadPayloadSchemas();
+  };
+
+  return {
+    start: async () => {
+      logger.info(`Agent started for device: ${deviceId}`);
+      await heartbeat();
+
+      if (address && backend.reportAddress) {
+        try {
+          await backend.reportAddress(deviceId, address);
+        } catch (error) {
+          logger.warn('Address report failed', error);
+        }
+      }
+
+      if (backend.reportDirectDelivery) {
+        try {
+          directKey = await backend.reportDirectDelivery(deviceId, directDelivery);
+        } catch (error) {
+          logger.warn('Direct delivery report failed', error);
+        }
+      }
+      await loadPayloadSchemas();
+
+      await reportState();
+
+      if (backend.subscribeToCommands) {
+        // Each SUBSCRIBED status, including the first, triggers a catch-up poll.
+        unsubscribe = backend.subscribeToCommands(deviceId, {
+          onCommand: (command) => {
+            enqueue([command]).catch((error) => logger.error('Queue error', error));
+          },
+          onSubscribed: () => {
+            logger.info('Realtime channel subscribed, catching up');
+            void catchUp();
+          },
+        });
+      } else {
+        await poll();
+      }
+
+      pollTimer = setInterval(poll, pollIntervalMs);
+      heartbeatTimer = setInterval(heartbeat, heartbeatIntervalMs);
+      if (readState) stateTimer = setInterval(reportState, stateIntervalMs);
+    },
+
+    stop: async () => {
+      if (pollTimer) clearInterval(pollTimer);
+      if (heartbeatTimer) clearInterval(heartbeatTimer);
+      if (stateTimer) clearInterval(stateTimer);
+      retryTimers.forEach((timer) => clearTimeout(timer));
+      retryTimers.clear();
+      pollTimer = null;
+      heartbeatTimer = null;
+      stateTimer = null;
+
+      if (unsubscribe) await unsubscribe();
+      unsubscribe = null;
+
+      queue.clear();
+      await draining;
+      await flushUnrecorded();
+      try {
+        await backend.heartbeat(deviceId, 'offline');
+      } catch (error) {
+        logger.warn('Final heartbeat failed', error);
+      }
+      logger.info('Agent stopped');
+    },
+
+    processPending,
+
+    deliverDirect: (command, token) => {
+      if (!directDelivery || !directKey || !backend.recordDirectCommand) return false;
+
+      const key = command.idempotency_key;
+      const duplicate =
+        seen.has(command.id) ||
+        queue.has(command.id) ||
+        (key !== null && (keyPaths.has(key) || [...queue.values()].some((queued) => queued.idempotency_key === key)));
+      if (duplicate) return false;
+
+      directTokens.set(command.id, token);
+      queue.set(command.id, command);
+      if (!catchingUp) void drain();
+      return true;
+    },
+
+    getDirectKey: () => directKey,
+
+    getPayloadSchemas: () => payloadSchemas,
+  };
+};
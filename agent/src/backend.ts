@@ -0,0 +1,72 @@
+import type { Command, CommandUpdate, DeviceAddress, DeviceStatus, JsonSchema, NowPlaying, ZoomState } from './types';
+
+/**
+ * The backend refused a write for good, e.g. a direct command whose payload
+ * does not match its schema. Retrying can't succeed.
+ */
+export class RejectedError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'RejectedError';
+  }
+}
+
+export interface CommandSubscription {
+  /** A new command row was inserted for the device. */
+  onCommand: (command: Command) => void;
+  /**
+   * The channel is (re)connected. Anything inserted while it was down was
+   * missed, so the agent runs a catch-up poll.
+   */
+  onSubscribed: () => void;
+}
+
+/**
+ * Everything the agent needs from the command queue. The Supabase backend is
+ * used in production; the in-memory backend lets handlers be exercised
+ * without a live project.
+ */
+export interface AgentBackend {
+  /** Pending commands for the device whose retry (if any) is due, oldest `sent_at` first. */
+  fetchPendingCommands: (deviceId: string) => Promise<Command[]>;
+  /**
+   * Moves a command from pending to delivered, stamps `delivered_at` and
+   * counts the attempt. Resolves to the claimed row, or null when another
+   * agent process already claimed it, it has expired (it is then marked
+   * `expired`) or its retry is not due yet. Only a claimed command may be
+   * executed.
+   */
+  claimCommand: (commandId: string) => Promise<Command | null>;
+  updateCommand: (commandId: string, update: CommandUpdate) => Promise<void>;
+  /**
+   * Reports presence. The server marks the device offline by itself once
+   * heartbeats stop for longer than its `offline_after_seconds`.
+   */
+  heartbeat: (deviceId: string, status: DeviceStatus) => Promise<void>;
+  /** Updates the address shown on the device card. Optional. */
+  reportAddress?: (deviceId: string, address: DeviceAddress) => Promise<void>;
+  /** Updates the track shown on the device card. Optional. */
+  reportNowPlaying?: (deviceId: string, nowPlaying: NowPlaying) => Promise<void>;
+  /** Updates the meeting state shown on the device card. Optional. */
+  reportZoomState?: (deviceId: string, zoomState: ZoomState) => Promise<void>;
+  /**
+   * Turns direct LAN delivery on or off for the device. Resolves to the key
+   * the agent's local API tokens are signed with. Optional.
+   */
+  reportDirectDelivery?: (deviceId: string, enabled: boolean) => Promise<string | null>;
+  /**
+   * Inserts a command that arrived over the LAN, or updates its row with the
+   * latest outcome. Also takes over the queued fallback the dashboard may
+   * have inserted with the same idempotency key. `token` is the one the
+   * command arrived with; the sender is taken from it. Rejects with a
+   * `RejectedError` when the command can never be recorded. Optional.
+   */
+  recordDirectCommand?: (command: Command, token: string) => Promise<void>;
+  /** Payload schema of every command type in the registry, by type. Optional. */
+  fetchPayloadSchemas?: () => Promise<Record<string, JsonSchema>>;
+  /**
+   * Pushes new commands as they are inserted. Returns an unsubscribe function.
+   * Backends without push support leave this out and the agent polls.
+   */
+  subscribeToCommands?: (deviceId: string, subscription: CommandSubscription) => () => Promise<void>;
+}
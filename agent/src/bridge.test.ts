@@ -0,0 +1,54 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createBridgeClient } from './bridge';
+import { CommandError } from './handlers';
+
+const servers: ReturnType<typeof createServer>[] = [];
+
+/** A bridge that answers every request with `status` and `body`. */
+const startBridge = async (status: number, body: Record<string, unknown>) => {
+  const server = createServer((_request, response) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const failure = (promise: Promise<unknown>) =>
+  promise.then(
+    () => expect.fail('Expected the request to fail'),
+    (error: unknown) => {
+      expect(error).toBeInstanceOf(CommandError);
+      return error as CommandError;
+    }
+  );
+
+describe('bridge client', () => {
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+  });
+
+  it('returns the response object as the command output', async () => {
+    const bridge = createBridgeClient(await startBridge(200, { track: 'Intro Theme' }));
+
+    expect(await bridge.post('/music/next', {})).toEqual({ track: 'Intro Theme' });
+  });
+
+  it('does not retry a bridge error, since the bridge may already have acted', async () => {
+    const bridge = createBridgeClient(await startBridge(500, { error: 'AIMP crashed' }));
+
+    const error = await failure(bridge.post('/music/next', {}));
+    expect(error).toMatchObject({ code: 'bridge_error', retryable: false, output: { error: 'AIMP crashed' } });
+  });
+
+  it('retries when the bridge could not be connected to', async () => {
+    const url = await startBridge(200, {});
+    await new Promise((resolve) => servers.pop()!.close(resolve));
+
+    const error = await failure(createBridgeClient(url).post('/music/next', {}));
+    expect(error).toMatchObject({ code: 'bridge_unreachable', retryable: true });
+  });
+});
@@ -0,0 +1,104 @@
+import { CommandError } from './handlers';
+import type { CommandHandlers, CommandOutput } from './handlers';
+import { createBridgeMusicPlayer, createMusicHandlers } from './music';
+import type { MusicHandlerOptions } from './music';
+import type { DeviceState } from './types';
+import { createBridgeZoomController, createZoomHandlers } from './zoom';
+
+/** The local bridge service: the process that actually talks to Zoom and AIMP on the room PC. */
+export interface BridgeClient {
+  /** Posts `body` as JSON. A JSON object in the response becomes the command's output. */
+  post: (path: string, body: Record<string, unknown>) => Promise<CommandOutput | undefined>;
+  /** Reads state, e.g. the player's now-playing info. */
+  get: (path: string) => Promise<CommandOutput | undefined>;
+}
+
+// Connection errors that mean the request never reached the bridge. Only
+// these are retried: once the bridge has the request it may have acted on it,
+// and commands like `next_track` must not run twice.
+const CONNECT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EAI_AGAIN',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+const isConnectError = (error: unknown) => {
+  const code = (error as { cause?: { code?: unknown } }).cause?.code;
+  return typeof code === 'string' && CONNECT_ERROR_CODES.has(code);
+};
+
+export const createBridgeClient = (bridgeUrl: string | undefined): BridgeClient => {
+  const request = async (method: 'GET' | 'POST', path: string, body?: Record<string, unknown>) => {
+    if (!bridgeUrl) {
+      throw new CommandError('no_bridge', 'No bridge configured (set AGENT_BRIDGE_URL)');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(new URL(path, bridgeUrl), {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      throw new CommandError('bridge_unreachable', `Bridge not reachable at ${bridgeUrl}: ${(error as Error).message}`, {
+        retryable: isConnectError(error),
+      });
+    }
+
+    const responseBody = (await response.json().catch(() => null)) as CommandOutput | null;
+    const output =
+      responseBody && typeof responseBody === 'object' && !Array.isArray(responseBody) ? responseBody : undefined;
+
+    if (!response.ok) {
+      const reason = typeof output?.error === 'string' ? output.error : response.statusText;
+      throw new CommandError('bridge_error', `Bridge responded ${response.status} for ${path}: ${reason}`, {
+        output,
+      });
+    }
+
+    return output;
+  };
+
+  return {
+    post: (path, body) => request('POST', path, body),
+    get: (path) => request('GET', path),
+  };
+};
+
+/**
+ * Default handlers forward each command to the local bridge, through the
+ * bridge-backed `ZoomController` and `MusicPlayer`.
+ */
+export const createBridgeHandlers = (
+  bridgeUrl: string | undefined,
+  musicOptions: MusicHandlerOptions = {}
+): CommandHandlers => {
+  const bridge = createBridgeClient(bridgeUrl);
+
+  return {
+    ...createZoomHandlers(createBridgeZoomController(bridge)),
+    ...createMusicHandlers(createBridgeMusicPlayer(bridge), musicOptions),
+  };
+};
+
+/**
+ * Reads the live device state from the bridge, for the agent's `readState`.
+ * A part the bridge can't answer (e.g. Zoom is not running) is left out.
+ */
+export const createBridgeStateReader = (bridgeUrl: string | undefined): (() => Promise<DeviceState>) => {
+  const bridge = createBridgeClient(bridgeUrl);
+  const zoom = createBridgeZoomController(bridge);
+  const player = createBridgeMusicPlayer(bridge);
+
+  return async () => {
+    const [zoomState, nowPlaying] = await Promise.allSettled([zoom.getMeetingState(), player.getNowPlaying()]);
+    return {
+      zoom: zoomState.status === 'fulfilled' ? zoomState.value : undefined,
+      nowPlaying: nowPlaying.status === 'fulfilled' ? nowPlaying.value : undefined,
+    };
+  };
+};
@@ -0,0 +1,51 @@
+/**
+ * Agent configuration, read from the environment of the room PC.
+ */
+
+import { readFileSync } from 'node:fs';
+import { DEFAULT_IDENTITY_FILE, loadIdentity } from './identity';
+
+const required = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing required environment variable ${name}`);
+  }
+  return value;
+};
+
+/** Version in the agent's package.json, reported by the local API's health check. */
+const readVersion = () =>
+  (JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf8')) as { version: string }).version;
+
+/** What both `npm start` and `npm run pair` need to reach the project. */
+export const loadConnectionConfig = () => ({
+  supabaseUrl: required('SUPABASE_URL'),
+  supabaseAnonKey: required('SUPABASE_ANON_KEY'),
+  identityFile: process.env.AGENT_IDENTITY_FILE || DEFAULT_IDENTITY_FILE,
+});
+
+export const loadConfig = () => {
+  const connection = loadConnectionConfig();
+  // AGENT_TOKEN wins over the identity file written by `npm run pair`.
+  const agentToken = process.env.AGENT_TOKEN || loadIdentity(connection.identityFile)?.agentToken;
+  if (!agentToken) {
+    throw new Error('No device credential: pair this computer with `npm run pair -- <code>` or set AGENT_TOKEN');
+  }
+
+  return {
+    ...connection,
+    agentToken,
+    /** Optional: the credential already determines the device; this only guards against a mix-up. */
+    deviceId: process.env.DEVICE_ID || undefined,
+    bridgeUrl: process.env.AGENT_BRIDGE_URL || undefined,
+    pollIntervalMs: parseInt(process.env.POLL_INTERVAL_MS || '30000'),
+    heartbeatIntervalMs: parseInt(process.env.HEARTBEAT_INTERVAL_MS || '15000'),
+    retryDelayMs: parseInt(process.env.RETRY_DELAY_MS || '5000'),
+    stateIntervalMs: parseInt(process.env.STATE_INTERVAL_MS || '10000'),
+    version: readVersion(),
+    /** Accept commands from the dashboard over the LAN, on AGENT_PORT. */
+    directDelivery: process.env.AGENT_DIRECT_DELIVERY === 'true',
+  };
+};
+
+export type AgentConfig = ReturnType<typeof loadConfig>;
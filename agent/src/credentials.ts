@@ -0,0 +1,60 @@
+/**
+ * Device credential → short-lived JWT, via the `agent-token` edge function.
+ * The JWT is cached and renewed shortly before it expires.
+ */
+
+const RENEW_BEFORE_MS = 60_000;
+
+interface AgentTokenResponse {
+  access_token: string;
+  expires_at: number;
+  device_id: string;
+}
+
+interface TokenExchangeOptions {
+  supabaseUrl: string;
+  anonKey: string;
+  agentToken: string;
+}
+
+export const createTokenExchange = ({ supabaseUrl, anonKey, agentToken }: TokenExchangeOptions) => {
+  let current: AgentTokenResponse | null = null;
+  let inFlight: Promise<AgentTokenResponse> | null = null;
+
+  const exchange = async (): Promise<AgentTokenResponse> => {
+    const response = await fetch(`${supabaseUrl}/functions/v1/agent-token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: anonKey,
+        Authorization: `Bearer ${anonKey}`,
+      },
+      body: JSON.stringify({ token: agentToken }),
+    });
+
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(`Token exchange failed (${response.status}): ${body?.error ?? response.statusText}`);
+    }
+
+    return (await response.json()) as AgentTokenResponse;
+  };
+
+  const refresh = async () => {
+    if (current && current.expires_at * 1000 - Date.now() > RENEW_BEFORE_MS) return current;
+
+    // Concurrent callers share one exchange.
+    inFlight ??= exchange().finally(() => {
+      inFlight = null;
+    });
+    current = await inFlight;
+    return current;
+  };
+
+  return {
+    /** For the Supabase client's `accessToken` option. */
+    getAccessToken: async () => (await refresh()).access_token,
+    /** The device the credential is scoped to. */
+    getDeviceId: async () => (await refresh()).device_id,
+  };
+};
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createDirectServer, signDirectToken, verifyDirectToken } from './directServer';
+import type { DirectServer, DirectTokenClaims } from './directServer';
+import type { Command, JsonSchema, Logger } from './types';
+
+const KEY = 'device-key';
+const DEVICE_ID = 'device-1';
+const COMMAND_ID = '4f6b2f0e-7c1a-4d3b-9a43-0f3c1e2d5b6a';
+
+const PLAY_TRACK_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { index: { type: 'integer', minimum: 0 } },
+  required: ['index'],
+};
+
+const silent: Logger = { info: () => {}, warn: () => {}, error: () => {} };
+
+const claims = (overrides: Partial<DirectTokenClaims> = {}): DirectTokenClaims => ({
+  device_id: DEVICE_ID,
+  user_id: 'operator',
+  command_types: ['play_track'],
+  expires_at: Math.floor(Date.now() / 1000) + 600,
+  ...overrides,
+});
+
+describe('verifyDirectToken', () => {
+  it('returns the claims of a token signed with the key', () => {
+    const token = signDirectToken(KEY, claims());
+
+    expect(verifyDirectToken(KEY, token)).toEqual(claims());
+  });
+
+  it('rejects tampered, expired and foreign tokens', () => {
+    const [encoded, signature] = signDirectToken(KEY, claims()).split('.');
+    const forged = Buffer.from(JSON.stringify(claims({ command_types: ['restart_pc'] }))).toString('hex');
+
+    expect(verifyDirectToken(KEY, `${forged}.${signature}`)).toBeNull();
+    expect(verifyDirectToken(KEY, `${encoded}.${signature}00`)).toBeNull();
+    expect(verifyDirectToken(KEY, signDirectToken(KEY, claims({ expires_at: 1 })))).toBeNull();
+    expect(verifyDirectToken('other-key', signDirectToken(KEY, claims()))).toBeNull();
+    expect(verifyDirectToken(KEY, 'not-a-token')).toBeNull();
+  });
+});
+
+describe('direct server', () => {
+  let server: DirectServer | null = null;
+  // A fresh port per server, so fetch never reuses a connection to a stopped one.
+  let port = 47_820;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = null;
+  });
+
+  const start = async (schemas: Record<string, JsonSchema> | null = { play_track: PLAY_TRACK_SCHEMA }) => {
+    const received: { command: Command; token: string }[] = [];
+    port += 1;
+    server = createDirectServer({
+      port,
+      deviceId: DEVICE_ID,
+      version: '1.0.0',
+      commandTypes: ['play_track'],
+      acceptCommands: true,
+      getKey: () => KEY,
+      getPayloadSchemas: () => schemas,
+      onCommand: (command, token) => {
+        if (received.some((entry) => entry.command.id === command.id)) return false;
+        received.push({ command, token });
+        return true;
+      },
+      logger: silent,
+    });
+    await server.start();
+    return received;
+  };
+
+  const post = async (payload: unknown, token = signDirectToken(KEY, claims()), commandType = 'play_track') => {
+    const response = await fetch(`http://127.0.0.1:${port}/commands`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ command: { id: COMMAND_ID, command_type: commandType, payload } }),
+    });
+    return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+  };
+
+  it('queues a valid command with the token it arrived with', async () => {
+    const received = await start();
+    const token = signDirectToken(KEY, claims());
+
+    expect(await post({ index: 2 }, token)).toEqual({ status: 202, body: { command_id: COMMAND_ID } });
+    expect(received).toEqual([
+      {
+        command: expect.objectContaining({ id: COMMAND_ID, sent_by: 'operator', payload: { index: 2 } }),
+        token,
+      },
+    ]);
+    expect((await post({ index: 2 }, token)).status).toBe(409);
+  });
+
+  it('answers 400 for a payload that does not match the schema', async () => {
+    const received = await start();
+
+    expect(await post({ index: 'two' })).toEqual({
+      status: 400,
+      body: { error: 'Invalid payload: payload.index must be an integer' },
+    });
+    expect(received).toEqual([]);
+  });
+
+  it('refuses bad tokens, command types outside the token and commands before the schemas load', async () => {
+    await start();
+    expect((await post({ index: 2 }, signDirectToken('other-key', claims()))).status).toBe(401);
+    expect((await post({}, undefined, 'restart_pc')).status).toBe(403);
+    await server!.stop();
+
+    await start(null);
+    expect((await post({ index: 2 })).status).toBe(503);
+  });
+});
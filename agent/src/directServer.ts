@@ -0,0 +1,276 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { validateJsonSchema } from '../../src/lib/jsonSchema';
+import type { Command, JsonSchema, Logger } from './types';
+
+const MAX_BODY_BYTES = 64 * 1024;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** What a direct delivery token grants; see issue_direct_token(). */
+export interface DirectTokenClaims {
+  device_id: string;
+  user_id: string;
+  /** Command types the user could send to the device when the token was issued. */
+  command_types: string[];
+  /** Unix seconds. */
+  expires_at: number;
+}
+
+const sign = (key: string, claims: string) => createHmac('sha256', key).update(claims).digest('hex');
+
+/** Signs claims the way the database does, for exercising the server without a project. */
+export const signDirectToken = (key: string, claims: DirectTokenClaims) => {
+  const encoded = Buffer.from(JSON.stringify(claims), 'utf8').toString('hex');
+  return `${encoded}.${sign(key, encoded)}`;
+};
+
+/** The token's claims, or null when it is malformed, signed with another key or expired. */
+export const verifyDirectToken = (key: string, token: string, now = Date.now()): DirectTokenClaims | null => {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  // Compared as text: hex decoding would silently drop trailing garbage.
+  const expected = Buffer.from(sign(key, encoded), 'utf8');
+  const actual = Buffer.from(signature, 'utf8');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(encoded, 'hex').toString('utf8')) as DirectTokenClaims;
+    return claims.expires_at * 1000 > now ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface DirectServerOptions {
+  port: number;
+  deviceId: string;
+  /** Reported by the health check. */
+  version: string;
+  /** Command types this agent has handlers for, reported by the health check. */
+  commandTypes: string[];
+  /** Whether `POST /commands` is served; the health check works either way. */
+  acceptCommands: boolean;
+  /** Key tokens are signed with. Every request is refused while it is null. */
+  getKey: () => string | null;
+  /** Payload schema of every command type, by type. Commands are refused while it is null. */
+  getPayloadSchemas: () => Record<string, JsonSchema> | null;
+  /**
+   * Queues the command with the token it arrived with. False when it was
+   * already received, directly or through the queue.
+   */
+  onCommand: (command: Command, token: string) => boolean;
+  logger?: Logger;
+}
+
+/** `GET /health` response body. */
+export interface AgentHealth {
+  status: 'ok';
+  device_id: string;
+  version: string;
+  uptime_seconds: number;
+  capabilities: {
+    command_types: string[];
+    direct_delivery: boolean;
+  };
+}
+
+export interface DirectServer {
+  start: () => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+/** Thrown while handling a request; becomes the response status and `{ error }` body. */
+class RequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readJson = (request: IncomingMessage) =>
+  new Promise<unknown>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new RequestError(413, 'Request body too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new RequestError(400, 'Request body is not JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+
+const send = (response: ServerResponse, status: number, body?: Record<string, unknown>) => {
+  // The dashboard is served from another origin; Chrome also asks before a
+  // public page may reach a private address.
+  response.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Private-Network': 'true',
+    ...(body ? { 'Content-Type': 'application/json' } : {}),
+  });
+  response.end(body ? JSON.stringify(body) : undefined);
+};
+
+/**
+ * The agent's local API on the LAN. Every request carries a token from
+ * issue_direct_token() as `Authorization: Bearer <token>`.
+ *
+ * - `GET /health` - Status, version and capabilities, see `AgentHealth`
+ * - `POST /commands` - `{ command: { id, command_type, payload, idempotency_key } }`,
+ *   with direct delivery on. The payload is checked against the command
+ *   type's schema, as the `commands` insert would. Accepted commands join the
+ *   agent's queue and are recorded in `commands` by the agent.
+ */
+export const createDirectServer = ({
+  port,
+  deviceId,
+  version,
+  commandTypes,
+  acceptCommands,
+  getKey,
+  getPayloadSchemas,
+  onCommand,
+  logger = console,
+}: DirectServerOptions): DirectServer => {
+  const startedAt = Date.now();
+
+  const authenticate = (request: IncomingMessage) => {
+    const key = getKey();
+    if (!key) throw new RequestError(503, 'The agent has not connected to the project yet');
+
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    const claims = scheme === 'Bearer' && token ? verifyDirectToken(key, token) : null;
+    if (!claims) throw new RequestError(401, 'Invalid or expired token');
+    if (claims.device_id !== deviceId) throw new RequestError(403, 'Token is for another device');
+    return { claims, token };
+  };
+
+  const health = (): AgentHealth => ({
+    status: 'ok',
+    device_id: deviceId,
+    version,
+    uptime_seconds: Math.round((Date.now() - startedAt) / 1000),
+    capabilities: { command_types: commandTypes, direct_delivery: acceptCommands },
+  });
+
+  const receive = async (request: IncomingMessage, claims: DirectTokenClaims, token: string) => {
+    if (!acceptCommands) throw new RequestError(403, 'Direct delivery is off on this agent');
+
+    const body = (await readJson(request)) as { command?: Record<string, unknown> } | null;
+    const { id, command_type, payload = {}, idempotency_key = null } = body?.command ?? {};
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id) || typeof command_type !== 'string') {
+      throw new RequestError(400, 'Command needs a uuid id and a command_type');
+    }
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      throw new RequestError(400, 'Payload must be an object');
+    }
+    if (idempotency_key !== null && typeof idempotency_key !== 'string') {
+      throw new RequestError(400, 'idempotency_key must be a string');
+    }
+    if (!claims.command_types.includes(command_type)) {
+      throw new RequestError(403, `Not allowed to send ${command_type} to this device`);
+    }
+
+    const schemas = getPayloadSchemas();
+    if (!schemas) throw new RequestError(503, 'The agent has not loaded the command types yet');
+    if (!(command_type in schemas)) throw new RequestError(400, `Unknown command type ${command_type}`);
+    const problems = validateJsonSchema(schemas[command_type], payload);
+    if (problems.length > 0) throw new RequestError(400, `Invalid payload: ${problems.join('; ')}`);
+
+    const accepted = onCommand({
+      id,
+      device_id: deviceId,
+      command_type,
+      payload: payload as Record<string, unknown>,
+      status: 'pending',
+      sent_by: claims.user_id,
+      sent_at: new Date().toISOString(),
+      executed_at: null,
+      schedule_id: null,
+      macro_run_id: null,
+      macro_step_id: null,
+      broadcast_id: null,
+      delivered_at: null,
+      started_at: null,
+      finished_at: null,
+      result: null,
+      error_code: null,
+      error_message: null,
+      expires_at: null,
+      attempts: 0,
+      max_attempts: 1,
+      next_attempt_at: null,
+      idempotency_key,
+      delivery_path: 'direct',
+    }, token);
+    if (!accepted) throw new RequestError(409, 'Command was already received');
+
+    logger.info(`Received ${command_type} (${id}) over the LAN`);
+    return id;
+  };
+
+  const route = async (request: IncomingMessage): Promise<[number, Record<string, unknown>]> => {
+    const endpoint = `${request.method} ${request.url}`;
+    if (endpoint !== 'GET /health' && endpoint !== 'POST /commands') throw new RequestError(404, 'Not found');
+
+    const { claims, token } = authenticate(request);
+    if (endpoint === 'GET /health') return [200, { ...health() }];
+    return [202, { command_id: await receive(request, claims, token) }];
+  };
+
+  const server = createServer((request, response) => {
+    if (request.method === 'OPTIONS') {
+      send(response, 204);
+      return;
+    }
+
+    route(request)
+      .then(([status, body]) => send(response, status, body))
+      .catch((error) => {
+        if (error instanceof RequestError) {
+          send(response, error.status, { error: error.message });
+        } else {
+          logger.error('Local API error', error);
+          send(response, 500, { error: 'Internal error' });
+        }
+      });
+  });
+
+  return {
+    start: () =>
+      new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+          server.off('error', reject);
+          logger.info(`Local API listening on port ${port}${acceptCommands ? ', accepting direct commands' : ''}`);
+          resolve();
+        });
+      }),
+
+    stop: () =>
+      new Promise<void>((resolve) => {
+        if (!server.listening) {
+          resolve();
+          return;
+        }
+        server.close(() => resolve());
+      }),
+  };
+};
@@ -0,0 +1,40 @@
+import type { Command } from './types';
+
+/** What a handler reports back, e.g. `{ track: 'Intro Theme' }`. Stored in `commands.result`. */
+export type CommandOutput = Record<string, unknown>;
+
+/**
+ * Executes one command on this machine. Resolving marks the command executed
+ * and stores any returned output; throwing marks it failed.
+ */
+export type CommandHandler = (command: Command) => Promise<CommandOutput | void>;
+
+export type CommandHandlers = Record<string, CommandHandler>;
+
+export interface CommandErrorOptions {
+  /** Stored in `commands.result` alongside the error. */
+  output?: CommandOutput;
+  /**
+   * The failure is transient (e.g. the bridge is restarting). The agent tries
+   * the command again with backoff until the command's `max_attempts` is used up.
+   */
+  retryable?: boolean;
+}
+
+/**
+ * A failure with a machine-readable code, stored in `commands.error_code`.
+ * Any other error thrown by a handler is recorded as `handler_error` and not retried.
+ */
+export class CommandError extends Error {
+  readonly code: string;
+  readonly output?: CommandOutput;
+  readonly retryable: boolean;
+
+  constructor(code: string, message: string, { output, retryable = false }: CommandErrorOptions = {}) {
+    super(message);
+    this.name = 'CommandError';
+    this.code = code;
+    this.output = output;
+    this.retryable = retryable;
+  }
+}
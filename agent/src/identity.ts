@@ -0,0 +1,24 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+/**
+ * What the agent receives when it claims a pairing code. Stored next to the
+ * agent so `npm start` needs no DEVICE_ID or AGENT_TOKEN in the environment.
+ */
+export interface AgentIdentity {
+  deviceId: string;
+  deviceName: string;
+  agentToken: string;
+  pairedAt: string;
+}
+
+export const DEFAULT_IDENTITY_FILE = 'agent-identity.json';
+
+export const loadIdentity = (path: string): AgentIdentity | null => {
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, 'utf8')) as AgentIdentity;
+};
+
+export const saveIdentity = (path: string, identity: AgentIdentity) => {
+  // The token is a credential: keep it readable by this user only.
+  writeFileSync(path, `${JSON.stringify(identity, null, 2)}\n`, { mode: 0o600 });
+};
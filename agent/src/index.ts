@@ -0,0 +1,20 @@
+export { createAgent } from './agent';
+export type { Agent, AgentOptions } from './agent';
+export type { AgentBackend } from './backend';
+export { createBridgeClient, createBridgeHandlers, createBridgeStateReader } from './bridge';
+export type { BridgeClient } from './bridge';
+export { createTokenExchange } from './credentials';
+export { createDirectServer, signDirectToken, verifyDirectToken } from './directServer';
+export type { AgentHealth, DirectServer, DirectServerOptions, DirectTokenClaims } from './directServer';
+export { CommandError } from './handlers';
+export type { CommandErrorOptions, CommandHandler, CommandHandlers, CommandOutput } from './handlers';
+export { DEFAULT_IDENTITY_FILE, loadIdentity, saveIdentity } from './identity';
+export type { AgentIdentity } from './identity';
+export { createMemoryBackend } from './memoryBackend';
+export type { MemoryBackend } from './memoryBackend';
+export { createBridgeMusicPlayer, createFakeMusicPlayer, createMusicHandlers } from './music';
+export type { FakeMusicPlayer, FakeTrack, MusicHandlerOptions, MusicPlayer } from './music';
+export { getAdvertisedAddress } from './network';
+export { createSupabaseBackend } from './supabaseBackend';
+export { createBridgeZoomController, createFakeZoomController, createZoomHandlers } from './zoom';
+export type { FakeZoomController, FakeZoomState, RecordingTarget, ZoomController } from './zoom';
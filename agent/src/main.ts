@@ -0,0 +1,73 @@
+import { createClient } from '@supabase/supabase-js';
+import { createAgent } from './agent';
+import { createBridgeHandlers, createBridgeStateReader } from './bridge';
+import { loadConfig } from './config';
+import { createTokenExchange } from './credentials';
+import { createDirectServer } from './directServer';
+import { getAdvertisedAddress } from './network';
+import { createSupabaseBackend } from './supabaseBackend';
+import type { Database } from './types';
+
+const main = async () => {
+  const config = loadConfig();
+  const tokens = createTokenExchange({
+    supabaseUrl: config.supabaseUrl,
+    anonKey: config.supabaseAnonKey,
+    agentToken: config.agentToken,
+  });
+
+  const deviceId = await tokens.getDeviceId();
+  if (config.deviceId && config.deviceId !== deviceId) {
+    throw new Error(`AGENT_TOKEN belongs to device ${deviceId}, not DEVICE_ID ${config.deviceId}`);
+  }
+
+  const supabase = createClient<Database>(config.supabaseUrl, config.supabaseAnonKey, {
+    accessToken: tokens.getAccessToken,
+  });
+
+  const address = getAdvertisedAddress();
+  const handlers = createBridgeHandlers(config.bridgeUrl);
+  const agent = createAgent({
+    deviceId,
+    backend: createSupabaseBackend(supabase),
+    handlers,
+    pollIntervalMs: config.pollIntervalMs,
+    heartbeatIntervalMs: config.heartbeatIntervalMs,
+    retryDelayMs: config.retryDelayMs,
+    address,
+    // Also reports the track after each music command.
+    readState: createBridgeStateReader(config.bridgeUrl),
+    stateIntervalMs: config.stateIntervalMs,
+    directDelivery: config.directDelivery,
+  });
+
+  const directServer = address.port
+    ? createDirectServer({
+        port: address.port,
+        deviceId,
+        version: config.version,
+        commandTypes: Object.keys(handlers),
+        acceptCommands: config.directDelivery,
+        getKey: agent.getDirectKey,
+        getPayloadSchemas: agent.getPayloadSchemas,
+        onCommand: agent.deliverDirect,
+      })
+    : null;
+
+  const shutdown = async () => {
+    await directServer?.stop();
+    await agent.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await agent.start();
+  await directServer?.start();
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryBackend } from './memoryBackend';
+
+const DEVICE_ID = 'device-1';
+
+describe('memory backend', () => {
+  it('returns the existing command for a repeated idempotency key', () => {
+    const backend = createMemoryBackend();
+    const first = backend.enqueue({ device_id: DEVICE_ID, command_type: 'mute_zoom', idempotency_key: 'click-1' });
+    const second = backend.enqueue({ device_id: DEVICE_ID, command_type: 'mute_zoom', idempotency_key: 'click-1' });
+
+    expect(second.id).toBe(first.id);
+    expect(backend.commands).toHaveLength(1);
+  });
+
+  it('lets a command be claimed once', async () => {
+    const backend = createMemoryBackend();
+    const command = backend.enqueue({ device_id: DEVICE_ID, command_type: 'mute_zoom' });
+
+    expect(await backend.claimCommand(command.id)).toMatchObject({ status: 'delivered', attempts: 1 });
+    expect(await backend.claimCommand(command.id)).toBeNull();
+  });
+
+  it('expires instead of claiming a command past its TTL', async () => {
+    const backend = createMemoryBackend();
+    const command = backend.enqueue({
+      device_id: DEVICE_ID,
+      command_type: 'mute_zoom',
+      expires_at: new Date(Date.now() - 1000).toISOString(),
+    });
+
+    expect(await backend.claimCommand(command.id)).toBeNull();
+    expect(backend.commands[0].status).toBe('expired');
+  });
+
+  it('leaves retries that are not due out of the pending list', async () => {
+    const backend = createMemoryBackend();
+    backend.enqueue({ device_id: DEVICE_ID, command_type: 'mute_zoom' });
+    backend.enqueue({
+      device_id: DEVICE_ID,
+      command_type: 'unmute_zoom',
+      next_attempt_at: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    const pending = await backend.fetchPendingCommands(DEVICE_ID);
+    expect(pending.map((command) => command.command_type)).toEqual(['mute_zoom']);
+  });
+});
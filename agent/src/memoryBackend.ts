@@ -0,0 +1,185 @@
+import { randomBytes } from 'node:crypto';
+import { RejectedError } from './backend';
+import type { AgentBackend, CommandSubscription } from './backend';
+import { verifyDirectToken } from './directServer';
+import type { Command, DeviceAddress, DeviceStatus, JsonSchema, NowPlaying, ZoomState } from './types';
+
+export interface MemoryBackend extends AgentBackend {
+  commands: Command[];
+  devices: Map<
+    string,
+    {
+      status: DeviceStatus;
+      last_seen: string | null;
+      address?: DeviceAddress;
+      nowPlaying?: NowPlaying;
+      zoomState?: ZoomState;
+      directDelivery?: boolean;
+      /** Key local API tokens are signed with. */
+      directKey?: string;
+    }
+  >;
+  /** Served by `fetchPayloadSchemas`. */
+  payloadSchemas: Record<string, JsonSchema>;
+  /**
+   * Queues a command the way the dashboard insert would. A repeated
+   * `idempotency_key` returns the existing command instead.
+   */
+  enqueue: (command: Pick<Command, 'device_id' | 'command_type'> & Partial<Command>) => Command;
+}
+
+/**
+ * In-memory stand-in for the Supabase queue, for exercising the agent and its
+ * handlers locally.
+ */
+export const createMemoryBackend = (): MemoryBackend => {
+  const commands: Command[] = [];
+  const devices: MemoryBackend['devices'] = new Map();
+  const payloadSchemas: MemoryBackend['payloadSchemas'] = {};
+  const subscriptions = new Set<{ deviceId: string } & CommandSubscription>();
+  let sequence = 0;
+
+  const find = (commandId: string) => {
+    const command = commands.find((c) => c.id === commandId);
+    if (!command) throw new Error(`Unknown command ${commandId}`);
+    return command;
+  };
+
+  return {
+    commands,
+    devices,
+    payloadSchemas,
+
+    enqueue: (command) => {
+      sequence += 1;
+      const row: Command = {
+        id: `memory-${sequence}`,
+        payload: {},
+        status: 'pending',
+        sent_by: 'memory-user',
+        sent_at: new Date().toISOString(),
+        executed_at: null,
+        schedule_id: null,
+        macro_run_id: null,
+        macro_step_id: null,
+        broadcast_id: null,
+        delivered_at: null,
+        started_at: null,
+        finished_at: null,
+        result: null,
+        error_code: null,
+        error_message: null,
+        expires_at: null,
+        attempts: 0,
+        max_attempts: 3,
+        next_attempt_at: null,
+        idempotency_key: null,
+        delivery_path: 'queue',
+        ...command,
+      };
+
+      const duplicate = row.idempotency_key
+        ? commands.find((c) => c.device_id === row.device_id && c.idempotency_key === row.idempotency_key)
+        : undefined;
+      if (duplicate) return duplicate;
+
+      commands.push(row);
+      subscriptions.forEach((subscription) => {
+        if (subscription.deviceId === row.device_id) subscription.onCommand({ ...row });
+      });
+      return row;
+    },
+
+    fetchPendingCommands: async (deviceId) => {
+      const now = new Date().toISOString();
+      return commands
+        .filter((c) => c.device_id === deviceId && c.status === 'pending')
+        .filter((c) => !c.next_attempt_at || c.next_attempt_at <= now)
+        .sort((a, b) => a.sent_at.localeCompare(b.sent_at));
+    },
+
+    claimCommand: async (commandId) => {
+      const command = find(commandId);
+      const now = new Date().toISOString();
+      if (command.status !== 'pending') return null;
+      if (command.expires_at && command.expires_at <= now) {
+        Object.assign(command, { status: 'expired', finished_at: now });
+        return null;
+      }
+      if (command.next_attempt_at && command.next_attempt_at > now) return null;
+
+      Object.assign(command, { status: 'delivered', delivered_at: now, attempts: command.attempts + 1 });
+      return { ...command };
+    },
+
+    updateCommand: async (commandId, update) => {
+      Object.assign(find(commandId), update);
+    },
+
+    subscribeToCommands: (deviceId, subscription) => {
+      const entry = { deviceId, ...subscription };
+      subscriptions.add(entry);
+      queueMicrotask(subscription.onSubscribed);
+      return async () => {
+        subscriptions.delete(entry);
+      };
+    },
+
+    heartbeat: async (deviceId, status) => {
+      devices.set(deviceId, { ...devices.get(deviceId), status, last_seen: new Date().toISOString() });
+    },
+
+    reportAddress: async (deviceId, address) => {
+      devices.set(deviceId, { status: 'unknown', last_seen: null, ...devices.get(deviceId), address });
+    },
+
+    reportNowPlaying: async (deviceId, nowPlaying) => {
+      devices.set(deviceId, { status: 'unknown', last_seen: null, ...devices.get(deviceId), nowPlaying });
+    },
+
+    reportZoomState: async (deviceId, zoomState) => {
+      devices.set(deviceId, { status: 'unknown', last_seen: null, ...devices.get(deviceId), zoomState });
+    },
+
+    reportDirectDelivery: async (deviceId, enabled) => {
+      const device = { status: 'unknown' as const, last_seen: null, ...devices.get(deviceId) };
+      const directKey = device.directKey ?? randomBytes(32).toString('hex');
+      devices.set(deviceId, { ...device, directDelivery: enabled, directKey });
+      return directKey;
+    },
+
+    // Mirrors record_direct_command(), minus the permission check.
+    recordDirectCommand: async (command, token) => {
+      const key = devices.get(command.device_id)?.directKey;
+      const claims = key ? verifyDirectToken(key, token, new Date(command.sent_at).getTime()) : null;
+      if (!claims || claims.device_id !== command.device_id || !claims.command_types.includes(command.command_type)) {
+        throw new RejectedError('Invalid direct delivery token');
+      }
+      if (!['delivered', 'executed', 'failed'].includes(command.status)) {
+        throw new RejectedError(`Invalid direct command status: ${command.status}`);
+      }
+
+      const existing = commands.find(
+        (c) =>
+          c.device_id === command.device_id &&
+          (c.id === command.id || (command.idempotency_key !== null && c.idempotency_key === command.idempotency_key)) &&
+          (c.delivery_path === 'direct' || c.status === 'pending' || c.status === 'expired')
+      );
+      const { status, delivered_at, started_at, finished_at, executed_at, result, error_code, error_message } = command;
+      const outcome = { status, delivered_at, started_at, finished_at, executed_at, result, error_code, error_message };
+
+      const clash = commands.some(
+        (c) =>
+          c.id === command.id ||
+          (command.idempotency_key !== null &&
+            c.device_id === command.device_id &&
+            c.idempotency_key === command.idempotency_key)
+      );
+
+      if (existing) Object.assign(existing, outcome, { delivery_path: 'direct', attempts: 1 });
+      else if (!clash) commands.push({ ...command, sent_by: claims.user_id, attempts: 1, max_attempts: 1 });
+    },
+
+    fetchPayloadSchemas: async () => ({ ...payloadSchemas }),
+  };
+};
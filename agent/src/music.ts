@@ -0,0 +1,214 @@
+import type { BridgeClient } from './bridge';
+import { CommandError } from './handlers';
+import type { CommandHandler, CommandHandlers } from './handlers';
+import type { Logger, NowPlaying } from './types';
+
+/**
+ * The music player on this machine (AIMP in the rooms). Actions resolve once
+ * the player has applied them and throw a `CommandError` otherwise.
+ */
+export interface MusicPlayer {
+  play: () => Promise<void>;
+  pause: () => Promise<void>;
+  stop: () => Promise<void>;
+  next: () => Promise<void>;
+  previous: () => Promise<void>;
+  /** `index` is 1-based, as numbered in the playlist. */
+  playTrack: (index: number) => Promise<void>;
+  seek: (positionSeconds: number) => Promise<void>;
+  /** 0-100. */
+  setVolume: (level: number) => Promise<void>;
+  /** Relative to the current volume; negative is quieter. */
+  changeVolume: (step: number) => Promise<void>;
+  toggleShuffle: () => Promise<void>;
+  toggleRepeat: () => Promise<void>;
+  getNowPlaying: () => Promise<NowPlaying>;
+}
+
+export interface MusicHandlerOptions {
+  /** Receives the player state after every music command, e.g. to update the device card. */
+  onNowPlaying?: (nowPlaying: NowPlaying) => void;
+  logger?: Logger;
+}
+
+const toInteger = (value: unknown, fallback: number) => (typeof value === 'number' ? Math.round(value) : fallback);
+
+/**
+ * Maps the music command types to player calls. Each command's output is the
+ * player state right after it ran, under `now_playing`.
+ */
+export const createMusicHandlers = (
+  player: MusicPlayer,
+  { onNowPlaying, logger = console }: MusicHandlerOptions = {}
+): CommandHandlers => {
+  const run =
+    (action: (payload: Record<string, unknown>) => Promise<void>): CommandHandler =>
+    async (command) => {
+      await action(command.payload ?? {});
+
+      // The command already ran; a player that can't say what is playing doesn't fail it.
+      let nowPlaying: NowPlaying;
+      try {
+        nowPlaying = await player.getNowPlaying();
+      } catch (error) {
+        logger.warn('Could not read now playing:', (error as Error).message);
+        return;
+      }
+
+      onNowPlaying?.(nowPlaying);
+      return { now_playing: nowPlaying };
+    };
+
+  return {
+    play_music: run(() => player.play()),
+    pause_music: run(() => player.pause()),
+    stop_music: run(() => player.stop()),
+    next_track: run(() => player.next()),
+    previous_track: run(() => player.previous()),
+    play_track: run((payload) => player.playTrack(toInteger(payload.index, 1))),
+    seek_track: run((payload) => player.seek(toInteger(payload.position_seconds, 0))),
+    set_volume: run((payload) => player.setVolume(toInteger(payload.level, 50))),
+    change_volume: run((payload) => player.changeVolume(toInteger(payload.step, 10))),
+    toggle_shuffle: run(() => player.toggleShuffle()),
+    toggle_repeat: run(() => player.toggleRepeat()),
+  };
+};
+
+const PLAYER_STATES: NowPlaying['state'][] = ['playing', 'paused', 'stopped'];
+
+/** Picks the known fields out of the bridge's response, tolerating missing or mistyped ones. */
+const toNowPlaying = (output: Record<string, unknown> | undefined): NowPlaying => {
+  const string = (value: unknown) => (typeof value === 'string' ? value : null);
+  const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+  const boolean = (value: unknown) => (typeof value === 'boolean' ? value : null);
+
+  return {
+    title: string(output?.title),
+    artist: string(output?.artist),
+    state: PLAYER_STATES.find((state) => state === output?.state) ?? 'stopped',
+    position_seconds: number(output?.position_seconds),
+    duration_seconds: number(output?.duration_seconds),
+    volume: number(output?.volume),
+    shuffle: boolean(output?.shuffle),
+    repeat: boolean(output?.repeat),
+  };
+};
+
+export const createBridgeMusicPlayer = (bridge: BridgeClient): MusicPlayer => {
+  const post = async (path: string, body: Record<string, unknown> = {}) => {
+    await bridge.post(path, body);
+  };
+
+  return {
+    play: () => post('/music/play'),
+    pause: () => post('/music/pause'),
+    stop: () => post('/music/stop'),
+    next: () => post('/music/next'),
+    previous: () => post('/music/previous'),
+    playTrack: (index) => post('/music/play-track', { index }),
+    seek: (positionSeconds) => post('/music/seek', { position_seconds: positionSeconds }),
+    setVolume: (level) => post('/music/volume', { level }),
+    changeVolume: (step) => post('/music/volume/step', { step }),
+    toggleShuffle: () => post('/music/shuffle/toggle'),
+    toggleRepeat: () => post('/music/repeat/toggle'),
+    getNowPlaying: async () => toNowPlaying(await bridge.get('/music/now-playing')),
+  };
+};
+
+export interface FakeTrack {
+  title: string;
+  artist: string;
+  duration_seconds: number;
+}
+
+export interface FakeMusicPlayer extends MusicPlayer {
+  playlist: FakeTrack[];
+  /** Method names in call order, without `getNowPlaying`. */
+  calls: string[];
+}
+
+const DEFAULT_PLAYLIST: FakeTrack[] = [
+  { title: 'Intro Theme', artist: 'House Band', duration_seconds: 184 },
+  { title: 'Warm Up', artist: 'House Band', duration_seconds: 241 },
+  { title: 'Closing Set', artist: 'Guest DJ', duration_seconds: 312 },
+];
+
+/**
+ * In-memory player for exercising the handlers without AIMP. `play_track`
+ * fails with `no_such_track` outside the playlist; positions and volume are
+ * clamped to their ranges. The position does not advance on its own.
+ */
+export const createFakeMusicPlayer = (playlist: FakeTrack[] = DEFAULT_PLAYLIST): FakeMusicPlayer => {
+  const calls: string[] = [];
+  let index = 0;
+  let state: NowPlaying['state'] = 'stopped';
+  let position = 0;
+  let volume = 50;
+  let shuffle = false;
+  let repeat = false;
+
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+  const act = (name: string, change: () => void) => async () => {
+    calls.push(name);
+    change();
+  };
+
+  const goTo = (nextIndex: number) => {
+    index = (nextIndex + playlist.length) % playlist.length;
+    position = 0;
+    state = 'playing';
+  };
+
+  return {
+    playlist,
+    calls,
+    play: act('play', () => {
+      state = 'playing';
+    }),
+    pause: act('pause', () => {
+      if (state === 'playing') state = 'paused';
+    }),
+    stop: act('stop', () => {
+      state = 'stopped';
+      position = 0;
+    }),
+    next: act('next', () => goTo(index + 1)),
+    previous: act('previous', () => goTo(index - 1)),
+    playTrack: async (trackIndex) => {
+      calls.push('playTrack');
+      if (trackIndex < 1 || trackIndex > playlist.length) {
+        throw new CommandError('no_such_track', `The playlist has ${playlist.length} tracks, not ${trackIndex}`);
+      }
+      goTo(trackIndex - 1);
+    },
+    seek: async (positionSeconds) => {
+      calls.push('seek');
+      position = clamp(positionSeconds, 0, playlist[index].duration_seconds);
+    },
+    setVolume: async (level) => {
+      calls.push('setVolume');
+      volume = clamp(level, 0, 100);
+    },
+    changeVolume: async (step) => {
+      calls.push('changeVolume');
+      volume = clamp(volume + step, 0, 100);
+    },
+    toggleShuffle: act('toggleShuffle', () => {
+      shuffle = !shuffle;
+    }),
+    toggleRepeat: act('toggleRepeat', () => {
+      repeat = !repeat;
+    }),
+    getNowPlaying: async () => ({
+      title: playlist[index].title,
+      artist: playlist[index].artist,
+      state,
+      position_seconds: position,
+      duration_seconds: playlist[index].duration_seconds,
+      volume,
+      shuffle,
+      repeat,
+    }),
+  };
+};
@@ -0,0 +1,21 @@
+import { networkInterfaces } from 'node:os';
+import type { DeviceAddress } from './types';
+
+/** First non-internal IPv4 address of this machine, or null when offline. */
+const detectLanIp = () => {
+  for (const addresses of Object.values(networkInterfaces())) {
+    for (const address of addresses ?? []) {
+      if (address.family === 'IPv4' && !address.internal) return address.address;
+    }
+  }
+  return null;
+};
+
+/**
+ * The address the agent advertises. AGENT_ADVERTISE_IP overrides detection
+ * on machines with several interfaces.
+ */
+export const getAdvertisedAddress = (): DeviceAddress => ({
+  ip: process.env.AGENT_ADVERTISE_IP || detectLanIp(),
+  port: parseInt(process.env.AGENT_PORT || '3100'),
+});
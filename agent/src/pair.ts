@@ -0,0 +1,45 @@
+import { createClient } from '@supabase/supabase-js';
+import { loadConnectionConfig } from './config';
+import { saveIdentity } from './identity';
+import { getAdvertisedAddress } from './network';
+import type { Database } from './types';
+
+/**
+ * `npm run pair -- <code>`: claims a pairing code from the dashboard's
+ * "Add Device" dialog and stores the device identity for `npm start`.
+ */
+const pair = async () => {
+  const code = process.argv[2];
+  if (!code) {
+    throw new Error('Usage: npm run pair -- <pairing code>');
+  }
+
+  const config = loadConnectionConfig();
+  const supabase = createClient<Database>(config.supabaseUrl, config.supabaseAnonKey, {
+    auth: { persistSession: false },
+  });
+  const address = getAdvertisedAddress();
+
+  const { data, error } = await supabase.rpc('claim_pairing_code', {
+    pairing_code: code,
+    agent_ip: address.ip,
+    agent_port: address.port,
+  });
+
+  if (error) throw new Error(`Pairing failed: ${error.message}`);
+
+  saveIdentity(config.identityFile, {
+    deviceId: data.device_id,
+    deviceName: data.device_name,
+    agentToken: data.token,
+    pairedAt: new Date().toISOString(),
+  });
+
+  console.log(`Paired with "${data.device_name}" (${data.device_id}) at ${address.ip ?? 'unknown IP'}:${address.port}`);
+  console.log(`Saved credentials to ${config.identityFile}. Start the agent with: npm start`);
+};
+
+pair().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
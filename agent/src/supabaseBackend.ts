@@ -0,0 +1,104 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { RejectedError } from './backend';
+import type { AgentBackend } from './backend';
+import type { Command, Database, JsonSchema } from './types';
+
+// SQLSTATE classes for input a retry can't fix: data exceptions (22, e.g. a
+// payload the schema rejects), integrity violations (23) and 42501, which
+// record_direct_command() raises for a command it won't accept.
+const isPermanentError = (code: string | undefined) =>
+  Boolean(code) && (code!.startsWith('22') || code!.startsWith('23') || code === '42501');
+
+export const createSupabaseBackend = (supabase: SupabaseClient<Database>): AgentBackend => ({
+  fetchPendingCommands: async (deviceId) => {
+    const { data, error } = await supabase
+      .from('commands')
+      .select('*')
+      .eq('device_id', deviceId)
+      .eq('status', 'pending')
+      .or(`next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`)
+      .order('sent_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Expiry and retry timing are checked against the database clock; see claim_command().
+  claimCommand: async (commandId) => {
+    const { data, error } = await supabase.rpc('claim_command', { target_command: commandId });
+
+    if (error) throw error;
+    return data?.[0] ?? null;
+  },
+
+  updateCommand: async (commandId, update) => {
+    const { error } = await supabase.from('commands').update(update).eq('id', commandId);
+    if (error) throw error;
+  },
+
+  subscribeToCommands: (deviceId, { onCommand, onSubscribed }) => {
+    const channel = supabase
+      .channel(`agent_commands_${deviceId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'commands',
+          filter: `device_id=eq.${deviceId}`,
+        },
+        (payload) => {
+          onCommand(payload.new as Command);
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          onSubscribed();
+        }
+      });
+
+    return async () => {
+      await supabase.removeChannel(channel);
+    };
+  },
+
+  heartbeat: async (deviceId, status) => {
+    // last_seen is stamped by the database; see device_heartbeat().
+    const { error } = await supabase.rpc('device_heartbeat', { target_device: deviceId, new_status: status });
+    if (error) throw error;
+  },
+
+  // The device comes from the agent's credential, not the argument.
+  reportAddress: async (_deviceId, address) => {
+    const { error } = await supabase.rpc('report_device_address', { agent_ip: address.ip, agent_port: address.port });
+    if (error) throw error;
+  },
+
+  reportNowPlaying: async (_deviceId, nowPlaying) => {
+    const { error } = await supabase.rpc('report_now_playing', { now_playing: nowPlaying });
+    if (error) throw error;
+  },
+
+  reportZoomState: async (_deviceId, zoomState) => {
+    const { error } = await supabase.rpc('report_zoom_state', { zoom_state: zoomState });
+    if (error) throw error;
+  },
+
+  reportDirectDelivery: async (_deviceId, enabled) => {
+    const { data, error } = await supabase.rpc('report_direct_delivery', { enabled });
+    if (error) throw error;
+    return data ?? null;
+  },
+
+  recordDirectCommand: async (command, token) => {
+    const { error } = await supabase.rpc('record_direct_command', { command, token });
+    if (error) throw isPermanentError(error.code) ? new RejectedError(error.message, { cause: error }) : error;
+  },
+
+  fetchPayloadSchemas: async () => {
+    const { data, error } = await supabase.from('command_types').select('id, payload_schema');
+
+    if (error) throw error;
+    return Object.fromEntries(data.map((type) => [type.id, type.payload_schema as JsonSchema]));
+  },
+});
@@ -0,0 +1,27 @@
+import type { Database, NowPlaying, ZoomState } from '../../src/lib/database.types';
+import type { JsonSchema } from '../../src/lib/jsonSchema';
+
+export type { Database, JsonSchema, NowPlaying, ZoomState };
+
+export type Command = Database['public']['Tables']['commands']['Row'];
+export type CommandStatus = Command['status'];
+export type CommandUpdate = Database['public']['Tables']['commands']['Update'];
+export type DeviceStatus = Database['public']['Tables']['devices']['Row']['status'];
+
+/** Where the agent can be reached on the LAN, as shown on the device card. */
+export interface DeviceAddress {
+  ip: string | null;
+  port: number | null;
+}
+
+/** Live state shown on the device card. Parts the agent can't read are left out. */
+export interface DeviceState {
+  zoom?: ZoomState;
+  nowPlaying?: NowPlaying;
+}
+
+export interface Logger {
+  info: (message: string, ...args: unknown[]) => void;
+  warn: (message: string, ...args: unknown[]) => void;
+  error: (message: string, ...args: unknown[]) => void;
+}
@@ -0,0 +1,163 @@
+import type { BridgeClient } from './bridge';
+import { CommandError } from './handlers';
+import type { CommandHandlers, CommandOutput } from './handlers';
+import type { ZoomState } from './types';
+
+export type RecordingTarget = 'cloud' | 'local';
+
+/**
+ * Everything the agent can do to the Zoom meeting on this machine. Each
+ * method resolves once Zoom has applied the change, optionally with output
+ * for `commands.result`, and throws a `CommandError` otherwise.
+ */
+export interface ZoomController {
+  mute: () => Promise<CommandOutput | void>;
+  unmute: () => Promise<CommandOutput | void>;
+  startVideo: () => Promise<CommandOutput | void>;
+  stopVideo: () => Promise<CommandOutput | void>;
+  startRecording: (target: RecordingTarget) => Promise<CommandOutput | void>;
+  stopRecording: () => Promise<CommandOutput | void>;
+  /** `screen` is 1-based, as numbered in Zoom's share picker. */
+  startScreenShare: (screen: number) => Promise<CommandOutput | void>;
+  stopScreenShare: () => Promise<CommandOutput | void>;
+  setMeetingLocked: (locked: boolean) => Promise<CommandOutput | void>;
+  /** Mutes everyone but the host; `allowUnmute` lets participants unmute themselves afterwards. */
+  muteAllParticipants: (allowUnmute: boolean) => Promise<CommandOutput | void>;
+  /** Reads the meeting state for the device card; unlike the actions it works outside a meeting. */
+  getMeetingState: () => Promise<ZoomState>;
+}
+
+/** Maps the Zoom command types to controller calls, applying the registry's payload defaults. */
+export const createZoomHandlers = (zoom: ZoomController): CommandHandlers => ({
+  mute_zoom: () => zoom.mute(),
+  unmute_zoom: () => zoom.unmute(),
+  start_zoom_video: () => zoom.startVideo(),
+  stop_zoom_video: () => zoom.stopVideo(),
+  start_zoom_recording: ({ payload }) => zoom.startRecording(payload.target === 'local' ? 'local' : 'cloud'),
+  stop_zoom_recording: () => zoom.stopRecording(),
+  start_zoom_share: ({ payload }) => zoom.startScreenShare(typeof payload.screen === 'number' ? payload.screen : 1),
+  stop_zoom_share: () => zoom.stopScreenShare(),
+  lock_zoom_meeting: ({ payload }) => zoom.setMeetingLocked(payload.locked !== false),
+  mute_all_zoom: ({ payload }) => zoom.muteAllParticipants(payload.allow_unmute !== false),
+});
+
+/** Picks the known fields out of the bridge's response, tolerating missing or mistyped ones. */
+const toZoomState = (output: CommandOutput | undefined): ZoomState => {
+  const boolean = (value: unknown) => (typeof value === 'boolean' ? value : null);
+  const inMeeting = output?.in_meeting === true;
+
+  return {
+    in_meeting: inMeeting,
+    meeting_id: inMeeting && typeof output?.meeting_id === 'string' ? output.meeting_id : null,
+    muted: inMeeting ? boolean(output?.muted) : null,
+    video_on: inMeeting ? boolean(output?.video_on) : null,
+    participant_count:
+      inMeeting && typeof output?.participant_count === 'number' ? output.participant_count : null,
+    recording: inMeeting ? boolean(output?.recording) : null,
+    sharing: inMeeting ? boolean(output?.sharing) : null,
+  };
+};
+
+export const createBridgeZoomController = (bridge: BridgeClient): ZoomController => ({
+  mute: () => bridge.post('/zoom/mute', {}),
+  unmute: () => bridge.post('/zoom/unmute', {}),
+  startVideo: () => bridge.post('/zoom/video/start', {}),
+  stopVideo: () => bridge.post('/zoom/video/stop', {}),
+  startRecording: (target) => bridge.post('/zoom/recording/start', { target }),
+  stopRecording: () => bridge.post('/zoom/recording/stop', {}),
+  startScreenShare: (screen) => bridge.post('/zoom/share/start', { screen }),
+  stopScreenShare: () => bridge.post('/zoom/share/stop', {}),
+  setMeetingLocked: (locked) => bridge.post('/zoom/lock', { locked }),
+  muteAllParticipants: (allowUnmute) => bridge.post('/zoom/participants/mute-all', { allow_unmute: allowUnmute }),
+  getMeetingState: async () => toZoomState(await bridge.get('/zoom/state')),
+});
+
+export interface FakeZoomState {
+  inMeeting: boolean;
+  meetingId: string;
+  participantCount: number;
+  muted: boolean;
+  videoOn: boolean;
+  recording: RecordingTarget | null;
+  sharingScreen: number | null;
+  locked: boolean;
+  participantsMuted: boolean;
+}
+
+export interface FakeZoomController extends ZoomController {
+  state: FakeZoomState;
+  /** Method names in call order, without `getMeetingState`. */
+  calls: string[];
+}
+
+/**
+ * In-memory Zoom for exercising the handlers without a bridge. Every call
+ * fails with `not_in_meeting` while `state.inMeeting` is false; recording and
+ * sharing fail with `not_recording` / `not_sharing` when there is nothing to stop.
+ */
+export const createFakeZoomController = (initial: Partial<FakeZoomState> = {}): FakeZoomController => {
+  const state: FakeZoomState = {
+    inMeeting: true,
+    meetingId: '123 456 7890',
+    participantCount: 1,
+    muted: true,
+    videoOn: false,
+    recording: null,
+    sharingScreen: null,
+    locked: false,
+    participantsMuted: false,
+    ...initial,
+  };
+  const calls: string[] = [];
+
+  const apply = async (name: string, change: (current: FakeZoomState) => Partial<FakeZoomState>) => {
+    calls.push(name);
+    if (!state.inMeeting) throw new CommandError('not_in_meeting', 'Zoom is not in a meeting');
+    const update = change(state);
+    Object.assign(state, update);
+    return update as CommandOutput;
+  };
+
+  return {
+    state,
+    calls,
+    mute: () => apply('mute', () => ({ muted: true })),
+    unmute: () => apply('unmute', () => ({ muted: false })),
+    startVideo: () => apply('startVideo', () => ({ videoOn: true })),
+    stopVideo: () => apply('stopVideo', () => ({ videoOn: false })),
+    startRecording: (target) => apply('startRecording', () => ({ recording: target })),
+    stopRecording: () =>
+      apply('stopRecording', (current) => {
+        if (!current.recording) throw new CommandError('not_recording', 'The meeting is not being recorded');
+        return { recording: null };
+      }),
+    startScreenShare: (screen) => apply('startScreenShare', () => ({ sharingScreen: screen })),
+    stopScreenShare: () =>
+      apply('stopScreenShare', (current) => {
+        if (current.sharingScreen === null) throw new CommandError('not_sharing', 'No screen is being shared');
+        return { sharingScreen: null };
+      }),
+    setMeetingLocked: (locked) => apply('setMeetingLocked', () => ({ locked })),
+    muteAllParticipants: () => apply('muteAllParticipants', () => ({ participantsMuted: true })),
+    getMeetingState: async () =>
+      state.inMeeting
+        ? {
+            in_meeting: true,
+            meeting_id: state.meetingId,
+            muted: state.muted,
+            video_on: state.videoOn,
+            participant_count: state.participantCount,
+            recording: state.recording !== null,
+            sharing: state.sharingScreen !== null,
+          }
+        : {
+            in_meeting: false,
+            meeting_id: null,
+            muted: null,
+            video_on: null,
+            participant_count: null,
+            recording: null,
+            sharing: null,
+          },
+  };
+};
@@ -24,5 +24,11 @@ export default tseslint.config(
         { allowConstantExport: true },
       ],
     },
+  },
+  {
+    files: ['agent/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
   }
 );
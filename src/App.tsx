@@ -1,4 +1,8 @@
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { RepositoryProvider } from './contexts/RepositoryContext';
+import { ToastProvider } from './contexts/ToastContext';
+import { CommandTypesProvider } from './contexts/CommandTypesContext';
+import { PermissionsProvider } from './contexts/PermissionsContext';
 import { Auth } from './components/Auth';
 import { Dashboard } from './components/Dashboard';
 
@@ -13,14 +17,26 @@ function AppContent() {
     );
   }
 
-  return user ? <Dashboard /> : <Auth />;
+  return user ? (
+    <CommandTypesProvider>
+      <PermissionsProvider>
+        <Dashboard />
+      </PermissionsProvider>
+    </CommandTypesProvider>
+  ) : (
+    <Auth />
+  );
 }
 
 function App() {
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <RepositoryProvider>
+      <AuthProvider>
+        <ToastProvider>
+          <AppContent />
+        </ToastProvider>
+      </AuthProvider>
+    </RepositoryProvider>
   );
 }
 
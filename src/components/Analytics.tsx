@@ -0,0 +1,369 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BarChart3, X } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { useCommandTypes } from '../contexts/CommandTypesContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { formatLatency } from '../lib/commands';
+import type { CommandStats, DeviceUptime, DeviceWithTeams } from '../lib/repository';
+
+const RANGES = [
+  { id: '24h', label: 'Last 24 hours', days: 1 },
+  { id: '7d', label: 'Last 7 days', days: 7 },
+  { id: '30d', label: 'Last 30 days', days: 30 },
+  { id: '90d', label: 'Last 90 days', days: 90 },
+] as const;
+
+type RangeId = (typeof RANGES)[number]['id'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Executed share of the commands that finished, or null when none did. */
+const getSuccessRate = ({ executed, failed, expired }: CommandStats) => {
+  const finished = executed + failed + expired;
+  return finished > 0 ? executed / finished : null;
+};
+
+const formatPercent = (fraction: number | null) => (fraction === null ? '—' : `${(fraction * 100).toFixed(1)}%`);
+
+const formatPercentile = (ms: number | null) => formatLatency(ms === null ? null : Math.round(ms));
+
+const getRateColor = (fraction: number | null) => {
+  if (fraction === null) return 'text-slate-400';
+  if (fraction >= 0.95) return 'text-green-400';
+  if (fraction >= 0.8) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+/** Executed, failed and expired shares of the group as one horizontal bar. */
+const OutcomeBar: React.FC<{ stats: CommandStats }> = ({ stats }) => {
+  const width = (count: number) => `${(count / Math.max(stats.total, 1)) * 100}%`;
+
+  return (
+    <div
+      className="flex h-2 w-full min-w-[8rem] overflow-hidden rounded-full bg-slate-800"
+      title={`${stats.executed} executed, ${stats.failed} failed, ${stats.expired} expired of ${stats.total}`}
+    >
+      <div className="bg-green-500" style={{ width: width(stats.executed) }} />
+      <div className="bg-red-500" style={{ width: width(stats.failed) }} />
+      <div className="bg-slate-500" style={{ width: width(stats.expired) }} />
+    </div>
+  );
+};
+
+interface StatsTableProps {
+  title: string;
+  rows: CommandStats[];
+  getName: (row: CommandStats) => string;
+  /** Adds an uptime column. */
+  getUptime?: (row: CommandStats) => number | null;
+}
+
+const StatsTable: React.FC<StatsTableProps> = ({ title, rows, getName, getUptime }) => (
+  <div className="overflow-x-auto border border-cyan-500/20 rounded-xl">
+    <table className="w-full text-sm">
+      <thead className="bg-slate-800/50 text-cyan-300 text-left">
+        <tr>
+          <th className="px-4 py-3 font-medium">{title}</th>
+          <th className="px-4 py-3 font-medium text-right">Commands</th>
+          <th className="px-4 py-3 font-medium w-1/4">Outcome</th>
+          <th className="px-4 py-3 font-medium text-right">Success</th>
+          <th className="px-4 py-3 font-medium text-right">p50</th>
+          <th className="px-4 py-3 font-medium text-right">p95</th>
+          {getUptime && <th className="px-4 py-3 font-medium text-right">Uptime</th>}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-cyan-500/10">
+        {rows.map((row) => (
+          <tr key={`${row.device_id}:${row.command_type}`} className="text-slate-200 hover:bg-white/5">
+            <td className="px-4 py-3 whitespace-nowrap">{getName(row)}</td>
+            <td className="px-4 py-3 text-right">{row.total.toLocaleString()}</td>
+            <td className="px-4 py-3">
+              <OutcomeBar stats={row} />
+            </td>
+            <td className={`px-4 py-3 text-right ${getRateColor(getSuccessRate(row))}`}>
+              {formatPercent(getSuccessRate(row))}
+            </td>
+            <td className="px-4 py-3 whitespace-nowrap text-right">{formatPercentile(row.p50_ms)}</td>
+            <td className="px-4 py-3 whitespace-nowrap text-right">{formatPercentile(row.p95_ms)}</td>
+            {getUptime && (
+              <td className={`px-4 py-3 text-right ${getRateColor(getUptime(row))}`}>
+                {formatPercent(getUptime(row))}
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+interface AnalyticsProps {
+  devices: DeviceWithTeams[];
+  onClose: () => void;
+}
+
+export const Analytics: React.FC<AnalyticsProps> = ({ devices, onClose }) => {
+  const { showToast } = useToast();
+  const { getCommandLabel } = useCommandTypes();
+  const repository = useRepository();
+  const [rangeId, setRangeId] = useState<RangeId>('7d');
+  const [teamId, setTeamId] = useState('');
+  const [commandsDeviceId, setCommandsDeviceId] = useState('');
+  const [stats, setStats] = useState<CommandStats[]>([]);
+  const [uptime, setUptime] = useState<DeviceUptime[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const teams = [
+    ...new Map(devices.flatMap((device) => device.teams.map((link) => [link.team_id, link.team?.name ?? ''] as const))),
+  ].sort((a, b) => a[1].localeCompare(b[1]));
+  const scopedDevices = teamId
+    ? devices.filter((device) => device.teams.some((link) => link.team_id === teamId))
+    : devices;
+  const scopedDeviceIds = scopedDevices.map((device) => device.id).join(',');
+  const deviceNames = Object.fromEntries(devices.map((device) => [device.id, device.name]));
+  const range = RANGES.find((entry) => entry.id === rangeId) ?? RANGES[1];
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const loadAnalytics = useCallback(async () => {
+    setLoading(true);
+
+    const to = new Date();
+    const query = {
+      deviceIds: scopedDeviceIds ? scopedDeviceIds.split(',') : [],
+      from: new Date(to.getTime() - range.days * DAY_MS).toISOString(),
+      to: to.toISOString(),
+      timeZone,
+    };
+
+    try {
+      const [commandStats, deviceUptime] = await Promise.all([
+        repository.analytics.getCommandStats(query),
+        repository.analytics.getUptime(query),
+      ]);
+      setStats(commandStats);
+      setUptime(deviceUptime);
+    } catch (error) {
+      console.error('Error loading analytics:', error);
+      showToast('Failed to load analytics', 'error');
+    }
+    setLoading(false);
+  }, [repository, showToast, scopedDeviceIds, range.days, timeZone]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const overall = stats.find((row) => !row.device_id && !row.command_type && !row.day);
+  // Devices without commands are listed too, for their uptime.
+  const byDevice = scopedDevices
+    .map(
+      (device) =>
+        stats.find((row) => row.device_id === device.id && !row.command_type) ?? {
+          device_id: device.id,
+          command_type: null,
+          day: null,
+          total: 0,
+          executed: 0,
+          failed: 0,
+          expired: 0,
+          p50_ms: null,
+          p95_ms: null,
+        }
+    )
+    .sort((a, b) => b.total - a.total);
+  // A device picked for the command breakdown that a team filter since left out falls back to all.
+  const commandsDevice = scopedDevices.some((device) => device.id === commandsDeviceId) ? commandsDeviceId : '';
+  const byCommandType = stats
+    .filter((row) => row.command_type && (commandsDevice ? row.device_id === commandsDevice : !row.device_id))
+    .sort((a, b) => b.total - a.total);
+  const byDay = new Map(stats.filter((row) => row.day).map((row) => [row.day, row]));
+  const uptimeByDevice = new Map(uptime.map((row) => [row.device_id, row]));
+
+  const trackedSeconds = uptime.reduce((sum, row) => sum + row.tracked_seconds, 0);
+  const overallUptime =
+    trackedSeconds > 0 ? uptime.reduce((sum, row) => sum + row.online_seconds, 0) / trackedSeconds : null;
+  const getUptime = (deviceId: string) => {
+    const row = uptimeByDevice.get(deviceId);
+    return row && row.tracked_seconds > 0 ? row.online_seconds / row.tracked_seconds : null;
+  };
+
+  // Every day of the range, including the ones without commands.
+  const dayFormat = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+  const days = [
+    ...new Set(
+      Array.from({ length: range.days + 1 }, (_, index) =>
+        dayFormat.format(new Date(Date.now() - (range.days - index) * DAY_MS))
+      )
+    ),
+  ];
+  const busiestDay = Math.max(1, ...[...byDay.values()].map((row) => row.total));
+
+  const selectClassName =
+    'px-3 py-2 bg-slate-800/50 border border-cyan-500/30 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+
+  const tiles = [
+    { label: 'Commands', value: (overall?.total ?? 0).toLocaleString(), color: 'text-white' },
+    {
+      label: 'Success Rate',
+      value: formatPercent(overall ? getSuccessRate(overall) : null),
+      color: getRateColor(overall ? getSuccessRate(overall) : null),
+    },
+    { label: 'Latency p50', value: formatPercentile(overall?.p50_ms ?? null), color: 'text-white' },
+    { label: 'Latency p95', value: formatPercentile(overall?.p95_ms ?? null), color: 'text-white' },
+    { label: 'Uptime', value: formatPercent(overallUptime), color: getRateColor(overallUptime) },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl max-w-6xl w-full max-h-[90vh] overflow-hidden shadow-2xl shadow-cyan-500/20">
+        <div className="flex items-center justify-between p-6 border-b border-cyan-500/20">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-cyan-500/50">
+              <BarChart3 className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Analytics</h2>
+              <p className="text-sm text-cyan-300">
+                {scopedDevices.length} {scopedDevices.length === 1 ? 'device' : 'devices'} · {range.label.toLowerCase()}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800/50 rounded-lg text-cyan-300 transition-all">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-5rem)] space-y-6">
+          <div className="flex flex-wrap gap-3">
+            <select value={rangeId} onChange={(e) => setRangeId(e.target.value as RangeId)} className={selectClassName}>
+              {RANGES.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
+            <select value={teamId} onChange={(e) => setTeamId(e.target.value)} className={selectClassName}>
+              <option value="">All devices</option>
+              {teams.map(([id, name]) => (
+                <option key={id} value={id}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block w-8 h-8 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
+            </div>
+          ) : scopedDevices.length === 0 ? (
+            <div className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-xl p-12 text-center">
+              <BarChart3 className="w-16 h-16 text-cyan-400/50 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-white mb-2">No devices yet</h3>
+              <p className="text-cyan-300">Statistics appear once devices receive commands</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {tiles.map((tile) => (
+                  <div key={tile.label} className="px-4 py-3 bg-slate-800/30 border border-cyan-500/20 rounded-xl">
+                    <p className="text-xs font-medium text-cyan-300">{tile.label}</p>
+                    <p className={`text-2xl font-bold ${tile.color}`}>{tile.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="px-4 py-4 bg-slate-800/30 border border-cyan-500/20 rounded-xl">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-semibold text-white">Commands per Day</h3>
+                  <div className="flex items-center space-x-3 text-xs text-slate-400">
+                    <span className="flex items-center space-x-1">
+                      <span className="w-2 h-2 rounded-sm bg-green-500" />
+                      <span>Executed</span>
+                    </span>
+                    <span className="flex items-center space-x-1">
+                      <span className="w-2 h-2 rounded-sm bg-red-500" />
+                      <span>Failed</span>
+                    </span>
+                    <span className="flex items-center space-x-1">
+                      <span className="w-2 h-2 rounded-sm bg-slate-500" />
+                      <span>Expired</span>
+                    </span>
+                  </div>
+                </div>
+                <div className="flex items-end h-32 gap-px">
+                  {days.map((day) => {
+                    const row = byDay.get(day);
+                    const height = (count: number) => `${(count / busiestDay) * 100}%`;
+                    return (
+                      <div
+                        key={day}
+                        className="flex-1 h-full flex flex-col justify-end hover:bg-white/5"
+                        title={
+                          row
+                            ? `${day}: ${row.executed} executed, ${row.failed} failed, ${row.expired} expired of ${row.total}`
+                            : `${day}: no commands`
+                        }
+                      >
+                        {row && (
+                          <>
+                            <div className="bg-slate-500" style={{ height: height(row.expired) }} />
+                            <div className="bg-red-500" style={{ height: height(row.failed) }} />
+                            <div className="bg-green-500" style={{ height: height(row.executed) }} />
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="flex justify-between mt-2 text-xs text-slate-400">
+                  <span>{days[0]}</span>
+                  <span>{days[days.length - 1]}</span>
+                </div>
+              </div>
+
+              <StatsTable
+                title="By Device"
+                rows={byDevice}
+                getName={(row) => deviceNames[row.device_id ?? ''] ?? row.device_id ?? ''}
+                getUptime={(row) => getUptime(row.device_id ?? '')}
+              />
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-white">Commands</h3>
+                  <select
+                    value={commandsDevice}
+                    onChange={(e) => setCommandsDeviceId(e.target.value)}
+                    className={selectClassName}
+                  >
+                    <option value="">On all devices</option>
+                    {scopedDevices.map((device) => (
+                      <option key={device.id} value={device.id}>
+                        On {device.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {byCommandType.length > 0 ? (
+                  <StatsTable
+                    title="By Command"
+                    rows={byCommandType}
+                    getName={(row) => getCommandLabel(row.command_type ?? '')}
+                  />
+                ) : (
+                  <p className="text-sm text-slate-400">No commands sent in this range</p>
+                )}
+              </div>
+
+              <p className="text-xs text-slate-400">
+                Latency runs from sending to execution. Success counts executed commands against all that finished,
+                so expired commands count as unsuccessful. Uptime covers the part of the range since presence was
+                first recorded for each device.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
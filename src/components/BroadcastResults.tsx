@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { useCommandTypes } from '../contexts/CommandTypesContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { Radio, X } from 'lucide-react';
+import type { Broadcast, Command } from '../lib/repository';
+import { CommandStatus } from './CommandStatus';
+
+interface BroadcastResultsProps {
+  broadcast: Broadcast;
+  commands: Command[];
+  devices: { id: string; name: string }[];
+  onClose: () => void;
+}
+
+/** Combined per-device outcome of one broadcast, updated live. */
+export const BroadcastResults: React.FC<BroadcastResultsProps> = ({ broadcast, commands, devices, onClose }) => {
+  const { getCommandLabel } = useCommandTypes();
+  const repository = useRepository();
+  const [results, setResults] = useState<Record<string, Command>>(() =>
+    Object.fromEntries(commands.map((command) => [command.id, command]))
+  );
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    return repository.commands.subscribe({
+      broadcastId: broadcast.id,
+      onCommand: (command) => setResults((current) => ({ ...current, [command.id]: command })),
+      // Pick up anything that finished before the subscription was live.
+      onSubscribed: loadResults,
+    });
+  }, [broadcast.id]);
+
+  const loadResults = async () => {
+    try {
+      const data = await repository.commands.listForBroadcast(broadcast.id);
+      setResults(Object.fromEntries(data.map((command) => [command.id, command])));
+    } catch (error) {
+      console.error('Error loading broadcast results:', error);
+    }
+  };
+
+  const getDeviceName = (deviceId: string) => devices.find((device) => device.id === deviceId)?.name ?? 'Unknown device';
+
+  const list = Object.values(results).sort((a, b) => getDeviceName(a.device_id).localeCompare(getDeviceName(b.device_id)));
+  const executed = list.filter((command) => command.status === 'executed').length;
+  const failed = list.filter((command) => command.status === 'failed' || command.status === 'expired').length;
+  const inFlight = list.length - executed - failed;
+
+  useEffect(() => {
+    if (inFlight === 0) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [inFlight]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl max-w-lg w-full max-h-[90vh] overflow-hidden shadow-2xl shadow-cyan-500/20">
+        <div className="flex items-center justify-between p-6 border-b border-cyan-500/20">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-cyan-500/50">
+              <Radio className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">{getCommandLabel(broadcast.command_type)}</h2>
+              <p className="text-sm text-cyan-300">Sent to {list.length} devices</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-800/50 rounded-lg text-cyan-300 transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-5rem)] space-y-4">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="p-3 rounded-lg border text-green-400 bg-green-400/10 border-green-400/30">
+              <p className="text-2xl font-bold">{executed}</p>
+              <p className="text-xs">Succeeded</p>
+            </div>
+            <div className="p-3 rounded-lg border text-red-400 bg-red-400/10 border-red-400/30">
+              <p className="text-2xl font-bold">{failed}</p>
+              <p className="text-xs">Failed</p>
+            </div>
+            <div className="p-3 rounded-lg border text-slate-300 bg-slate-400/10 border-slate-400/30">
+              <p className="text-2xl font-bold">{inFlight}</p>
+              <p className="text-xs">In Progress</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {list.map((command) => (
+              <div key={command.id} className="flex items-center space-x-3">
+                <span className="w-32 flex-shrink-0 text-sm text-white truncate">{getDeviceName(command.device_id)}</span>
+                <div className="flex-1 min-w-0">
+                  <CommandStatus command={command} now={now} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,405 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useCommandTypes } from '../contexts/CommandTypesContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { downloadCsv, toCsv } from '../lib/csv';
+import { formatLatency, formatResult, getLatencyMs, getRunTimeMs } from '../lib/commands';
+import type { Command, CommandHistoryQuery } from '../lib/repository';
+import { Download, History, X } from 'lucide-react';
+import { COMMAND_STATUS, COMMAND_STATUS_LABELS, DELIVERY_PATH_LABELS } from '../config';
+
+export type HistoryScope =
+  | { kind: 'device'; id: string; name: string; teamIds: string[] }
+  | { kind: 'team'; id: string; name: string };
+
+interface Filters {
+  status: string;
+  commandType: string;
+  sentBy: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 25;
+const EXPORT_BATCH_SIZE = 500;
+
+const emptyFilters: Filters = { status: '', commandType: '', sentBy: '', from: '', to: '' };
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const getStatusColor = (status: Command['status']) => {
+  switch (status) {
+    case 'executed':
+      return 'text-green-400';
+    case 'failed':
+      return 'text-red-400';
+    case 'delivered':
+      return 'text-cyan-300';
+    case 'expired':
+      return 'text-slate-500';
+    default:
+      return 'text-slate-300';
+  }
+};
+
+interface CommandHistoryProps {
+  scope: HistoryScope;
+  onClose: () => void;
+}
+
+export const CommandHistory: React.FC<CommandHistoryProps> = ({ scope, onClose }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { commandTypes, getCommandLabel } = useCommandTypes();
+  const repository = useRepository();
+  const [deviceNames, setDeviceNames] = useState<Record<string, string>>({});
+  const [senders, setSenders] = useState<string[]>([]);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [commands, setCommands] = useState<Command[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    loadScope();
+  }, [scope.kind, scope.id]);
+
+  useEffect(() => {
+    if (Object.keys(deviceNames).length > 0) {
+      loadPage(null);
+    }
+  }, [deviceNames, filters]);
+
+  const loadScope = async () => {
+    const teamIds = scope.kind === 'team' ? [scope.id] : scope.teamIds;
+
+    if (scope.kind === 'device') {
+      setDeviceNames({ [scope.id]: scope.name });
+    } else {
+      try {
+        const data = await repository.devices.listForTeam(scope.id);
+        if (data.length === 0) {
+          setLoading(false);
+        } else {
+          setDeviceNames(Object.fromEntries(data.map((device) => [device.id, device.name])));
+        }
+      } catch (error) {
+        console.error('Error loading team devices:', error);
+        showToast('Failed to load team devices', 'error');
+      }
+    }
+
+    if (teamIds.length > 0) {
+      try {
+        setSenders(await repository.members.listUserIds(teamIds));
+      } catch (error) {
+        console.error('Error loading team members:', error);
+      }
+    } else if (user) {
+      setSenders([user.id]);
+    }
+  };
+
+  const buildQuery = (before: Command | null, limit: number): CommandHistoryQuery => {
+    let to: string | undefined;
+    if (filters.to) {
+      const end = new Date(`${filters.to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      to = end.toISOString();
+    }
+
+    return {
+      deviceIds: Object.keys(deviceNames),
+      status: (filters.status || undefined) as Command['status'] | undefined,
+      commandType: filters.commandType || undefined,
+      sentBy: filters.sentBy || undefined,
+      from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+      to,
+      before,
+      limit,
+    };
+  };
+
+  // Pages are keyed on (sent_at, id) rather than offsets, so new commands
+  // arriving while browsing don't shift later pages. The id keeps the commands
+  // of a broadcast, which share a sent_at, from falling between two pages.
+  const loadPage = async (cursor: Command | null) => {
+    setLoading(true);
+
+    try {
+      const rows = await repository.commands.listHistory(buildQuery(cursor, PAGE_SIZE + 1));
+      const page = rows.slice(0, PAGE_SIZE);
+      setCommands((current) => (cursor ? [...current, ...page] : page));
+      setHasMore(rows.length > PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading command history:', error);
+      showToast('Failed to load command history', 'error');
+    }
+    setLoading(false);
+  };
+
+  const senderLabel = (userId: string) => (userId === user?.id ? 'You' : userId);
+
+  const exportCsv = async () => {
+    setExporting(true);
+
+    const rows: Command[] = [];
+    let cursor: Command | null = null;
+
+    while (true) {
+      let batch: Command[];
+      try {
+        batch = await repository.commands.listHistory(buildQuery(cursor, EXPORT_BATCH_SIZE));
+      } catch (error) {
+        console.error('Error exporting command history:', error);
+        showToast('Failed to export command history', 'error');
+        setExporting(false);
+        return;
+      }
+
+      rows.push(...batch);
+      if (batch.length < EXPORT_BATCH_SIZE) break;
+      cursor = batch[batch.length - 1];
+    }
+
+    const csv = toCsv(
+      [
+        'Sent At',
+        'Device',
+        'Command',
+        'Payload',
+        'Sent By',
+        'Status',
+        'Delivery Path',
+        'Delivered At',
+        'Started At',
+        'Finished At',
+        'Executed At',
+        'Latency (ms)',
+        'Run Time (ms)',
+        'Result',
+        'Error Code',
+        'Error Message',
+        'Attempts',
+        'Expires At',
+      ],
+      rows.map((command) => [
+        command.sent_at,
+        deviceNames[command.device_id] ?? command.device_id,
+        command.command_type,
+        command.payload,
+        command.sent_by,
+        command.status,
+        command.delivery_path,
+        command.delivered_at,
+        command.started_at,
+        command.finished_at,
+        command.executed_at,
+        getLatencyMs(command),
+        getRunTimeMs(command),
+        command.result,
+        command.error_code,
+        command.error_message,
+        command.attempts,
+        command.expires_at,
+      ])
+    );
+
+    const slug = scope.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadCsv(`command-history-${slug}-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+    showToast(`Exported ${rows.length} commands`, 'success');
+    setExporting(false);
+  };
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const selectClassName =
+    'px-3 py-2 bg-slate-800/50 border border-cyan-500/30 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl max-w-6xl w-full max-h-[90vh] overflow-hidden shadow-2xl shadow-cyan-500/20">
+        <div className="flex items-center justify-between p-6 border-b border-cyan-500/20">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-cyan-500/50">
+              <History className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Command History</h2>
+              <p className="text-sm text-cyan-300">
+                {scope.kind === 'team' ? 'Team' : 'Device'}: {scope.name}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={exportCsv}
+              disabled={exporting || commands.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 text-sm transition-all disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              <span>{exporting ? 'Exporting...' : 'Export CSV'}</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-slate-800/50 rounded-lg text-cyan-300 transition-all"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-5rem)]">
+          <div className="flex flex-wrap gap-3 mb-6">
+            <select
+              value={filters.status}
+              onChange={(e) => updateFilter('status', e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">All statuses</option>
+              {Object.values(COMMAND_STATUS).map((status) => (
+                <option key={status} value={status}>
+                  {COMMAND_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.commandType}
+              onChange={(e) => updateFilter('commandType', e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">All commands</option>
+              {commandTypes.map((commandType) => (
+                <option key={commandType.id} value={commandType.id}>
+                  {commandType.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.sentBy}
+              onChange={(e) => updateFilter('sentBy', e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">All users</option>
+              {senders.map((sender) => (
+                <option key={sender} value={sender}>
+                  {senderLabel(sender)}
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center space-x-2">
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter('from', e.target.value)}
+                className={selectClassName}
+              />
+              <span className="text-cyan-300 text-sm">to</span>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter('to', e.target.value)}
+                className={selectClassName}
+              />
+            </div>
+            {Object.values(filters).some(Boolean) && (
+              <button
+                onClick={() => setFilters(emptyFilters)}
+                className="px-3 py-2 text-sm text-cyan-400 hover:text-cyan-300 transition-colors"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+
+          {!loading && commands.length === 0 ? (
+            <div className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-xl p-12 text-center">
+              <History className="w-16 h-16 text-cyan-400/50 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-white mb-2">No commands found</h3>
+              <p className="text-cyan-300">Commands sent to {scope.name} will appear here</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto border border-cyan-500/20 rounded-xl">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-800/50 text-cyan-300 text-left">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Sent</th>
+                    {scope.kind === 'team' && <th className="px-4 py-3 font-medium">Device</th>}
+                    <th className="px-4 py-3 font-medium">Command</th>
+                    <th className="px-4 py-3 font-medium">Payload</th>
+                    <th className="px-4 py-3 font-medium">Sent By</th>
+                    <th className="px-4 py-3 font-medium">Status</th>
+                    <th className="px-4 py-3 font-medium">Path</th>
+                    <th className="px-4 py-3 font-medium">Result</th>
+                    <th className="px-4 py-3 font-medium">Executed</th>
+                    <th className="px-4 py-3 font-medium text-right">Latency</th>
+                    <th className="px-4 py-3 font-medium text-right">Run Time</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-cyan-500/10">
+                  {commands.map((command) => (
+                    <tr key={command.id} className="text-slate-200 hover:bg-white/5">
+                      <td className="px-4 py-3 whitespace-nowrap">{formatTimestamp(command.sent_at)}</td>
+                      {scope.kind === 'team' && (
+                        <td className="px-4 py-3 whitespace-nowrap">{deviceNames[command.device_id]}</td>
+                      )}
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {getCommandLabel(command.command_type)}
+                      </td>
+                      <td className="px-4 py-3 font-mono text-xs text-slate-400 max-w-xs truncate">
+                        {JSON.stringify(command.payload ?? {})}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap max-w-[10rem] truncate">{senderLabel(command.sent_by)}</td>
+                      <td className={`px-4 py-3 whitespace-nowrap ${getStatusColor(command.status)}`}>
+                        {COMMAND_STATUS_LABELS[command.status]}
+                        {command.attempts > 1 && (
+                          <span className="ml-1 text-xs text-slate-400">
+                            ({command.attempts}/{command.max_attempts})
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-slate-400">
+                        {DELIVERY_PATH_LABELS[command.delivery_path]}
+                      </td>
+                      <td
+                        className={`px-4 py-3 text-xs max-w-xs truncate ${command.error_code ? 'text-red-300' : 'text-slate-400'}`}
+                        title={command.error_message ?? formatResult(command.result)}
+                      >
+                        {command.error_code
+                          ? `${command.error_code}: ${command.error_message ?? ''}`
+                          : formatResult(command.result) || '—'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">{formatTimestamp(command.executed_at)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">{formatLatency(getLatencyMs(command))}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">{formatLatency(getRunTimeMs(command))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {loading && (
+            <div className="text-center py-6">
+              <div className="inline-block w-8 h-8 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {!loading && hasMore && (
+            <div className="text-center mt-6">
+              <button
+                onClick={() => loadPage(commands[commands.length - 1])}
+                className="px-6 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+              >
+                Load more
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, Clock, Cloud, RotateCw, Send, TimerOff, XCircle, Zap } from 'lucide-react';
+import type { Command } from '../lib/repository';
+import { COMMAND_STATUS_LABELS, DELIVERY_PATH_LABELS } from '../config';
+import { useCommandTypes } from '../contexts/CommandTypesContext';
+import { formatElapsed, formatLatency, formatResult, getRunTimeMs, isCommandStuck } from '../lib/commands';
+
+const getStatusIcon = (status: Command['status']) => {
+  switch (status) {
+    case 'pending':
+      return <Clock className="w-4 h-4 text-slate-300" />;
+    case 'delivered':
+      return <Send className="w-4 h-4 text-cyan-400" />;
+    case 'executed':
+      return <CheckCircle className="w-4 h-4 text-green-400" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-400" />;
+    case 'expired':
+      return <TimerOff className="w-4 h-4 text-slate-400" />;
+  }
+};
+
+const getStatusColor = (status: Command['status'], stuck: boolean) => {
+  if (stuck) return 'text-amber-400 bg-amber-400/10 border-amber-400/30';
+  switch (status) {
+    case 'executed':
+      return 'text-green-400 bg-green-400/10 border-green-400/30';
+    case 'failed':
+      return 'text-red-400 bg-red-400/10 border-red-400/30';
+    case 'delivered':
+      return 'text-cyan-300 bg-cyan-400/10 border-cyan-400/30';
+    case 'expired':
+      return 'text-slate-400 bg-slate-500/10 border-slate-500/30';
+    default:
+      return 'text-slate-300 bg-slate-400/10 border-slate-400/30';
+  }
+};
+
+interface CommandStatusProps {
+  command: Command;
+  now: number;
+}
+
+export const CommandStatus: React.FC<CommandStatusProps> = ({ command, now }) => {
+  const { getCommandLabel } = useCommandTypes();
+  const stuck = isCommandStuck(command, now);
+  const label = getCommandLabel(command.command_type);
+
+  const runTime = getRunTimeMs(command);
+  // A pending command that already has an attempt behind it is waiting for a retry.
+  const retrying = command.status === 'pending' && command.attempts > 0;
+  const detail = command.status === 'failed' || retrying ? command.error_message : formatResult(command.result);
+  const timings = [
+    command.delivered_at && `Delivered ${new Date(command.delivered_at).toLocaleTimeString()}`,
+    command.started_at && `Started ${new Date(command.started_at).toLocaleTimeString()}`,
+    command.finished_at && `Finished ${new Date(command.finished_at).toLocaleTimeString()}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <div
+      className={`px-3 py-2 rounded-lg border text-xs ${getStatusColor(command.status, stuck)}`}
+      title={timings || undefined}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 min-w-0">
+          {stuck ? (
+            <AlertTriangle className="w-4 h-4 text-amber-400" />
+          ) : retrying ? (
+            <RotateCw className="w-4 h-4 text-slate-300" />
+          ) : (
+            getStatusIcon(command.status)
+          )}
+          <span className="font-medium truncate">{label}</span>
+          <span className="opacity-80">
+            {stuck ? `Stuck ${command.status}` : retrying ? 'Retrying' : COMMAND_STATUS_LABELS[command.status]}
+          </span>
+          {command.attempts > 1 && (
+            <span className="opacity-60 flex-shrink-0">
+              attempt {command.attempts}/{command.max_attempts}
+            </span>
+          )}
+          <span
+            className="inline-flex items-center space-x-1 opacity-60 flex-shrink-0"
+            title={command.delivery_path === 'direct' ? 'Sent straight to the agent over the LAN' : 'Sent through the queue'}
+          >
+            {command.delivery_path === 'direct' ? <Zap className="w-3 h-3" /> : <Cloud className="w-3 h-3" />}
+            <span>{DELIVERY_PATH_LABELS[command.delivery_path]}</span>
+          </span>
+        </div>
+        <span className="opacity-70 flex-shrink-0 ml-2">
+          {runTime !== null && `ran ${formatLatency(runTime)} · `}
+          {formatElapsed(command.sent_at, now)}
+        </span>
+      </div>
+      {detail && (
+        <p className="mt-1 opacity-80 truncate" title={detail}>
+          {command.error_code && <span className="font-mono">{command.error_code}: </span>}
+          {detail}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Activity, CheckCircle, XCircle } from 'lucide-react';
+import { useRepository } from '../contexts/RepositoryContext';
+import { checkAgentHealth, getAgentUrl } from '../lib/directDelivery';
+import type { AgentHealth } from '../lib/directDelivery';
+import type { Device } from '../lib/repository';
+
+/** How long `waitForAgent` keeps retrying, and how often. */
+const WAIT_FOR_AGENT_MS = 60_000;
+const RETRY_INTERVAL_MS = 3000;
+
+interface ConnectionTestProps {
+  device: Pick<Device, 'id' | 'ip_address' | 'port'>;
+  /**
+   * Tests on its own as soon as the agent reports an address, and keeps
+   * retrying for a minute while it starts up. Used right after pairing, where
+   * the agent is expected to come up any moment.
+   */
+  waitForAgent?: boolean;
+}
+
+type TestResult = { ok: true; health: AgentHealth; latencyMs: number } | { ok: false; error: string };
+
+/**
+ * "Test Connection" for a device modal: calls the agent's local API on the
+ * address the agent reported and shows reachability, latency and version.
+ */
+export const ConnectionTest: React.FC<ConnectionTestProps> = ({ device, waitForAgent = false }) => {
+  const repository = useRepository();
+  const [testing, setTesting] = useState(false);
+  const [waiting, setWaiting] = useState(false);
+  const [result, setResult] = useState<TestResult | null>(null);
+  const url = getAgentUrl(device);
+  const { id, ip_address, port } = device;
+
+  const check = useCallback(async (): Promise<TestResult> => {
+    try {
+      return { ok: true, ...(await checkAgentHealth(repository.devices, { id, ip_address, port })) };
+    } catch (error) {
+      return { ok: false, error: (error as Error).message || 'Connection failed' };
+    }
+  }, [repository, id, ip_address, port]);
+
+  const test = async () => {
+    setTesting(true);
+    setResult(null);
+    setResult(await check());
+    setTesting(false);
+  };
+
+  // The address arrives before the agent's local API is up, so early failures are retried.
+  useEffect(() => {
+    if (!waitForAgent || !url) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = Date.now() + WAIT_FOR_AGENT_MS;
+    setWaiting(true);
+    setResult(null);
+
+    const attempt = async () => {
+      const outcome = await check();
+      if (cancelled) return;
+      if (outcome.ok || Date.now() >= deadline) {
+        setResult(outcome);
+        setWaiting(false);
+        return;
+      }
+      timer = setTimeout(() => void attempt(), RETRY_INTERVAL_MS);
+    };
+    void attempt();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [waitForAgent, url, check]);
+
+  return (
+    <div className="px-4 py-3 bg-slate-800/30 border border-cyan-500/20 rounded-xl space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-cyan-300">Agent Address</p>
+          <p className="text-sm text-white font-mono">{url ?? 'Not reported yet'}</p>
+        </div>
+        <button
+          type="button"
+          onClick={test}
+          disabled={!url || testing || waiting}
+          className="inline-flex items-center space-x-2 px-3 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-sm text-cyan-300 transition-all disabled:opacity-50"
+        >
+          <Activity className={`w-4 h-4 ${testing || waiting ? 'animate-pulse' : ''}`} />
+          <span>{testing || waiting ? 'Testing...' : 'Test Connection'}</span>
+        </button>
+      </div>
+      {waiting && <p className="text-sm text-cyan-300/70">Waiting for the agent to answer…</p>}
+      {result?.ok && (
+        <p className="flex items-center space-x-2 text-sm text-green-400">
+          <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            Reachable · {result.latencyMs} ms · agent {result.health.version} ·{' '}
+            {result.health.capabilities.command_types.length} commands
+            {result.health.capabilities.direct_delivery ? ' · LAN delivery on' : ''}
+          </span>
+        </p>
+      )}
+      {result && !result.ok && (
+        <p className="flex items-center space-x-2 text-sm text-red-400">
+          <XCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{result.error}</span>
+        </p>
+      )}
+    </div>
+  );
+};
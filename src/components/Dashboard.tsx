@@ -1,94 +1,381 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
-import { LogOut, Plus, Monitor, Wifi, WifiOff, Mic, Music, Users, Trash2, Edit2, Settings } from 'lucide-react';
-import type { Database } from '../lib/supabase';
+import { useToast } from '../contexts/ToastContext';
+import { useCommandTypes } from '../contexts/CommandTypesContext';
+import type { CommandType } from '../contexts/CommandTypesContext';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import {
+  formatElapsed,
+  getCommandProgress,
+  getIdempotencyKey,
+  isCommandStuck,
+} from '../lib/commands';
+import { getErrorMessage } from '../lib/repository';
+import type {
+  Broadcast,
+  Command,
+  DeviceGroupWithMembers,
+  DeviceWithTeams,
+  MacroWithSteps,
+  RoomWithDevices,
+  Team,
+} from '../lib/repository';
+import { getCommandIcon } from '../lib/commandIcons';
+import { getUnavailableReason } from '../lib/deviceState';
+import { sendDirect } from '../lib/directDelivery';
+import { hasSchemaProperties, validateJsonSchema } from '../lib/jsonSchema';
+import { runMacro } from '../lib/macroRunner';
+import { syncConfiguredRooms } from '../lib/rooms';
+import type { MacroStepProgress } from '../lib/macroRunner';
+import { LogOut, Plus, Monitor, MonitorPlay, DoorOpen, BarChart3, Wifi, WifiOff, Users, Trash2, Edit2, History, CalendarClock, ListOrdered, Layers, CheckSquare, Square, KeyRound, Link2, Share2 } from 'lucide-react';
+import { Analytics } from './Analytics';
+import { BroadcastResults } from './BroadcastResults';
+import { CommandHistory } from './CommandHistory';
+import type { HistoryScope } from './CommandHistory';
+import { CommandStatus } from './CommandStatus';
+import { ConnectionTest } from './ConnectionTest';
+import { DeviceCredentials } from './DeviceCredentials';
+import { DeviceGroups } from './DeviceGroups';
+import { DeviceSharing } from './DeviceSharing';
+import { MacroRunPanel } from './MacroRunPanel';
+import { MeetingState } from './MeetingState';
+import { NowPlaying } from './NowPlaying';
+import { PairDeviceModal } from './PairDeviceModal';
+import { RoomPanel } from './RoomPanel';
+import { Rooms } from './Rooms';
+import type { ActiveMacroRun } from './MacroRunPanel';
+import { LiveShow } from './LiveShow';
+import { Macros } from './Macros';
+import { Schedules } from './Schedules';
+import { SendCommandModal } from './SendCommandModal';
 import { Teams } from './Teams';
 
-type Device = Database['public']['Tables']['devices']['Row'] & {
-  team?: { name: string } | null;
-};
-type Command = Database['public']['Tables']['commands']['Row'];
+type Device = DeviceWithTeams;
 
 export const Dashboard: React.FC = () => {
   const { user, signOut } = useAuth();
+  const { showToast } = useToast();
+  const repository = useRepository();
+  const { commandTypes, getCommandType, getCommandLabel } = useCommandTypes();
+  const { canSendCommand, reload: reloadPermissions } = usePermissions();
   const [devices, setDevices] = useState<Device[]>([]);
+  const [commandRequest, setCommandRequest] = useState<{ device: Device; commandType: CommandType } | null>(null);
+  const [recentCommands, setRecentCommands] = useState<Record<string, Command>>({});
+  // Latest command per device, mirrored for the realtime callback.
+  const recentCommandsRef = useRef<Record<string, Command>>({});
+  const stuckNotifiedRef = useRef(new Set<string>());
+  const [now, setNow] = useState(() => Date.now());
   const [showAddDevice, setShowAddDevice] = useState(false);
   const [selectedDevice, setSelectedDevice] = useState<Device | null>(null);
   const [showTeams, setShowTeams] = useState(false);
+  const [historyScope, setHistoryScope] = useState<HistoryScope | null>(null);
+  const [scheduleDevice, setScheduleDevice] = useState<Device | null>(null);
+  const [credentialsDevice, setCredentialsDevice] = useState<Device | null>(null);
+  const [sharingDevice, setSharingDevice] = useState<Device | null>(null);
+  const [pairingDeviceId, setPairingDeviceId] = useState<string | null>(null);
+  const [showMacros, setShowMacros] = useState(false);
+  const [macroRun, setMacroRun] = useState<ActiveMacroRun | null>(null);
+  const macroAbortRef = useRef<AbortController | null>(null);
+  const [groups, setGroups] = useState<DeviceGroupWithMembers[]>([]);
+  const [groupsModal, setGroupsModal] = useState<{ initialDeviceIds?: string[] } | null>(null);
+  const [rooms, setRooms] = useState<RoomWithDevices[]>([]);
+  const [showRooms, setShowRooms] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showLive, setShowLive] = useState(false);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedDeviceIds, setSelectedDeviceIds] = useState<string[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [broadcastRequest, setBroadcastRequest] = useState<CommandType | null>(null);
+  const [broadcastResult, setBroadcastResult] = useState<{ broadcast: Broadcast; commands: Command[] } | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadDevices();
-    subscribeToCommands();
+    loadGroups();
+
+    const unsubscribeCommands = repository.commands.subscribe({ onCommand: trackCommand });
+    const unsubscribeDevices = repository.devices.subscribe((updated) => {
+      // Realtime rows carry no joins, so keep the loaded teams.
+      setDevices((current) =>
+        current.map((device) => (device.id === updated.id ? { ...updated, teams: device.teams } : device))
+      );
+    });
+
+    return () => {
+      unsubscribeCommands();
+      unsubscribeDevices();
+    };
   }, []);
 
+  const macroRunning = macroRun?.status === 'running';
+  const pairingDevice = devices.find((device) => device.id === pairingDeviceId);
+
+  const hasDevices = devices.length > 0;
+
+  useEffect(() => {
+    if (!hasDevices && !macroRunning) return;
+
+    // Keep last-seen and elapsed times and stuck flags current.
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasDevices, macroRunning]);
+
+  useEffect(() => {
+    Object.values(recentCommands).forEach((command) => {
+      if (command.sent_by !== user?.id || stuckNotifiedRef.current.has(command.id)) return;
+      if (isCommandStuck(command, now)) {
+        stuckNotifiedRef.current.add(command.id);
+        const device = devices.find((d) => d.id === command.device_id);
+        showToast(
+          `${getCommandLabel(command.command_type)} is stuck ${command.status}${device ? ` on ${device.name}` : ''}`,
+          'warning'
+        );
+      }
+    });
+  }, [now, recentCommands, devices, user, showToast, getCommandLabel]);
+
+  const trackCommand = (command: Command) => {
+    const existing = recentCommandsRef.current[command.device_id];
+    if (existing) {
+      if (existing.id !== command.id && existing.sent_at > command.sent_at) return;
+      // The insert response can arrive after the agent's first status update.
+      if (existing.id === command.id && getCommandProgress(existing) > getCommandProgress(command)) return;
+      // Macro steps and broadcasts report through their own views instead of toasts.
+      if (
+        existing.id === command.id &&
+        existing.status !== command.status &&
+        command.sent_by === user?.id &&
+        !command.macro_run_id &&
+        !command.broadcast_id
+      ) {
+        notifyStatusChange(command);
+      }
+    }
+
+    recentCommandsRef.current = { ...recentCommandsRef.current, [command.device_id]: command };
+    setRecentCommands(recentCommandsRef.current);
+    setNow(Date.now());
+  };
+
+  const notifyStatusChange = (command: Command) => {
+    const label = getCommandLabel(command.command_type);
+    if (command.status === 'executed') {
+      showToast(`${label} executed`, 'success');
+    } else if (command.status === 'failed') {
+      showToast(command.error_message ? `${label} failed: ${command.error_message}` : `${label} failed`, 'error');
+    } else if (command.status === 'expired') {
+      showToast(`${label} expired before the device picked it up`, 'warning');
+    }
+  };
+
+  const loadRecentCommands = async (deviceIds: string[]) => {
+    if (deviceIds.length === 0) return;
+
+    let commands: Command[];
+    try {
+      commands = await repository.commands.listRecent(deviceIds, deviceIds.length * 5);
+    } catch (error) {
+      console.error('Error loading recent commands:', error);
+      return;
+    }
+
+    const latest: Record<string, Command> = {};
+    for (const command of commands) {
+      if (!latest[command.device_id]) latest[command.device_id] = command;
+    }
+    recentCommandsRef.current = { ...latest, ...recentCommandsRef.current };
+    setRecentCommands(recentCommandsRef.current);
+  };
+
   const loadDevices = async () => {
-    const { data, error } = await supabase
-      .from('devices')
-      .select(`
-        *,
-        team:teams(name)
-      `)
-      .order('created_at', { ascending: false });
-
-    if (error) {
+    try {
+      const data = await repository.devices.list();
+      setDevices(data);
+      loadRecentCommands(data.map((device) => device.id));
+      loadRooms(data.map((device) => device.id));
+    } catch (error) {
       console.error('Error loading devices:', error);
-    } else {
-      setDevices(data || []);
     }
     setLoading(false);
   };
 
-  const subscribeToCommands = () => {
-    const channel = supabase
-      .channel('commands_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'commands',
-        },
-        () => {
-          loadDevices();
-        }
-      )
-      .subscribe();
+  /** Also creates the configured rooms once the user can see their devices. */
+  const loadRooms = async (visibleDeviceIds?: string[]) => {
+    try {
+      const data = await repository.rooms.list();
+      if (user && visibleDeviceIds && (await syncConfiguredRooms(repository.rooms, data, visibleDeviceIds, user.id)) > 0) {
+        setRooms(await repository.rooms.list());
+      } else {
+        setRooms(data);
+      }
+    } catch (error) {
+      console.error('Error loading rooms:', error);
+    }
+  };
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
+  const loadGroups = async () => {
+    try {
+      setGroups(await repository.groups.list());
+    } catch (error) {
+      console.error('Error loading device groups:', error);
+    }
+  };
+
+  const toggleDeviceSelected = (deviceId: string) => {
+    setSelectedGroupId(null);
+    setSelectedDeviceIds((current) =>
+      current.includes(deviceId) ? current.filter((id) => id !== deviceId) : [...current, deviceId]
+    );
+  };
+
+  const selectGroup = (group: DeviceGroupWithMembers) => {
+    setSelecting(true);
+    setSelectedGroupId(group.id);
+    // Members the user can no longer see are left out.
+    setSelectedDeviceIds(
+      group.members.map((member) => member.device_id).filter((id) => devices.some((device) => device.id === id))
+    );
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedDeviceIds([]);
+    setSelectedGroupId(null);
+  };
+
+  const selectedDevices = devices.filter((device) => selectedDeviceIds.includes(device.id));
+
+  const requestBroadcast = (commandType: CommandType) => {
+    if (hasSchemaProperties(commandType.payload_schema) || commandType.requires_confirmation) {
+      setBroadcastRequest(commandType);
+    } else {
+      broadcastCommand(commandType.id);
+    }
+  };
+
+  const broadcastCommand = async (commandType: string, payload: Record<string, unknown> = {}) => {
+    if (!user || selectedDeviceIds.length === 0) return;
+
+    const schema = getCommandType(commandType)?.payload_schema;
+    const problems = schema ? validateJsonSchema(schema, payload) : [];
+    if (problems.length > 0) {
+      showToast(problems[0], 'error');
+      return;
+    }
+
+    try {
+      const result = await repository.commands.broadcast({
+        deviceIds: selectedDeviceIds,
+        commandType,
+        payload,
+        userId: user.id,
+        groupId: selectedGroupId,
+        idempotencyKey: getIdempotencyKey(
+          JSON.stringify(['broadcast', [...selectedDeviceIds].sort(), commandType, payload])
+        ),
+      });
+
+      if (result.duplicate) showToast(`${getCommandLabel(commandType)} was already sent`, 'info');
+      result.commands.forEach(trackCommand);
+      setBroadcastResult(result);
+    } catch (error) {
+      console.error('Error sending broadcast:', error);
+      showToast(getErrorMessage(error, 'Failed to send command'), 'error');
+    }
+  };
+
+  const requestCommand = (device: Device, commandType: CommandType) => {
+    if (hasSchemaProperties(commandType.payload_schema) || commandType.requires_confirmation) {
+      setCommandRequest({ device, commandType });
+    } else {
+      sendCommand(device.id, commandType.id);
+    }
   };
 
-  const sendCommand = async (deviceId: string, commandType: 'unmute_zoom' | 'next_track') => {
+  const sendCommand = async (deviceId: string, commandType: string, payload: Record<string, unknown> = {}) => {
     if (!user) return;
 
-    const { error } = await supabase.from('commands').insert({
-      device_id: deviceId,
-      command_type: commandType,
-      sent_by: user.id,
-      status: 'pending',
-    });
+    const schema = getCommandType(commandType)?.payload_schema;
+    const problems = schema ? validateJsonSchema(schema, payload) : [];
+    if (problems.length > 0) {
+      showToast(problems[0], 'error');
+      return;
+    }
 
-    if (error) {
+    const idempotencyKey = getIdempotencyKey(JSON.stringify([deviceId, commandType, payload]));
+    const device = devices.find((d) => d.id === deviceId);
+    const request = { command_type: commandType, payload, sent_by: user.id, idempotency_key: idempotencyKey };
+
+    const direct = device ? await sendDirect(repository.devices, device, request) : null;
+    if (direct) {
+      // A duplicate is already on the card from the first click.
+      if (direct.command) trackCommand(direct.command);
+      showToast(`${getCommandLabel(commandType)} ${direct.duplicate ? 'was already sent' : 'sent directly'}`, 'info');
+      return;
+    }
+
+    try {
+      const { command, duplicate } = await repository.commands.send({
+        ...request,
+        device_id: deviceId,
+        status: 'pending',
+      });
+
+      trackCommand(command);
+      showToast(`${getCommandLabel(commandType)} ${duplicate ? 'was already sent' : 'sent'}`, 'info');
+    } catch (error) {
       console.error('Error sending command:', error);
-      alert('Failed to send command');
-    } else {
-      alert('Command sent successfully!');
+      showToast(getErrorMessage(error, 'Failed to send command'), 'error');
+    }
+  };
+
+  const startMacro = async (macro: MacroWithSteps) => {
+    if (!user || macroAbortRef.current) return;
+
+    const controller = new AbortController();
+    macroAbortRef.current = controller;
+    setMacroRun({ macro, progress: {}, status: 'running', error: null });
+
+    const updateProgress = (stepId: string, update: Partial<MacroStepProgress>) => {
+      setMacroRun((current) => {
+        if (!current) return current;
+        const previous = current.progress[stepId] ?? { state: 'waiting', command: null, error: null };
+        return { ...current, progress: { ...current.progress, [stepId]: { ...previous, ...update } } };
+      });
+    };
+
+    const result = await runMacro({
+      macroId: macro.id,
+      steps: macro.steps,
+      userId: user.id,
+      repository,
+      signal: controller.signal,
+      onRunStarted: () => showToast(`${macro.name} started`, 'info'),
+      onStepUpdate: updateProgress,
+    });
+
+    macroAbortRef.current = null;
+    setMacroRun((current) => (current ? { ...current, status: result.status, error: result.error } : current));
+
+    if (result.status === 'completed' && result.error) {
+      showToast(`${macro.name} finished: ${result.error}`, 'warning');
+    } else if (result.status === 'completed') {
+      showToast(`${macro.name} completed`, 'success');
+    } else if (result.status === 'failed') {
+      showToast(`${macro.name} failed`, 'error');
     }
   };
 
   const deleteDevice = async (deviceId: string) => {
     if (!confirm('Are you sure you want to delete this device?')) return;
 
-    const { error } = await supabase.from('devices').delete().eq('id', deviceId);
-
-    if (error) {
-      console.error('Error deleting device:', error);
-      alert('Failed to delete device');
-    } else {
+    try {
+      await repository.devices.remove(deviceId);
       loadDevices();
+    } catch (error) {
+      console.error('Error deleting device:', error);
+      showToast(getErrorMessage(error, 'Failed to delete device'), 'error');
     }
   };
 
@@ -131,6 +418,34 @@ export const Dashboard: React.FC = () => {
               </div>
               <div className="flex items-center space-x-4">
                 <span className="text-sm text-cyan-300">{user?.email}</span>
+                <button
+                  onClick={() => setShowLive(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                >
+                  <MonitorPlay className="w-4 h-4" />
+                  <span>Live</span>
+                </button>
+                <button
+                  onClick={() => setShowRooms(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                >
+                  <DoorOpen className="w-4 h-4" />
+                  <span>Rooms</span>
+                </button>
+                <button
+                  onClick={() => setShowMacros(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                >
+                  <ListOrdered className="w-4 h-4" />
+                  <span>Macros</span>
+                </button>
+                <button
+                  onClick={() => setShowAnalytics(true)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                >
+                  <BarChart3 className="w-4 h-4" />
+                  <span>Analytics</span>
+                </button>
                 <button
                   onClick={() => setShowTeams(true)}
                   className="flex items-center space-x-2 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
@@ -151,6 +466,27 @@ export const Dashboard: React.FC = () => {
         </nav>
 
         <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {rooms.length > 0 && (
+            <section className="mb-10">
+              <h2 className="text-3xl font-bold text-white mb-2">Rooms</h2>
+              <p className="text-cyan-300 mb-6">Control a room without picking the device that runs each command</p>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {rooms.map((room) => (
+                  <RoomPanel
+                    key={room.id}
+                    room={room}
+                    devices={devices}
+                    commandTypes={commandTypes}
+                    recentCommands={recentCommands}
+                    now={now}
+                    canSendCommand={canSendCommand}
+                    onCommand={requestCommand}
+                  />
+                ))}
+              </div>
+            </section>
+          )}
+
           <div className="flex justify-between items-center mb-8">
             <div>
               <h2 className="text-3xl font-bold text-white mb-2">Your Devices</h2>
@@ -165,6 +501,53 @@ export const Dashboard: React.FC = () => {
             </button>
           </div>
 
+          {macroRun && (
+            <MacroRunPanel
+              run={macroRun}
+              devices={devices}
+              now={now}
+              onCancel={() => macroAbortRef.current?.abort()}
+              onDismiss={() => setMacroRun(null)}
+            />
+          )}
+
+          {devices.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+              <button
+                onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+                className={`flex items-center space-x-2 px-4 py-2 border rounded-lg transition-all ${
+                  selecting
+                    ? 'bg-cyan-500/20 border-cyan-500/50 text-white'
+                    : 'bg-slate-800/50 hover:bg-slate-800 border-cyan-500/30 text-cyan-300'
+                }`}
+              >
+                <CheckSquare className="w-4 h-4" />
+                <span>{selecting ? 'Done Selecting' : 'Select Devices'}</span>
+              </button>
+              {groups.map((group) => (
+                <button
+                  key={group.id}
+                  onClick={() => selectGroup(group)}
+                  className={`px-3 py-2 border rounded-lg text-sm transition-all ${
+                    selectedGroupId === group.id
+                      ? 'bg-cyan-500/20 border-cyan-500/50 text-white'
+                      : 'bg-slate-800/30 hover:bg-slate-800/50 border-cyan-500/20 text-cyan-300'
+                  }`}
+                >
+                  {group.name}
+                  <span className="ml-1 opacity-60">({group.members.length})</span>
+                </button>
+              ))}
+              <button
+                onClick={() => setGroupsModal({})}
+                className="flex items-center space-x-2 px-3 py-2 hover:bg-slate-800/50 rounded-lg text-cyan-400 text-sm transition-all"
+              >
+                <Layers className="w-4 h-4" />
+                <span>Manage Groups</span>
+              </button>
+            </div>
+          )}
+
           {loading ? (
             <div className="text-center py-12">
               <div className="inline-block w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
@@ -187,21 +570,61 @@ export const Dashboard: React.FC = () => {
               {devices.map((device) => (
                 <div
                   key={device.id}
-                  className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-2xl p-6 hover:border-cyan-500/40 transition-all group"
+                  className={`backdrop-blur-xl bg-white/5 border rounded-2xl p-6 hover:border-cyan-500/40 transition-all group ${
+                    selecting && selectedDeviceIds.includes(device.id)
+                      ? 'border-cyan-400/70 ring-2 ring-cyan-500/30'
+                      : 'border-cyan-500/20'
+                  }`}
                 >
                   <div className="flex items-start justify-between mb-4">
                     <div className="flex-1">
                       <div className="flex items-center space-x-2 mb-2">
+                        {selecting && (
+                          <button
+                            onClick={() => toggleDeviceSelected(device.id)}
+                            className="text-cyan-400 hover:text-cyan-300"
+                            title={selectedDeviceIds.includes(device.id) ? 'Deselect' : 'Select'}
+                          >
+                            {selectedDeviceIds.includes(device.id) ? (
+                              <CheckSquare className="w-5 h-5" />
+                            ) : (
+                              <Square className="w-5 h-5" />
+                            )}
+                          </button>
+                        )}
                         <h3 className="text-lg font-semibold text-white">{device.name}</h3>
-                        {device.team && (
-                          <span className="inline-flex items-center space-x-1 px-2 py-1 bg-cyan-500/10 border border-cyan-500/30 rounded-md text-xs text-cyan-400">
+                        {device.teams.map(({ team_id, team }) => (
+                          <span
+                            key={team_id}
+                            className="inline-flex items-center space-x-1 px-2 py-1 bg-cyan-500/10 border border-cyan-500/30 rounded-md text-xs text-cyan-400"
+                          >
                             <Users className="w-3 h-3" />
-                            <span>{device.team.name}</span>
+                            <span>{team?.name ?? 'Team'}</span>
                           </span>
-                        )}
+                        ))}
                       </div>
                       <p className="text-sm text-cyan-300/70">
-                        {device.ip_address}:{device.port}
+                        {device.paired_at ? (
+                          `${device.ip_address ?? 'Unknown address'}${device.port ? `:${device.port}` : ''}${
+                            device.direct_delivery ? ' · LAN delivery' : ''
+                          }`
+                        ) : (
+                          <span className="inline-flex items-center space-x-2">
+                            <span className="text-amber-400">Not paired</span>
+                            {device.owner_id === user?.id && (
+                              <button
+                                onClick={() => setPairingDeviceId(device.id)}
+                                className="inline-flex items-center space-x-1 text-cyan-400 hover:text-cyan-300"
+                              >
+                                <Link2 className="w-3 h-3" />
+                                <span>Pair</span>
+                              </button>
+                            )}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-slate-400 mt-1">
+                        {device.last_seen ? `Last seen ${formatElapsed(device.last_seen, now)}` : 'Never seen'}
                       </p>
                     </div>
                     <div className={`flex items-center space-x-1 px-2 py-1 rounded-lg border ${getStatusColor(device.status)}`}>
@@ -210,31 +633,93 @@ export const Dashboard: React.FC = () => {
                     </div>
                   </div>
 
+                  {/* Live state is only current while the agent is connected. */}
+                  {device.status === 'online' && (device.zoom_state || device.now_playing) && (
+                    <div className="mb-3 space-y-2">
+                      {device.zoom_state && <MeetingState zoomState={device.zoom_state} />}
+                      {device.now_playing && (
+                        <NowPlaying nowPlaying={device.now_playing} reportedAt={device.now_playing_at} now={now} />
+                      )}
+                    </div>
+                  )}
+
+                  {recentCommands[device.id] && (
+                    <div className="mb-3">
+                      <CommandStatus command={recentCommands[device.id]} now={now} />
+                    </div>
+                  )}
+
                   <div className="space-y-2 mb-4">
+                    {commandTypes.map((commandType) => {
+                      const Icon = getCommandIcon(commandType.icon);
+                      const allowed = canSendCommand(device, commandType.id);
+                      const unavailableReason = getUnavailableReason(commandType, device);
+                      return (
+                        <button
+                          key={commandType.id}
+                          onClick={() => requestCommand(device, commandType)}
+                          disabled={!allowed || unavailableReason !== null}
+                          title={
+                            !allowed
+                              ? 'Your team role cannot send this command'
+                              : unavailableReason ?? commandType.description ?? undefined
+                          }
+                          className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-slate-800/50 hover:bg-cyan-500/20 border border-cyan-500/30 hover:border-cyan-500/50 rounded-lg text-cyan-300 hover:text-cyan-200 transition-all disabled:opacity-40 disabled:hover:bg-slate-800/50 disabled:hover:border-cyan-500/30 disabled:cursor-not-allowed"
+                        >
+                          <Icon className="w-4 h-4" />
+                          <span>{commandType.label}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-cyan-500/10">
                     <button
-                      onClick={() => sendCommand(device.id, 'unmute_zoom')}
-                      className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-slate-800/50 hover:bg-cyan-500/20 border border-cyan-500/30 hover:border-cyan-500/50 rounded-lg text-cyan-300 hover:text-cyan-200 transition-all"
+                      onClick={() => setSelectedDevice(device)}
+                      className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-slate-800/30 hover:bg-slate-800/50 border border-cyan-500/20 hover:border-cyan-500/40 rounded-lg text-cyan-400 text-sm transition-all"
                     >
-                      <Mic className="w-4 h-4" />
-                      <span>Unmute Zoom Audio</span>
+                      <Edit2 className="w-3 h-3" />
+                      <span>Edit</span>
                     </button>
                     <button
-                      onClick={() => sendCommand(device.id, 'next_track')}
-                      className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-slate-800/50 hover:bg-cyan-500/20 border border-cyan-500/30 hover:border-cyan-500/50 rounded-lg text-cyan-300 hover:text-cyan-200 transition-all"
+                      onClick={() =>
+                        setHistoryScope({
+                          kind: 'device',
+                          id: device.id,
+                          name: device.name,
+                          teamIds: device.teams.map(({ team_id }) => team_id),
+                        })
+                      }
+                      className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-slate-800/30 hover:bg-slate-800/50 border border-cyan-500/20 hover:border-cyan-500/40 rounded-lg text-cyan-400 text-sm transition-all"
                     >
-                      <Music className="w-4 h-4" />
-                      <span>Next AIMP Track</span>
+                      <History className="w-3 h-3" />
+                      <span>History</span>
                     </button>
-                  </div>
-
-                  <div className="flex items-center space-x-2 pt-4 border-t border-cyan-500/10">
                     <button
-                      onClick={() => setSelectedDevice(device)}
+                      onClick={() => setScheduleDevice(device)}
                       className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-slate-800/30 hover:bg-slate-800/50 border border-cyan-500/20 hover:border-cyan-500/40 rounded-lg text-cyan-400 text-sm transition-all"
                     >
-                      <Edit2 className="w-3 h-3" />
-                      <span>Edit</span>
+                      <CalendarClock className="w-3 h-3" />
+                      <span>Schedule</span>
                     </button>
+                    {device.owner_id === user?.id && (
+                      <button
+                        onClick={() => setSharingDevice(device)}
+                        className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-slate-800/30 hover:bg-slate-800/50 border border-cyan-500/20 hover:border-cyan-500/40 rounded-lg text-cyan-400 text-sm transition-all"
+                      >
+                        <Share2 className="w-3 h-3" />
+                        <span>Share</span>
+                      </button>
+                    )}
+                    {device.owner_id === user?.id && (
+                      <button
+                        onClick={() => setCredentialsDevice(device)}
+                        className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-slate-800/30 hover:bg-slate-800/50 border border-cyan-500/20 hover:border-cyan-500/40 rounded-lg text-cyan-400 text-sm transition-all"
+                      >
+                        <KeyRound className="w-3 h-3" />
+                        <span>Keys</span>
+                      </button>
+                    )}
                     <button
                       onClick={() => deleteDevice(device.id)}
                       className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-red-900/20 hover:bg-red-900/30 border border-red-500/20 hover:border-red-500/40 rounded-lg text-red-400 text-sm transition-all"
@@ -250,11 +735,47 @@ export const Dashboard: React.FC = () => {
         </main>
       </div>
 
+      {selecting && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 max-w-[calc(100vw-2rem)]">
+          <div className="flex flex-wrap items-center gap-2 px-4 py-3 backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl shadow-2xl shadow-cyan-500/20">
+            <span className="text-sm text-cyan-300 mr-2">
+              {selectedDeviceIds.length} selected
+            </span>
+            {commandTypes.map((commandType) => {
+              const Icon = getCommandIcon(commandType.icon);
+              return (
+                <button
+                  key={commandType.id}
+                  onClick={() => requestBroadcast(commandType)}
+                  disabled={
+                    selectedDeviceIds.length === 0 ||
+                    !selectedDevices.every((device) => canSendCommand(device, commandType.id))
+                  }
+                  title={commandType.description ?? undefined}
+                  className="flex items-center space-x-2 px-3 py-2 bg-slate-800/50 hover:bg-cyan-500/20 border border-cyan-500/30 hover:border-cyan-500/50 rounded-lg text-cyan-300 hover:text-cyan-200 text-sm transition-all disabled:opacity-50"
+                >
+                  <Icon className="w-4 h-4" />
+                  <span>{commandType.label}</span>
+                </button>
+              );
+            })}
+            <button
+              onClick={() => setGroupsModal({ initialDeviceIds: selectedDeviceIds })}
+              disabled={selectedDeviceIds.length === 0}
+              className="px-3 py-2 hover:bg-slate-800/50 rounded-lg text-cyan-400 text-sm transition-all disabled:opacity-50"
+            >
+              Save as Group
+            </button>
+          </div>
+        </div>
+      )}
+
       {showAddDevice && (
         <AddDeviceModal
           onClose={() => setShowAddDevice(false)}
-          onSuccess={() => {
+          onSuccess={(device) => {
             setShowAddDevice(false);
+            setPairingDeviceId(device.id);
             loadDevices();
           }}
         />
@@ -271,42 +792,162 @@ export const Dashboard: React.FC = () => {
         />
       )}
 
-      {showTeams && <Teams onClose={() => setShowTeams(false)} />}
+      {showTeams && (
+        <Teams
+          onClose={() => {
+            setShowTeams(false);
+            // Accepting an invitation can make team devices visible.
+            loadDevices();
+            reloadPermissions();
+          }}
+        />
+      )}
+
+      {showMacros && (
+        <Macros
+          devices={devices}
+          running={macroRunning}
+          onRun={startMacro}
+          onClose={() => setShowMacros(false)}
+        />
+      )}
+
+      {showLive && (
+        <LiveShow
+          rooms={rooms}
+          devices={devices}
+          commandTypes={commandTypes}
+          recentCommands={recentCommands}
+          now={now}
+          canSendCommand={canSendCommand}
+          onCommand={requestCommand}
+          paused={commandRequest !== null}
+          onClose={() => setShowLive(false)}
+        />
+      )}
+
+      {commandRequest && (
+        <SendCommandModal
+          commandType={commandRequest.commandType}
+          targetName={commandRequest.device.name}
+          onClose={() => setCommandRequest(null)}
+          onSend={async (payload) => {
+            await sendCommand(commandRequest.device.id, commandRequest.commandType.id, payload);
+            setCommandRequest(null);
+          }}
+        />
+      )}
+
+      {broadcastRequest && (
+        <SendCommandModal
+          commandType={broadcastRequest}
+          targetName={`${selectedDeviceIds.length} devices`}
+          onClose={() => setBroadcastRequest(null)}
+          onSend={async (payload) => {
+            await broadcastCommand(broadcastRequest.id, payload);
+            setBroadcastRequest(null);
+          }}
+        />
+      )}
+
+      {broadcastResult && (
+        <BroadcastResults
+          broadcast={broadcastResult.broadcast}
+          commands={broadcastResult.commands}
+          devices={devices}
+          onClose={() => setBroadcastResult(null)}
+        />
+      )}
+
+      {groupsModal && (
+        <DeviceGroups
+          groups={groups}
+          devices={devices}
+          initialDeviceIds={groupsModal.initialDeviceIds}
+          onChanged={loadGroups}
+          onClose={() => setGroupsModal(null)}
+        />
+      )}
+
+      {showRooms && (
+        <Rooms rooms={rooms} devices={devices} onChanged={() => loadRooms()} onClose={() => setShowRooms(false)} />
+      )}
+
+      {pairingDevice && <PairDeviceModal device={pairingDevice} onClose={() => setPairingDeviceId(null)} />}
+
+      {credentialsDevice && (
+        <DeviceCredentials device={credentialsDevice} onClose={() => setCredentialsDevice(null)} />
+      )}
+
+      {sharingDevice && (
+        <DeviceSharing
+          device={sharingDevice}
+          onChanged={loadDevices}
+          onTransferred={() => {
+            setSharingDevice(null);
+            loadDevices();
+          }}
+          onClose={() => setSharingDevice(null)}
+        />
+      )}
+
+      {scheduleDevice && <Schedules device={scheduleDevice} onClose={() => setScheduleDevice(null)} />}
+
+      {showAnalytics && <Analytics devices={devices} onClose={() => setShowAnalytics(false)} />}
+
+      {historyScope && <CommandHistory scope={historyScope} onClose={() => setHistoryScope(null)} />}
     </div>
   );
 };
 
 interface AddDeviceModalProps {
   onClose: () => void;
-  onSuccess: () => void;
+  onSuccess: (device: Device) => void;
 }
 
 const AddDeviceModal: React.FC<AddDeviceModalProps> = ({ onClose, onSuccess }) => {
   const { user } = useAuth();
+  const { showToast } = useToast();
+  const repository = useRepository();
+  const { roles } = usePermissions();
   const [name, setName] = useState('');
-  const [ipAddress, setIpAddress] = useState('');
-  const [port, setPort] = useState('');
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [teamIds, setTeamIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    repository.teams
+      .list()
+      .then(setTeams)
+      .catch((error) => console.error('Error loading teams:', error));
+  }, [repository]);
+
+  // Teams with a pending invitation are visible too, but the device can only be shared with teams the user is in.
+  const memberTeams = teams.filter((team) => roles[team.id]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
     setLoading(true);
-    const { error } = await supabase.from('devices').insert({
-      name,
-      ip_address: ipAddress,
-      port: parseInt(port),
-      owner_id: user.id,
-    });
-
-    if (error) {
+    let device: Device;
+    try {
+      device = { ...(await repository.devices.create(name, user.id)), teams: [] };
+    } catch (error) {
       console.error('Error adding device:', error);
-      alert('Failed to add device');
+      showToast(getErrorMessage(error, 'Failed to add device'), 'error');
       setLoading(false);
-    } else {
-      onSuccess();
+      return;
+    }
+
+    try {
+      await repository.devices.share(device.id, teamIds, user.id);
+    } catch (error) {
+      console.error('Error sharing device:', error);
+      showToast('Device added, but sharing with teams failed', 'warning');
     }
+
+    onSuccess(device);
   };
 
   return (
@@ -325,30 +966,32 @@ const AddDeviceModal: React.FC<AddDeviceModalProps> = ({ onClose, onSuccess }) =
               required
             />
           </div>
-          <div>
-            <label className="block text-sm font-medium text-cyan-300 mb-2">IP Address</label>
-            <input
-              type="text"
-              value={ipAddress}
-              onChange={(e) => setIpAddress(e.target.value)}
-              className="w-full px-4 py-3 bg-slate-800/50 border border-cyan-500/30 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
-              placeholder="192.168.1.100"
-              required
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-cyan-300 mb-2">Port</label>
-            <input
-              type="number"
-              value={port}
-              onChange={(e) => setPort(e.target.value)}
-              className="w-full px-4 py-3 bg-slate-800/50 border border-cyan-500/30 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
-              placeholder="8080"
-              min="1"
-              max="65535"
-              required
-            />
-          </div>
+          {memberTeams.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-cyan-300 mb-2">Share with Teams</label>
+              <div className="space-y-2">
+                {memberTeams.map((team) => (
+                  <label key={team.id} className="flex items-center space-x-3 text-sm text-white cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={teamIds.includes(team.id)}
+                      onChange={() =>
+                        setTeamIds((current) =>
+                          current.includes(team.id) ? current.filter((id) => id !== team.id) : [...current, team.id]
+                        )
+                      }
+                      className="w-4 h-4 accent-cyan-500"
+                    />
+                    <span>{team.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <p className="text-sm text-slate-400">
+            Next you pair the agent on this computer. There is no address to enter: the agent reports its own IP address
+            and port, and the pairing dialog checks the dashboard can reach it.
+          </p>
           <div className="flex space-x-3 pt-4">
             <button
               type="button"
@@ -378,30 +1021,26 @@ interface EditDeviceModalProps {
 }
 
 const EditDeviceModal: React.FC<EditDeviceModalProps> = ({ device, onClose, onSuccess }) => {
+  const { showToast } = useToast();
+  const repository = useRepository();
   const [name, setName] = useState(device.name);
-  const [ipAddress, setIpAddress] = useState(device.ip_address);
-  const [port, setPort] = useState(device.port.toString());
+  const [offlineAfter, setOfflineAfter] = useState(device.offline_after_seconds.toString());
   const [loading, setLoading] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
-    const { error } = await supabase
-      .from('devices')
-      .update({
+    try {
+      await repository.devices.update(device.id, {
         name,
-        ip_address: ipAddress,
-        port: parseInt(port),
-      })
-      .eq('id', device.id);
-
-    if (error) {
+        offline_after_seconds: parseInt(offlineAfter),
+      });
+      onSuccess();
+    } catch (error) {
       console.error('Error updating device:', error);
-      alert('Failed to update device');
+      showToast(getErrorMessage(error, 'Failed to update device'), 'error');
       setLoading(false);
-    } else {
-      onSuccess();
     }
   };
 
@@ -421,26 +1060,23 @@ const EditDeviceModal: React.FC<EditDeviceModalProps> = ({ device, onClose, onSu
             />
           </div>
           <div>
-            <label className="block text-sm font-medium text-cyan-300 mb-2">IP Address</label>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Offline After (seconds)</label>
             <input
-              type="text"
-              value={ipAddress}
-              onChange={(e) => setIpAddress(e.target.value)}
+              type="number"
+              value={offlineAfter}
+              onChange={(e) => setOfflineAfter(e.target.value)}
               className="w-full px-4 py-3 bg-slate-800/50 border border-cyan-500/30 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+              min="30"
+              max="86400"
               required
             />
+            <p className="mt-1 text-xs text-slate-400">Marked offline when no heartbeat arrives for this long</p>
           </div>
           <div>
-            <label className="block text-sm font-medium text-cyan-300 mb-2">Port</label>
-            <input
-              type="number"
-              value={port}
-              onChange={(e) => setPort(e.target.value)}
-              className="w-full px-4 py-3 bg-slate-800/50 border border-cyan-500/30 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
-              min="1"
-              max="65535"
-              required
-            />
+            <ConnectionTest device={device} />
+            <p className="mt-1 text-xs text-slate-400">
+              Reported by the agent. To move the device to another computer, pair that computer's agent.
+            </p>
           </div>
           <div className="flex space-x-3 pt-4">
             <button
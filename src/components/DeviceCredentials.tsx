@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { getErrorMessage } from '../lib/repository';
+import { Copy, KeyRound, Plus, RefreshCw, X, XCircle } from 'lucide-react';
+import type { DeviceCredential } from '../lib/repository';
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString() : 'Never');
+
+interface DeviceCredentialsProps {
+  device: { id: string; name: string };
+  onClose: () => void;
+}
+
+/**
+ * Agent credentials for one device. Tokens are only shown right after they
+ * are created or rotated; the database keeps a hash.
+ */
+export const DeviceCredentials: React.FC<DeviceCredentialsProps> = ({ device, onClose }) => {
+  const { showToast } = useToast();
+  const repository = useRepository();
+  const [credentials, setCredentials] = useState<DeviceCredential[]>([]);
+  const [label, setLabel] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadCredentials();
+  }, [device.id]);
+
+  const loadCredentials = async () => {
+    try {
+      setCredentials(await repository.credentials.list(device.id));
+    } catch (error) {
+      console.error('Error loading credentials:', error);
+    }
+    setLoading(false);
+  };
+
+  const createCredential = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setNewToken(await repository.credentials.create(device.id, label));
+      setLabel('');
+      loadCredentials();
+    } catch (error) {
+      console.error('Error creating credential:', error);
+      showToast(getErrorMessage(error, 'Failed to create credential'), 'error');
+    }
+  };
+
+  const rotateCredential = async (credential: DeviceCredential) => {
+    if (!confirm(`Rotate "${credential.label}"? The agent using it must be given the new token.`)) return;
+
+    try {
+      setNewToken(await repository.credentials.rotate(credential.id));
+      loadCredentials();
+    } catch (error) {
+      console.error('Error rotating credential:', error);
+      showToast(getErrorMessage(error, 'Failed to rotate credential'), 'error');
+    }
+  };
+
+  const revokeCredential = async (credential: DeviceCredential) => {
+    if (!confirm(`Revoke "${credential.label}"? The agent using it is disconnected immediately.`)) return;
+
+    try {
+      await repository.credentials.revoke(credential.id);
+      showToast('Credential revoked', 'success');
+      loadCredentials();
+    } catch (error) {
+      console.error('Error revoking credential:', error);
+      showToast(getErrorMessage(error, 'Failed to revoke credential'), 'error');
+    }
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    showToast('Token copied', 'success');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden shadow-2xl shadow-cyan-500/20">
+        <div className="flex items-center justify-between p-6 border-b border-cyan-500/20">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-cyan-500/50">
+              <KeyRound className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Agent Credentials</h2>
+              <p className="text-sm text-cyan-300">{device.name}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-800/50 rounded-lg text-cyan-300 transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-5rem)] space-y-6">
+          {newToken && (
+            <div className="p-4 rounded-lg bg-amber-500/10 border border-amber-500/30 space-y-2">
+              <p className="text-sm text-amber-300">
+                Copy this token into the agent's <code className="font-mono">AGENT_TOKEN</code>. It will not be shown again.
+              </p>
+              <div className="flex items-center space-x-2">
+                <code className="flex-1 px-3 py-2 bg-slate-950/60 rounded-lg text-xs text-white font-mono break-all">
+                  {newToken}
+                </code>
+                <button
+                  onClick={copyToken}
+                  className="p-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                  title="Copy"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={createCredential} className="flex space-x-2">
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              className="flex-1 px-4 py-2 bg-slate-800/50 border border-cyan-500/30 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+              placeholder="Label, e.g. Prime room PC"
+              required
+            />
+            <button
+              type="submit"
+              className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white font-medium rounded-lg shadow-lg shadow-cyan-500/30 transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Credential</span>
+            </button>
+          </form>
+
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
+            </div>
+          ) : credentials.length === 0 ? (
+            <p className="text-sm text-slate-400">No credentials yet. Create one for each agent that controls {device.name}.</p>
+          ) : (
+            <div className="space-y-2">
+              {credentials.map((credential) => (
+                <div
+                  key={credential.id}
+                  className={`flex items-center justify-between p-4 border rounded-lg ${
+                    credential.revoked_at ? 'bg-slate-800/10 border-slate-500/20 opacity-60' : 'bg-slate-800/30 border-cyan-500/20'
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <p className="text-white font-medium">{credential.label}</p>
+                      <code className="text-xs text-cyan-400 font-mono">{credential.token_prefix}…</code>
+                      {credential.revoked_at && (
+                        <span className="px-2 py-0.5 bg-red-500/10 border border-red-500/30 rounded-md text-xs text-red-400">
+                          Revoked
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-cyan-300/70 mt-1">
+                      Created {formatTimestamp(credential.created_at)} · Last used {formatTimestamp(credential.last_used_at)}
+                    </p>
+                  </div>
+                  {!credential.revoked_at && (
+                    <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                      <button
+                        onClick={() => rotateCredential(credential)}
+                        className="p-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                        title="Rotate"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => revokeCredential(credential)}
+                        className="p-2 bg-red-900/20 hover:bg-red-900/30 border border-red-500/20 hover:border-red-500/40 rounded-lg text-red-400 transition-all"
+                        title="Revoke"
+                      >
+                        <XCircle className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
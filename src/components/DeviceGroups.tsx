@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { getErrorMessage } from '../lib/repository';
+import { Edit2, Layers, Plus, Trash2, Users, X } from 'lucide-react';
+import type { DeviceGroupWithMembers, Team } from '../lib/repository';
+
+interface DeviceGroupsProps {
+  groups: DeviceGroupWithMembers[];
+  devices: { id: string; name: string }[];
+  initialDeviceIds?: string[];
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+export const DeviceGroups: React.FC<DeviceGroupsProps> = ({ groups, devices, initialDeviceIds, onChanged, onClose }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { isTeamAdmin } = usePermissions();
+  const repository = useRepository();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [editing, setEditing] = useState<DeviceGroupWithMembers | 'new' | null>(initialDeviceIds ? 'new' : null);
+
+  useEffect(() => {
+    loadTeams();
+  }, []);
+
+  const loadTeams = async () => {
+    try {
+      setTeams(await repository.teams.list());
+    } catch (error) {
+      console.error('Error loading teams:', error);
+    }
+  };
+
+  const deleteGroup = async (group: DeviceGroupWithMembers) => {
+    if (!confirm(`Delete group "${group.name}"?`)) return;
+
+    try {
+      await repository.groups.remove(group.id);
+      onChanged();
+    } catch (error) {
+      console.error('Error deleting device group:', error);
+      showToast(getErrorMessage(error, 'Failed to delete group'), 'error');
+    }
+  };
+
+  const canEdit = (group: DeviceGroupWithMembers) => group.owner_id === user?.id || isTeamAdmin(group.team_id);
+
+  const getDeviceName = (deviceId: string) => devices.find((device) => device.id === deviceId)?.name ?? 'Unknown device';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden shadow-2xl shadow-cyan-500/20">
+        <div className="flex items-center justify-between p-6 border-b border-cyan-500/20">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-cyan-500/50">
+              <Layers className="w-6 h-6 text-white" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Device Groups</h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setEditing('new')}
+              className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white font-medium rounded-lg shadow-lg shadow-cyan-500/30 transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Group</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-slate-800/50 rounded-lg text-cyan-300 transition-all"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-5rem)]">
+          {groups.length === 0 ? (
+            <div className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-xl p-8 text-center">
+              <Layers className="w-12 h-12 text-cyan-400/50 mx-auto mb-3" />
+              <p className="text-cyan-300">No device groups yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {groups.map((group) => (
+                <div
+                  key={group.id}
+                  className="flex items-center justify-between p-4 bg-slate-800/30 border border-cyan-500/20 rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <p className="text-white font-medium">{group.name}</p>
+                      {group.team && (
+                        <span className="inline-flex items-center space-x-1 px-2 py-0.5 bg-cyan-500/10 border border-cyan-500/30 rounded-md text-xs text-cyan-400">
+                          <Users className="w-3 h-3" />
+                          <span>{group.team.name}</span>
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-cyan-300/70 mt-1 truncate">
+                      {group.members.map((member) => getDeviceName(member.device_id)).join(', ') || 'No devices'}
+                    </p>
+                  </div>
+                  {canEdit(group) && (
+                    <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                      <button
+                        onClick={() => setEditing(group)}
+                        className="p-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                        title="Edit"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteGroup(group)}
+                        className="p-2 bg-red-900/20 hover:bg-red-900/30 border border-red-500/20 hover:border-red-500/40 rounded-lg text-red-400 transition-all"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <DeviceGroupFormModal
+          group={editing === 'new' ? null : editing}
+          devices={devices}
+          teams={teams}
+          initialDeviceIds={editing === 'new' ? initialDeviceIds ?? [] : []}
+          onClose={() => setEditing(null)}
+          onSuccess={() => {
+            setEditing(null);
+            onChanged();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface DeviceGroupFormModalProps {
+  group: DeviceGroupWithMembers | null;
+  devices: { id: string; name: string }[];
+  teams: Team[];
+  initialDeviceIds: string[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const DeviceGroupFormModal: React.FC<DeviceGroupFormModalProps> = ({
+  group,
+  devices,
+  teams,
+  initialDeviceIds,
+  onClose,
+  onSuccess,
+}) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const repository = useRepository();
+  const [name, setName] = useState(group?.name ?? '');
+  const [teamId, setTeamId] = useState(group?.team_id ?? '');
+  const [deviceIds, setDeviceIds] = useState<string[]>(
+    () => group?.members.map((member) => member.device_id) ?? initialDeviceIds
+  );
+  const [loading, setLoading] = useState(false);
+
+  const toggleDevice = (deviceId: string) => {
+    setDeviceIds(deviceIds.includes(deviceId) ? deviceIds.filter((id) => id !== deviceId) : [...deviceIds, deviceId]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (deviceIds.length === 0) {
+      showToast('Pick at least one device', 'warning');
+      return;
+    }
+
+    setLoading(true);
+
+    const values = { name, team_id: teamId || null };
+    let groupId: string;
+    try {
+      if (group) {
+        await repository.groups.update(group.id, values);
+        groupId = group.id;
+      } else {
+        groupId = (await repository.groups.create(values, user.id)).id;
+      }
+    } catch (error) {
+      console.error('Error saving device group:', error);
+      showToast(getErrorMessage(error, 'Failed to save group'), 'error');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      await repository.groups.setDevices(groupId, deviceIds);
+      showToast(group ? 'Group updated' : 'Group created', 'success');
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving group members:', error);
+      showToast(getErrorMessage(error, 'Failed to save group devices'), 'error');
+      setLoading(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-4 py-3 bg-slate-800/50 border border-cyan-500/30 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[70]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl p-8 max-w-md w-full max-h-[90vh] overflow-y-auto shadow-2xl shadow-cyan-500/20">
+        <h2 className="text-2xl font-bold text-white mb-6">{group ? 'Edit Group' : 'New Group'}</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              placeholder="All rooms"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Share With</label>
+            <select value={teamId} onChange={(e) => setTeamId(e.target.value)} className={inputClassName}>
+              <option value="">Only me</option>
+              {teams.map((team) => (
+                <option key={team.id} value={team.id}>
+                  {team.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Devices</label>
+            <div className="space-y-2">
+              {devices.map((device) => (
+                <label
+                  key={device.id}
+                  className="flex items-center space-x-3 px-4 py-2 bg-slate-800/30 border border-cyan-500/20 rounded-lg text-white cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={deviceIds.includes(device.id)}
+                    onChange={() => toggleDevice(device.id)}
+                    className="w-4 h-4 rounded border-cyan-500/30 bg-slate-800/50 text-cyan-500 focus:ring-cyan-500/50"
+                  />
+                  <span>{device.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-xl text-cyan-300 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-3 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white font-medium rounded-xl shadow-lg shadow-cyan-500/30 transition-all disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : group ? 'Save Changes' : 'Create Group'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { getErrorMessage } from '../lib/repository';
+import type { Team } from '../lib/repository';
+import { ArrowRightLeft, Share2, Users, X } from 'lucide-react';
+
+interface DeviceSharingProps {
+  device: { id: string; name: string };
+  onChanged: () => void;
+  onTransferred: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Which teams can control a device, and handing the device to another owner.
+ * Only the device owner opens this.
+ */
+export const DeviceSharing: React.FC<DeviceSharingProps> = ({ device, onChanged, onTransferred, onClose }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { roles } = usePermissions();
+  const repository = useRepository();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [sharedTeamIds, setSharedTeamIds] = useState<string[]>([]);
+  const [newOwnerEmail, setNewOwnerEmail] = useState('');
+  const [transferring, setTransferring] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSharing();
+  }, [device.id]);
+
+  const loadSharing = async () => {
+    const [teamsResult, sharingResult] = await Promise.allSettled([
+      repository.teams.list(),
+      repository.devices.listTeamIds(device.id),
+    ]);
+
+    if (teamsResult.status === 'rejected') {
+      console.error('Error loading teams:', teamsResult.reason);
+    } else {
+      setTeams(teamsResult.value);
+    }
+
+    if (sharingResult.status === 'rejected') {
+      console.error('Error loading device sharing:', sharingResult.reason);
+    } else {
+      setSharedTeamIds(sharingResult.value);
+    }
+    setLoading(false);
+  };
+
+  // Teams with a pending invitation are visible too, but sharing needs membership.
+  const listedTeams = teams.filter((team) => roles[team.id]);
+
+  const toggleTeam = async (team: Team) => {
+    if (!user) return;
+
+    const shared = sharedTeamIds.includes(team.id);
+    try {
+      if (shared) {
+        await repository.devices.unshare(device.id, team.id);
+      } else {
+        await repository.devices.share(device.id, [team.id], user.id);
+      }
+      setSharedTeamIds((current) => (shared ? current.filter((id) => id !== team.id) : [...current, team.id]));
+      onChanged();
+    } catch (error) {
+      console.error('Error updating device sharing:', error);
+      showToast(`Failed to ${shared ? 'unshare' : 'share'} device`, 'error');
+    }
+  };
+
+  const transferDevice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm(`Transfer ${device.name} to ${newOwnerEmail}? You keep access only through shared teams.`)) return;
+
+    setTransferring(true);
+    try {
+      await repository.devices.transfer(device.id, newOwnerEmail);
+      showToast(`${device.name} transferred to ${newOwnerEmail}`, 'success');
+      onTransferred();
+    } catch (error) {
+      console.error('Error transferring device:', error);
+      showToast(getErrorMessage(error, 'Failed to transfer device'), 'error');
+      setTransferring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl max-w-lg w-full max-h-[90vh] overflow-hidden shadow-2xl shadow-cyan-500/20">
+        <div className="flex items-center justify-between p-6 border-b border-cyan-500/20">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-cyan-500/50">
+              <Share2 className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Share Device</h2>
+              <p className="text-sm text-cyan-300">{device.name}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-800/50 rounded-lg text-cyan-300 transition-all"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-5rem)] space-y-6">
+          <div>
+            <h3 className="text-sm font-medium text-cyan-300 mb-1">Teams</h3>
+            <p className="text-xs text-slate-400 mb-3">
+              Members of checked teams can see this device and send the commands their role allows
+            </p>
+            {loading ? (
+              <div className="text-center py-6">
+                <div className="inline-block w-8 h-8 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
+              </div>
+            ) : listedTeams.length === 0 ? (
+              <p className="text-sm text-slate-400">You are not in any team yet. Create one under Teams.</p>
+            ) : (
+              <div className="space-y-2">
+                {listedTeams.map((team) => (
+                  <label
+                    key={team.id}
+                    className="flex items-center space-x-3 p-3 bg-slate-800/30 border border-cyan-500/20 rounded-lg cursor-pointer hover:border-cyan-500/40 transition-all"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={sharedTeamIds.includes(team.id)}
+                      onChange={() => toggleTeam(team)}
+                      className="w-4 h-4 accent-cyan-500"
+                    />
+                    <Users className="w-4 h-4 text-cyan-400" />
+                    <span className="text-white text-sm">{team.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <form onSubmit={transferDevice} className="pt-6 border-t border-cyan-500/10">
+            <h3 className="text-sm font-medium text-cyan-300 mb-1">Transfer Ownership</h3>
+            <p className="text-xs text-slate-400 mb-3">
+              The new owner gets full control, including keys and pairing. Agent credentials keep working.
+            </p>
+            <div className="flex space-x-2">
+              <input
+                type="email"
+                value={newOwnerEmail}
+                onChange={(e) => setNewOwnerEmail(e.target.value)}
+                className="flex-1 min-w-0 px-4 py-2 bg-slate-800/50 border border-cyan-500/30 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+                placeholder="new-owner@email.com"
+                required
+              />
+              <button
+                type="submit"
+                disabled={transferring}
+                className="flex items-center space-x-2 px-4 py-2 bg-red-900/20 hover:bg-red-900/30 border border-red-500/30 hover:border-red-500/50 rounded-lg text-red-400 transition-all disabled:opacity-50"
+              >
+                <ArrowRightLeft className="w-4 h-4" />
+                <span>{transferring ? 'Transferring...' : 'Transfer'}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
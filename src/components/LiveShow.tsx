@@ -0,0 +1,419 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DoorOpen, Keyboard, MonitorPlay, Wifi, WifiOff, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import type { CommandType } from '../contexts/CommandTypesContext';
+import { getCommandIcon } from '../lib/commandIcons';
+import { getUnavailableReason } from '../lib/deviceState';
+import { getErrorMessage } from '../lib/repository';
+import type { Command, DeviceWithTeams, LiveLayoutChanges, RoomWithDevices } from '../lib/repository';
+import { resolveRoom } from '../lib/rooms';
+import { CommandStatus } from './CommandStatus';
+import { MeetingState } from './MeetingState';
+import { NowPlaying } from './NowPlaying';
+
+/** Used until the operator saves a layout; matches the `live_layouts` defaults. */
+const DEFAULT_LAYOUT: LiveLayoutChanges = { room_ids: [], hotkeys: {}, cooldown_ms: 1500 };
+
+/** Keys live mode keeps for itself. */
+const RESERVED_KEYS = ['Escape', 'Tab', 'Enter', ' ', 'Backspace', 'Delete'];
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+const bindingId = (roomId: string, commandTypeId: string) => `${roomId}:${commandTypeId}`;
+
+/** The key as stored in a layout: letters lower-case, named keys (F1, ArrowUp) as they are. */
+const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+const formatKey = (key: string) => (key.length === 1 ? key.toUpperCase() : key);
+
+/** Typing into a field must not fire commands. */
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
+interface LiveShowProps {
+  rooms: RoomWithDevices[];
+  devices: DeviceWithTeams[];
+  commandTypes: CommandType[];
+  recentCommands: Record<string, Command>;
+  now: number;
+  canSendCommand: (device: DeviceWithTeams, commandType: string) => boolean;
+  onCommand: (device: DeviceWithTeams, commandType: CommandType) => void;
+  /** A dialog is open on top; shortcuts wait until it closes. */
+  paused: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen operator view for a show: the chosen rooms' live state and
+ * command buttons, with the operator's keyboard shortcuts. A button ignores
+ * further presses for the layout's cooldown after it fires, and held keys
+ * don't repeat, so a double press sends one command.
+ */
+export const LiveShow: React.FC<LiveShowProps> = ({
+  rooms,
+  devices,
+  commandTypes,
+  recentCommands,
+  now,
+  canSendCommand,
+  onCommand,
+  paused,
+  onClose,
+}) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const repository = useRepository();
+  const [layout, setLayout] = useState<LiveLayoutChanges>(DEFAULT_LAYOUT);
+  const [draft, setDraft] = useState<LiveLayoutChanges | null>(null);
+  const [capturing, setCapturing] = useState<string | null>(null);
+  const [coolingDown, setCoolingDown] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const firedAtRef = useRef<Record<string, number>>({});
+  const onKeyDownRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  const onFullscreenExitRef = useRef<() => void>(() => {});
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    repository.liveLayouts
+      .get(userId)
+      .then((saved) => {
+        if (saved) setLayout({ room_ids: saved.room_ids, hotkeys: saved.hotkeys, cooldown_ms: saved.cooldown_ms });
+      })
+      .catch((error) => {
+        console.error('Error loading live layout:', error);
+        showToast('Failed to load your live layout', 'error');
+      });
+  }, [userId, repository, showToast]);
+
+  useEffect(() => {
+    document.documentElement.requestFullscreen?.().catch(() => {});
+    const onKeyDown = (event: KeyboardEvent) => onKeyDownRef.current(event);
+    // In fullscreen the browser takes Escape for itself and the page never sees the keydown.
+    const onFullscreenChange = () => {
+      if (!document.fullscreenElement) onFullscreenExitRef.current();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      document.removeEventListener('fullscreenchange', onFullscreenChange);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  const editing = draft ?? layout;
+  const shownRooms = editing.room_ids.length
+    ? editing.room_ids
+        .map((roomId) => rooms.find((room) => room.id === roomId))
+        .filter((room): room is RoomWithDevices => room !== undefined)
+    : rooms;
+  const keyFor = (roomId: string, commandTypeId: string) =>
+    Object.entries(editing.hotkeys).find(
+      ([, binding]) => binding.room_id === roomId && binding.command_type === commandTypeId
+    )?.[0];
+
+  const fire = (roomId: string, device: DeviceWithTeams, commandType: CommandType) => {
+    const id = bindingId(roomId, commandType.id);
+    if (Date.now() - (firedAtRef.current[id] ?? 0) < layout.cooldown_ms) return;
+
+    if (!canSendCommand(device, commandType.id)) {
+      showToast(`Your team role cannot send ${commandType.label}`, 'warning');
+      return;
+    }
+    const unavailableReason = getUnavailableReason(commandType, device);
+    if (unavailableReason) {
+      showToast(unavailableReason, 'warning');
+      return;
+    }
+
+    firedAtRef.current[id] = Date.now();
+    if (layout.cooldown_ms > 0) {
+      setCoolingDown((current) => [...current, id]);
+      setTimeout(() => setCoolingDown((current) => current.filter((entry) => entry !== id)), layout.cooldown_ms);
+    }
+    onCommand(device, commandType);
+  };
+
+  const assignKey = (id: string, key: string | null) => {
+    setDraft((current) => {
+      if (!current) return current;
+      const [roomId, commandTypeId] = id.split(':');
+      const hotkeys = Object.fromEntries(
+        Object.entries(current.hotkeys).filter(
+          ([existing, binding]) =>
+            existing !== key && !(binding.room_id === roomId && binding.command_type === commandTypeId)
+        )
+      );
+      if (key) hotkeys[key] = { room_id: roomId, command_type: commandTypeId };
+      return { ...current, hotkeys };
+    });
+  };
+
+  onKeyDownRef.current = (event) => {
+    if (capturing) {
+      event.preventDefault();
+      if (MODIFIER_KEYS.includes(event.key)) return;
+      if (event.key === 'Backspace' || event.key === 'Delete') assignKey(capturing, null);
+      else if (!RESERVED_KEYS.includes(event.key)) assignKey(capturing, normalizeKey(event.key));
+      setCapturing(null);
+      return;
+    }
+    if (paused || draft || isTyping(event.target)) return;
+    if (event.key === 'Escape') {
+      onClose();
+      return;
+    }
+    if (event.repeat || event.ctrlKey || event.metaKey || event.altKey) return;
+
+    const binding = layout.hotkeys[normalizeKey(event.key)];
+    const room = binding ? shownRooms.find((entry) => entry.id === binding.room_id) : undefined;
+    if (!room) return;
+    const target = resolveRoom(room, devices, commandTypes).commands.find(
+      (entry) => entry.commandType.id === binding.command_type
+    );
+    if (!target) return;
+
+    event.preventDefault();
+    fire(room.id, target.device, target.commandType);
+  };
+
+  // Leaving fullscreen leaves live mode too, unless that would throw away layout edits.
+  onFullscreenExitRef.current = () => {
+    if (!draft) onClose();
+  };
+
+  const saveLayout = async () => {
+    if (!user || !draft) return;
+
+    setSaving(true);
+    try {
+      const saved = await repository.liveLayouts.save(user.id, draft);
+      setLayout({ room_ids: saved.room_ids, hotkeys: saved.hotkeys, cooldown_ms: saved.cooldown_ms });
+      setDraft(null);
+      showToast('Live layout saved', 'success');
+    } catch (error) {
+      console.error('Error saving live layout:', error);
+      showToast(getErrorMessage(error, 'Failed to save live layout'), 'error');
+    }
+    setSaving(false);
+  };
+
+  const toggleRoom = (roomId: string) => {
+    setDraft((current) => {
+      if (!current) return current;
+      const selected = current.room_ids.length ? current.room_ids : rooms.map((room) => room.id);
+      if (selected.length === 1 && selected[0] === roomId) return current;
+      const room_ids = selected.includes(roomId)
+        ? selected.filter((id) => id !== roomId)
+        : rooms.map((room) => room.id).filter((id) => id === roomId || selected.includes(id));
+      // Every room selected is stored as "all", so rooms created later show up too.
+      return { ...current, room_ids: room_ids.length === rooms.length ? [] : room_ids };
+    });
+  };
+
+  const inputClassName =
+    'px-3 py-2 bg-slate-800/50 border border-cyan-500/30 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-slate-950">
+      <div className="flex items-center justify-between px-6 h-16 border-b border-cyan-500/20 bg-slate-900/80">
+        <div className="flex items-center space-x-3">
+          <MonitorPlay className="w-6 h-6 text-cyan-400" />
+          <h1 className="text-xl font-bold text-white">Live</h1>
+          <span className="inline-flex items-center space-x-1 px-2 py-1 bg-red-500/10 border border-red-500/30 rounded-md text-xs text-red-400">
+            <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+            <span>On air</span>
+          </span>
+          <span className="text-sm text-slate-400 font-mono">{new Date(now).toLocaleTimeString()}</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          {draft ? (
+            <>
+              <button
+                onClick={() => {
+                  setDraft(null);
+                  setCapturing(null);
+                }}
+                className="px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveLayout}
+                disabled={saving}
+                className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 rounded-lg text-white font-medium transition-all disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Layout'}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setDraft(layout)}
+              className="flex items-center space-x-2 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+            >
+              <Keyboard className="w-4 h-4" />
+              <span>Layout</span>
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="flex items-center space-x-2 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+            title="Leave live mode (Esc)"
+          >
+            <X className="w-4 h-4" />
+            <span>Exit</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        {draft && (
+          <div className="mb-6 px-4 py-4 bg-slate-800/30 border border-cyan-500/20 rounded-xl space-y-4">
+            <div>
+              <p className="text-sm font-medium text-cyan-300 mb-2">Rooms</p>
+              <div className="flex flex-wrap gap-2">
+                {rooms.map((room) => (
+                  <label
+                    key={room.id}
+                    className="flex items-center space-x-2 px-3 py-2 bg-slate-800/50 border border-cyan-500/30 rounded-lg text-sm text-white cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!draft.room_ids.length || draft.room_ids.includes(room.id)}
+                      onChange={() => toggleRoom(room.id)}
+                      className="accent-cyan-500"
+                    />
+                    <span>{room.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-cyan-300 mb-2">Ignore Repeat Presses For (seconds)</label>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                step={0.5}
+                value={draft.cooldown_ms / 1000}
+                onChange={(e) => {
+                  const cooldownMs = Math.round(Number(e.target.value) * 1000);
+                  setDraft({ ...draft, cooldown_ms: Math.min(10000, Math.max(0, cooldownMs)) });
+                }}
+                className={`${inputClassName} w-32`}
+              />
+            </div>
+            <p className="text-sm text-cyan-300/70">
+              Click a key badge on a button below, then press the key to assign. Backspace removes the shortcut; Esc,
+              Tab, Enter and Space are reserved.
+            </p>
+          </div>
+        )}
+
+        {shownRooms.length === 0 ? (
+          <div className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-xl p-12 text-center">
+            <DoorOpen className="w-16 h-16 text-cyan-400/50 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-white mb-2">No rooms to show</h3>
+            <p className="text-cyan-300">Create a room under Rooms, or pick one under Layout</p>
+          </div>
+        ) : (
+          <div className={`grid grid-cols-1 gap-6 ${shownRooms.length > 1 ? 'xl:grid-cols-2' : ''}`}>
+            {shownRooms.map((room) => {
+              const { devices: roomDevices, commands, zoomDevice, musicDevice } = resolveRoom(
+                room,
+                devices,
+                commandTypes
+              );
+              const latestCommand = roomDevices
+                .map(({ device }) => recentCommands[device.id])
+                .filter((command): command is Command => command !== undefined)
+                .sort((a, b) => b.sent_at.localeCompare(a.sent_at))[0];
+
+              return (
+                <div key={room.id} className="bg-white/5 border border-cyan-500/20 rounded-2xl p-6">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                    <h2 className="text-2xl font-bold text-white">{room.name}</h2>
+                    <div className="flex flex-wrap gap-2">
+                      {roomDevices.map(({ device }) => (
+                        <span
+                          key={device.id}
+                          className="inline-flex items-center space-x-1 px-2 py-1 bg-slate-800/40 border border-cyan-500/20 rounded-md text-sm text-cyan-300"
+                        >
+                          {device.status === 'online' ? (
+                            <Wifi className="w-4 h-4 text-green-400" />
+                          ) : (
+                            <WifiOff
+                              className={`w-4 h-4 ${device.status === 'offline' ? 'text-red-400' : 'text-slate-400'}`}
+                            />
+                          )}
+                          <span>{device.name}</span>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="mb-4 space-y-2">
+                    {zoomDevice?.status === 'online' && zoomDevice.zoom_state && (
+                      <MeetingState zoomState={zoomDevice.zoom_state} />
+                    )}
+                    {musicDevice?.status === 'online' && musicDevice.now_playing && (
+                      <NowPlaying nowPlaying={musicDevice.now_playing} reportedAt={musicDevice.now_playing_at} now={now} />
+                    )}
+                    {latestCommand && <CommandStatus command={latestCommand} now={now} />}
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {commands.map(({ commandType, device }) => {
+                      const Icon = getCommandIcon(commandType.icon);
+                      const id = bindingId(room.id, commandType.id);
+                      const key = keyFor(room.id, commandType.id);
+                      const allowed = canSendCommand(device, commandType.id);
+                      const unavailableReason = getUnavailableReason(commandType, device);
+                      const cooling = coolingDown.includes(id);
+
+                      return (
+                        <div key={commandType.id} className="relative">
+                          <button
+                            onClick={() => fire(room.id, device, commandType)}
+                            disabled={Boolean(draft) || !allowed || unavailableReason !== null || cooling}
+                            title={
+                              !allowed
+                                ? 'Your team role cannot send this command'
+                                : unavailableReason ?? `${commandType.description ?? commandType.label} (${device.name})`
+                            }
+                            className="w-full flex flex-col items-center justify-center space-y-2 px-3 py-6 bg-slate-800/60 hover:bg-cyan-500/20 border-2 border-cyan-500/30 hover:border-cyan-500/60 rounded-xl text-lg font-semibold text-cyan-200 transition-all disabled:opacity-40 disabled:hover:bg-slate-800/60 disabled:hover:border-cyan-500/30 disabled:cursor-not-allowed"
+                          >
+                            <Icon className="w-8 h-8" />
+                            <span className="text-center leading-tight">{commandType.label}</span>
+                          </button>
+                          {(key || draft) && (
+                            <button
+                              type="button"
+                              onClick={() => setCapturing(id)}
+                              disabled={!draft}
+                              className={`absolute top-2 right-2 min-w-[1.75rem] px-1.5 py-0.5 rounded-md border font-mono text-xs transition-all ${
+                                capturing === id
+                                  ? 'bg-cyan-500 border-cyan-300 text-white animate-pulse'
+                                  : 'bg-slate-900 border-cyan-500/40 text-cyan-300'
+                              } ${draft ? 'hover:border-cyan-300 cursor-pointer' : 'cursor-default'}`}
+                              title={draft ? 'Set shortcut' : `Shortcut: ${formatKey(key ?? '')}`}
+                            >
+                              {capturing === id ? '…' : key ? formatKey(key) : '+'}
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React from 'react';
+import { CheckCircle, Circle, Clock, ListOrdered, Loader2, MinusCircle, Send, X, XCircle } from 'lucide-react';
+import { useCommandTypes } from '../contexts/CommandTypesContext';
+import type { MacroStepProgress, MacroStepState } from '../lib/macroRunner';
+import type { MacroRun, MacroWithSteps } from '../lib/repository';
+import { CommandStatus } from './CommandStatus';
+
+export interface ActiveMacroRun {
+  macro: MacroWithSteps;
+  progress: Record<string, MacroStepProgress>;
+  status: MacroRun['status'];
+  error: string | null;
+}
+
+const getStepIcon = (state: MacroStepState) => {
+  switch (state) {
+    case 'delaying':
+      return <Clock className="w-4 h-4 text-cyan-300" />;
+    case 'running':
+      return <Loader2 className="w-4 h-4 text-cyan-400 animate-spin" />;
+    case 'sent':
+      return <Send className="w-4 h-4 text-cyan-400" />;
+    case 'executed':
+      return <CheckCircle className="w-4 h-4 text-green-400" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-400" />;
+    case 'skipped':
+      return <MinusCircle className="w-4 h-4 text-slate-500" />;
+    default:
+      return <Circle className="w-4 h-4 text-slate-500" />;
+  }
+};
+
+const RUN_STATUS_LABELS: Record<MacroRun['status'], string> = {
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+interface MacroRunPanelProps {
+  run: ActiveMacroRun;
+  devices: { id: string; name: string }[];
+  now: number;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+/** Step-by-step progress of the macro currently running from this dashboard. */
+export const MacroRunPanel: React.FC<MacroRunPanelProps> = ({ run, devices, now, onCancel, onDismiss }) => {
+  const { getCommandLabel } = useCommandTypes();
+  const running = run.status === 'running';
+
+  return (
+    <div className="backdrop-blur-xl bg-white/5 border border-cyan-500/30 rounded-2xl p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <ListOrdered className="w-5 h-5 text-cyan-400" />
+          <h3 className="text-lg font-semibold text-white">{run.macro.name}</h3>
+          <span
+            className={`px-2 py-0.5 rounded-md border text-xs ${
+              run.status === 'completed'
+                ? 'text-green-400 bg-green-400/10 border-green-400/30'
+                : run.status === 'failed'
+                ? 'text-red-400 bg-red-400/10 border-red-400/30'
+                : 'text-cyan-300 bg-cyan-400/10 border-cyan-400/30'
+            }`}
+          >
+            {RUN_STATUS_LABELS[run.status]}
+          </span>
+        </div>
+        {running ? (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 bg-red-900/20 hover:bg-red-900/30 border border-red-500/20 hover:border-red-500/40 rounded-lg text-red-400 text-sm transition-all"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button onClick={onDismiss} className="p-1 hover:bg-slate-800/50 rounded-lg text-cyan-300 transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {run.error && <p className="text-sm text-red-400 mb-3">{run.error}</p>}
+
+      <ol className="space-y-2">
+        {run.macro.steps.map((step, index) => {
+          const progress = run.progress[step.id];
+          const device = devices.find((d) => d.id === step.device_id);
+          return (
+            <li key={step.id} className="flex items-center space-x-3">
+              {getStepIcon(progress?.state ?? 'waiting')}
+              <span className="text-sm text-white flex-shrink-0">
+                {index + 1}. {getCommandLabel(step.command_type)}
+                <span className="text-cyan-300/70"> on {device?.name ?? 'Unknown device'}</span>
+              </span>
+              {progress?.state === 'delaying' && (
+                <span className="text-xs text-cyan-300/70">waiting {step.delay_ms / 1000}s</span>
+              )}
+              {progress?.state === 'sent' && (
+                <span className="text-xs text-cyan-300/70">sent before the run was cancelled</span>
+              )}
+              {progress?.error && <span className="text-xs text-red-400">{progress.error}</span>}
+              {progress?.command && (
+                <div className="flex-1 min-w-0">
+                  <CommandStatus command={progress.command} now={now} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,487 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useCommandTypes } from '../contexts/CommandTypesContext';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { getSchemaDefaults, validateJsonSchema } from '../lib/jsonSchema';
+import { getErrorMessage } from '../lib/repository';
+import { ArrowDown, ArrowUp, Edit2, ListOrdered, Play, Plus, Trash2, Users, X } from 'lucide-react';
+import type { MacroStepDraft, MacroWithSteps, Team } from '../lib/repository';
+import { PayloadFields } from './PayloadFields';
+
+interface MacrosProps {
+  devices: { id: string; name: string }[];
+  running: boolean;
+  onRun: (macro: MacroWithSteps) => void;
+  onClose: () => void;
+}
+
+export const Macros: React.FC<MacrosProps> = ({ devices, running, onRun, onClose }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { getCommandLabel } = useCommandTypes();
+  const { isTeamAdmin } = usePermissions();
+  const repository = useRepository();
+  const [macros, setMacros] = useState<MacroWithSteps[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [editing, setEditing] = useState<MacroWithSteps | 'new' | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadMacros();
+  }, []);
+
+  const loadMacros = async () => {
+    const [macrosResult, teamsResult] = await Promise.allSettled([repository.macros.list(), repository.teams.list()]);
+
+    if (macrosResult.status === 'rejected') {
+      console.error('Error loading macros:', macrosResult.reason);
+    } else {
+      setMacros(macrosResult.value);
+    }
+
+    if (teamsResult.status === 'rejected') {
+      console.error('Error loading teams:', teamsResult.reason);
+    } else {
+      setTeams(teamsResult.value);
+    }
+    setLoading(false);
+  };
+
+  const deleteMacro = async (macro: MacroWithSteps) => {
+    if (!confirm(`Delete macro "${macro.name}"?`)) return;
+
+    try {
+      await repository.macros.remove(macro.id);
+      loadMacros();
+    } catch (error) {
+      console.error('Error deleting macro:', error);
+      showToast(getErrorMessage(error, 'Failed to delete macro'), 'error');
+    }
+  };
+
+  const canEdit = (macro: MacroWithSteps) => macro.created_by === user?.id || isTeamAdmin(macro.team_id);
+
+  const getDeviceName = (deviceId: string) => devices.find((device) => device.id === deviceId)?.name ?? 'Unknown device';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden shadow-2xl shadow-cyan-500/20">
+        <div className="flex items-center justify-between p-6 border-b border-cyan-500/20">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-cyan-500/50">
+              <ListOrdered className="w-6 h-6 text-white" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Macros</h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setEditing('new')}
+              className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white font-medium rounded-lg shadow-lg shadow-cyan-500/30 transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Macro</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-slate-800/50 rounded-lg text-cyan-300 transition-all"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-5rem)]">
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
+            </div>
+          ) : macros.length === 0 ? (
+            <div className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-xl p-8 text-center">
+              <ListOrdered className="w-12 h-12 text-cyan-400/50 mx-auto mb-3" />
+              <p className="text-cyan-300">No macros yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {macros.map((macro) => (
+                <div key={macro.id} className="p-4 bg-slate-800/30 border border-cyan-500/20 rounded-lg">
+                  <div className="flex items-start justify-between">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <p className="text-white font-medium">{macro.name}</p>
+                        {macro.team && (
+                          <span className="inline-flex items-center space-x-1 px-2 py-0.5 bg-cyan-500/10 border border-cyan-500/30 rounded-md text-xs text-cyan-400">
+                            <Users className="w-3 h-3" />
+                            <span>{macro.team.name}</span>
+                          </span>
+                        )}
+                      </div>
+                      {macro.description && <p className="text-sm text-slate-400 mt-1">{macro.description}</p>}
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                      <button
+                        onClick={() => {
+                          onRun(macro);
+                          onClose();
+                        }}
+                        disabled={running || macro.steps.length === 0}
+                        className="flex items-center space-x-2 px-3 py-2 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white text-sm font-medium rounded-lg shadow-lg shadow-cyan-500/30 transition-all disabled:opacity-50"
+                        title={running ? 'Another macro is running' : 'Run'}
+                      >
+                        <Play className="w-4 h-4" />
+                        <span>Run</span>
+                      </button>
+                      {canEdit(macro) && (
+                        <>
+                          <button
+                            onClick={() => setEditing(macro)}
+                            className="p-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                            title="Edit"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => deleteMacro(macro)}
+                            className="p-2 bg-red-900/20 hover:bg-red-900/30 border border-red-500/20 hover:border-red-500/40 rounded-lg text-red-400 transition-all"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <ol className="mt-3 space-y-1 text-xs text-cyan-300/80">
+                    {macro.steps.map((step, index) => (
+                      <li key={step.id}>
+                        {index + 1}. {step.delay_ms > 0 && `wait ${step.delay_ms / 1000}s → `}
+                        {getCommandLabel(step.command_type)} on {getDeviceName(step.device_id)}
+                        {!step.stop_on_failure && <span className="text-slate-400"> (continue on failure)</span>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <MacroFormModal
+          macro={editing === 'new' ? null : editing}
+          devices={devices}
+          teams={teams}
+          onClose={() => setEditing(null)}
+          onSuccess={() => {
+            setEditing(null);
+            loadMacros();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface MacroFormModalProps {
+  macro: MacroWithSteps | null;
+  devices: { id: string; name: string }[];
+  teams: Team[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const MacroFormModal: React.FC<MacroFormModalProps> = ({ macro, devices, teams, onClose, onSuccess }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { commandTypes, getCommandType } = useCommandTypes();
+  const repository = useRepository();
+  const [name, setName] = useState(macro?.name ?? '');
+  const [description, setDescription] = useState(macro?.description ?? '');
+  const [teamId, setTeamId] = useState(macro?.team_id ?? '');
+  const [steps, setSteps] = useState<MacroStepDraft[]>(() =>
+    (macro?.steps ?? []).map(({ device_id, command_type, payload, delay_ms, stop_on_failure }) => ({
+      device_id,
+      command_type,
+      payload,
+      delay_ms,
+      stop_on_failure,
+    }))
+  );
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const addStep = () => {
+    const commandType = commandTypes[0];
+    setSteps([
+      ...steps,
+      {
+        device_id: devices[0]?.id ?? '',
+        command_type: commandType?.id ?? '',
+        payload: commandType ? getSchemaDefaults(commandType.payload_schema) : {},
+        delay_ms: 0,
+        stop_on_failure: true,
+      },
+    ]);
+  };
+
+  const updateStep = (index: number, changes: Partial<MacroStepDraft>) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const changeCommandType = (index: number, id: string) => {
+    const selected = getCommandType(id);
+    updateStep(index, { command_type: id, payload: selected ? getSchemaDefaults(selected.payload_schema) : {} });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setSteps(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const problems: string[] = [];
+    if (steps.length === 0) problems.push('Add at least one step');
+    steps.forEach((step, index) => {
+      const commandType = getCommandType(step.command_type);
+      if (!step.device_id) problems.push(`Step ${index + 1}: choose a device`);
+      if (!commandType) {
+        problems.push(`Step ${index + 1}: choose a command`);
+      } else {
+        validateJsonSchema(commandType.payload_schema, step.payload).forEach((problem) =>
+          problems.push(`Step ${index + 1}: ${problem}`)
+        );
+      }
+    });
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setLoading(true);
+
+    const values = {
+      name,
+      description: description || null,
+      team_id: teamId || null,
+    };
+
+    let macroId: string;
+    try {
+      if (macro) {
+        await repository.macros.update(macro.id, values);
+        macroId = macro.id;
+      } else {
+        macroId = (await repository.macros.create(values, user.id)).id;
+      }
+    } catch (error) {
+      console.error('Error saving macro:', error);
+      showToast(getErrorMessage(error, 'Failed to save macro'), 'error');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      // Steps are replaced wholesale; positions follow the list order.
+      await repository.macros.setSteps(macroId, steps);
+      showToast(macro ? 'Macro updated' : 'Macro created', 'success');
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving macro steps:', error);
+      showToast(getErrorMessage(error, 'Failed to save macro steps'), 'error');
+      setLoading(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-4 py-3 bg-slate-800/50 border border-cyan-500/30 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+  const smallInputClassName =
+    'w-full px-3 py-2 bg-slate-800/50 border border-cyan-500/30 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[70]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto shadow-2xl shadow-cyan-500/20">
+        <h2 className="text-2xl font-bold text-white mb-6">{macro ? 'Edit Macro' : 'New Macro'}</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              placeholder="Show opening"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClassName}
+              placeholder="Optional"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Share With</label>
+            <select value={teamId} onChange={(e) => setTeamId(e.target.value)} className={inputClassName}>
+              <option value="">Only me</option>
+              {teams.map((team) => (
+                <option key={team.id} value={team.id}>
+                  {team.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Steps</label>
+            <div className="space-y-3">
+              {steps.map((step, index) => {
+                const commandType = getCommandType(step.command_type);
+                return (
+                  <div key={index} className="p-4 bg-slate-800/30 border border-cyan-500/20 rounded-lg space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-white">Step {index + 1}</span>
+                      <div className="flex items-center space-x-1">
+                        <button
+                          type="button"
+                          onClick={() => moveStep(index, -1)}
+                          disabled={index === 0}
+                          className="p-1 hover:bg-slate-800 rounded text-cyan-300 disabled:opacity-30"
+                          title="Move up"
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveStep(index, 1)}
+                          disabled={index === steps.length - 1}
+                          className="p-1 hover:bg-slate-800 rounded text-cyan-300 disabled:opacity-30"
+                          title="Move down"
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                          className="p-1 hover:bg-red-900/30 rounded text-red-400"
+                          title="Remove step"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs text-cyan-300 mb-1">Device</label>
+                        <select
+                          value={step.device_id}
+                          onChange={(e) => updateStep(index, { device_id: e.target.value })}
+                          className={smallInputClassName}
+                          required
+                        >
+                          {devices.map((device) => (
+                            <option key={device.id} value={device.id}>
+                              {device.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-cyan-300 mb-1">Command</label>
+                        <select
+                          value={step.command_type}
+                          onChange={(e) => changeCommandType(index, e.target.value)}
+                          className={smallInputClassName}
+                          required
+                        >
+                          {commandTypes.map((type) => (
+                            <option key={type.id} value={type.id}>
+                              {type.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-cyan-300 mb-1">Wait Before (seconds)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={3600}
+                          step={0.5}
+                          value={step.delay_ms / 1000}
+                          onChange={(e) => updateStep(index, { delay_ms: Math.round(Number(e.target.value) * 1000) })}
+                          className={smallInputClassName}
+                        />
+                      </div>
+                      <label className="flex items-center space-x-2 text-sm text-cyan-300 pt-5">
+                        <input
+                          type="checkbox"
+                          checked={step.stop_on_failure}
+                          onChange={(e) => updateStep(index, { stop_on_failure: e.target.checked })}
+                          className="w-4 h-4 rounded border-cyan-500/30 bg-slate-800/50 text-cyan-500 focus:ring-cyan-500/50"
+                        />
+                        <span>Stop macro if this fails</span>
+                      </label>
+                    </div>
+
+                    {commandType && (
+                      <PayloadFields
+                        schema={commandType.payload_schema}
+                        value={step.payload}
+                        onChange={(payload) => updateStep(index, { payload })}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              type="button"
+              onClick={addStep}
+              disabled={devices.length === 0}
+              className="mt-3 w-full flex items-center justify-center space-x-2 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-dashed border-cyan-500/30 rounded-lg text-cyan-300 text-sm transition-all disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Step</span>
+            </button>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 text-sm space-y-1">
+              {errors.map((error) => (
+                <p key={error}>{error}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-xl text-cyan-300 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-3 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white font-medium rounded-xl shadow-lg shadow-cyan-500/30 transition-all disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : macro ? 'Save Changes' : 'Create Macro'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
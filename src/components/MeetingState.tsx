@@ -0,0 +1,73 @@
+import React from 'react';
+import { CircleDot, Mic, MicOff, ScreenShare, Users, Video, VideoOff } from 'lucide-react';
+import type { ZoomState } from '../lib/database.types';
+
+interface MeetingStateProps {
+  zoomState: ZoomState;
+}
+
+/** The device's Zoom meeting at its last report: meeting, mic, camera, participants, recording and sharing. */
+export const MeetingState: React.FC<MeetingStateProps> = ({ zoomState }) => {
+  if (!zoomState.in_meeting) {
+    return (
+      <div className="px-3 py-2 bg-slate-800/40 border border-slate-500/20 rounded-lg text-xs text-slate-400">
+        Not in a Zoom meeting
+      </div>
+    );
+  }
+
+  const { meeting_id: meetingId, muted, video_on: videoOn, participant_count: participants, recording, sharing } =
+    zoomState;
+
+  return (
+    <div className="px-3 py-2 bg-slate-800/40 border border-cyan-500/20 rounded-lg text-xs">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-white">{meetingId ? `Meeting ${meetingId}` : 'In a meeting'}</span>
+        {participants !== null && (
+          <span className="inline-flex items-center space-x-1 text-slate-400" title="Participants">
+            <Users className="w-3 h-3" />
+            <span>{participants}</span>
+          </span>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mt-2">
+        {muted !== null &&
+          (muted ? (
+            <span className="inline-flex items-center space-x-1 text-red-400">
+              <MicOff className="w-3 h-3" />
+              <span>Muted</span>
+            </span>
+          ) : (
+            <span className="inline-flex items-center space-x-1 text-green-400">
+              <Mic className="w-3 h-3" />
+              <span>Live</span>
+            </span>
+          ))}
+        {videoOn !== null &&
+          (videoOn ? (
+            <span className="inline-flex items-center space-x-1 text-green-400">
+              <Video className="w-3 h-3" />
+              <span>Camera on</span>
+            </span>
+          ) : (
+            <span className="inline-flex items-center space-x-1 text-slate-400">
+              <VideoOff className="w-3 h-3" />
+              <span>Camera off</span>
+            </span>
+          ))}
+        {recording && (
+          <span className="inline-flex items-center space-x-1 text-red-400">
+            <CircleDot className="w-3 h-3" />
+            <span>Recording</span>
+          </span>
+        )}
+        {sharing && (
+          <span className="inline-flex items-center space-x-1 text-cyan-400">
+            <ScreenShare className="w-3 h-3" />
+            <span>Sharing</span>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
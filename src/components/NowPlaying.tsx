@@ -0,0 +1,73 @@
+import React from 'react';
+import { Music, Pause, Play, Repeat, Shuffle, Square, Volume2 } from 'lucide-react';
+import type { NowPlaying as NowPlayingState } from '../lib/database.types';
+
+const formatTrackTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const getStateIcon = (state: NowPlayingState['state']) => {
+  switch (state) {
+    case 'playing':
+      return <Play className="w-3 h-3 text-green-400" />;
+    case 'paused':
+      return <Pause className="w-3 h-3 text-amber-400" />;
+    case 'stopped':
+      return <Square className="w-3 h-3 text-slate-400" />;
+  }
+};
+
+interface NowPlayingProps {
+  nowPlaying: NowPlayingState;
+  reportedAt: string | null;
+  now: number;
+}
+
+/**
+ * What the device's player was doing at its last report. The agent only
+ * reports after music commands, so while playing the position is advanced
+ * locally from the report time.
+ */
+export const NowPlaying: React.FC<NowPlayingProps> = ({ nowPlaying, reportedAt, now }) => {
+  const { title, artist, state, duration_seconds: duration, volume, shuffle, repeat } = nowPlaying;
+
+  let position = nowPlaying.position_seconds;
+  if (position !== null && state === 'playing' && reportedAt) {
+    position += Math.max(0, now - new Date(reportedAt).getTime()) / 1000;
+  }
+  if (position !== null && duration !== null) {
+    position = Math.min(position, duration);
+  }
+
+  return (
+    <div className="px-3 py-2 bg-slate-800/40 border border-cyan-500/20 rounded-lg text-xs">
+      <div className="flex items-center space-x-2">
+        <Music className="w-4 h-4 text-cyan-400 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white truncate">{title ?? 'Unknown track'}</p>
+          {artist && <p className="text-cyan-300/70 truncate">{artist}</p>}
+        </div>
+        {getStateIcon(state)}
+      </div>
+      {(position !== null || volume !== null || shuffle || repeat) && (
+        <div className="flex items-center justify-between mt-2 text-slate-400">
+          <span>
+            {position !== null && formatTrackTime(position)}
+            {position !== null && duration !== null && ` / ${formatTrackTime(duration)}`}
+          </span>
+          <span className="flex items-center space-x-2">
+            {shuffle && <Shuffle className="w-3 h-3 text-cyan-400" aria-label="Shuffle on" />}
+            {repeat && <Repeat className="w-3 h-3 text-cyan-400" aria-label="Repeat on" />}
+            {volume !== null && (
+              <span className="inline-flex items-center space-x-1">
+                <Volume2 className="w-3 h-3" />
+                <span>{volume}</span>
+              </span>
+            )}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { getErrorMessage } from '../lib/repository';
+import { CheckCircle, Copy, Link2, RefreshCw } from 'lucide-react';
+import type { Device, PairingCode } from '../lib/repository';
+import { ConnectionTest } from './ConnectionTest';
+
+interface PairDeviceModalProps {
+  device: Device;
+  onClose: () => void;
+}
+
+/**
+ * Issues a one-time pairing code for a device and waits for the agent to
+ * claim it. `device` is the live row from the dashboard, so `paired_at`
+ * flips as soon as the realtime update arrives.
+ */
+export const PairDeviceModal: React.FC<PairDeviceModalProps> = ({ device, onClose }) => {
+  const { showToast } = useToast();
+  const repository = useRepository();
+  const [pairing, setPairing] = useState<PairingCode | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    issueCode();
+  }, [device.id]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const issueCode = async () => {
+    setLoading(true);
+    try {
+      setPairing(await repository.devices.createPairingCode(device.id));
+    } catch (error) {
+      console.error('Error creating pairing code:', error);
+      showToast(getErrorMessage(error, 'Failed to create pairing code'), 'error');
+    }
+    setLoading(false);
+  };
+
+  const paired = Boolean(
+    pairing && device.paired_at && new Date(device.paired_at).getTime() >= new Date(pairing.created_at).getTime()
+  );
+  const secondsLeft = pairing ? Math.max(0, Math.round((new Date(pairing.expires_at).getTime() - now) / 1000)) : 0;
+  const command = pairing ? `npm run pair -- ${pairing.code}` : '';
+
+  const copyCommand = async () => {
+    await navigator.clipboard.writeText(command);
+    showToast('Command copied', 'success');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+      <div className="backdrop-blur-xl bg-slate-900/90 border border-cyan-500/30 rounded-2xl p-8 max-w-md w-full shadow-2xl shadow-cyan-500/20">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="w-10 h-10 rounded-lg bg-cyan-500/20 border border-cyan-500/30 flex items-center justify-center">
+            <Link2 className="w-5 h-5 text-cyan-400" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-white">Pair Device</h2>
+            <p className="text-sm text-cyan-300">{device.name}</p>
+          </div>
+        </div>
+
+        {paired ? (
+          <div className="text-center space-y-3 py-4">
+            <CheckCircle className="w-12 h-12 text-green-400 mx-auto" />
+            <p className="text-white font-medium">Paired</p>
+            <p className="text-sm text-cyan-300/70">
+              Start the agent with <code className="font-mono text-white">npm start</code>. Setup is done once the
+              dashboard reaches it on the address it reports:
+            </p>
+            <div className="text-left">
+              <ConnectionTest device={device} waitForAgent />
+            </div>
+          </div>
+        ) : loading || !pairing ? (
+          <div className="text-center py-8">
+            <div className="inline-block w-10 h-10 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-300">On the room PC, in the agent folder, run:</p>
+            <div className="flex items-center space-x-2">
+              <code className="flex-1 px-3 py-2 bg-slate-950/60 rounded-lg text-sm text-white font-mono">{command}</code>
+              <button
+                onClick={copyCommand}
+                className="p-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                title="Copy"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="text-center text-4xl font-mono font-bold tracking-widest text-white">{pairing.code}</p>
+            {secondsLeft > 0 ? (
+              <p className="text-center text-sm text-cyan-300/70">
+                Expires in {Math.floor(secondsLeft / 60)}:{(secondsLeft % 60).toString().padStart(2, '0')} · waiting for the
+                agent…
+              </p>
+            ) : (
+              <div className="text-center space-y-2">
+                <p className="text-sm text-amber-400">This code has expired</p>
+                <button
+                  onClick={issueCode}
+                  className="inline-flex items-center space-x-2 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 text-sm transition-all"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  <span>New Code</span>
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full mt-6 px-4 py-3 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-xl text-cyan-300 transition-all"
+        >
+          {paired ? 'Done' : 'Close'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import type { JsonSchema } from '../lib/jsonSchema';
+
+const inputClassName =
+  'w-full px-4 py-3 bg-slate-800/50 border border-cyan-500/30 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+
+interface PayloadFieldProps {
+  name: string;
+  schema: JsonSchema;
+  required: boolean;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+const PayloadField: React.FC<PayloadFieldProps> = ({ name, schema, required, value, onChange }) => {
+  const label = schema.title ?? name;
+
+  if (schema.type === 'boolean') {
+    return (
+      <label className="flex items-center space-x-3 text-sm text-cyan-300">
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+          className="w-4 h-4 rounded border-cyan-500/30 bg-slate-800/50 text-cyan-500 focus:ring-cyan-500/50"
+        />
+        <span>{label}</span>
+      </label>
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-cyan-300 mb-2">
+        {label}
+        {required && <span className="text-red-400"> *</span>}
+      </label>
+      {schema.enum ? (
+        <select
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => {
+            const option = schema.enum!.find((candidate) => String(candidate) === e.target.value);
+            onChange(option);
+          }}
+          className={inputClassName}
+        >
+          <option value="">Select...</option>
+          {schema.enum.map((option) => (
+            <option key={String(option)} value={String(option)}>
+              {String(option)}
+            </option>
+          ))}
+        </select>
+      ) : schema.type === 'number' || schema.type === 'integer' ? (
+        <input
+          type="number"
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          min={schema.minimum}
+          max={schema.maximum}
+          step={schema.type === 'integer' ? 1 : 'any'}
+          className={inputClassName}
+        />
+      ) : (
+        <input
+          type="text"
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+          maxLength={schema.maxLength}
+          className={inputClassName}
+        />
+      )}
+      {schema.description && <p className="mt-1 text-xs text-slate-400">{schema.description}</p>}
+    </div>
+  );
+};
+
+interface PayloadFieldsProps {
+  schema: JsonSchema;
+  value: Record<string, unknown>;
+  onChange: (value: Record<string, unknown>) => void;
+}
+
+/** Renders one input per property of an object JSON Schema. */
+export const PayloadFields: React.FC<PayloadFieldsProps> = ({ schema, value, onChange }) => (
+  <>
+    {Object.entries(schema.properties ?? {}).map(([name, property]) => (
+      <PayloadField
+        key={name}
+        name={name}
+        schema={property}
+        required={(schema.required ?? []).includes(name)}
+        value={value[name]}
+        onChange={(fieldValue) => onChange({ ...value, [name]: fieldValue })}
+      />
+    ))}
+  </>
+);
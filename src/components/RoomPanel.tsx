@@ -0,0 +1,125 @@
+import React from 'react';
+import { DoorOpen, Users, Wifi, WifiOff } from 'lucide-react';
+import type { CommandType } from '../contexts/CommandTypesContext';
+import { getCommandIcon } from '../lib/commandIcons';
+import { getUnavailableReason } from '../lib/deviceState';
+import type { Command, DeviceWithTeams, RoomWithDevices } from '../lib/repository';
+import { getCategoryLabel, resolveRoom } from '../lib/rooms';
+import { CommandStatus } from './CommandStatus';
+import { MeetingState } from './MeetingState';
+import { NowPlaying } from './NowPlaying';
+
+interface RoomPanelProps {
+  room: RoomWithDevices;
+  devices: DeviceWithTeams[];
+  commandTypes: CommandType[];
+  recentCommands: Record<string, Command>;
+  now: number;
+  canSendCommand: (device: DeviceWithTeams, commandType: string) => boolean;
+  onCommand: (device: DeviceWithTeams, commandType: CommandType) => void;
+}
+
+/**
+ * Room-level controls: every command one of the room's devices handles, sent
+ * to that device, plus the room's live Zoom and player state.
+ */
+export const RoomPanel: React.FC<RoomPanelProps> = ({
+  room,
+  devices,
+  commandTypes,
+  recentCommands,
+  now,
+  canSendCommand,
+  onCommand,
+}) => {
+  const { devices: roomDevices, commands: routed, zoomDevice, musicDevice } = resolveRoom(room, devices, commandTypes);
+
+  const latestCommand = roomDevices
+    .map(({ device }) => recentCommands[device.id])
+    .filter((command): command is Command => command !== undefined)
+    .sort((a, b) => b.sent_at.localeCompare(a.sent_at))[0];
+
+  return (
+    <div className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-2xl p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <div className="flex items-center space-x-2">
+            <DoorOpen className="w-5 h-5 text-cyan-400" />
+            <h3 className="text-lg font-semibold text-white">{room.name}</h3>
+            {room.team && (
+              <span className="inline-flex items-center space-x-1 px-2 py-1 bg-cyan-500/10 border border-cyan-500/30 rounded-md text-xs text-cyan-400">
+                <Users className="w-3 h-3" />
+                <span>{room.team.name}</span>
+              </span>
+            )}
+          </div>
+          {room.description && <p className="text-sm text-cyan-300/70 mt-1">{room.description}</p>}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {roomDevices.length === 0 ? (
+          <span className="text-sm text-slate-400">No devices you can reach</span>
+        ) : (
+          roomDevices.map(({ device, handles }) => (
+            <span
+              key={device.id}
+              className="inline-flex items-center space-x-1 px-2 py-1 bg-slate-800/40 border border-cyan-500/20 rounded-md text-xs text-cyan-300"
+              title={device.status}
+            >
+              {device.status === 'online' ? (
+                <Wifi className="w-3 h-3 text-green-400" />
+              ) : (
+                <WifiOff className={`w-3 h-3 ${device.status === 'offline' ? 'text-red-400' : 'text-slate-400'}`} />
+              )}
+              <span>{device.name}</span>
+              {handles.length > 0 && <span className="opacity-60">· {handles.map(getCategoryLabel).join(', ')}</span>}
+            </span>
+          ))
+        )}
+      </div>
+
+      {(zoomDevice?.status === 'online' && zoomDevice.zoom_state) ||
+      (musicDevice?.status === 'online' && musicDevice.now_playing) ? (
+        <div className="mb-4 space-y-2">
+          {zoomDevice?.status === 'online' && zoomDevice.zoom_state && (
+            <MeetingState zoomState={zoomDevice.zoom_state} />
+          )}
+          {musicDevice?.status === 'online' && musicDevice.now_playing && (
+            <NowPlaying nowPlaying={musicDevice.now_playing} reportedAt={musicDevice.now_playing_at} now={now} />
+          )}
+        </div>
+      ) : null}
+
+      {latestCommand && (
+        <div className="mb-4">
+          <CommandStatus command={latestCommand} now={now} />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        {routed.map(({ commandType, device }) => {
+          const Icon = getCommandIcon(commandType.icon);
+          const allowed = canSendCommand(device, commandType.id);
+          const unavailableReason = getUnavailableReason(commandType, device);
+          return (
+            <button
+              key={commandType.id}
+              onClick={() => onCommand(device, commandType)}
+              disabled={!allowed || unavailableReason !== null}
+              title={
+                !allowed
+                  ? 'Your team role cannot send this command'
+                  : unavailableReason ?? `${commandType.description ?? commandType.label} (${device.name})`
+              }
+              className="flex items-center justify-center space-x-2 px-3 py-2 bg-slate-800/50 hover:bg-cyan-500/20 border border-cyan-500/30 hover:border-cyan-500/50 rounded-lg text-sm text-cyan-300 hover:text-cyan-200 transition-all disabled:opacity-40 disabled:hover:bg-slate-800/50 disabled:hover:border-cyan-500/30 disabled:cursor-not-allowed"
+            >
+              <Icon className="w-4 h-4" />
+              <span className="truncate">{commandType.label}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { DoorOpen, Edit2, Plus, Trash2, Users, X } from 'lucide-react';
+import { getErrorMessage } from '../lib/repository';
+import type { RoomDevice, RoomWithDevices, Team } from '../lib/repository';
+import { COMMAND_CATEGORIES, getCategoryLabel } from '../lib/rooms';
+
+interface RoomsProps {
+  rooms: RoomWithDevices[];
+  devices: { id: string; name: string }[];
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+export const Rooms: React.FC<RoomsProps> = ({ rooms, devices, onChanged, onClose }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { isTeamAdmin } = usePermissions();
+  const repository = useRepository();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [editing, setEditing] = useState<RoomWithDevices | 'new' | null>(null);
+
+  useEffect(() => {
+    loadTeams();
+  }, []);
+
+  const loadTeams = async () => {
+    try {
+      setTeams(await repository.teams.list());
+    } catch (error) {
+      console.error('Error loading teams:', error);
+    }
+  };
+
+  const deleteRoom = async (room: RoomWithDevices) => {
+    if (!confirm(`Delete room "${room.name}"? Its devices are kept.`)) return;
+
+    try {
+      await repository.rooms.remove(room.id);
+      onChanged();
+    } catch (error) {
+      console.error('Error deleting room:', error);
+      showToast(getErrorMessage(error, 'Failed to delete room'), 'error');
+    }
+  };
+
+  const canEdit = (room: RoomWithDevices) => room.owner_id === user?.id || isTeamAdmin(room.team_id);
+
+  const getDeviceName = (deviceId: string) => devices.find((device) => device.id === deviceId)?.name ?? 'Unknown device';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden shadow-2xl shadow-cyan-500/20">
+        <div className="flex items-center justify-between p-6 border-b border-cyan-500/20">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-cyan-500/50">
+              <DoorOpen className="w-6 h-6 text-white" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Rooms</h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setEditing('new')}
+              className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white font-medium rounded-lg shadow-lg shadow-cyan-500/30 transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Room</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-slate-800/50 rounded-lg text-cyan-300 transition-all"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-5rem)]">
+          {rooms.length === 0 ? (
+            <div className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-xl p-8 text-center">
+              <DoorOpen className="w-12 h-12 text-cyan-400/50 mx-auto mb-3" />
+              <p className="text-cyan-300">No rooms yet</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {rooms.map((room) => (
+                <div
+                  key={room.id}
+                  className="flex items-center justify-between p-4 bg-slate-800/30 border border-cyan-500/20 rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <p className="text-white font-medium">{room.name}</p>
+                      {room.team && (
+                        <span className="inline-flex items-center space-x-1 px-2 py-0.5 bg-cyan-500/10 border border-cyan-500/30 rounded-md text-xs text-cyan-400">
+                          <Users className="w-3 h-3" />
+                          <span>{room.team.name}</span>
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-cyan-300/70 mt-1 truncate">
+                      {room.devices
+                        .map(
+                          (device) =>
+                            `${getDeviceName(device.device_id)}${
+                              device.handles.length > 0 ? ` (${device.handles.map(getCategoryLabel).join(', ')})` : ''
+                            }`
+                        )
+                        .join(', ') || 'No devices'}
+                    </p>
+                  </div>
+                  {canEdit(room) && (
+                    <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                      <button
+                        onClick={() => setEditing(room)}
+                        className="p-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                        title="Edit"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteRoom(room)}
+                        className="p-2 bg-red-900/20 hover:bg-red-900/30 border border-red-500/20 hover:border-red-500/40 rounded-lg text-red-400 transition-all"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <RoomFormModal
+          room={editing === 'new' ? null : editing}
+          devices={devices}
+          teams={teams}
+          onClose={() => setEditing(null)}
+          onSuccess={() => {
+            setEditing(null);
+            onChanged();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface RoomFormModalProps {
+  room: RoomWithDevices | null;
+  devices: { id: string; name: string }[];
+  teams: Team[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const RoomFormModal: React.FC<RoomFormModalProps> = ({ room, devices, teams, onClose, onSuccess }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const repository = useRepository();
+  const [name, setName] = useState(room?.name ?? '');
+  const [description, setDescription] = useState(room?.description ?? '');
+  const [teamId, setTeamId] = useState(room?.team_id ?? '');
+  const [roomDevices, setRoomDevices] = useState<RoomDevice[]>(() => room?.devices ?? []);
+  const [loading, setLoading] = useState(false);
+
+  const handles = (deviceId: string, category: string) =>
+    roomDevices.some((device) => device.device_id === deviceId && device.handles.includes(category));
+
+  const toggleHandles = (deviceId: string, category: string) => {
+    const current = roomDevices.find((device) => device.device_id === deviceId)?.handles ?? [];
+    const next = current.includes(category) ? current.filter((entry) => entry !== category) : [...current, category];
+    const others = roomDevices.filter((device) => device.device_id !== deviceId);
+    // A device stays in the room only while it handles something.
+    setRoomDevices(next.length > 0 ? [...others, { device_id: deviceId, handles: next }] : others);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (roomDevices.length === 0) {
+      showToast('Pick at least one device', 'warning');
+      return;
+    }
+
+    setLoading(true);
+
+    const values = { name, description: description || null, team_id: teamId || null };
+    try {
+      let roomId = room?.id;
+      if (roomId) {
+        await repository.rooms.update(roomId, values);
+      } else {
+        roomId = (await repository.rooms.create(values, user.id)).id;
+      }
+      await repository.rooms.setDevices(roomId, roomDevices);
+
+      showToast(room ? 'Room updated' : 'Room created', 'success');
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving room:', error);
+      showToast(getErrorMessage(error, 'Failed to save room'), 'error');
+      setLoading(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-4 py-3 bg-slate-800/50 border border-cyan-500/30 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[70]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl p-8 max-w-md w-full max-h-[90vh] overflow-y-auto shadow-2xl shadow-cyan-500/20">
+        <h2 className="text-2xl font-bold text-white mb-6">{room ? 'Edit Room' : 'New Room'}</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              placeholder="Prime"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClassName}
+              placeholder="Prime Zoom Meeting Room"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Share With</label>
+            <select value={teamId} onChange={(e) => setTeamId(e.target.value)} className={inputClassName}>
+              <option value="">Only me</option>
+              {teams.map((team) => (
+                <option key={team.id} value={team.id}>
+                  {team.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Devices</label>
+            <p className="text-xs text-slate-400 mb-2">
+              Room commands go to the device that handles their kind.
+            </p>
+            <div className="space-y-2">
+              {devices.map((device) => (
+                <div
+                  key={device.id}
+                  className="flex items-center justify-between px-4 py-2 bg-slate-800/30 border border-cyan-500/20 rounded-lg text-white"
+                >
+                  <span className="truncate">{device.name}</span>
+                  <div className="flex items-center space-x-3 flex-shrink-0 ml-3">
+                    {COMMAND_CATEGORIES.map((category) => (
+                      <label key={category.value} className="flex items-center space-x-1 text-sm text-cyan-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={handles(device.id, category.value)}
+                          onChange={() => toggleHandles(device.id, category.value)}
+                          className="w-4 h-4 rounded border-cyan-500/30 bg-slate-800/50 text-cyan-500 focus:ring-cyan-500/50"
+                        />
+                        <span>{category.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-xl text-cyan-300 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-3 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white font-medium rounded-xl shadow-lg shadow-cyan-500/30 transition-all disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : room ? 'Save Changes' : 'Create Room'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,440 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useCommandTypes } from '../contexts/CommandTypesContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { CRON_PRESETS, getNextCronRuns, validateCron } from '../lib/cron';
+import { getSchemaDefaults, validateJsonSchema } from '../lib/jsonSchema';
+import { getErrorMessage } from '../lib/repository';
+import { AlertTriangle, CalendarClock, CheckCircle, Edit2, Pause, Play, Plus, Repeat, X, XCircle } from 'lucide-react';
+import type { Schedule, ScheduleRun } from '../lib/repository';
+import { PayloadFields } from './PayloadFields';
+
+const SCHEDULE_RUN_LABELS: Record<ScheduleRun['status'], string> = {
+  fired: 'Fired',
+  missed: 'Missed',
+  failed: 'Failed',
+};
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const toLocalInputValue = (date: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+interface SchedulesProps {
+  device: { id: string; name: string };
+  onClose: () => void;
+}
+
+export const Schedules: React.FC<SchedulesProps> = ({ device, onClose }) => {
+  const { showToast } = useToast();
+  const { getCommandLabel } = useCommandTypes();
+  const repository = useRepository();
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [editing, setEditing] = useState<Schedule | 'new' | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSchedules();
+    return repository.schedules.subscribe(device.id, loadSchedules);
+  }, [device.id]);
+
+  const loadSchedules = async () => {
+    const [schedulesResult, runsResult] = await Promise.allSettled([
+      repository.schedules.list(device.id),
+      repository.schedules.listRuns(device.id, 20),
+    ]);
+
+    if (schedulesResult.status === 'rejected') {
+      console.error('Error loading schedules:', schedulesResult.reason);
+    } else {
+      setSchedules(schedulesResult.value);
+    }
+
+    if (runsResult.status === 'rejected') {
+      console.error('Error loading schedule runs:', runsResult.reason);
+    } else {
+      setRuns(runsResult.value);
+    }
+    setLoading(false);
+  };
+
+  const setStatus = async (schedule: Schedule, status: Schedule['status']) => {
+    if (status === 'cancelled' && !confirm('Cancel this schedule?')) return;
+
+    try {
+      await repository.schedules.setStatus(schedule.id, status);
+      loadSchedules();
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      showToast(getErrorMessage(error, 'Failed to update schedule'), 'error');
+    }
+  };
+
+  const missedCount = runs.filter((run) => run.status === 'missed').length;
+  const failedCount = runs.filter((run) => run.status === 'failed').length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden shadow-2xl shadow-cyan-500/20">
+        <div className="flex items-center justify-between p-6 border-b border-cyan-500/20">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-cyan-500/50">
+              <CalendarClock className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Schedules</h2>
+              <p className="text-sm text-cyan-300">{device.name}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setEditing('new')}
+              className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white font-medium rounded-lg shadow-lg shadow-cyan-500/30 transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Schedule</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-slate-800/50 rounded-lg text-cyan-300 transition-all"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-5rem)] space-y-8">
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            <>
+              <section>
+                <h3 className="text-sm font-medium text-cyan-300 mb-3">Upcoming ({schedules.length})</h3>
+                {schedules.length === 0 ? (
+                  <div className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-xl p-8 text-center">
+                    <CalendarClock className="w-12 h-12 text-cyan-400/50 mx-auto mb-3" />
+                    <p className="text-cyan-300">No scheduled commands for {device.name}</p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {schedules.map((schedule) => (
+                      <div
+                        key={schedule.id}
+                        className="flex items-center justify-between p-4 bg-slate-800/30 border border-cyan-500/20 rounded-lg"
+                      >
+                        <div className="min-w-0">
+                          <div className="flex items-center space-x-2">
+                            <p className="text-white font-medium">{getCommandLabel(schedule.command_type)}</p>
+                            {schedule.cron && (
+                              <span className="inline-flex items-center space-x-1 px-2 py-0.5 bg-cyan-500/10 border border-cyan-500/30 rounded-md text-xs text-cyan-400 font-mono">
+                                <Repeat className="w-3 h-3" />
+                                <span>{schedule.cron}</span>
+                              </span>
+                            )}
+                            {schedule.status === 'paused' && (
+                              <span className="px-2 py-0.5 bg-slate-500/10 border border-slate-500/30 rounded-md text-xs text-slate-300">
+                                Paused
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-xs text-cyan-300/70 mt-1">
+                            {schedule.status === 'paused' ? 'Paused' : `Next run ${formatTimestamp(schedule.next_run_at)}`}
+                            {schedule.last_run_at && ` · Last run ${formatTimestamp(schedule.last_run_at)}`}
+                          </p>
+                          {schedule.status === 'paused' && schedule.last_error && (
+                            <p className="text-xs text-red-400 mt-1">{schedule.last_error}</p>
+                          )}
+                          {Object.keys(schedule.payload ?? {}).length > 0 && (
+                            <p className="text-xs font-mono text-slate-400 mt-1 truncate">{JSON.stringify(schedule.payload)}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                          <button
+                            onClick={() => setEditing(schedule)}
+                            className="p-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                            title="Edit"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => setStatus(schedule, schedule.status === 'paused' ? 'active' : 'paused')}
+                            className="p-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
+                            title={schedule.status === 'paused' ? 'Resume' : 'Pause'}
+                          >
+                            {schedule.status === 'paused' ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                          </button>
+                          <button
+                            onClick={() => setStatus(schedule, 'cancelled')}
+                            className="p-2 bg-red-900/20 hover:bg-red-900/30 border border-red-500/20 hover:border-red-500/40 rounded-lg text-red-400 transition-all"
+                            title="Cancel"
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              <section>
+                <h3 className="text-sm font-medium text-cyan-300 mb-3">
+                  Recent Runs
+                  {missedCount > 0 && <span className="ml-2 text-amber-400">({missedCount} missed)</span>}
+                  {failedCount > 0 && <span className="ml-2 text-red-400">({failedCount} failed)</span>}
+                </h3>
+                {runs.length === 0 ? (
+                  <p className="text-sm text-slate-400">No runs yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {runs.map((run) => (
+                      <div
+                        key={run.id}
+                        className={`flex items-center justify-between px-4 py-2 rounded-lg border text-sm ${
+                          run.status === 'missed'
+                            ? 'bg-amber-500/10 border-amber-500/30 text-amber-300'
+                            : run.status === 'failed'
+                              ? 'bg-red-500/10 border-red-500/30 text-red-300'
+                              : 'bg-slate-800/30 border-cyan-500/20 text-slate-200'
+                        }`}
+                      >
+                        <div className="flex items-center space-x-2 min-w-0">
+                          {run.status === 'missed' ? (
+                            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                          ) : run.status === 'failed' ? (
+                            <XCircle className="w-4 h-4 flex-shrink-0" />
+                          ) : (
+                            <CheckCircle className="w-4 h-4 text-green-400 flex-shrink-0" />
+                          )}
+                          <span>{run.schedule ? getCommandLabel(run.schedule.command_type) : 'Schedule'}</span>
+                          <span className="opacity-70">{SCHEDULE_RUN_LABELS[run.status]}</span>
+                          {run.error_message && (
+                            <span className="opacity-70 truncate" title={run.error_message}>
+                              · {run.error_message}
+                            </span>
+                          )}
+                        </div>
+                        <span className="opacity-70 flex-shrink-0 ml-4">{formatTimestamp(run.scheduled_for)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <ScheduleFormModal
+          deviceId={device.id}
+          schedule={editing === 'new' ? null : editing}
+          onClose={() => setEditing(null)}
+          onSuccess={() => {
+            setEditing(null);
+            loadSchedules();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface ScheduleFormModalProps {
+  deviceId: string;
+  schedule: Schedule | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const ScheduleFormModal: React.FC<ScheduleFormModalProps> = ({ deviceId, schedule, onClose, onSuccess }) => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { commandTypes, getCommandType } = useCommandTypes();
+  const repository = useRepository();
+  const [commandTypeId, setCommandTypeId] = useState(schedule?.command_type ?? commandTypes[0]?.id ?? '');
+  const [payload, setPayload] = useState<Record<string, unknown>>(
+    () => schedule?.payload ?? (commandTypes[0] ? getSchemaDefaults(commandTypes[0].payload_schema) : {})
+  );
+  const [recurring, setRecurring] = useState(Boolean(schedule?.cron));
+  const [runAt, setRunAt] = useState(() =>
+    toLocalInputValue(schedule ? new Date(schedule.run_at) : new Date(Date.now() + 60 * 60 * 1000))
+  );
+  const [cron, setCron] = useState(schedule?.cron ?? CRON_PRESETS[0].value);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const commandType = getCommandType(commandTypeId);
+  const cronError = recurring ? validateCron(cron) : null;
+  const preview = recurring && !cronError ? getNextCronRuns(cron, new Date(Math.max(Date.now(), new Date(runAt).getTime()) - 60000), 3) : [];
+
+  const changeCommandType = (id: string) => {
+    setCommandTypeId(id);
+    const selected = getCommandType(id);
+    setPayload(selected ? getSchemaDefaults(selected.payload_schema) : {});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !commandType) return;
+
+    const problems = validateJsonSchema(commandType.payload_schema, payload);
+    if (cronError) problems.push(cronError);
+    if (!recurring && new Date(runAt).getTime() <= Date.now()) problems.push('Run time must be in the future');
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setLoading(true);
+
+    const values = {
+      command_type: commandType.id,
+      payload,
+      run_at: new Date(runAt).toISOString(),
+      cron: recurring ? cron.trim() : null,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+
+    try {
+      if (schedule) {
+        await repository.schedules.update(schedule.id, values);
+      } else {
+        await repository.schedules.create(deviceId, values, user.id);
+      }
+      showToast(schedule ? 'Schedule updated' : 'Schedule created', 'success');
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      showToast(getErrorMessage(error, 'Failed to save schedule'), 'error');
+      setLoading(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-4 py-3 bg-slate-800/50 border border-cyan-500/30 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[70]">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-2xl p-8 max-w-md w-full max-h-[90vh] overflow-y-auto shadow-2xl shadow-cyan-500/20">
+        <h2 className="text-2xl font-bold text-white mb-6">{schedule ? 'Edit Schedule' : 'New Schedule'}</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Command</label>
+            <select
+              value={commandTypeId}
+              onChange={(e) => changeCommandType(e.target.value)}
+              className={inputClassName}
+              required
+            >
+              {commandTypes.map((type) => (
+                <option key={type.id} value={type.id}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {commandType && <PayloadFields schema={commandType.payload_schema} value={payload} onChange={setPayload} />}
+
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={() => setRecurring(false)}
+              className={`flex-1 px-4 py-2 rounded-lg border text-sm transition-all ${
+                !recurring ? 'bg-cyan-500/20 border-cyan-500/50 text-white' : 'bg-slate-800/50 border-cyan-500/20 text-cyan-300'
+              }`}
+            >
+              Once
+            </button>
+            <button
+              type="button"
+              onClick={() => setRecurring(true)}
+              className={`flex-1 px-4 py-2 rounded-lg border text-sm transition-all ${
+                recurring ? 'bg-cyan-500/20 border-cyan-500/50 text-white' : 'bg-slate-800/50 border-cyan-500/20 text-cyan-300'
+              }`}
+            >
+              Recurring
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-cyan-300 mb-2">{recurring ? 'Starting' : 'Run At'}</label>
+            <input
+              type="datetime-local"
+              value={runAt}
+              onChange={(e) => setRunAt(e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+
+          {recurring && (
+            <div>
+              <label className="block text-sm font-medium text-cyan-300 mb-2">Cron Expression</label>
+              <input
+                type="text"
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+                className={`${inputClassName} font-mono`}
+                placeholder="0 20 * * 5"
+                required
+              />
+              <div className="flex flex-wrap gap-2 mt-2">
+                {CRON_PRESETS.map((preset) => (
+                  <button
+                    key={preset.value}
+                    type="button"
+                    onClick={() => setCron(preset.value)}
+                    className="px-2 py-1 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/20 rounded-md text-xs text-cyan-300 transition-all"
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+              {cronError ? (
+                <p className="mt-2 text-xs text-red-400">{cronError}</p>
+              ) : (
+                <div className="mt-2 text-xs text-slate-400">
+                  <p>Next runs:</p>
+                  {preview.map((run) => (
+                    <p key={run.toISOString()}>{run.toLocaleString()}</p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {errors.length > 0 && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 text-sm space-y-1">
+              {errors.map((error) => (
+                <p key={error}>{error}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-xl text-cyan-300 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-3 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white font-medium rounded-xl shadow-lg shadow-cyan-500/30 transition-all disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : schedule ? 'Save Changes' : 'Create Schedule'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
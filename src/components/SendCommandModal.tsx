@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { getCommandIcon } from '../lib/commandIcons';
+import { getSchemaDefaults, validateJsonSchema } from '../lib/jsonSchema';
+import type { CommandType } from '../contexts/CommandTypesContext';
+import { PayloadFields } from './PayloadFields';
+
+interface SendCommandModalProps {
+  commandType: CommandType;
+  targetName: string;
+  onClose: () => void;
+  onSend: (payload: Record<string, unknown>) => Promise<void>;
+}
+
+/**
+ * Collects the payload for a command type from its JSON Schema and, for
+ * command types flagged `requires_confirmation`, asks before sending.
+ */
+export const SendCommandModal: React.FC<SendCommandModalProps> = ({ commandType, targetName, onClose, onSend }) => {
+  const schema = commandType.payload_schema;
+  const [payload, setPayload] = useState<Record<string, unknown>>(() => getSchemaDefaults(schema));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const Icon = getCommandIcon(commandType.icon);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const problems = validateJsonSchema(schema, payload);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setLoading(true);
+    await onSend(payload);
+    setLoading(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
+      <div className="backdrop-blur-xl bg-slate-900/90 border border-cyan-500/30 rounded-2xl p-8 max-w-md w-full shadow-2xl shadow-cyan-500/20">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="w-10 h-10 rounded-lg bg-cyan-500/20 border border-cyan-500/30 flex items-center justify-center">
+            <Icon className="w-5 h-5 text-cyan-400" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-white">{commandType.label}</h2>
+            <p className="text-sm text-cyan-300">{targetName}</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {commandType.description && <p className="text-sm text-slate-300">{commandType.description}</p>}
+
+          <PayloadFields schema={schema} value={payload} onChange={setPayload} />
+
+          {commandType.requires_confirmation && (
+            <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-amber-300 text-sm">
+              Send {commandType.label} to {targetName}?
+            </div>
+          )}
+
+          {errors.length > 0 && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 text-sm space-y-1">
+              {errors.map((error) => (
+                <p key={error}>{error}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-xl text-cyan-300 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-3 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white font-medium rounded-xl shadow-lg shadow-cyan-500/30 transition-all disabled:opacity-50"
+            >
+              {loading ? 'Sending...' : 'Send Command'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
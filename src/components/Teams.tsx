@@ -1,11 +1,29 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
-import { Users, Plus, Trash2, UserPlus, X } from 'lucide-react';
-import type { Database } from '../lib/supabase';
-
-type Team = Database['public']['Tables']['teams']['Row'];
-type TeamMember = Database['public']['Tables']['team_members']['Row'];
+import { useToast } from '../contexts/ToastContext';
+import { useCommandTypes } from '../contexts/CommandTypesContext';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { TEAM_ROLES, getRoleLabel } from '../lib/permissions';
+import type { TeamRole } from '../lib/permissions';
+import { getErrorMessage } from '../lib/repository';
+import type {
+  CommandPermission,
+  ReceivedInvitation,
+  SharedDevice,
+  Team,
+  TeamInvitation,
+  TeamMember,
+} from '../lib/repository';
+import { Users, Plus, Trash2, UserPlus, X, History, Mail, Check, XCircle, Monitor } from 'lucide-react';
+import { CommandHistory } from './CommandHistory';
+
+const ASSIGNABLE_ROLES = TEAM_ROLES.filter((role) => role.value !== 'owner');
+
+const formatExpiry = (expiresAt: string) => {
+  const days = Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 86_400_000);
+  return days <= 1 ? 'Expires within a day' : `Expires in ${days} days`;
+};
 
 interface TeamsProps {
   onClose: () => void;
@@ -13,39 +31,89 @@ interface TeamsProps {
 
 export const Teams: React.FC<TeamsProps> = ({ onClose }) => {
   const { user } = useAuth();
+  const { showToast } = useToast();
+  const { getTeamRole, isTeamAdmin, reload: reloadPermissions } = usePermissions();
+  const repository = useRepository();
   const [teams, setTeams] = useState<Team[]>([]);
+  const [sharedDevices, setSharedDevices] = useState<SharedDevice[]>([]);
   const [showCreateTeam, setShowCreateTeam] = useState(false);
   const [selectedTeam, setSelectedTeam] = useState<Team | null>(null);
+  const [historyTeam, setHistoryTeam] = useState<Team | null>(null);
+  const [invitations, setInvitations] = useState<ReceivedInvitation[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadTeams();
+    loadSharedDevices();
+    loadInvitations();
   }, []);
 
-  const loadTeams = async () => {
-    const { data, error } = await supabase
-      .from('teams')
-      .select('*')
-      .order('created_at', { ascending: false });
+  // Teams with a pending invitation are readable too; they are listed under Invitations instead.
+  const memberTeams = teams.filter((team) => getTeamRole(team.id));
 
-    if (error) {
+  const loadTeams = async () => {
+    try {
+      const data = await repository.teams.list();
+      setTeams(data.sort((a, b) => b.created_at.localeCompare(a.created_at)));
+    } catch (error) {
       console.error('Error loading teams:', error);
-    } else {
-      setTeams(data || []);
     }
     setLoading(false);
   };
 
+  const loadSharedDevices = async () => {
+    try {
+      setSharedDevices(await repository.devices.listShared());
+    } catch (error) {
+      console.error('Error loading team devices:', error);
+    }
+  };
+
+  const unshareDevice = async (device: SharedDevice, team: Team) => {
+    if (!confirm(`Remove ${device.name} from ${team.name}?`)) return;
+
+    try {
+      await repository.devices.unshare(device.id, team.id);
+      loadSharedDevices();
+    } catch (error) {
+      console.error('Error unsharing device:', error);
+      showToast('Failed to remove device from team', 'error');
+    }
+  };
+
+  const loadInvitations = async () => {
+    if (!user?.email) return;
+
+    try {
+      setInvitations(await repository.members.listReceivedInvitations(user.email));
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+    }
+  };
+
+  const respondToInvitation = async (invitation: ReceivedInvitation, accept: boolean) => {
+    try {
+      await repository.members.respondToInvitation(invitation.id, accept);
+      showToast(accept ? `Joined ${invitation.team?.name ?? 'team'}` : 'Invitation declined', 'success');
+    } catch (error) {
+      console.error('Error responding to invitation:', error);
+      showToast(getErrorMessage(error, 'Failed to respond to invitation'), 'error');
+    }
+    loadInvitations();
+    loadTeams();
+    loadSharedDevices();
+    reloadPermissions();
+  };
+
   const deleteTeam = async (teamId: string) => {
     if (!confirm('Are you sure you want to delete this team?')) return;
 
-    const { error } = await supabase.from('teams').delete().eq('id', teamId);
-
-    if (error) {
-      console.error('Error deleting team:', error);
-      alert('Failed to delete team');
-    } else {
+    try {
+      await repository.teams.remove(teamId);
       loadTeams();
+    } catch (error) {
+      console.error('Error deleting team:', error);
+      showToast('Failed to delete team', 'error');
     }
   };
 
@@ -79,11 +147,48 @@ export const Teams: React.FC<TeamsProps> = ({ onClose }) => {
             </button>
           </div>
 
+          {invitations.length > 0 && (
+            <div className="mb-6 space-y-2">
+              <h3 className="text-sm font-medium text-cyan-300">Invitations ({invitations.length})</h3>
+              {invitations.map((invitation) => (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between p-4 bg-cyan-500/10 border border-cyan-500/30 rounded-lg"
+                >
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <Mail className="w-5 h-5 text-cyan-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-white font-medium">{invitation.team?.name ?? 'Unknown team'}</p>
+                      <p className="text-xs text-cyan-300/70">
+                        Join as <span className="capitalize">{invitation.role}</span> · {formatExpiry(invitation.expires_at)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                    <button
+                      onClick={() => respondToInvitation(invitation, true)}
+                      className="flex items-center space-x-1 px-3 py-2 bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white text-sm font-medium rounded-lg transition-all"
+                    >
+                      <Check className="w-4 h-4" />
+                      <span>Accept</span>
+                    </button>
+                    <button
+                      onClick={() => respondToInvitation(invitation, false)}
+                      className="px-3 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 text-sm transition-all"
+                    >
+                      Decline
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {loading ? (
             <div className="text-center py-12">
               <div className="inline-block w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-500 rounded-full animate-spin"></div>
             </div>
-          ) : teams.length === 0 ? (
+          ) : memberTeams.length === 0 ? (
             <div className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-xl p-12 text-center">
               <Users className="w-16 h-16 text-cyan-400/50 mx-auto mb-4" />
               <h3 className="text-xl font-semibold text-white mb-2">No teams yet</h3>
@@ -98,43 +203,80 @@ export const Teams: React.FC<TeamsProps> = ({ onClose }) => {
             </div>
           ) : (
             <div className="space-y-4">
-              {teams.map((team) => (
-                <div
-                  key={team.id}
-                  className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-xl p-6 hover:border-cyan-500/40 transition-all"
-                >
-                  <div className="flex items-center justify-between mb-4">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-10 h-10 rounded-lg bg-cyan-500/20 border border-cyan-500/30 flex items-center justify-center">
-                        <Users className="w-5 h-5 text-cyan-400" />
-                      </div>
-                      <div>
-                        <h3 className="text-lg font-semibold text-white">{team.name}</h3>
-                        {team.created_by === user?.id && (
-                          <span className="text-xs text-cyan-400">Owner</span>
-                        )}
+              {memberTeams.map((team) => {
+                const role = getTeamRole(team.id);
+                const teamDevices = sharedDevices.filter((device) =>
+                  device.teams.some(({ team_id }) => team_id === team.id)
+                );
+                return (
+                  <div
+                    key={team.id}
+                    className="backdrop-blur-xl bg-white/5 border border-cyan-500/20 rounded-xl p-6 hover:border-cyan-500/40 transition-all"
+                  >
+                    <div className="flex items-center justify-between mb-4">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-10 h-10 rounded-lg bg-cyan-500/20 border border-cyan-500/30 flex items-center justify-center">
+                          <Users className="w-5 h-5 text-cyan-400" />
+                        </div>
+                        <div>
+                          <h3 className="text-lg font-semibold text-white">{team.name}</h3>
+                          {role && (
+                            <span className="text-xs text-cyan-400">{getRoleLabel(role)}</span>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => setSelectedTeam(team)}
-                        className="flex items-center space-x-2 px-3 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 text-sm transition-all"
-                      >
-                        <UserPlus className="w-4 h-4" />
-                        <span>Manage</span>
-                      </button>
-                      {team.created_by === user?.id && (
+                      <div className="flex items-center space-x-2">
                         <button
-                          onClick={() => deleteTeam(team.id)}
-                          className="p-2 bg-red-900/20 hover:bg-red-900/30 border border-red-500/20 hover:border-red-500/40 rounded-lg text-red-400 transition-all"
+                          onClick={() => setHistoryTeam(team)}
+                          className="flex items-center space-x-2 px-3 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 text-sm transition-all"
                         >
-                          <Trash2 className="w-4 h-4" />
+                          <History className="w-4 h-4" />
+                          <span>History</span>
                         </button>
-                      )}
+                        <button
+                          onClick={() => setSelectedTeam(team)}
+                          className="flex items-center space-x-2 px-3 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 text-sm transition-all"
+                        >
+                          <UserPlus className="w-4 h-4" />
+                          <span>Manage</span>
+                        </button>
+                        {team.created_by === user?.id && (
+                          <button
+                            onClick={() => deleteTeam(team.id)}
+                            className="p-2 bg-red-900/20 hover:bg-red-900/30 border border-red-500/20 hover:border-red-500/40 rounded-lg text-red-400 transition-all"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
                     </div>
+                    {teamDevices.length === 0 ? (
+                      <p className="text-sm text-slate-400">No devices shared with this team yet</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {teamDevices.map((device) => (
+                          <span
+                            key={device.id}
+                            className="inline-flex items-center space-x-1 px-2 py-1 bg-slate-800/50 border border-cyan-500/20 rounded-md text-xs text-cyan-300"
+                          >
+                            <Monitor className="w-3 h-3" />
+                            <span>{device.name}</span>
+                            {isTeamAdmin(team.id) && (
+                              <button
+                                onClick={() => unshareDevice(device, team)}
+                                className="ml-1 text-slate-400 hover:text-red-400"
+                                title="Remove from team"
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            )}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
@@ -146,6 +288,7 @@ export const Teams: React.FC<TeamsProps> = ({ onClose }) => {
           onSuccess={() => {
             setShowCreateTeam(false);
             loadTeams();
+            reloadPermissions();
           }}
         />
       )}
@@ -156,6 +299,13 @@ export const Teams: React.FC<TeamsProps> = ({ onClose }) => {
           onClose={() => setSelectedTeam(null)}
         />
       )}
+
+      {historyTeam && (
+        <CommandHistory
+          scope={{ kind: 'team', id: historyTeam.id, name: historyTeam.name }}
+          onClose={() => setHistoryTeam(null)}
+        />
+      )}
     </div>
   );
 };
@@ -167,6 +317,8 @@ interface CreateTeamModalProps {
 
 const CreateTeamModal: React.FC<CreateTeamModalProps> = ({ onClose, onSuccess }) => {
   const { user } = useAuth();
+  const { showToast } = useToast();
+  const repository = useRepository();
   const [name, setName] = useState('');
   const [loading, setLoading] = useState(false);
 
@@ -175,26 +327,13 @@ const CreateTeamModal: React.FC<CreateTeamModalProps> = ({ onClose, onSuccess })
     if (!user) return;
 
     setLoading(true);
-    const { data, error } = await supabase
-      .from('teams')
-      .insert({
-        name,
-        created_by: user.id,
-      })
-      .select()
-      .single();
-
-    if (error) {
+    try {
+      await repository.teams.create(name, user.id);
+      onSuccess();
+    } catch (error) {
       console.error('Error creating team:', error);
-      alert('Failed to create team');
+      showToast('Failed to create team', 'error');
       setLoading(false);
-    } else {
-      await supabase.from('team_members').insert({
-        team_id: data.id,
-        user_id: user.id,
-        role: 'admin',
-      });
-      onSuccess();
     }
   };
 
@@ -243,90 +382,136 @@ interface ManageTeamModalProps {
 
 const ManageTeamModal: React.FC<ManageTeamModalProps> = ({ team, onClose }) => {
   const { user } = useAuth();
+  const { showToast } = useToast();
+  const { commandTypes } = useCommandTypes();
+  const { isTeamAdmin, reload: reloadPermissions } = usePermissions();
+  const repository = useRepository();
   const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+  const [commandPermissions, setCommandPermissions] = useState<CommandPermission[]>([]);
   const [newMemberEmail, setNewMemberEmail] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<TeamInvitation['role']>('operator');
   const [loading, setLoading] = useState(false);
 
+  const isAdmin = isTeamAdmin(team.id);
+
   useEffect(() => {
     loadMembers();
+    loadInvitations();
+    loadCommandPermissions();
   }, []);
 
   const loadMembers = async () => {
-    const { data, error } = await supabase
-      .from('team_members')
-      .select('*')
-      .eq('team_id', team.id);
-
-    if (error) {
+    try {
+      setMembers(await repository.members.list(team.id));
+    } catch (error) {
       console.error('Error loading members:', error);
-    } else {
-      setMembers(data || []);
     }
   };
 
-  const addMember = async (e: React.FormEvent) => {
+  const loadInvitations = async () => {
+    try {
+      setInvitations(await repository.members.listInvitations(team.id));
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+    }
+  };
+
+  const inviteMember = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
-    const { data: userData, error: userError } = await supabase
-      .from('auth.users')
-      .select('id')
-      .eq('email', newMemberEmail)
-      .maybeSingle();
-
-    if (userError || !userData) {
-      alert('User not found');
-      setLoading(false);
-      return;
+    try {
+      await repository.members.invite(team.id, newMemberEmail, newMemberRole);
+      showToast(`Invitation sent to ${newMemberEmail}`, 'success');
+      setNewMemberEmail('');
+      setNewMemberRole('operator');
+      loadInvitations();
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      showToast(getErrorMessage(error, 'Failed to send invitation'), 'error');
     }
+    setLoading(false);
+  };
 
-    const { error } = await supabase.from('team_members').insert({
-      team_id: team.id,
-      user_id: userData.id,
-      role: 'member',
-    });
+  const loadCommandPermissions = async () => {
+    try {
+      setCommandPermissions(await repository.teams.listCommandPermissions(team.id));
+    } catch (error) {
+      console.error('Error loading command permissions:', error);
+    }
+  };
 
-    if (error) {
-      console.error('Error adding member:', error);
-      alert('Failed to add member');
-    } else {
-      setNewMemberEmail('');
+  const changeRole = async (member: TeamMember, role: TeamRole) => {
+    try {
+      await repository.members.changeRole(member.id, role);
       loadMembers();
+      if (member.user_id === user?.id) reloadPermissions();
+    } catch (error) {
+      console.error('Error changing member role:', error);
+      showToast('Failed to change role', 'error');
     }
-    setLoading(false);
   };
 
-  const removeMember = async (memberId: string) => {
-    const { error } = await supabase
-      .from('team_members')
-      .delete()
-      .eq('id', memberId);
+  const changeCommandPermission = async (commandType: string, minRole: TeamRole | '') => {
+    try {
+      await repository.teams.setCommandPermission(team.id, commandType, minRole || null, user?.id ?? null);
+      loadCommandPermissions();
+      reloadPermissions();
+    } catch (error) {
+      console.error('Error saving command permission:', error);
+      showToast('Failed to save permission', 'error');
+    }
+  };
 
-    if (error) {
-      console.error('Error removing member:', error);
-      alert('Failed to remove member');
-    } else {
+  const revokeInvitation = async (invitation: TeamInvitation) => {
+    try {
+      await repository.members.revokeInvitation(invitation.id);
+      loadInvitations();
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      showToast('Failed to revoke invitation', 'error');
+    }
+  };
+
+  const removeMember = async (memberId: string) => {
+    try {
+      await repository.members.remove(memberId);
       loadMembers();
+    } catch (error) {
+      console.error('Error removing member:', error);
+      showToast('Failed to remove member', 'error');
     }
   };
 
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
-      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-xl p-6 max-w-md w-full shadow-2xl shadow-cyan-500/20">
+      <div className="backdrop-blur-xl bg-slate-900/95 border border-cyan-500/30 rounded-xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto shadow-2xl shadow-cyan-500/20">
         <h3 className="text-xl font-bold text-white mb-4">Manage Team: {team.name}</h3>
 
-        {team.created_by === user?.id && (
-          <form onSubmit={addMember} className="mb-6">
-            <label className="block text-sm font-medium text-cyan-300 mb-2">Add Member</label>
+        {isAdmin && (
+          <form onSubmit={inviteMember} className="mb-6">
+            <label className="block text-sm font-medium text-cyan-300 mb-2">Invite Member</label>
             <div className="flex space-x-2">
               <input
                 type="email"
                 value={newMemberEmail}
                 onChange={(e) => setNewMemberEmail(e.target.value)}
-                className="flex-1 px-4 py-2 bg-slate-800/50 border border-cyan-500/30 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+                className="flex-1 min-w-0 px-4 py-2 bg-slate-800/50 border border-cyan-500/30 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
                 placeholder="member@email.com"
                 required
               />
+              <select
+                value={newMemberRole}
+                onChange={(e) => setNewMemberRole(e.target.value as TeamInvitation['role'])}
+                className="px-3 py-2 bg-slate-800/50 border border-cyan-500/30 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+              >
+                {ASSIGNABLE_ROLES.map((role) => (
+                  <option key={role.value} value={role.value}>
+                    {role.label}
+                  </option>
+                ))}
+              </select>
               <button
                 type="submit"
                 disabled={loading}
@@ -338,6 +523,38 @@ const ManageTeamModal: React.FC<ManageTeamModalProps> = ({ team, onClose }) => {
           </form>
         )}
 
+        {isAdmin && invitations.length > 0 && (
+          <div className="mb-6">
+            <h4 className="text-sm font-medium text-cyan-300 mb-3">Pending Invitations ({invitations.length})</h4>
+            <div className="space-y-2 max-h-40 overflow-y-auto">
+              {invitations.map((invitation) => {
+                const expired = new Date(invitation.expires_at).getTime() <= Date.now();
+                return (
+                  <div
+                    key={invitation.id}
+                    className="flex items-center justify-between p-3 bg-slate-800/30 border border-cyan-500/20 rounded-lg"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-white text-sm truncate">{invitation.email}</p>
+                      <p className={`text-xs ${expired ? 'text-amber-400' : 'text-cyan-400'}`}>
+                        <span className="capitalize">{invitation.role}</span> ·{' '}
+                        {expired ? 'Expired' : formatExpiry(invitation.expires_at)}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => revokeInvitation(invitation)}
+                      className="p-2 hover:bg-red-900/30 rounded-lg text-red-400 transition-all"
+                      title="Revoke"
+                    >
+                      <XCircle className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         <div>
           <h4 className="text-sm font-medium text-cyan-300 mb-3">Members ({members.length})</h4>
           <div className="space-y-2 max-h-60 overflow-y-auto">
@@ -346,11 +563,25 @@ const ManageTeamModal: React.FC<ManageTeamModalProps> = ({ team, onClose }) => {
                 key={member.id}
                 className="flex items-center justify-between p-3 bg-slate-800/30 border border-cyan-500/20 rounded-lg"
               >
-                <div>
-                  <p className="text-white text-sm">{member.user_id}</p>
-                  <p className="text-cyan-400 text-xs capitalize">{member.role}</p>
+                <div className="min-w-0">
+                  <p className="text-white text-sm truncate">{member.user_id}</p>
+                  {!isAdmin || member.role === 'owner' ? (
+                    <p className="text-cyan-400 text-xs">{getRoleLabel(member.role)}</p>
+                  ) : (
+                    <select
+                      value={member.role}
+                      onChange={(e) => changeRole(member, e.target.value as TeamRole)}
+                      className="mt-1 px-2 py-1 bg-slate-800/50 border border-cyan-500/30 rounded-md text-cyan-300 text-xs focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+                    >
+                      {ASSIGNABLE_ROLES.map((role) => (
+                        <option key={role.value} value={role.value}>
+                          {role.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
                 </div>
-                {team.created_by === user?.id && member.user_id !== user.id && (
+                {isAdmin && member.role !== 'owner' && member.user_id !== user?.id && (
                   <button
                     onClick={() => removeMember(member.id)}
                     className="p-2 hover:bg-red-900/30 rounded-lg text-red-400 transition-all"
@@ -363,6 +594,38 @@ const ManageTeamModal: React.FC<ManageTeamModalProps> = ({ team, onClose }) => {
           </div>
         </div>
 
+        {isAdmin && commandTypes.length > 0 && (
+          <div className="mt-6">
+            <h4 className="text-sm font-medium text-cyan-300 mb-1">Command Permissions</h4>
+            <p className="text-xs text-slate-400 mb-3">Lowest role that can send each command to this team's devices</p>
+            <div className="space-y-2">
+              {commandTypes.map((commandType) => {
+                const override = commandPermissions.find((permission) => permission.command_type === commandType.id);
+                return (
+                  <div
+                    key={commandType.id}
+                    className="flex items-center justify-between p-3 bg-slate-800/30 border border-cyan-500/20 rounded-lg"
+                  >
+                    <span className="text-white text-sm">{commandType.label}</span>
+                    <select
+                      value={override?.min_role ?? ''}
+                      onChange={(e) => changeCommandPermission(commandType.id, e.target.value as TeamRole | '')}
+                      className="px-2 py-1 bg-slate-800/50 border border-cyan-500/30 rounded-md text-cyan-300 text-xs focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+                    >
+                      <option value="">Default ({getRoleLabel(commandType.min_role)})</option>
+                      {TEAM_ROLES.map((role) => (
+                        <option key={role.value} value={role.value}>
+                          {role.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         <button
           onClick={onClose}
           className="w-full mt-6 px-4 py-2 bg-slate-800/50 hover:bg-slate-800 border border-cyan-500/30 rounded-lg text-cyan-300 transition-all"
@@ -3,33 +3,84 @@
  * Prime and VIP Zoom Meeting Settings
  */
 
-export const ZOOM_CONFIG = {
+/**
+ * A room of this deployment and, per command category, the device that
+ * handles it there (the same device may handle several).
+ */
+export interface RoomDefinition {
+  key: string;
+  name: string;
+  description: string;
+  devices: Record<string, string>;
+}
+
+/**
+ * The dashboard creates each room once, for the first user who can see its
+ * devices; after that rooms are edited under Rooms and these values are no
+ * longer read.
+ */
+export const ZOOM_CONFIG: Record<'PRIME' | 'VIP', RoomDefinition> = {
   PRIME: {
+    key: 'prime',
     name: 'Prime',
     description: 'Prime Zoom Meeting Room',
-    defaultIP: import.meta.env.VITE_PRIME_IP || '',
-    defaultPort: parseInt(import.meta.env.VITE_PRIME_PORT || '3000'),
-    deviceId: import.meta.env.VITE_PRIME_DEVICE_ID || '',
+    devices: {
+      zoom: import.meta.env.VITE_PRIME_DEVICE_ID || '',
+      music: import.meta.env.VITE_PRIME_MUSIC_DEVICE_ID || import.meta.env.VITE_PRIME_DEVICE_ID || '',
+    },
   },
   VIP: {
+    key: 'vip',
     name: 'VIP',
     description: 'VIP Zoom Meeting Room',
-    defaultIP: import.meta.env.VITE_VIP_IP || '',
-    defaultPort: parseInt(import.meta.env.VITE_VIP_PORT || '3000'),
-    deviceId: import.meta.env.VITE_VIP_DEVICE_ID || '',
+    devices: {
+      zoom: import.meta.env.VITE_VIP_DEVICE_ID || '',
+      music: import.meta.env.VITE_VIP_MUSIC_DEVICE_ID || import.meta.env.VITE_VIP_DEVICE_ID || '',
+    },
   },
 };
 
-export const COMMANDS = {
-  UNMUTE_ZOOM: 'unmute_zoom',
-  NEXT_TRACK: 'next_track',
+/**
+ * Where devices, commands, teams and members live: `supabase`, or `memory`
+ * to run the dashboard without a project. Nothing is kept after a reload.
+ */
+export const DATA_BACKEND: 'supabase' | 'memory' =
+  import.meta.env.VITE_DATA_BACKEND === 'memory' ? 'memory' : 'supabase';
+
+export const COMMAND_STATUS = {
+  PENDING: 'pending',
+  DELIVERED: 'delivered',
+  EXECUTED: 'executed',
+  FAILED: 'failed',
+  EXPIRED: 'expired',
 } as const;
 
-export const COMMAND_LABELS = {
-  [COMMANDS.UNMUTE_ZOOM]: 'Unmute Zoom',
-  [COMMANDS.NEXT_TRACK]: 'Next Track',
+export const COMMAND_STATUS_LABELS = {
+  [COMMAND_STATUS.PENDING]: 'Pending',
+  [COMMAND_STATUS.DELIVERED]: 'Delivered',
+  [COMMAND_STATUS.EXECUTED]: 'Executed',
+  [COMMAND_STATUS.FAILED]: 'Failed',
+  [COMMAND_STATUS.EXPIRED]: 'Expired',
 };
 
+/** How a command reached its agent: through the Supabase queue or straight over the LAN. */
+export const DELIVERY_PATH_LABELS = {
+  queue: 'Queue',
+  direct: 'LAN',
+} as const;
+
+/** A command still pending or delivered after this long is flagged as stuck. */
+export const COMMAND_STUCK_AFTER_MS = parseInt(import.meta.env.VITE_COMMAND_STUCK_AFTER_MS || '30000');
+
+/** Repeated sends of the same command within this window reuse one idempotency key, so they run once. */
+export const COMMAND_DEDUPE_WINDOW_MS = parseInt(import.meta.env.VITE_COMMAND_DEDUPE_WINDOW_MS || '3000');
+
+/** How long a macro step waits for its command to finish before counting it as failed. */
+export const MACRO_STEP_TIMEOUT_MS = parseInt(import.meta.env.VITE_MACRO_STEP_TIMEOUT_MS || '60000');
+
+/** How long the dashboard waits for an agent on the LAN before queueing the command instead. */
+export const DIRECT_DELIVERY_TIMEOUT_MS = parseInt(import.meta.env.VITE_DIRECT_DELIVERY_TIMEOUT_MS || '1500');
+
 export const STATUS = {
   ONLINE: 'online',
   OFFLINE: 'offline',
@@ -41,5 +92,3 @@ export const STATUS_LABELS = {
   [STATUS.OFFLINE]: 'Offline',
   [STATUS.UNKNOWN]: 'Unknown',
 };
-
-export const POLL_INTERVAL = parseInt(import.meta.env.VITE_POLL_INTERVAL_MS || '5000');
@@ -0,0 +1,50 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useRepository } from './RepositoryContext';
+import type { CommandTypeRow } from '../lib/repository';
+import type { JsonSchema } from '../lib/jsonSchema';
+
+export type CommandType = Omit<CommandTypeRow, 'payload_schema'> & {
+  payload_schema: JsonSchema;
+};
+
+interface CommandTypesContextType {
+  commandTypes: CommandType[];
+  loading: boolean;
+  getCommandType: (id: string) => CommandType | undefined;
+  getCommandLabel: (id: string) => string;
+}
+
+const CommandTypesContext = createContext<CommandTypesContextType | undefined>(undefined);
+
+export const useCommandTypes = () => {
+  const context = useContext(CommandTypesContext);
+  if (!context) {
+    throw new Error('useCommandTypes must be used within a CommandTypesProvider');
+  }
+  return context;
+};
+
+export const CommandTypesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { commands } = useRepository();
+  const [commandTypes, setCommandTypes] = useState<CommandType[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    commands
+      .listTypes()
+      .then((types) => setCommandTypes(types as CommandType[]))
+      .catch((error) => console.error('Error loading command types:', error))
+      .finally(() => setLoading(false));
+  }, [commands]);
+
+  const getCommandType = (id: string) => commandTypes.find((commandType) => commandType.id === id);
+
+  const value = {
+    commandTypes,
+    loading,
+    getCommandType,
+    getCommandLabel: (id: string) => getCommandType(id)?.label ?? id,
+  };
+
+  return <CommandTypesContext.Provider value={value}>{children}</CommandTypesContext.Provider>;
+};
@@ -0,0 +1,81 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { useCommandTypes } from './CommandTypesContext';
+import { useRepository } from './RepositoryContext';
+import { hasRole } from '../lib/permissions';
+import type { TeamRole } from '../lib/permissions';
+import type { CommandPermission } from '../lib/repository';
+type SharedDevice = { owner_id: string; teams: { team_id: string }[] };
+
+interface PermissionsContextType {
+  /** The signed-in user's role per team id. */
+  roles: Record<string, TeamRole>;
+  getTeamRole: (teamId: string | null) => TeamRole | null;
+  isTeamAdmin: (teamId: string | null) => boolean;
+  /** Client-side mirror of `can_send_command()`; the database has the final say. */
+  canSendCommand: (device: SharedDevice, commandType: string) => boolean;
+  reload: () => Promise<void>;
+}
+
+const PermissionsContext = createContext<PermissionsContextType | undefined>(undefined);
+
+export const usePermissions = () => {
+  const context = useContext(PermissionsContext);
+  if (!context) {
+    throw new Error('usePermissions must be used within a PermissionsProvider');
+  }
+  return context;
+};
+
+export const PermissionsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { members, teams } = useRepository();
+  const { getCommandType } = useCommandTypes();
+  const [roles, setRoles] = useState<Record<string, TeamRole>>({});
+  const [overrides, setOverrides] = useState<CommandPermission[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!user) return;
+
+    const [rolesResult, overridesResult] = await Promise.allSettled([
+      members.getRoles(user.id),
+      teams.listCommandPermissions(),
+    ]);
+
+    if (rolesResult.status === 'rejected') {
+      console.error('Error loading team roles:', rolesResult.reason);
+    } else {
+      setRoles(rolesResult.value);
+    }
+
+    if (overridesResult.status === 'rejected') {
+      console.error('Error loading command permissions:', overridesResult.reason);
+    } else {
+      setOverrides(overridesResult.value);
+    }
+  }, [user, members, teams]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const getTeamRole = (teamId: string | null) => (teamId ? roles[teamId] ?? null : null);
+
+  // Team override, else the registry default.
+  const getRequiredRole = (teamId: string, commandType: string): TeamRole =>
+    overrides.find((override) => override.team_id === teamId && override.command_type === commandType)?.min_role ??
+    getCommandType(commandType)?.min_role ??
+    'operator';
+
+  const value = {
+    roles,
+    getTeamRole,
+    isTeamAdmin: (teamId: string | null) => hasRole(getTeamRole(teamId), 'admin'),
+    canSendCommand: (device: SharedDevice, commandType: string) =>
+      device.owner_id === user?.id ||
+      device.teams.some(({ team_id }) => hasRole(getTeamRole(team_id), getRequiredRole(team_id, commandType))),
+    reload,
+  };
+
+  return <PermissionsContext.Provider value={value}>{children}</PermissionsContext.Provider>;
+};
@@ -0,0 +1,30 @@
+import React, { createContext, useContext, useState } from 'react';
+import { DATA_BACKEND } from '../config';
+import { getSupabase } from '../lib/supabase';
+import { createMemoryRepository } from '../lib/memoryRepository';
+import { createSupabaseRepository } from '../lib/supabaseRepository';
+import type { Repository } from '../lib/repository';
+
+const RepositoryContext = createContext<Repository | undefined>(undefined);
+
+export const useRepository = () => {
+  const context = useContext(RepositoryContext);
+  if (!context) {
+    throw new Error('useRepository must be used within a RepositoryProvider');
+  }
+  return context;
+};
+
+interface RepositoryProviderProps {
+  /** Defaults to the backend picked by `VITE_DATA_BACKEND`. */
+  repository?: Repository;
+  children: React.ReactNode;
+}
+
+export const RepositoryProvider: React.FC<RepositoryProviderProps> = ({ repository, children }) => {
+  const [value] = useState(
+    () => repository ?? (DATA_BACKEND === 'memory' ? createMemoryRepository() : createSupabaseRepository(getSupabase()))
+  );
+
+  return <RepositoryContext.Provider value={value}>{children}</RepositoryContext.Provider>;
+};
@@ -0,0 +1,88 @@
+import React, { createContext, useCallback, useContext, useState } from 'react';
+import { AlertTriangle, CheckCircle, Info, X, XCircle } from 'lucide-react';
+
+type ToastType = 'success' | 'error' | 'warning' | 'info';
+
+interface Toast {
+  id: number;
+  type: ToastType;
+  message: string;
+}
+
+interface ToastContextType {
+  showToast: (message: string, type?: ToastType) => void;
+}
+
+const TOAST_DURATION_MS = 4000;
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+export const useToast = () => {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+};
+
+const toastStyles: Record<ToastType, { icon: React.ReactNode; className: string }> = {
+  success: {
+    icon: <CheckCircle className="w-5 h-5 text-green-400" />,
+    className: 'border-green-400/30',
+  },
+  error: {
+    icon: <XCircle className="w-5 h-5 text-red-400" />,
+    className: 'border-red-400/30',
+  },
+  warning: {
+    icon: <AlertTriangle className="w-5 h-5 text-amber-400" />,
+    className: 'border-amber-400/30',
+  },
+  info: {
+    icon: <Info className="w-5 h-5 text-cyan-400" />,
+    className: 'border-cyan-500/30',
+  },
+};
+
+let nextToastId = 0;
+
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback(
+    (message: string, type: ToastType = 'info') => {
+      const id = ++nextToastId;
+      setToasts((current) => [...current, { id, type, message }]);
+      setTimeout(() => dismiss(id), TOAST_DURATION_MS);
+    },
+    [dismiss]
+  );
+
+  return (
+    <ToastContext.Provider value={{ showToast }}>
+      {children}
+      <div className="fixed bottom-4 right-4 z-[100] flex flex-col space-y-2 w-80 max-w-[calc(100vw-2rem)]">
+        {toasts.map((toast) => (
+          <div
+            key={toast.id}
+            role="status"
+            className={`flex items-start space-x-3 p-4 backdrop-blur-xl bg-slate-900/95 border rounded-xl shadow-2xl shadow-cyan-500/10 ${toastStyles[toast.type].className}`}
+          >
+            <div className="flex-shrink-0">{toastStyles[toast.type].icon}</div>
+            <p className="flex-1 text-sm text-white">{toast.message}</p>
+            <button
+              onClick={() => dismiss(toast.id)}
+              className="flex-shrink-0 text-slate-400 hover:text-white transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+};
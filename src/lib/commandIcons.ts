@@ -0,0 +1,58 @@
+import {
+  CircleDot,
+  FastForward,
+  ListMusic,
+  Lock,
+  Mic,
+  MicOff,
+  Music,
+  Pause,
+  Play,
+  Repeat,
+  ScreenShare,
+  ScreenShareOff,
+  Shuffle,
+  SkipBack,
+  SkipForward,
+  Square,
+  StopCircle,
+  Video,
+  VideoOff,
+  Volume1,
+  Volume2,
+  VolumeX,
+  Zap,
+} from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+
+/**
+ * Icons available to `command_types.icon`. Kept as an explicit list so the
+ * bundle only includes icons the registry can actually reference.
+ */
+const COMMAND_ICONS: Record<string, LucideIcon> = {
+  CircleDot,
+  FastForward,
+  ListMusic,
+  Lock,
+  Mic,
+  MicOff,
+  Music,
+  Pause,
+  Play,
+  Repeat,
+  ScreenShare,
+  ScreenShareOff,
+  Shuffle,
+  SkipBack,
+  SkipForward,
+  Square,
+  StopCircle,
+  Video,
+  VideoOff,
+  Volume1,
+  Volume2,
+  VolumeX,
+  Zap,
+};
+
+export const getCommandIcon = (name: string): LucideIcon => COMMAND_ICONS[name] ?? Zap;
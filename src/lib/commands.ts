@@ -0,0 +1,73 @@
+import type { Database } from './supabase';
+import { COMMAND_DEDUPE_WINDOW_MS, COMMAND_STUCK_AFTER_MS } from '../config';
+
+type Command = Database['public']['Tables']['commands']['Row'];
+
+export const isCommandFinished = (command: Command) =>
+  command.status === 'executed' || command.status === 'failed' || command.status === 'expired';
+
+/** A command waiting for a retry counts from when the retry is due, not from when it was sent. */
+export const isCommandStuck = (command: Command, now: number) =>
+  (command.status === 'pending' || command.status === 'delivered') &&
+  now - new Date(command.next_attempt_at ?? command.sent_at).getTime() > COMMAND_STUCK_AFTER_MS;
+
+/**
+ * Orders the states a command passes through, including retries
+ * (pending → delivered → pending → delivered → …), so an update that arrives
+ * late can be told apart from a newer one.
+ */
+export const getCommandProgress = (command: Command) => {
+  if (isCommandFinished(command)) return Number.MAX_SAFE_INTEGER;
+  return command.status === 'delivered' ? command.attempts * 2 - 1 : command.attempts * 2;
+};
+
+const recentKeys = new Map<string, { key: string; issuedAt: number }>();
+
+/**
+ * Idempotency key for sending `intent` (e.g. device, command and payload).
+ * Asking again within the dedupe window returns the same key, so a
+ * double-click or a resent request inserts nothing new.
+ */
+export const getIdempotencyKey = (intent: string, now = Date.now()) => {
+  const recent = recentKeys.get(intent);
+  if (recent && now - recent.issuedAt < COMMAND_DEDUPE_WINDOW_MS) return recent.key;
+
+  const key = crypto.randomUUID();
+  recentKeys.set(intent, { key, issuedAt: now });
+  return key;
+};
+
+/** Postgres unique_violation: the idempotency key was already used. */
+export const isDuplicateKeyError = (error: { code?: string } | null) => error?.code === '23505';
+
+export const formatElapsed = (from: string, now: number) => {
+  const seconds = Math.max(0, Math.round((now - new Date(from).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+};
+
+/** Time from sending to execution, or null while the command has not finished. */
+export const getLatencyMs = (command: Command) =>
+  command.executed_at ? new Date(command.executed_at).getTime() - new Date(command.sent_at).getTime() : null;
+
+export const formatLatency = (ms: number | null) => {
+  if (ms === null) return '—';
+  if (ms < 1000) return `${ms} ms`;
+  return `${(ms / 1000).toFixed(1)} s`;
+};
+
+/** Time the handler ran on the agent, or null when the agent did not report it. */
+export const getRunTimeMs = (command: Command) =>
+  command.started_at && command.finished_at
+    ? new Date(command.finished_at).getTime() - new Date(command.started_at).getTime()
+    : null;
+
+/** One-line summary of a handler's output, e.g. `track: Intro Theme`. */
+export const formatResult = (result: Command['result']) =>
+  result
+    ? Object.entries(result)
+        .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+        .join(', ')
+    : '';
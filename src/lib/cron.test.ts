@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getNextCronRuns, validateCron } from './cron';
+
+// Fri 7 Nov 2025, 19:59 local time
+const friday = new Date(2025, 10, 7, 19, 59);
+
+const local = (date: Date) => [date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes()];
+
+describe('validateCron', () => {
+  it('accepts lists, ranges and steps', () => {
+    expect(validateCron('*/15 9-17 * * 1-5')).toBeNull();
+    expect(validateCron('0,30 20 1 * 7')).toBeNull();
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(validateCron('0 20 * *')).toBe('Cron expression must have 5 fields: minute hour day month weekday');
+    expect(validateCron('60 20 * * *')).toBe('minute must be between 0 and 59');
+    expect(validateCron('0 20 * * mon')).toBe('Invalid weekday field "mon"');
+    expect(validateCron('*/0 20 * * *')).toBe('Invalid step in minute field');
+  });
+
+  it('rejects expressions that never run', () => {
+    expect(validateCron('0 0 31 2 *')).toBe('Cron expression has no run in the next year');
+    expect(getNextCronRuns('0 0 31 2 *', friday, 1)).toEqual([]);
+  });
+});
+
+describe('getNextCronRuns', () => {
+  it('returns runs strictly after the given time', () => {
+    expect(getNextCronRuns('0 20 * * *', friday, 2).map(local)).toEqual([
+      [11, 7, 20, 0],
+      [11, 8, 20, 0],
+    ]);
+    expect(getNextCronRuns('59 19 * * *', friday, 1).map(local)).toEqual([[11, 8, 19, 59]]);
+  });
+
+  it('steps from the start of the range', () => {
+    expect(getNextCronRuns('5/20 * * * *', friday, 3).map(local)).toEqual([
+      [11, 7, 20, 5],
+      [11, 7, 20, 25],
+      [11, 7, 20, 45],
+    ]);
+  });
+
+  it('matches either day field when both are restricted, and Sunday as 7', () => {
+    expect(getNextCronRuns('0 9 10 * 7', friday, 2).map(local)).toEqual([
+      [11, 9, 9, 0],
+      [11, 10, 9, 0],
+    ]);
+  });
+
+  it('crosses into the next year', () => {
+    expect(getNextCronRuns('0 0 1 1 *', friday, 1)[0].getFullYear()).toBe(2026);
+  });
+});
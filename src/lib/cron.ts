@@ -0,0 +1,113 @@
+/**
+ * Five-field cron expressions (minute hour day month weekday).
+ *
+ * Mirrors `cron_field_matches` / `cron_next_run` in the schedules migration,
+ * which is what actually fires schedules. This copy only validates input and
+ * previews upcoming runs in the browser's local time zone.
+ */
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+const FIELD_NAMES = ['minute', 'hour', 'day', 'month', 'weekday'];
+
+const fieldMatches = (field: string, value: number, minValue: number) =>
+  field.split(',').some((part) => {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart ? parseInt(stepPart) : 1;
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = minValue;
+      end = 59;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map((n) => parseInt(n));
+    } else {
+      start = parseInt(rangePart);
+      end = stepPart ? 59 : start;
+    }
+
+    return value >= start && value <= end && (value - start) % step === 0;
+  });
+
+const matchesDay = (fields: string[], date: Date) => {
+  const weekday = date.getDay();
+  const domMatches = fieldMatches(fields[2], date.getDate(), 1);
+  const dowMatches = fieldMatches(fields[4], weekday, 0) || (weekday === 0 && fieldMatches(fields[4], 7, 0));
+
+  if (!fieldMatches(fields[3], date.getMonth() + 1, 1)) return false;
+  return fields[2] !== '*' && fields[4] !== '*' ? domMatches || dowMatches : domMatches && dowMatches;
+};
+
+const findRuns = (fields: string[], after: Date, count: number) => {
+  const runs: Date[] = [];
+  const cursor = new Date(after);
+  cursor.setSeconds(0, 0);
+  cursor.setMinutes(cursor.getMinutes() + 1);
+
+  for (let dayOffset = 0; dayOffset <= 366 && runs.length < count; dayOffset++) {
+    const day = new Date(cursor);
+    day.setDate(cursor.getDate() + dayOffset);
+    if (dayOffset > 0) day.setHours(0, 0, 0, 0);
+    if (!matchesDay(fields, day)) continue;
+
+    for (let hour = day.getHours(); hour < 24 && runs.length < count; hour++) {
+      if (!fieldMatches(fields[1], hour, 0)) continue;
+
+      const firstMinute = hour === day.getHours() ? day.getMinutes() : 0;
+      for (let minute = firstMinute; minute < 60 && runs.length < count; minute++) {
+        if (fieldMatches(fields[0], minute, 0)) {
+          const run = new Date(day);
+          run.setHours(hour, minute, 0, 0);
+          runs.push(run);
+        }
+      }
+    }
+  }
+
+  return runs;
+};
+
+/** Returns an error message, or null when the expression is valid. */
+export const validateCron = (expr: string): string | null => {
+  const fields = expr.trim().split(/\s+/);
+  if (fields.length !== 5) return 'Cron expression must have 5 fields: minute hour day month weekday';
+
+  for (let i = 0; i < fields.length; i++) {
+    const [min, max] = FIELD_RANGES[i];
+    for (const part of fields[i].split(',')) {
+      const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+      if (!match) return `Invalid ${FIELD_NAMES[i]} field "${fields[i]}"`;
+
+      const numbers = match[1] === '*' ? [] : match[1].split('-').map((n) => parseInt(n));
+      if (numbers.some((n) => n < min || n > max)) {
+        return `${FIELD_NAMES[i]} must be between ${min} and ${max}`;
+      }
+      if (match[2] !== undefined && parseInt(match[2]) === 0) {
+        return `Invalid step in ${FIELD_NAMES[i]} field`;
+      }
+    }
+  }
+
+  // Like `prepare_command_schedule`, which refuses a schedule that would never fire
+  if (findRuns(fields, new Date(), 1).length === 0) return 'Cron expression has no run in the next year';
+
+  return null;
+};
+
+/** The next `count` run times strictly after `after`, in local time. */
+export const getNextCronRuns = (expr: string, after: Date, count: number): Date[] =>
+  validateCron(expr) ? [] : findRuns(expr.trim().split(/\s+/), after, count);
+
+export const CRON_PRESETS = [
+  { label: 'Every day at 20:00', value: '0 20 * * *' },
+  { label: 'Every Friday at 20:00', value: '0 20 * * 5' },
+  { label: 'Weekdays at 09:00', value: '0 9 * * 1-5' },
+  { label: 'Every hour', value: '0 * * * *' },
+];
@@ -0,0 +1,1098 @@
+/** Player state an agent reports; stored in `devices.now_playing`. */
+export interface NowPlaying {
+  title: string | null;
+  artist: string | null;
+  state: 'playing' | 'paused' | 'stopped';
+  position_seconds: number | null;
+  duration_seconds: number | null;
+  volume: number | null;
+  shuffle: boolean | null;
+  repeat: boolean | null;
+}
+
+/**
+ * Zoom state an agent reports; stored in `devices.zoom_state`. Outside a
+ * meeting everything but `in_meeting` is null.
+ */
+export interface ZoomState {
+  in_meeting: boolean;
+  meeting_id: string | null;
+  muted: boolean | null;
+  video_on: boolean | null;
+  participant_count: number | null;
+  recording: boolean | null;
+  sharing: boolean | null;
+}
+
+/**
+ * Device state a command type needs, keyed by `<column>.<field>`, e.g.
+ * `{ "zoom_state.muted": true }`. An array lists several allowed values.
+ */
+export type CommandPreconditions = Record<string, unknown>;
+
+/** Live mode shortcuts keyed by the lower-case key; stored in `live_layouts.hotkeys`. */
+export type LiveHotkeys = Record<string, { room_id: string; command_type: string }>;
+
+export interface Database {
+  public: {
+    Tables: {
+      teams: {
+        Row: {
+          id: string;
+          name: string;
+          created_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_by: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_by?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      team_members: {
+        Row: {
+          id: string;
+          team_id: string;
+          user_id: string;
+          role: 'owner' | 'admin' | 'operator' | 'viewer';
+          joined_at: string;
+        };
+        Insert: {
+          id?: string;
+          team_id: string;
+          user_id: string;
+          role?: 'owner' | 'admin' | 'operator' | 'viewer';
+          joined_at?: string;
+        };
+        Update: {
+          id?: string;
+          team_id?: string;
+          user_id?: string;
+          role?: 'owner' | 'admin' | 'operator' | 'viewer';
+          joined_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'team_members_team_id_fkey';
+            columns: ['team_id'];
+            isOneToOne: false;
+            referencedRelation: 'teams';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      devices: {
+        Row: {
+          id: string;
+          name: string;
+          ip_address: string | null;
+          port: number | null;
+          owner_id: string;
+          status: 'online' | 'offline' | 'unknown';
+          last_seen: string | null;
+          offline_after_seconds: number;
+          paired_at: string | null;
+          now_playing: NowPlaying | null;
+          now_playing_at: string | null;
+          zoom_state: ZoomState | null;
+          zoom_state_at: string | null;
+          direct_delivery: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          ip_address?: string | null;
+          port?: number | null;
+          owner_id: string;
+          status?: 'online' | 'offline' | 'unknown';
+          last_seen?: string | null;
+          offline_after_seconds?: number;
+          paired_at?: string | null;
+          now_playing?: NowPlaying | null;
+          now_playing_at?: string | null;
+          zoom_state?: ZoomState | null;
+          zoom_state_at?: string | null;
+          direct_delivery?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          ip_address?: string | null;
+          port?: number | null;
+          owner_id?: string;
+          status?: 'online' | 'offline' | 'unknown';
+          last_seen?: string | null;
+          offline_after_seconds?: number;
+          paired_at?: string | null;
+          now_playing?: NowPlaying | null;
+          now_playing_at?: string | null;
+          zoom_state?: ZoomState | null;
+          zoom_state_at?: string | null;
+          direct_delivery?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      command_types: {
+        Row: {
+          id: string;
+          label: string;
+          description: string | null;
+          icon: string;
+          payload_schema: Record<string, unknown>;
+          requires_confirmation: boolean;
+          sort_order: number;
+          min_role: 'owner' | 'admin' | 'operator' | 'viewer';
+          ttl_seconds: number | null;
+          max_attempts: number;
+          enabled_when: CommandPreconditions | null;
+          category: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          label: string;
+          description?: string | null;
+          icon?: string;
+          payload_schema?: Record<string, unknown>;
+          requires_confirmation?: boolean;
+          sort_order?: number;
+          min_role?: 'owner' | 'admin' | 'operator' | 'viewer';
+          ttl_seconds?: number | null;
+          max_attempts?: number;
+          enabled_when?: CommandPreconditions | null;
+          category?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          label?: string;
+          description?: string | null;
+          icon?: string;
+          payload_schema?: Record<string, unknown>;
+          requires_confirmation?: boolean;
+          sort_order?: number;
+          min_role?: 'owner' | 'admin' | 'operator' | 'viewer';
+          ttl_seconds?: number | null;
+          max_attempts?: number;
+          enabled_when?: CommandPreconditions | null;
+          category?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      commands: {
+        Row: {
+          id: string;
+          device_id: string;
+          command_type: string;
+          payload: Record<string, unknown>;
+          status: 'pending' | 'delivered' | 'executed' | 'failed' | 'expired';
+          sent_by: string;
+          sent_at: string;
+          executed_at: string | null;
+          schedule_id: string | null;
+          macro_run_id: string | null;
+          macro_step_id: string | null;
+          broadcast_id: string | null;
+          delivered_at: string | null;
+          started_at: string | null;
+          finished_at: string | null;
+          result: Record<string, unknown> | null;
+          error_code: string | null;
+          error_message: string | null;
+          expires_at: string | null;
+          attempts: number;
+          max_attempts: number;
+          next_attempt_at: string | null;
+          idempotency_key: string | null;
+          delivery_path: 'queue' | 'direct';
+        };
+        Insert: {
+          id?: string;
+          device_id: string;
+          command_type: string;
+          payload?: Record<string, unknown>;
+          status?: 'pending' | 'delivered' | 'executed' | 'failed' | 'expired';
+          sent_by: string;
+          sent_at?: string;
+          executed_at?: string | null;
+          schedule_id?: string | null;
+          macro_run_id?: string | null;
+          macro_step_id?: string | null;
+          broadcast_id?: string | null;
+          delivered_at?: string | null;
+          started_at?: string | null;
+          finished_at?: string | null;
+          result?: Record<string, unknown> | null;
+          error_code?: string | null;
+          error_message?: string | null;
+          expires_at?: string | null;
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string | null;
+          idempotency_key?: string | null;
+          delivery_path?: 'queue' | 'direct';
+        };
+        Update: {
+          id?: string;
+          device_id?: string;
+          command_type?: string;
+          payload?: Record<string, unknown>;
+          status?: 'pending' | 'delivered' | 'executed' | 'failed' | 'expired';
+          sent_by?: string;
+          sent_at?: string;
+          executed_at?: string | null;
+          schedule_id?: string | null;
+          macro_run_id?: string | null;
+          macro_step_id?: string | null;
+          broadcast_id?: string | null;
+          delivered_at?: string | null;
+          started_at?: string | null;
+          finished_at?: string | null;
+          result?: Record<string, unknown> | null;
+          error_code?: string | null;
+          error_message?: string | null;
+          expires_at?: string | null;
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string | null;
+          idempotency_key?: string | null;
+          delivery_path?: 'queue' | 'direct';
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'commands_device_id_fkey';
+            columns: ['device_id'];
+            isOneToOne: false;
+            referencedRelation: 'devices';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'commands_command_type_fkey';
+            columns: ['command_type'];
+            isOneToOne: false;
+            referencedRelation: 'command_types';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'commands_schedule_id_fkey';
+            columns: ['schedule_id'];
+            isOneToOne: false;
+            referencedRelation: 'command_schedules';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'commands_macro_run_id_fkey';
+            columns: ['macro_run_id'];
+            isOneToOne: false;
+            referencedRelation: 'macro_runs';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'commands_macro_step_id_fkey';
+            columns: ['macro_step_id'];
+            isOneToOne: false;
+            referencedRelation: 'macro_steps';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'commands_broadcast_id_fkey';
+            columns: ['broadcast_id'];
+            isOneToOne: false;
+            referencedRelation: 'command_broadcasts';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      command_schedules: {
+        Row: {
+          id: string;
+          device_id: string;
+          command_type: string;
+          payload: Record<string, unknown>;
+          run_at: string;
+          cron: string | null;
+          timezone: string;
+          next_run_at: string | null;
+          last_run_at: string | null;
+          last_error: string | null;
+          status: 'active' | 'paused' | 'completed' | 'cancelled';
+          created_by: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          device_id: string;
+          command_type: string;
+          payload?: Record<string, unknown>;
+          run_at: string;
+          cron?: string | null;
+          timezone?: string;
+          next_run_at?: string | null;
+          last_run_at?: string | null;
+          last_error?: string | null;
+          status?: 'active' | 'paused' | 'completed' | 'cancelled';
+          created_by: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          device_id?: string;
+          command_type?: string;
+          payload?: Record<string, unknown>;
+          run_at?: string;
+          cron?: string | null;
+          timezone?: string;
+          next_run_at?: string | null;
+          last_run_at?: string | null;
+          last_error?: string | null;
+          status?: 'active' | 'paused' | 'completed' | 'cancelled';
+          created_by?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'command_schedules_device_id_fkey';
+            columns: ['device_id'];
+            isOneToOne: false;
+            referencedRelation: 'devices';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'command_schedules_command_type_fkey';
+            columns: ['command_type'];
+            isOneToOne: false;
+            referencedRelation: 'command_types';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      schedule_runs: {
+        Row: {
+          id: string;
+          schedule_id: string;
+          scheduled_for: string;
+          status: 'fired' | 'missed' | 'failed';
+          command_id: string | null;
+          error_message: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          schedule_id: string;
+          scheduled_for: string;
+          status: 'fired' | 'missed' | 'failed';
+          command_id?: string | null;
+          error_message?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          schedule_id?: string;
+          scheduled_for?: string;
+          status?: 'fired' | 'missed' | 'failed';
+          command_id?: string | null;
+          error_message?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'schedule_runs_schedule_id_fkey';
+            columns: ['schedule_id'];
+            isOneToOne: false;
+            referencedRelation: 'command_schedules';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'schedule_runs_command_id_fkey';
+            columns: ['command_id'];
+            isOneToOne: false;
+            referencedRelation: 'commands';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      macros: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          team_id: string | null;
+          created_by: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          team_id?: string | null;
+          created_by: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          team_id?: string | null;
+          created_by?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'macros_team_id_fkey';
+            columns: ['team_id'];
+            isOneToOne: false;
+            referencedRelation: 'teams';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      macro_steps: {
+        Row: {
+          id: string;
+          macro_id: string;
+          position: number;
+          device_id: string;
+          command_type: string;
+          payload: Record<string, unknown>;
+          delay_ms: number;
+          stop_on_failure: boolean;
+        };
+        Insert: {
+          id?: string;
+          macro_id: string;
+          position: number;
+          device_id: string;
+          command_type: string;
+          payload?: Record<string, unknown>;
+          delay_ms?: number;
+          stop_on_failure?: boolean;
+        };
+        Update: {
+          id?: string;
+          macro_id?: string;
+          position?: number;
+          device_id?: string;
+          command_type?: string;
+          payload?: Record<string, unknown>;
+          delay_ms?: number;
+          stop_on_failure?: boolean;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'macro_steps_macro_id_fkey';
+            columns: ['macro_id'];
+            isOneToOne: false;
+            referencedRelation: 'macros';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'macro_steps_device_id_fkey';
+            columns: ['device_id'];
+            isOneToOne: false;
+            referencedRelation: 'devices';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'macro_steps_command_type_fkey';
+            columns: ['command_type'];
+            isOneToOne: false;
+            referencedRelation: 'command_types';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      macro_runs: {
+        Row: {
+          id: string;
+          macro_id: string;
+          started_by: string;
+          status: 'running' | 'completed' | 'failed' | 'cancelled';
+          current_step: number | null;
+          error: string | null;
+          started_at: string;
+          finished_at: string | null;
+          heartbeat_at: string;
+        };
+        Insert: {
+          id?: string;
+          macro_id: string;
+          started_by: string;
+          status?: 'running' | 'completed' | 'failed' | 'cancelled';
+          current_step?: number | null;
+          error?: string | null;
+          started_at?: string;
+          finished_at?: string | null;
+          heartbeat_at?: string;
+        };
+        Update: {
+          id?: string;
+          macro_id?: string;
+          started_by?: string;
+          status?: 'running' | 'completed' | 'failed' | 'cancelled';
+          current_step?: number | null;
+          error?: string | null;
+          started_at?: string;
+          finished_at?: string | null;
+          heartbeat_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'macro_runs_macro_id_fkey';
+            columns: ['macro_id'];
+            isOneToOne: false;
+            referencedRelation: 'macros';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      device_groups: {
+        Row: {
+          id: string;
+          name: string;
+          owner_id: string;
+          team_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          owner_id: string;
+          team_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          owner_id?: string;
+          team_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'device_groups_team_id_fkey';
+            columns: ['team_id'];
+            isOneToOne: false;
+            referencedRelation: 'teams';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      device_group_members: {
+        Row: {
+          group_id: string;
+          device_id: string;
+        };
+        Insert: {
+          group_id: string;
+          device_id: string;
+        };
+        Update: {
+          group_id?: string;
+          device_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'device_group_members_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'device_groups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'device_group_members_device_id_fkey';
+            columns: ['device_id'];
+            isOneToOne: false;
+            referencedRelation: 'devices';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      command_broadcasts: {
+        Row: {
+          id: string;
+          command_type: string;
+          payload: Record<string, unknown>;
+          group_id: string | null;
+          sent_by: string;
+          created_at: string;
+          idempotency_key: string | null;
+        };
+        Insert: {
+          id?: string;
+          command_type: string;
+          payload?: Record<string, unknown>;
+          group_id?: string | null;
+          sent_by: string;
+          created_at?: string;
+          idempotency_key?: string | null;
+        };
+        Update: {
+          id?: string;
+          command_type?: string;
+          payload?: Record<string, unknown>;
+          group_id?: string | null;
+          sent_by?: string;
+          created_at?: string;
+          idempotency_key?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'command_broadcasts_command_type_fkey';
+            columns: ['command_type'];
+            isOneToOne: false;
+            referencedRelation: 'command_types';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'command_broadcasts_group_id_fkey';
+            columns: ['group_id'];
+            isOneToOne: false;
+            referencedRelation: 'device_groups';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      device_credentials: {
+        Row: {
+          id: string;
+          device_id: string;
+          label: string;
+          token_hash: string;
+          token_prefix: string;
+          created_by: string;
+          created_at: string;
+          last_used_at: string | null;
+          revoked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          device_id: string;
+          label: string;
+          token_hash: string;
+          token_prefix: string;
+          created_by: string;
+          created_at?: string;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          device_id?: string;
+          label?: string;
+          token_hash?: string;
+          token_prefix?: string;
+          created_by?: string;
+          created_at?: string;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'device_credentials_device_id_fkey';
+            columns: ['device_id'];
+            isOneToOne: false;
+            referencedRelation: 'devices';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      device_pairing_codes: {
+        Row: {
+          id: string;
+          device_id: string;
+          code: string;
+          created_by: string;
+          created_at: string;
+          expires_at: string;
+          claimed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          device_id: string;
+          code: string;
+          created_by: string;
+          created_at?: string;
+          expires_at: string;
+          claimed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          device_id?: string;
+          code?: string;
+          created_by?: string;
+          created_at?: string;
+          expires_at?: string;
+          claimed_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'device_pairing_codes_device_id_fkey';
+            columns: ['device_id'];
+            isOneToOne: false;
+            referencedRelation: 'devices';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      team_invitations: {
+        Row: {
+          id: string;
+          team_id: string;
+          email: string;
+          role: 'admin' | 'operator' | 'viewer';
+          status: 'pending' | 'accepted' | 'declined' | 'revoked' | 'expired';
+          invited_by: string;
+          created_at: string;
+          expires_at: string;
+          responded_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          team_id: string;
+          email: string;
+          role?: 'admin' | 'operator' | 'viewer';
+          status?: 'pending' | 'accepted' | 'declined' | 'revoked' | 'expired';
+          invited_by: string;
+          created_at?: string;
+          expires_at?: string;
+          responded_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          team_id?: string;
+          email?: string;
+          role?: 'admin' | 'operator' | 'viewer';
+          status?: 'pending' | 'accepted' | 'declined' | 'revoked' | 'expired';
+          invited_by?: string;
+          created_at?: string;
+          expires_at?: string;
+          responded_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'team_invitations_team_id_fkey';
+            columns: ['team_id'];
+            isOneToOne: false;
+            referencedRelation: 'teams';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      team_command_permissions: {
+        Row: {
+          team_id: string;
+          command_type: string;
+          min_role: 'owner' | 'admin' | 'operator' | 'viewer';
+          updated_by: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          team_id: string;
+          command_type: string;
+          min_role: 'owner' | 'admin' | 'operator' | 'viewer';
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          team_id?: string;
+          command_type?: string;
+          min_role?: 'owner' | 'admin' | 'operator' | 'viewer';
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'team_command_permissions_team_id_fkey';
+            columns: ['team_id'];
+            isOneToOne: false;
+            referencedRelation: 'teams';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'team_command_permissions_command_type_fkey';
+            columns: ['command_type'];
+            isOneToOne: false;
+            referencedRelation: 'command_types';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      device_teams: {
+        Row: {
+          device_id: string;
+          team_id: string;
+          added_by: string | null;
+          added_at: string;
+        };
+        Insert: {
+          device_id: string;
+          team_id: string;
+          added_by?: string | null;
+          added_at?: string;
+        };
+        Update: {
+          device_id?: string;
+          team_id?: string;
+          added_by?: string | null;
+          added_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'device_teams_device_id_fkey';
+            columns: ['device_id'];
+            isOneToOne: false;
+            referencedRelation: 'devices';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'device_teams_team_id_fkey';
+            columns: ['team_id'];
+            isOneToOne: false;
+            referencedRelation: 'teams';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      device_presence_events: {
+        Row: {
+          id: string;
+          device_id: string;
+          status: 'online' | 'offline' | 'unknown';
+          changed_at: string;
+        };
+        Insert: {
+          id?: string;
+          device_id: string;
+          status: 'online' | 'offline' | 'unknown';
+          changed_at?: string;
+        };
+        Update: {
+          id?: string;
+          device_id?: string;
+          status?: 'online' | 'offline' | 'unknown';
+          changed_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'device_presence_events_device_id_fkey';
+            columns: ['device_id'];
+            isOneToOne: false;
+            referencedRelation: 'devices';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      rooms: {
+        Row: {
+          id: string;
+          key: string | null;
+          name: string;
+          description: string | null;
+          owner_id: string;
+          team_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          key?: string | null;
+          name: string;
+          description?: string | null;
+          owner_id: string;
+          team_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          key?: string | null;
+          name?: string;
+          description?: string | null;
+          owner_id?: string;
+          team_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'rooms_team_id_fkey';
+            columns: ['team_id'];
+            isOneToOne: false;
+            referencedRelation: 'teams';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      room_devices: {
+        Row: {
+          room_id: string;
+          device_id: string;
+          handles: string[];
+          added_at: string;
+        };
+        Insert: {
+          room_id: string;
+          device_id: string;
+          handles?: string[];
+          added_at?: string;
+        };
+        Update: {
+          room_id?: string;
+          device_id?: string;
+          handles?: string[];
+          added_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'room_devices_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'room_devices_device_id_fkey';
+            columns: ['device_id'];
+            isOneToOne: false;
+            referencedRelation: 'devices';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      live_layouts: {
+        Row: {
+          user_id: string;
+          room_ids: string[];
+          hotkeys: LiveHotkeys;
+          cooldown_ms: number;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          room_ids?: string[];
+          hotkeys?: LiveHotkeys;
+          cooldown_ms?: number;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          room_ids?: string[];
+          hotkeys?: LiveHotkeys;
+          cooldown_ms?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: Record<never, never>;
+    Functions: {
+      accept_team_invitation: {
+        Args: { invitation: string };
+        Returns: undefined;
+      };
+      claim_command: {
+        Args: { target_command: string };
+        Returns: Database['public']['Tables']['commands']['Row'][];
+      };
+      claim_pairing_code: {
+        Args: { pairing_code: string; agent_ip: string | null; agent_port: number | null };
+        Returns: { device_id: string; device_name: string; token: string };
+      };
+      command_analytics: {
+        Args: { target_devices: string[]; range_start: string; range_end: string; tz?: string };
+        Returns: {
+          device_id: string | null;
+          command_type: string | null;
+          day: string | null;
+          total: number;
+          executed: number;
+          failed: number;
+          expired: number;
+          p50_ms: number | null;
+          p95_ms: number | null;
+        }[];
+      };
+      create_device_credential: {
+        Args: { target_device: string; credential_label: string };
+        Returns: string;
+      };
+      create_pairing_code: {
+        Args: { target_device: string };
+        Returns: Database['public']['Tables']['device_pairing_codes']['Row'];
+      };
+      decline_team_invitation: {
+        Args: { invitation: string };
+        Returns: undefined;
+      };
+      device_heartbeat: {
+        Args: { target_device: string; new_status?: string };
+        Returns: string;
+      };
+      device_uptime: {
+        Args: { target_devices: string[]; range_start: string; range_end: string };
+        Returns: { device_id: string; online_seconds: number; tracked_seconds: number }[];
+      };
+      issue_direct_token: {
+        Args: { target_device: string };
+        Returns: { token: string; expires_at: string };
+      };
+      invite_team_member: {
+        Args: { target_team: string; invitee_email: string; invitee_role?: string };
+        Returns: Database['public']['Tables']['team_invitations']['Row'];
+      };
+      record_direct_command: {
+        Args: { command: Database['public']['Tables']['commands']['Row']; token: string };
+        Returns: undefined;
+      };
+      report_device_address: {
+        Args: { agent_ip: string | null; agent_port: number | null };
+        Returns: undefined;
+      };
+      report_direct_delivery: {
+        Args: { enabled: boolean };
+        Returns: string | null;
+      };
+      report_now_playing: {
+        Args: { now_playing: NowPlaying };
+        Returns: undefined;
+      };
+      report_zoom_state: {
+        Args: { zoom_state: ZoomState };
+        Returns: undefined;
+      };
+      revoke_device_credential: {
+        Args: { credential: string };
+        Returns: undefined;
+      };
+      revoke_team_invitation: {
+        Args: { invitation: string };
+        Returns: undefined;
+      };
+      rotate_device_credential: {
+        Args: { credential: string };
+        Returns: string;
+      };
+      transfer_device: {
+        Args: { target_device: string; new_owner_email: string };
+        Returns: undefined;
+      };
+    };
+    Enums: Record<never, never>;
+    CompositeTypes: Record<never, never>;
+  };
+}
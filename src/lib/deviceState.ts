@@ -0,0 +1,40 @@
+import type { CommandTypeRow, Device } from './repository';
+
+type StateColumn = 'zoom_state' | 'now_playing';
+
+const STATE_COLUMNS: StateColumn[] = ['zoom_state', 'now_playing'];
+
+/** How an unmet precondition reads on a disabled button, given the device's actual value. */
+const DESCRIBE_STATE: Record<string, (value: unknown) => string> = {
+  'zoom_state.in_meeting': (value) => (value ? 'Zoom is in a meeting' : 'Zoom is not in a meeting'),
+  'zoom_state.muted': (value) => (value ? 'The host is already muted' : 'The host is not muted'),
+  'zoom_state.video_on': (value) => (value ? 'The camera is already on' : 'The camera is off'),
+  'zoom_state.sharing': (value) => (value ? 'A screen is already shared' : 'No screen is shared'),
+  'zoom_state.recording': (value) => (value ? 'The meeting is already recording' : 'The meeting is not recording'),
+  'now_playing.state': (value) => `The player is ${String(value)}`,
+};
+
+/**
+ * Why the device's live state rules the command out, or null when it may be
+ * sent. Only the last reported state of an online device counts; a field the
+ * agent never reported doesn't rule anything out.
+ */
+export const getUnavailableReason = (
+  commandType: Pick<CommandTypeRow, 'enabled_when'>,
+  device: Pick<Device, 'status' | StateColumn>
+): string | null => {
+  if (!commandType.enabled_when || device.status !== 'online') return null;
+
+  for (const [key, expected] of Object.entries(commandType.enabled_when)) {
+    const [column, field] = key.split('.') as [StateColumn, string];
+    if (!STATE_COLUMNS.includes(column)) continue;
+
+    const actual = (device[column] as Record<string, unknown> | null)?.[field];
+    if (actual === null || actual === undefined) continue;
+
+    const allowed = Array.isArray(expected) ? expected.includes(actual) : actual === expected;
+    if (!allowed) return DESCRIBE_STATE[key]?.(actual) ?? `${key} is ${JSON.stringify(actual)}`;
+  }
+
+  return null;
+};
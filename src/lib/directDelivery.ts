@@ -0,0 +1,167 @@
+import { DIRECT_DELIVERY_TIMEOUT_MS } from '../config';
+import type { Command, Device, DevicesRepository, NewCommand } from './repository';
+
+/** A token this close to expiry is renewed before use, when the database can be reached. */
+const TOKEN_RENEW_BEFORE_MS = 3 * 60_000;
+
+const tokens = new Map<string, { token: string; expiresAt: number }>();
+
+type AgentAddress = Pick<Device, 'id' | 'ip_address' | 'port'>;
+
+/** What the agent's `GET /health` reports. */
+export interface AgentHealth {
+  status: 'ok';
+  device_id: string;
+  version: string;
+  uptime_seconds: number;
+  capabilities: {
+    command_types: string[];
+    direct_delivery: boolean;
+  };
+}
+
+/** The agent's local API on the LAN, or null while the device has no address. */
+export const getAgentUrl = ({ ip_address, port }: Pick<Device, 'ip_address' | 'port'>) =>
+  ip_address && port ? `http://${ip_address.includes(':') ? `[${ip_address}]` : ip_address}:${port}` : null;
+
+/** The agent's LAN endpoint, or null when the device doesn't take direct commands right now. */
+export const getDirectUrl = (device: Pick<Device, 'direct_delivery' | 'status' | 'ip_address' | 'port'>) =>
+  device.direct_delivery && device.status === 'online' ? getAgentUrl(device) : null;
+
+/**
+ * A cached token for the device, renewed when it is about to expire. While
+ * the database can't be reached the cached one is used until it expires, so
+ * direct delivery rides out a short drop in the venue's internet.
+ */
+const getToken = async (devices: DevicesRepository, deviceId: string) => {
+  const cached = tokens.get(deviceId);
+  if (cached && cached.expiresAt - Date.now() > TOKEN_RENEW_BEFORE_MS) return cached.token;
+
+  try {
+    const { token, expires_at } = await devices.issueDirectToken(deviceId);
+    tokens.set(deviceId, { token, expiresAt: new Date(expires_at).getTime() });
+    return token;
+  } catch (error) {
+    if (cached && cached.expiresAt > Date.now()) return cached.token;
+    throw error;
+  }
+};
+
+/** Calls the agent's local API with the device's token. Rejects on network errors and timeouts. */
+const requestAgent = async (
+  devices: DevicesRepository,
+  device: AgentAddress,
+  path: string,
+  body?: Record<string, unknown>
+) => {
+  const url = getAgentUrl(device);
+  if (!url) throw new Error('The agent has not reported an address yet');
+
+  const token = await getToken(devices, device.id);
+  const response = await fetch(`${url}${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: { Authorization: `Bearer ${token}`, ...(body ? { 'Content-Type': 'application/json' } : {}) },
+    body: body ? JSON.stringify(body) : undefined,
+    signal: AbortSignal.timeout(DIRECT_DELIVERY_TIMEOUT_MS),
+  });
+
+  // The agent restarted with a new key; the next request asks for a new token.
+  if (response.status === 401) tokens.delete(device.id);
+  return response;
+};
+
+/**
+ * Checks that the agent answers on the device's address and that it is the
+ * agent of this device. Resolves to its health report and the round trip
+ * time; rejects with a message for the user otherwise.
+ */
+export const checkAgentHealth = async (devices: DevicesRepository, device: AgentAddress) => {
+  const startedAt = performance.now();
+  let response: Response;
+  try {
+    response = await requestAgent(devices, device, '/health');
+  } catch (error) {
+    if ((error as Error).name === 'TimeoutError') {
+      throw new Error(`No answer from ${getAgentUrl(device)} within ${DIRECT_DELIVERY_TIMEOUT_MS} ms`);
+    }
+    if (error instanceof TypeError) throw new Error(`Nothing reachable at ${getAgentUrl(device)}`);
+    throw error;
+  }
+  const latencyMs = Math.round(performance.now() - startedAt);
+
+  const body = (await response.json().catch(() => null)) as (AgentHealth & { error?: string }) | null;
+  if (!response.ok || !body) {
+    throw new Error(body?.error ?? `The agent responded ${response.status}`);
+  }
+  if (body.device_id !== device.id) throw new Error('The agent of a different device answers on this address');
+
+  return { health: body, latencyMs };
+};
+
+/**
+ * Posts the command straight to the device's agent. Resolves to the command
+ * as the agent will record it, with `duplicate` set and no command when the
+ * agent already received the idempotency key (the command from the first
+ * click is the one to follow), or to null when the agent can't be reached or
+ * refuses it; the caller then queues the command with the same idempotency
+ * key, which the agent also uses to skip a command it already ran.
+ */
+export const sendDirect = async (
+  devices: DevicesRepository,
+  device: AgentAddress & Pick<Device, 'direct_delivery' | 'status'>,
+  command: Pick<NewCommand, 'command_type' | 'payload' | 'sent_by' | 'idempotency_key'>
+): Promise<{ command: Command; duplicate: false } | { command: null; duplicate: true } | null> => {
+  const url = getDirectUrl(device);
+  if (!url) return null;
+
+  const id = crypto.randomUUID();
+  try {
+    const response = await requestAgent(devices, device, '/commands', {
+      command: {
+        id,
+        command_type: command.command_type,
+        payload: command.payload ?? {},
+        idempotency_key: command.idempotency_key ?? null,
+      },
+    });
+
+    // 409: the agent already has the command from an earlier click.
+    if (response.status === 409) return { command: null, duplicate: true };
+    if (!response.ok) {
+      console.warn(`Direct delivery to ${url} refused (${response.status}), queueing instead`);
+      return null;
+    }
+  } catch (error) {
+    console.warn(`Direct delivery to ${url} failed, queueing instead:`, error);
+    return null;
+  }
+
+  const sentAt = new Date().toISOString();
+  const accepted: Command = {
+    id,
+    device_id: device.id,
+    command_type: command.command_type,
+    payload: command.payload ?? {},
+    status: 'delivered',
+    sent_by: command.sent_by,
+    sent_at: sentAt,
+    executed_at: null,
+    schedule_id: null,
+    macro_run_id: null,
+    macro_step_id: null,
+    broadcast_id: null,
+    delivered_at: sentAt,
+    started_at: null,
+    finished_at: null,
+    result: null,
+    error_code: null,
+    error_message: null,
+    expires_at: null,
+    attempts: 1,
+    max_attempts: 1,
+    next_attempt_at: null,
+    idempotency_key: command.idempotency_key ?? null,
+    delivery_path: 'direct',
+  };
+  return { command: accepted, duplicate: false };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getSchemaDefaults, hasSchemaProperties, validateJsonSchema } from './jsonSchema';
+import type { JsonSchema } from './jsonSchema';
+
+const volume: JsonSchema = {
+  type: 'object',
+  properties: {
+    level: { type: 'integer', minimum: 0, maximum: 100, default: 50 },
+    mode: { type: 'string', enum: ['absolute', 'relative'] },
+    label: { type: 'string', minLength: 2, maxLength: 8, pattern: '^[a-z]+$' },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['level'],
+  additionalProperties: false,
+};
+
+describe('validateJsonSchema', () => {
+  it('accepts a payload that matches the schema', () => {
+    expect(validateJsonSchema(volume, { level: 40, mode: 'relative', label: 'stage', tags: ['a'] })).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    expect(
+      validateJsonSchema(volume, { level: 140, mode: 'loud', label: 'X', tags: ['a', 2], extra: true })
+    ).toEqual([
+      'payload.level must be at most 100',
+      'payload.mode must be one of absolute, relative',
+      'payload.label must be at least 2 characters',
+      'payload.label has an invalid format',
+      'payload.tags[1] must be a string',
+      'payload.extra is not allowed',
+    ]);
+  });
+
+  it('requires required properties and the declared type', () => {
+    expect(validateJsonSchema(volume, {})).toEqual(['payload.level is required']);
+    expect(validateJsonSchema(volume, { level: 1.5 })).toEqual(['payload.level must be an integer']);
+    expect(validateJsonSchema(volume, [])).toEqual(['payload must be an object']);
+  });
+
+  it('allows extra properties unless they are ruled out', () => {
+    expect(validateJsonSchema({ type: 'object' }, { anything: 1 })).toEqual([]);
+  });
+});
+
+describe('schema helpers', () => {
+  it('collects property defaults for a form', () => {
+    expect(getSchemaDefaults(volume)).toEqual({ level: 50 });
+    expect(hasSchemaProperties(volume)).toBe(true);
+    expect(hasSchemaProperties({ type: 'object' })).toBe(false);
+  });
+});
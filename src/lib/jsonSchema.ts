@@ -0,0 +1,108 @@
+/**
+ * Minimal JSON Schema support for command payloads.
+ *
+ * Covers the subset the command registry uses (object/string/number/integer/
+ * boolean/array types, enums, ranges and lengths). The database re-validates
+ * every payload with pg_jsonschema, so this only exists to give immediate
+ * feedback in payload forms.
+ */
+
+export interface JsonSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+const matchesType = (type: JsonSchema['type'], value: unknown) => {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    default:
+      return true;
+  }
+};
+
+/** Returns a list of human-readable problems; an empty list means valid. */
+export const validateJsonSchema = (schema: JsonSchema, value: unknown, path = 'payload'): string[] => {
+  if (!matchesType(schema.type, value)) {
+    const article = schema.type === 'integer' || schema.type === 'object' || schema.type === 'array' ? 'an' : 'a';
+    return [`${path} must be ${article} ${schema.type}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    errors.push(`${path} must be one of ${schema.enum.map(String).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be at most ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} has an invalid format`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateJsonSchema(schema.items!, item, `${path}[${index}]`)));
+  }
+
+  if (schema.type === 'object' && typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    (schema.required ?? []).forEach((key) => {
+      if (record[key] === undefined) errors.push(`${path}.${key} is required`);
+    });
+
+    Object.entries(record).forEach(([key, propertyValue]) => {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(properties[key], propertyValue, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    });
+  }
+
+  return errors;
+};
+
+/** Initial payload for a form: every property's `default`, if it has one. */
+export const getSchemaDefaults = (schema: JsonSchema): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(schema.properties ?? {})
+      .filter(([, property]) => property.default !== undefined)
+      .map(([key, property]) => [key, property.default])
+  );
+
+export const hasSchemaProperties = (schema: JsonSchema) => Object.keys(schema.properties ?? {}).length > 0;
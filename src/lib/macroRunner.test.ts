@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runMacro } from './macroRunner';
+import type { MacroStepProgress } from './macroRunner';
+import { createMemoryRepository } from './memoryRepository';
+import type { Command, CommandsRepository, MacroStepDraft } from './repository';
+
+/**
+ * A macro in the memory repository, with an agent that finishes every command
+ * as `outcome` says as soon as the runner starts waiting for it.
+ */
+const setup = async (steps: Partial<MacroStepDraft>[], outcome: (command: Command) => Partial<Command>) => {
+  const repository = createMemoryRepository();
+  await repository.auth.signIn('owner@example.com', 'password');
+  const user = (await repository.auth.getUser())!;
+  const device = await repository.devices.create('Prime', user.id);
+  const macro = await repository.macros.create({ name: 'Opening', description: null, team_id: null }, user.id);
+  await repository.macros.setSteps(
+    macro.id,
+    steps.map((step) => ({
+      device_id: device.id,
+      command_type: 'mute_zoom',
+      payload: {},
+      delay_ms: 0,
+      stop_on_failure: true,
+      ...step,
+    }))
+  );
+  const [{ steps: saved }] = await repository.macros.list();
+
+  const commands: CommandsRepository = {
+    ...repository.commands,
+    subscribe: (subscription) => {
+      const unsubscribe = repository.commands.subscribe(subscription);
+      void repository.commands.get(subscription.commandId!).then((command) => {
+        if (command) subscription.onCommand({ ...command, ...outcome(command) });
+      });
+      return unsubscribe;
+    },
+  };
+
+  const progress: Record<string, Partial<MacroStepProgress>> = {};
+  const controller = new AbortController();
+  const run = () =>
+    runMacro({
+      macroId: macro.id,
+      steps: saved,
+      userId: user.id,
+      repository: { commands, macros: repository.macros },
+      signal: controller.signal,
+      onRunStarted: () => {},
+      onStepUpdate: (stepId, update) => {
+        progress[stepId] = { ...progress[stepId], ...update };
+      },
+    });
+
+  return { repository, steps: saved, progress, controller, run };
+};
+
+const states = (progress: Record<string, Partial<MacroStepProgress>>, steps: { id: string }[]) =>
+  steps.map((step) => progress[step.id]?.state);
+
+describe('runMacro', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs every step in order', async () => {
+    const { steps, progress, run } = await setup(
+      [{ command_type: 'unmute_zoom' }, { command_type: 'start_zoom_video' }],
+      () => ({ status: 'executed' })
+    );
+
+    expect(await run()).toEqual({ status: 'completed', error: null });
+    expect(states(progress, steps)).toEqual(['executed', 'executed']);
+    expect(steps.map((step) => progress[step.id]?.command?.command_type)).toEqual(['unmute_zoom', 'start_zoom_video']);
+  });
+
+  it('stops at a failed step unless it is marked to continue', async () => {
+    const fail = (command: Command): Partial<Command> =>
+      command.command_type === 'unmute_zoom' ? { status: 'failed', error_message: 'Zoom is not running' } : { status: 'executed' };
+
+    const stopping = await setup([{ command_type: 'unmute_zoom' }, { command_type: 'start_zoom_video' }], fail);
+    expect(await stopping.run()).toEqual({ status: 'failed', error: 'Step 1: Zoom is not running' });
+    expect(states(stopping.progress, stopping.steps)).toEqual(['failed', 'skipped']);
+
+    const continuing = await setup(
+      [{ command_type: 'unmute_zoom', stop_on_failure: false }, { command_type: 'start_zoom_video' }],
+      fail
+    );
+    expect(await continuing.run()).toEqual({ status: 'completed', error: '1 step failed' });
+    expect(states(continuing.progress, continuing.steps)).toEqual(['failed', 'executed']);
+  });
+
+  it('does not mark a step whose command was sent as skipped when cancelled', async () => {
+    const { steps, progress, controller, run } = await setup(
+      [{ command_type: 'unmute_zoom' }, { command_type: 'start_zoom_video' }],
+      () => {
+        // The device never answers; the operator cancels while waiting.
+        queueMicrotask(() => controller.abort());
+        return {};
+      }
+    );
+
+    expect(await run()).toEqual({ status: 'cancelled', error: null });
+    expect(states(progress, steps)).toEqual(['sent', 'skipped']);
+  });
+
+  it('keeps the run alive while a long delay is waited out', async () => {
+    vi.useFakeTimers();
+    const { repository, run } = await setup([{ delay_ms: 90_000 }], () => ({ status: 'executed' }));
+    const updateRun = vi.spyOn(repository.macros, 'updateRun');
+
+    const result = run();
+    await vi.advanceTimersByTimeAsync(90_000);
+
+    expect(await result).toEqual({ status: 'completed', error: null });
+    const heartbeats = updateRun.mock.calls.filter(([, changes]) => changes.heartbeat_at);
+    expect(heartbeats).toHaveLength(3);
+  });
+});
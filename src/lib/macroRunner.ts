@@ -0,0 +1,227 @@
+import { isCommandFinished } from './commands';
+import { MACRO_STEP_TIMEOUT_MS } from '../config';
+import type { Command, CommandsRepository, MacroRun, MacroStep, Repository } from './repository';
+
+/** `sent`: the run was cancelled after the step's command went out, so its outcome was not waited for. */
+export type MacroStepState = 'waiting' | 'delaying' | 'running' | 'sent' | 'executed' | 'failed' | 'skipped';
+
+export interface MacroStepProgress {
+  state: MacroStepState;
+  command: Command | null;
+  error: string | null;
+}
+
+interface RunMacroOptions {
+  macroId: string;
+  steps: MacroStep[];
+  userId: string;
+  repository: Pick<Repository, 'commands' | 'macros'>;
+  signal: AbortSignal;
+  onRunStarted: (run: MacroRun) => void;
+  onStepUpdate: (stepId: string, progress: Partial<MacroStepProgress>) => void;
+}
+
+export interface MacroRunResult {
+  status: MacroRun['status'];
+  error: string | null;
+}
+
+const COMMAND_POLL_MS = 2000;
+// Keeps `fail_abandoned_macro_runs()` from failing the run while this tab is still running it.
+const RUN_HEARTBEAT_MS = 30_000;
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+
+/**
+ * Resolves with the command once it is executed or failed, or null when it
+ * times out or the run is cancelled. Realtime gives the fast path; polling
+ * covers a dropped subscription.
+ */
+const waitForCommand = (
+  commands: CommandsRepository,
+  command: Command,
+  signal: AbortSignal,
+  onUpdate: (command: Command) => void
+): Promise<Command | null> =>
+  new Promise((resolve) => {
+    let settled = false;
+
+    const update = (next: Command) => {
+      if (settled) return;
+      onUpdate(next);
+      if (isCommandFinished(next)) finish(next);
+    };
+
+    const poll = async () => {
+      try {
+        const latest = await commands.get(command.id);
+        if (latest) update(latest);
+      } catch (error) {
+        console.error('Error polling macro command:', error);
+      }
+    };
+
+    const unsubscribe = commands.subscribe({ commandId: command.id, onCommand: update });
+
+    const pollTimer = setInterval(poll, COMMAND_POLL_MS);
+    const timeout = setTimeout(() => finish(null), MACRO_STEP_TIMEOUT_MS);
+    const abort = () => finish(null);
+    signal.addEventListener('abort', abort, { once: true });
+
+    function finish(result: Command | null) {
+      if (settled) return;
+      settled = true;
+      clearInterval(pollTimer);
+      clearTimeout(timeout);
+      signal.removeEventListener('abort', abort);
+      unsubscribe();
+      resolve(result);
+    }
+  });
+
+/**
+ * Runs a macro's steps in order from the browser: waits each step's delay,
+ * sends its command linked to the run, and waits for the agent to finish it
+ * before moving on. A failed step aborts the run unless the step is marked to
+ * continue. Progress is reported per step and mirrored to `macro_runs`.
+ */
+export const runMacro = async ({
+  macroId,
+  steps,
+  userId,
+  repository: { commands, macros },
+  signal,
+  onRunStarted,
+  onStepUpdate,
+}: RunMacroOptions): Promise<MacroRunResult> => {
+  let run: MacroRun;
+  try {
+    run = await macros.startRun(macroId, userId);
+  } catch (error) {
+    console.error('Error starting macro run:', error);
+    return { status: 'failed', error: 'Failed to start macro run' };
+  }
+  onRunStarted(run);
+
+  const heartbeat = setInterval(() => {
+    macros.updateRun(run.id, { heartbeat_at: new Date().toISOString() }).catch((error) => {
+      console.error('Error updating macro run:', error);
+    });
+  }, RUN_HEARTBEAT_MS);
+
+  const ordered = [...steps].sort((a, b) => a.position - b.position);
+  let status: MacroRun['status'] = 'completed';
+  let runErrorMessage: string | null = null;
+  let failedSteps = 0;
+  let nextIndex = 0;
+
+  for (const [index, step] of ordered.entries()) {
+    nextIndex = index;
+    if (signal.aborted) {
+      status = 'cancelled';
+      break;
+    }
+
+    try {
+      await macros.updateRun(run.id, { current_step: step.position });
+    } catch (error) {
+      console.error('Error updating macro run:', error);
+    }
+
+    if (step.delay_ms > 0) {
+      onStepUpdate(step.id, { state: 'delaying' });
+      await sleep(step.delay_ms, signal);
+      if (signal.aborted) {
+        status = 'cancelled';
+        break;
+      }
+    }
+
+    onStepUpdate(step.id, { state: 'running' });
+
+    let command: Command | null = null;
+    try {
+      ({ command } = await commands.send({
+        device_id: step.device_id,
+        command_type: step.command_type,
+        payload: step.payload,
+        sent_by: userId,
+        status: 'pending',
+        macro_run_id: run.id,
+        macro_step_id: step.id,
+        // Each step runs once per run, even if the insert is retried.
+        idempotency_key: `macro:${run.id}:${step.id}`,
+      }));
+    } catch (error) {
+      console.error('Error sending macro command:', error);
+    }
+
+    let stepError: string | null = null;
+    if (!command) {
+      stepError = 'Failed to send command';
+    } else {
+      onStepUpdate(step.id, { command });
+      const finished = await waitForCommand(commands, command, signal, (next) =>
+        onStepUpdate(step.id, { command: next })
+      );
+
+      if (signal.aborted) {
+        // The command already went out; only the steps after it are skipped.
+        onStepUpdate(step.id, { state: 'sent' });
+        status = 'cancelled';
+        nextIndex = index + 1;
+        break;
+      }
+      if (!finished) {
+        stepError = 'Timed out waiting for the device';
+      } else if (finished.status === 'failed') {
+        stepError = finished.error_message ?? 'Command failed on the device';
+      } else if (finished.status === 'expired') {
+        stepError = 'Command expired before the device picked it up';
+      }
+    }
+
+    if (!stepError) {
+      onStepUpdate(step.id, { state: 'executed' });
+      continue;
+    }
+
+    failedSteps += 1;
+    onStepUpdate(step.id, { state: 'failed', error: stepError });
+
+    if (step.stop_on_failure) {
+      status = 'failed';
+      runErrorMessage = `Step ${index + 1}: ${stepError}`;
+      nextIndex = index + 1;
+      break;
+    }
+  }
+
+  clearInterval(heartbeat);
+
+  if (status !== 'completed') {
+    ordered.slice(nextIndex).forEach((step) => onStepUpdate(step.id, { state: 'skipped' }));
+  }
+  if (status === 'completed' && failedSteps > 0) {
+    runErrorMessage = `${failedSteps} step${failedSteps === 1 ? '' : 's'} failed`;
+  }
+
+  try {
+    await macros.updateRun(run.id, { status, error: runErrorMessage, finished_at: new Date().toISOString() });
+  } catch (error) {
+    console.error('Error finishing macro run:', error);
+  }
+
+  return { status, error: runErrorMessage };
+};
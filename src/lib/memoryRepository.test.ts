@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryRepository } from './memoryRepository';
+
+const signedIn = async (email = 'owner@example.com') => {
+  const repository = createMemoryRepository();
+  await repository.auth.signIn(email, 'password');
+  const user = (await repository.auth.getUser())!;
+  return { repository, user };
+};
+
+describe('memory repository', () => {
+  it('only lists devices the user owns or reaches through a team', async () => {
+    const { repository, user } = await signedIn();
+    const device = await repository.devices.create('Prime', user.id);
+    const team = await repository.teams.create('Crew', user.id);
+    await repository.members.invite(team.id, 'operator@example.com', 'operator');
+
+    await repository.auth.signIn('operator@example.com', 'password');
+    expect(await repository.devices.list()).toEqual([]);
+
+    const [invitation] = await repository.members.listReceivedInvitations('operator@example.com');
+    await repository.members.respondToInvitation(invitation.id, true);
+    await repository.auth.signIn('owner@example.com', 'password');
+    await repository.devices.share(device.id, [team.id], user.id);
+
+    await repository.auth.signIn('operator@example.com', 'password');
+    expect((await repository.devices.list()).map(({ name }) => name)).toEqual(['Prime']);
+    await expect(repository.devices.remove(device.id)).rejects.toThrow('Only the device owner can do this');
+  });
+
+  it('returns the first command for a repeated idempotency key', async () => {
+    const { repository, user } = await signedIn();
+    const device = await repository.devices.create('Prime', user.id);
+    const command = { device_id: device.id, command_type: 'mute_zoom', sent_by: user.id, idempotency_key: 'click-1' };
+
+    const first = await repository.commands.send(command);
+    const second = await repository.commands.send(command);
+
+    expect(first.duplicate).toBe(false);
+    expect(second).toEqual({ command: first.command, duplicate: true });
+    expect(first.command.expires_at).not.toBeNull();
+  });
+
+  it('pages through history without skipping commands sent together', async () => {
+    const { repository, user } = await signedIn();
+    const devices = await Promise.all(['A', 'B', 'C', 'D', 'E'].map((name) => repository.devices.create(name, user.id)));
+    const deviceIds = devices.map((device) => device.id);
+    // Like the rows of one broadcast insert, all share a sent_at
+    const sentAt = new Date().toISOString();
+    const commands = await Promise.all(
+      deviceIds.map(async (deviceId) => {
+        const sent = await repository.commands.send({
+          device_id: deviceId,
+          command_type: 'mute_zoom',
+          sent_by: user.id,
+          sent_at: sentAt,
+        });
+        return sent.command;
+      })
+    );
+
+    const seen: string[] = [];
+    let before: (typeof commands)[number] | null = null;
+    for (;;) {
+      const page = await repository.commands.listHistory({ deviceIds, before, limit: 2 });
+      if (page.length === 0) break;
+      seen.push(...page.map((command) => command.id));
+      before = page[page.length - 1];
+    }
+
+    expect(seen.sort()).toEqual(commands.map((command) => command.id).sort());
+  });
+
+  it('keeps groups, macros and schedules per device', async () => {
+    const { repository, user } = await signedIn();
+    const device = await repository.devices.create('Prime', user.id);
+
+    const group = await repository.groups.create({ name: 'Stage', team_id: null }, user.id);
+    await repository.groups.setDevices(group.id, [device.id]);
+    expect(await repository.groups.list()).toMatchObject([{ name: 'Stage', members: [{ device_id: device.id }] }]);
+
+    const macro = await repository.macros.create({ name: 'Opening', description: null, team_id: null }, user.id);
+    const step = { device_id: device.id, payload: {}, delay_ms: 0, stop_on_failure: true };
+    await repository.macros.setSteps(macro.id, [
+      { ...step, command_type: 'unmute_zoom' },
+      { ...step, command_type: 'start_zoom_video' },
+    ]);
+    const [listed] = await repository.macros.list();
+    expect(listed.steps.map(({ command_type, position }) => [command_type, position])).toEqual([
+      ['unmute_zoom', 0],
+      ['start_zoom_video', 1],
+    ]);
+
+    const run = await repository.macros.startRun(macro.id, user.id);
+    await repository.macros.updateRun(run.id, { status: 'completed', finished_at: new Date().toISOString() });
+
+    let changes = 0;
+    const unsubscribe = repository.schedules.subscribe(device.id, () => (changes += 1));
+    const runAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const values = { command_type: 'mute_zoom', payload: {}, run_at: runAt, cron: null, timezone: 'UTC' };
+    await repository.schedules.create(device.id, values, user.id);
+    await expect(repository.schedules.create(device.id, { ...values, cron: '0 0 31 2 *' }, user.id)).rejects.toThrow(
+      'Cron expression 0 0 31 2 * has no run in the next year'
+    );
+    const [schedule] = await repository.schedules.list(device.id);
+    expect(schedule).toMatchObject({ status: 'active', next_run_at: runAt });
+
+    await repository.schedules.setStatus(schedule.id, 'paused');
+    expect((await repository.schedules.list(device.id))[0].next_run_at).toBeNull();
+    await repository.schedules.setStatus(schedule.id, 'cancelled');
+    expect(await repository.schedules.list(device.id)).toEqual([]);
+    unsubscribe();
+    expect(changes).toBe(3);
+  });
+
+  it('shows credential tokens once and revokes them on rotation', async () => {
+    const { repository, user } = await signedIn();
+    const device = await repository.devices.create('Prime', user.id);
+
+    const token = await repository.credentials.create(device.id, 'Prime room PC');
+    const [credential] = await repository.credentials.list(device.id);
+    expect(token).toMatch(/^zda_[0-9a-f]{64}$/);
+    expect(credential).toMatchObject({ token_prefix: token.slice(0, 12), revoked_at: null });
+    expect(credential.token_hash).not.toContain(token);
+
+    const replacement = await repository.credentials.rotate(credential.id);
+    expect(replacement).not.toBe(token);
+    const credentials = await repository.credentials.list(device.id);
+    expect(credentials.filter((entry) => entry.revoked_at === null)).toHaveLength(1);
+    await expect(repository.credentials.rotate(credential.id)).rejects.toThrow('Credential not found');
+
+    const pairing = await repository.devices.createPairingCode(device.id);
+    expect(pairing.code).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+
+    await repository.auth.signIn('someone@example.com', 'password');
+    await expect(repository.credentials.create(device.id, 'Stolen')).rejects.toThrow(`Unknown device ${device.id}`);
+  });
+
+  it('summarizes commands per device, per command type and overall', async () => {
+    const { repository, user } = await signedIn();
+    const prime = await repository.devices.create('Prime', user.id);
+    const vip = await repository.devices.create('VIP', user.id);
+    const sentAt = '2025-11-01T10:00:00.000Z';
+    for (const [device, commandType, latencyMs] of [
+      [prime, 'mute_zoom', 100],
+      [prime, 'mute_zoom', 300],
+      [prime, 'unmute_zoom', 200],
+      [vip, 'mute_zoom', 400],
+    ] as const) {
+      const { command } = await repository.commands.send({
+        device_id: device.id,
+        command_type: commandType,
+        sent_by: user.id,
+        sent_at: sentAt,
+        status: 'executed',
+        executed_at: new Date(new Date(sentAt).getTime() + latencyMs).toISOString(),
+      });
+      expect(command.status).toBe('executed');
+    }
+
+    const stats = await repository.analytics.getCommandStats({
+      deviceIds: [prime.id, vip.id],
+      from: '2025-11-01T00:00:00.000Z',
+      to: '2025-11-02T00:00:00.000Z',
+      timeZone: 'UTC',
+    });
+
+    expect(stats.find((row) => !row.device_id && !row.command_type && !row.day)).toMatchObject({
+      total: 4,
+      executed: 4,
+      p50_ms: 250,
+    });
+    expect(stats.find((row) => row.device_id === prime.id && !row.command_type)).toMatchObject({ total: 3 });
+    expect(stats.find((row) => !row.device_id && row.command_type === 'mute_zoom')).toMatchObject({
+      total: 3,
+      p50_ms: 300,
+    });
+    expect(stats.find((row) => row.device_id === prime.id && row.command_type === 'mute_zoom')).toMatchObject({
+      total: 2,
+      p50_ms: 200,
+      p95_ms: 290,
+    });
+    expect(stats.find((row) => row.day === '2025-11-01')).toMatchObject({ total: 4 });
+  });
+});
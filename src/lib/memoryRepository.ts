@@ -0,0 +1,1101 @@
+import { getLatencyMs } from './commands';
+import { getNextCronRuns } from './cron';
+import type { TeamRole } from './permissions';
+import type {
+  AppUser,
+  Broadcast,
+  Command,
+  CommandPermission,
+  CommandStats,
+  CommandSubscription,
+  CommandTypeRow,
+  Device,
+  DeviceCredential,
+  DeviceGroup,
+  LiveLayout,
+  Macro,
+  MacroRun,
+  MacroStep,
+  PairingCode,
+  Repository,
+  Room,
+  Schedule,
+  Team,
+  TeamInvitation,
+  TeamMember,
+} from './repository';
+
+type DeviceTeam = { device_id: string; team_id: string; added_by: string | null; added_at: string };
+type RoomDeviceLink = { room_id: string; device_id: string; handles: string[]; added_at: string };
+type GroupMember = { group_id: string; device_id: string };
+
+const PAIRING_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const NO_PAYLOAD = { type: 'object', properties: {}, additionalProperties: false };
+
+const seedType = (
+  id: string,
+  label: string,
+  icon: string,
+  sort_order: number,
+  overrides: Partial<CommandTypeRow> = {}
+): CommandTypeRow => ({
+  id,
+  label,
+  description: null,
+  icon,
+  payload_schema: NO_PAYLOAD,
+  requires_confirmation: false,
+  sort_order,
+  min_role: 'operator',
+  ttl_seconds: 60,
+  max_attempts: 3,
+  enabled_when: null,
+  category: null,
+  created_at: new Date(0).toISOString(),
+  ...overrides,
+});
+
+/** `enabled_when` for Zoom commands: in a meeting, plus the given state. */
+const inMeeting = (state: Record<string, unknown> = {}) => ({ 'zoom_state.in_meeting': true, ...state });
+
+const ZOOM_COMMAND_TYPES: CommandTypeRow[] = [
+  seedType('mute_zoom', 'Mute Zoom Audio', 'MicOff', 9, { enabled_when: inMeeting({ 'zoom_state.muted': false }) }),
+  seedType('unmute_zoom', 'Unmute Zoom Audio', 'Mic', 10, { enabled_when: inMeeting({ 'zoom_state.muted': true }) }),
+  seedType('start_zoom_video', 'Start Zoom Video', 'Video', 11, {
+    enabled_when: inMeeting({ 'zoom_state.video_on': false }),
+  }),
+  seedType('stop_zoom_video', 'Stop Zoom Video', 'VideoOff', 12, {
+    enabled_when: inMeeting({ 'zoom_state.video_on': true }),
+  }),
+  seedType('start_zoom_share', 'Share Screen', 'ScreenShare', 13, {
+    enabled_when: inMeeting({ 'zoom_state.sharing': false }),
+    payload_schema: {
+      type: 'object',
+      properties: { screen: { type: 'integer', title: 'Screen', minimum: 1, maximum: 8, default: 1 } },
+      additionalProperties: false,
+    },
+  }),
+  seedType('stop_zoom_share', 'Stop Sharing', 'ScreenShareOff', 14, {
+    enabled_when: inMeeting({ 'zoom_state.sharing': true }),
+  }),
+  seedType('start_zoom_recording', 'Start Recording', 'CircleDot', 15, {
+    enabled_when: inMeeting({ 'zoom_state.recording': false }),
+    min_role: 'admin',
+    payload_schema: {
+      type: 'object',
+      properties: { target: { type: 'string', title: 'Record to', enum: ['cloud', 'local'], default: 'cloud' } },
+      additionalProperties: false,
+    },
+  }),
+  seedType('stop_zoom_recording', 'Stop Recording', 'StopCircle', 16, {
+    enabled_when: inMeeting({ 'zoom_state.recording': true }),
+    min_role: 'admin',
+    requires_confirmation: true,
+  }),
+  seedType('mute_all_zoom', 'Mute All Participants', 'VolumeX', 17, {
+    enabled_when: inMeeting(),
+    requires_confirmation: true,
+    payload_schema: {
+      type: 'object',
+      properties: { allow_unmute: { type: 'boolean', title: 'Let participants unmute themselves', default: true } },
+      additionalProperties: false,
+    },
+  }),
+  seedType('lock_zoom_meeting', 'Lock Meeting', 'Lock', 18, {
+    enabled_when: inMeeting(),
+    min_role: 'admin',
+    requires_confirmation: true,
+    payload_schema: {
+      type: 'object',
+      properties: { locked: { type: 'boolean', title: 'Locked', default: true } },
+      additionalProperties: false,
+    },
+  }),
+];
+
+const MUSIC_COMMAND_TYPES: CommandTypeRow[] = [
+  seedType('next_track', 'Next AIMP Track', 'Music', 20),
+  seedType('play_music', 'Play', 'Play', 21, { enabled_when: { 'now_playing.state': ['paused', 'stopped'] } }),
+  seedType('pause_music', 'Pause', 'Pause', 22, { enabled_when: { 'now_playing.state': 'playing' } }),
+  seedType('stop_music', 'Stop', 'Square', 23, { enabled_when: { 'now_playing.state': ['playing', 'paused'] } }),
+  seedType('previous_track', 'Previous Track', 'SkipBack', 24),
+  seedType('play_track', 'Play Track', 'ListMusic', 25, {
+    payload_schema: {
+      type: 'object',
+      properties: { index: { type: 'integer', title: 'Track number', minimum: 1, default: 1 } },
+      required: ['index'],
+      additionalProperties: false,
+    },
+  }),
+  seedType('seek_track', 'Seek', 'FastForward', 26, {
+    payload_schema: {
+      type: 'object',
+      properties: { position_seconds: { type: 'integer', title: 'Position (seconds)', minimum: 0, default: 0 } },
+      required: ['position_seconds'],
+      additionalProperties: false,
+    },
+  }),
+  seedType('set_volume', 'Set Volume', 'Volume2', 27, {
+    payload_schema: {
+      type: 'object',
+      properties: { level: { type: 'integer', title: 'Level', minimum: 0, maximum: 100, default: 50 } },
+      required: ['level'],
+      additionalProperties: false,
+    },
+  }),
+  seedType('change_volume', 'Change Volume', 'Volume1', 28, {
+    payload_schema: {
+      type: 'object',
+      properties: {
+        step: { type: 'integer', title: 'Step (negative is quieter)', minimum: -100, maximum: 100, default: 10 },
+      },
+      required: ['step'],
+      additionalProperties: false,
+    },
+  }),
+  seedType('toggle_shuffle', 'Toggle Shuffle', 'Shuffle', 29),
+  seedType('toggle_repeat', 'Toggle Repeat', 'Repeat', 30),
+];
+
+/** Mirrors the rows the migrations seed into `command_types`. */
+const SEED_COMMAND_TYPES: CommandTypeRow[] = [
+  ...ZOOM_COMMAND_TYPES.map((type) => ({ ...type, category: 'zoom' })),
+  ...MUSIC_COMMAND_TYPES.map((type) => ({ ...type, category: 'music' })),
+];
+
+const fail = (message: string, code?: string): never => {
+  throw Object.assign(new Error(message), { code });
+};
+
+/** Linear interpolation between the closest ranks, like Postgres' `percentile_cont`. */
+const percentile = (sorted: number[], fraction: number) => {
+  if (sorted.length === 0) return null;
+  const position = fraction * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/** One `command_analytics()` row for a group of commands. */
+const summarize = (group: Pick<CommandStats, 'device_id' | 'command_type' | 'day'>, rows: Command[]): CommandStats => {
+  const latencies = rows
+    .map(getLatencyMs)
+    .filter((ms): ms is number => ms !== null)
+    .sort((a, b) => a - b);
+
+  return {
+    ...group,
+    total: rows.length,
+    executed: rows.filter((command) => command.status === 'executed').length,
+    failed: rows.filter((command) => command.status === 'failed').length,
+    expired: rows.filter((command) => command.status === 'expired').length,
+    p50_ms: percentile(latencies, 0.5),
+    p95_ms: percentile(latencies, 0.95),
+  };
+};
+
+/** What the `command_schedules` trigger keeps `next_run_at` at. */
+const getNextRunAt = ({ status, cron, run_at }: Pick<Schedule, 'status' | 'cron' | 'run_at'>) => {
+  if (status !== 'active') return null;
+  if (!cron) return run_at;
+  const after = new Date(Math.max(new Date(run_at).getTime(), Date.now()) - 60_000);
+  const [next] = getNextCronRuns(cron, after, 1);
+  return next ? next.toISOString() : fail(`Cron expression ${cron} has no run in the next year`, '22023');
+};
+
+const userIdFor = (email: string) => `memory-user:${email.trim().toLowerCase()}`;
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const toHex = (bytes: Uint8Array) => [...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/** Same shape as the codes `create_pairing_code()` issues, e.g. `K7QM-2XPA`. */
+const newPairingCode = () => {
+  const code = [...randomBytes(8)].map((byte) => PAIRING_ALPHABET[byte % 32]).join('');
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+};
+
+/**
+ * In-memory stand-in for the Supabase repository, so the dashboard runs
+ * without a project (`VITE_DATA_BACKEND=memory`). Any email and password
+ * signs in. Nothing is persisted and no agent picks the commands up; the
+ * row-level rules are approximated by filtering on the signed-in user.
+ */
+export const createMemoryRepository = (): Repository => {
+  const devices: Device[] = [];
+  const deviceTeams: DeviceTeam[] = [];
+  const commands: Command[] = [];
+  const commandTypes = SEED_COMMAND_TYPES.map((type) => ({ ...type }));
+  const broadcasts: Broadcast[] = [];
+  const teams: Team[] = [];
+  const members: TeamMember[] = [];
+  const invitations: TeamInvitation[] = [];
+  const permissions: CommandPermission[] = [];
+  const rooms: Room[] = [];
+  const roomDevices: RoomDeviceLink[] = [];
+  const groups: DeviceGroup[] = [];
+  const groupMembers: GroupMember[] = [];
+  const macros: Macro[] = [];
+  const macroSteps: MacroStep[] = [];
+  const macroRuns: MacroRun[] = [];
+  const schedules: Schedule[] = [];
+  const credentials: DeviceCredential[] = [];
+  const pairingCodes: PairingCode[] = [];
+  const liveLayouts: LiveLayout[] = [];
+
+  const userListeners = new Set<(user: AppUser | null) => void>();
+  const deviceListeners = new Set<(device: Device) => void>();
+  const commandSubscriptions = new Set<CommandSubscription>();
+  const scheduleListeners = new Set<{ deviceId: string; onChange: () => void }>();
+
+  let currentUser: AppUser | null = null;
+  let sequence = 0;
+
+  const nextId = (prefix: string) => {
+    sequence += 1;
+    return `memory-${prefix}-${sequence}`;
+  };
+  const now = () => new Date().toISOString();
+
+  const requireUser = () => currentUser ?? fail('Not signed in');
+
+  const setUser = (user: AppUser | null) => {
+    currentUser = user;
+    userListeners.forEach((listener) => listener(user));
+  };
+
+  const myTeamIds = () => {
+    const user = currentUser;
+    if (!user) return [];
+    return members.filter((member) => member.user_id === user.id).map((member) => member.team_id);
+  };
+
+  const visibleDevices = () => {
+    const user = currentUser;
+    if (!user) return [];
+    const teamIds = myTeamIds();
+    return devices.filter(
+      (device) =>
+        device.owner_id === user.id ||
+        deviceTeams.some((link) => link.device_id === device.id && teamIds.includes(link.team_id))
+    );
+  };
+
+  const findDevice = (deviceId: string) =>
+    visibleDevices().find((device) => device.id === deviceId) ?? fail(`Unknown device ${deviceId}`);
+
+  const findOwnedDevice = (deviceId: string) => {
+    const device = findDevice(deviceId);
+    if (device.owner_id !== requireUser().id) fail('Only the device owner can do this');
+    return device;
+  };
+
+  const isTeamAdmin = (teamId: string | null) => {
+    const user = currentUser;
+    if (!user || teamId === null) return false;
+    return (
+      teams.some((team) => team.id === teamId && team.created_by === user.id) ||
+      members.some(
+        (member) =>
+          member.team_id === teamId && member.user_id === user.id && (member.role === 'owner' || member.role === 'admin')
+      )
+    );
+  };
+
+  const visibleRooms = () => {
+    const user = currentUser;
+    if (!user) return [];
+    const teamIds = myTeamIds();
+    return rooms.filter((room) => room.owner_id === user.id || (room.team_id !== null && teamIds.includes(room.team_id)));
+  };
+
+  const findEditableRoom = (roomId: string) => {
+    const user = requireUser();
+    const room = visibleRooms().find((entry) => entry.id === roomId) ?? fail(`Unknown room ${roomId}`);
+    if (room.owner_id !== user.id && !isTeamAdmin(room.team_id)) fail('Only the room owner and team admins can do this');
+    return room;
+  };
+
+  const visibleGroups = () => {
+    const user = currentUser;
+    if (!user) return [];
+    const teamIds = myTeamIds();
+    return groups.filter(
+      (group) => group.owner_id === user.id || (group.team_id !== null && teamIds.includes(group.team_id))
+    );
+  };
+
+  const findEditableGroup = (groupId: string) => {
+    const user = requireUser();
+    const group = visibleGroups().find((entry) => entry.id === groupId) ?? fail(`Unknown group ${groupId}`);
+    if (group.owner_id !== user.id && !isTeamAdmin(group.team_id)) fail('Only the group owner and team admins can do this');
+    return group;
+  };
+
+  const visibleMacros = () => {
+    const user = currentUser;
+    if (!user) return [];
+    const teamIds = myTeamIds();
+    return macros.filter(
+      (macro) => macro.created_by === user.id || (macro.team_id !== null && teamIds.includes(macro.team_id))
+    );
+  };
+
+  const findEditableMacro = (macroId: string) => {
+    const user = requireUser();
+    const macro = visibleMacros().find((entry) => entry.id === macroId) ?? fail(`Unknown macro ${macroId}`);
+    if (macro.created_by !== user.id && !isTeamAdmin(macro.team_id)) fail('Only the macro creator and team admins can do this');
+    return macro;
+  };
+
+  const findSchedule = (scheduleId: string) => {
+    const schedule = schedules.find((entry) => entry.id === scheduleId) ?? fail(`Unknown schedule ${scheduleId}`);
+    findDevice(schedule.device_id);
+    return schedule;
+  };
+
+  const notifySchedules = (deviceId: string) => {
+    scheduleListeners.forEach((listener) => {
+      if (listener.deviceId === deviceId) listener.onChange();
+    });
+  };
+
+  /** What `create_device_credential()` does: only the hash and a prefix of the token are kept. */
+  const issueCredential = async (deviceId: string, label: string) => {
+    const token = `zda_${toHex(randomBytes(32))}`;
+    const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    credentials.push({
+      id: nextId('credential'),
+      device_id: deviceId,
+      label,
+      token_hash: toHex(new Uint8Array(hash)),
+      token_prefix: token.slice(0, 12),
+      created_by: requireUser().id,
+      created_at: now(),
+      last_used_at: null,
+      revoked_at: null,
+    });
+    return token;
+  };
+
+  const notifyCommand = (command: Command) => {
+    commandSubscriptions.forEach((subscription) => {
+      if (subscription.commandId && subscription.commandId !== command.id) return;
+      if (subscription.broadcastId && subscription.broadcastId !== command.broadcast_id) return;
+      subscription.onCommand({ ...command });
+    });
+  };
+
+  /** What the `prepare_command_delivery` trigger fills in, plus the column defaults. */
+  const insertCommand = (command: Parameters<Repository['commands']['send']>[0]): Command => {
+    const type = commandTypes.find((entry) => entry.id === command.command_type) ?? fail('Unknown command type');
+    const sentAt = command.sent_at ?? now();
+    const row: Command = {
+      id: nextId('command'),
+      payload: {},
+      status: 'pending',
+      sent_at: sentAt,
+      executed_at: null,
+      schedule_id: null,
+      macro_run_id: null,
+      macro_step_id: null,
+      broadcast_id: null,
+      delivered_at: null,
+      started_at: null,
+      finished_at: null,
+      result: null,
+      error_code: null,
+      error_message: null,
+      expires_at: type.ttl_seconds ? new Date(new Date(sentAt).getTime() + type.ttl_seconds * 1000).toISOString() : null,
+      attempts: 0,
+      max_attempts: type.max_attempts,
+      next_attempt_at: null,
+      idempotency_key: null,
+      delivery_path: 'queue',
+      ...command,
+    };
+
+    commands.push(row);
+    notifyCommand(row);
+    return row;
+  };
+
+  const findDuplicate = (deviceId: string, key: string | null | undefined) =>
+    key ? commands.find((command) => command.device_id === deviceId && command.idempotency_key === key) : undefined;
+
+  const teamNames = (deviceId: string) =>
+    deviceTeams
+      .filter((link) => link.device_id === deviceId)
+      .map((link) => ({ team_id: link.team_id, team: { name: teams.find((team) => team.id === link.team_id)?.name ?? '' } }));
+
+  return {
+    auth: {
+      getUser: async () => currentUser,
+
+      onUserChange: (listener) => {
+        userListeners.add(listener);
+        return () => userListeners.delete(listener);
+      },
+
+      signIn: async (email) => {
+        setUser({ id: userIdFor(email), email: email.trim().toLowerCase() });
+      },
+
+      signUp: async (email) => {
+        setUser({ id: userIdFor(email), email: email.trim().toLowerCase() });
+      },
+
+      signOut: async () => {
+        setUser(null);
+      },
+    },
+
+    devices: {
+      list: async () =>
+        visibleDevices()
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map((device) => ({ ...device, teams: teamNames(device.id) })),
+
+      listShared: async () => {
+        const teamIds = myTeamIds();
+        return visibleDevices()
+          .map((device) => ({
+            id: device.id,
+            name: device.name,
+            teams: deviceTeams
+              .filter((link) => link.device_id === device.id && teamIds.includes(link.team_id))
+              .map(({ team_id }) => ({ team_id })),
+          }))
+          .filter((device) => device.teams.length > 0)
+          .sort((a, b) => a.name.localeCompare(b.name));
+      },
+
+      listForTeam: async (teamId) =>
+        visibleDevices()
+          .filter((device) => deviceTeams.some((link) => link.device_id === device.id && link.team_id === teamId))
+          .map(({ id, name }) => ({ id, name })),
+
+      create: async (name, ownerId) => {
+        const device: Device = {
+          id: nextId('device'),
+          name,
+          ip_address: null,
+          port: null,
+          owner_id: ownerId,
+          status: 'unknown',
+          last_seen: null,
+          offline_after_seconds: 60,
+          paired_at: null,
+          now_playing: null,
+          now_playing_at: null,
+          zoom_state: null,
+          zoom_state_at: null,
+          direct_delivery: false,
+          created_at: now(),
+        };
+        devices.push(device);
+        return { ...device };
+      },
+
+      update: async (deviceId, changes) => {
+        const device = findOwnedDevice(deviceId);
+        Object.assign(device, changes);
+        deviceListeners.forEach((listener) => listener({ ...device }));
+      },
+
+      remove: async (deviceId) => {
+        findOwnedDevice(deviceId);
+        devices.splice(devices.findIndex((device) => device.id === deviceId), 1);
+        const cascaded = [deviceTeams, roomDevices, groupMembers, macroSteps, schedules, credentials, pairingCodes];
+        for (const rows of cascaded as { device_id: string }[][]) {
+          for (let i = rows.length - 1; i >= 0; i--) {
+            if (rows[i].device_id === deviceId) rows.splice(i, 1);
+          }
+        }
+      },
+
+      listTeamIds: async (deviceId) =>
+        deviceTeams.filter((link) => link.device_id === deviceId).map((link) => link.team_id),
+
+      share: async (deviceId, teamIds, addedBy) => {
+        findDevice(deviceId);
+        for (const teamId of teamIds) {
+          if (deviceTeams.some((link) => link.device_id === deviceId && link.team_id === teamId)) {
+            fail('Device is already shared with this team', '23505');
+          }
+          deviceTeams.push({ device_id: deviceId, team_id: teamId, added_by: addedBy, added_at: now() });
+        }
+      },
+
+      unshare: async (deviceId, teamId) => {
+        const index = deviceTeams.findIndex((link) => link.device_id === deviceId && link.team_id === teamId);
+        if (index >= 0) deviceTeams.splice(index, 1);
+      },
+
+      transfer: async (deviceId, newOwnerEmail) => {
+        const device = findOwnedDevice(deviceId);
+        device.owner_id = userIdFor(newOwnerEmail);
+      },
+
+      // No agent can reach an in-memory backend, so none ever connects.
+      issueDirectToken: async () => fail('The agent has not connected yet'),
+
+      // Nothing claims the code, so the device stays unpaired.
+      createPairingCode: async (deviceId) => {
+        findOwnedDevice(deviceId);
+        for (let i = pairingCodes.length - 1; i >= 0; i--) {
+          if (pairingCodes[i].device_id === deviceId && !pairingCodes[i].claimed_at) pairingCodes.splice(i, 1);
+        }
+        const pairing: PairingCode = {
+          id: nextId('pairing'),
+          device_id: deviceId,
+          code: newPairingCode(),
+          created_by: requireUser().id,
+          created_at: now(),
+          expires_at: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+          claimed_at: null,
+        };
+        pairingCodes.push(pairing);
+        return { ...pairing };
+      },
+
+      subscribe: (onDevice) => {
+        deviceListeners.add(onDevice);
+        return () => deviceListeners.delete(onDevice);
+      },
+    },
+
+    commands: {
+      listTypes: async () => [...commandTypes].sort((a, b) => a.sort_order - b.sort_order),
+
+      send: async (command) => {
+        findDevice(command.device_id);
+        const existing = findDuplicate(command.device_id, command.idempotency_key);
+        if (existing) return { command: { ...existing }, duplicate: true };
+        return { command: { ...insertCommand(command) }, duplicate: false };
+      },
+
+      broadcast: async ({ deviceIds, commandType, payload, userId, groupId = null, idempotencyKey }) => {
+        deviceIds.forEach(findDevice);
+
+        let broadcast = broadcasts.find((entry) => entry.sent_by === userId && entry.idempotency_key === idempotencyKey);
+        const duplicate = Boolean(broadcast);
+        if (!broadcast) {
+          broadcast = {
+            id: nextId('broadcast'),
+            command_type: commandType,
+            payload,
+            group_id: groupId,
+            sent_by: userId,
+            created_at: now(),
+            idempotency_key: idempotencyKey,
+          };
+          broadcasts.push(broadcast);
+        }
+
+        const key = `broadcast:${broadcast.id}`;
+        for (const deviceId of deviceIds) {
+          if (findDuplicate(deviceId, key)) continue;
+          insertCommand({
+            device_id: deviceId,
+            command_type: commandType,
+            payload,
+            sent_by: userId,
+            broadcast_id: broadcast.id,
+            idempotency_key: key,
+          });
+        }
+
+        const broadcastId = broadcast.id;
+        return {
+          broadcast: { ...broadcast },
+          commands: commands.filter((command) => command.broadcast_id === broadcastId).map((command) => ({ ...command })),
+          duplicate,
+        };
+      },
+
+      get: async (commandId) => {
+        const command = commands.find((entry) => entry.id === commandId);
+        return command ? { ...command } : null;
+      },
+
+      listRecent: async (deviceIds, limit) =>
+        commands
+          .filter((command) => deviceIds.includes(command.device_id))
+          .sort((a, b) => b.sent_at.localeCompare(a.sent_at))
+          .slice(0, limit)
+          .map((command) => ({ ...command })),
+
+      listHistory: async ({ deviceIds, status, commandType, sentBy, from, to, before, limit }) =>
+        commands
+          .filter((command) => deviceIds.includes(command.device_id))
+          .filter((command) => !status || command.status === status)
+          .filter((command) => !commandType || command.command_type === commandType)
+          .filter((command) => !sentBy || command.sent_by === sentBy)
+          .filter((command) => !from || command.sent_at >= from)
+          .filter((command) => !to || command.sent_at < to)
+          .filter(
+            (command) =>
+              !before ||
+              command.sent_at < before.sent_at ||
+              (command.sent_at === before.sent_at && command.id < before.id)
+          )
+          .sort((a, b) => b.sent_at.localeCompare(a.sent_at) || (a.id < b.id ? 1 : -1))
+          .slice(0, limit)
+          .map((command) => ({ ...command })),
+
+      listForBroadcast: async (broadcastId) =>
+        commands.filter((command) => command.broadcast_id === broadcastId).map((command) => ({ ...command })),
+
+      subscribe: (subscription) => {
+        commandSubscriptions.add(subscription);
+        queueMicrotask(() => subscription.onSubscribed?.());
+        return () => commandSubscriptions.delete(subscription);
+      },
+    },
+
+    teams: {
+      list: async () => {
+        const user = currentUser;
+        if (!user) return [];
+        const email = user.email?.toLowerCase();
+        const invitedTeamIds = invitations
+          .filter((invitation) => invitation.email === email && invitation.status === 'pending')
+          .map((invitation) => invitation.team_id);
+        const teamIds = [...myTeamIds(), ...invitedTeamIds];
+        return teams
+          .filter((team) => team.created_by === user.id || teamIds.includes(team.id))
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map((team) => ({ ...team }));
+      },
+
+      create: async (name, createdBy) => {
+        const team: Team = { id: nextId('team'), name, created_by: createdBy, created_at: now() };
+        teams.push(team);
+        members.push({ id: nextId('member'), team_id: team.id, user_id: createdBy, role: 'owner', joined_at: now() });
+        return { ...team };
+      },
+
+      remove: async (teamId) => {
+        const index = teams.findIndex((team) => team.id === teamId && team.created_by === requireUser().id);
+        if (index < 0) fail('Only the team owner can delete it');
+        teams.splice(index, 1);
+        for (const rows of [members, invitations, permissions, deviceTeams] as { team_id: string }[][]) {
+          for (let i = rows.length - 1; i >= 0; i--) {
+            if (rows[i].team_id === teamId) rows.splice(i, 1);
+          }
+        }
+        for (const rows of [rooms, groups, macros] as { team_id: string | null }[][]) {
+          rows.filter((row) => row.team_id === teamId).forEach((row) => (row.team_id = null));
+        }
+      },
+
+      listCommandPermissions: async (teamId) => {
+        const teamIds = teamId ? [teamId] : myTeamIds();
+        return permissions.filter((permission) => teamIds.includes(permission.team_id)).map((permission) => ({ ...permission }));
+      },
+
+      setCommandPermission: async (teamId, commandType, minRole, updatedBy) => {
+        const index = permissions.findIndex(
+          (permission) => permission.team_id === teamId && permission.command_type === commandType
+        );
+        if (index >= 0) permissions.splice(index, 1);
+        if (minRole) {
+          permissions.push({ team_id: teamId, command_type: commandType, min_role: minRole, updated_by: updatedBy, updated_at: now() });
+        }
+      },
+    },
+
+    members: {
+      getRoles: async (userId) => {
+        const roles: Record<string, TeamRole> = {};
+        for (const member of members) if (member.user_id === userId) roles[member.team_id] = member.role;
+        for (const team of teams) if (team.created_by === userId) roles[team.id] = 'owner';
+        return roles;
+      },
+
+      list: async (teamId) => members.filter((member) => member.team_id === teamId).map((member) => ({ ...member })),
+
+      listUserIds: async (teamIds) => [
+        ...new Set(members.filter((member) => teamIds.includes(member.team_id)).map((member) => member.user_id)),
+      ],
+
+      changeRole: async (memberId, role) => {
+        const member = members.find((entry) => entry.id === memberId) ?? fail('Unknown member');
+        member.role = role;
+      },
+
+      remove: async (memberId) => {
+        const index = members.findIndex((member) => member.id === memberId);
+        if (index >= 0) members.splice(index, 1);
+      },
+
+      invite: async (teamId, email, role) => {
+        if (role === 'owner') return fail('Invitations cannot grant the owner role');
+        const address = email.trim().toLowerCase();
+        if (members.some((member) => member.team_id === teamId && member.user_id === userIdFor(address))) {
+          fail('Already a member of this team');
+        }
+        const pending = invitations.find(
+          (invitation) => invitation.team_id === teamId && invitation.email === address && invitation.status === 'pending'
+        );
+        if (pending) pending.status = 'revoked';
+
+        invitations.push({
+          id: nextId('invitation'),
+          team_id: teamId,
+          email: address,
+          role,
+          status: 'pending',
+          invited_by: requireUser().id,
+          created_at: now(),
+          expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+          responded_at: null,
+        });
+      },
+
+      listInvitations: async (teamId) =>
+        invitations
+          .filter((invitation) => invitation.team_id === teamId && invitation.status === 'pending')
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map((invitation) => ({ ...invitation })),
+
+      listReceivedInvitations: async (email) => {
+        const address = email.toLowerCase();
+        return invitations
+          .filter(
+            (invitation) => invitation.email === address && invitation.status === 'pending' && invitation.expires_at > now()
+          )
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map((invitation) => ({
+            ...invitation,
+            team: { name: teams.find((team) => team.id === invitation.team_id)?.name ?? '' },
+          }));
+      },
+
+      respondToInvitation: async (invitationId, accept) => {
+        const user = requireUser();
+        const invitation =
+          invitations.find(
+            (entry) => entry.id === invitationId && entry.email === user.email?.toLowerCase() && entry.status === 'pending'
+          ) ?? fail('Invitation not found');
+        if (invitation.expires_at <= now()) fail('Invitation has expired');
+
+        invitation.status = accept ? 'accepted' : 'declined';
+        invitation.responded_at = now();
+        if (accept) {
+          members.push({
+            id: nextId('member'),
+            team_id: invitation.team_id,
+            user_id: user.id,
+            role: invitation.role,
+            joined_at: now(),
+          });
+        }
+      },
+
+      revokeInvitation: async (invitationId) => {
+        const invitation = invitations.find((entry) => entry.id === invitationId) ?? fail('Invitation not found');
+        invitation.status = 'revoked';
+        invitation.responded_at = now();
+      },
+    },
+
+    rooms: {
+      list: async () =>
+        visibleRooms()
+          .map((room) => ({
+            ...room,
+            devices: roomDevices
+              .filter((link) => link.room_id === room.id)
+              .map(({ device_id, handles }) => ({ device_id, handles: [...handles] })),
+            team: teams.find((team) => team.id === room.team_id) ?? null,
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name)),
+
+      create: async (room, ownerId) => {
+        if (room.key && rooms.some((entry) => entry.key === room.key)) {
+          return fail(`A room with key "${room.key}" already exists`, '23505');
+        }
+        const row: Room = {
+          id: nextId('room'),
+          key: room.key ?? null,
+          name: room.name,
+          description: room.description ?? null,
+          owner_id: ownerId,
+          team_id: room.team_id ?? null,
+          created_at: now(),
+        };
+        rooms.push(row);
+        return { ...row };
+      },
+
+      update: async (roomId, changes) => {
+        Object.assign(findEditableRoom(roomId), changes);
+      },
+
+      remove: async (roomId) => {
+        findEditableRoom(roomId);
+        rooms.splice(rooms.findIndex((room) => room.id === roomId), 1);
+        for (let i = roomDevices.length - 1; i >= 0; i--) {
+          if (roomDevices[i].room_id === roomId) roomDevices.splice(i, 1);
+        }
+      },
+
+      setDevices: async (roomId, assignments) => {
+        findEditableRoom(roomId);
+        assignments.forEach(({ device_id }) => findDevice(device_id));
+        for (let i = roomDevices.length - 1; i >= 0; i--) {
+          if (roomDevices[i].room_id === roomId) roomDevices.splice(i, 1);
+        }
+        roomDevices.push(
+          ...assignments.map(({ device_id, handles }) => ({ room_id: roomId, device_id, handles: [...handles], added_at: now() }))
+        );
+      },
+    },
+
+    groups: {
+      list: async () =>
+        visibleGroups()
+          .map((group) => ({
+            ...group,
+            members: groupMembers.filter((member) => member.group_id === group.id).map(({ device_id }) => ({ device_id })),
+            team: teams.find((team) => team.id === group.team_id) ?? null,
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name)),
+
+      create: async (group, ownerId) => {
+        const row: DeviceGroup = { id: nextId('group'), ...group, owner_id: ownerId, created_at: now() };
+        groups.push(row);
+        return { ...row };
+      },
+
+      update: async (groupId, changes) => {
+        Object.assign(findEditableGroup(groupId), changes);
+      },
+
+      remove: async (groupId) => {
+        findEditableGroup(groupId);
+        groups.splice(groups.findIndex((group) => group.id === groupId), 1);
+        for (let i = groupMembers.length - 1; i >= 0; i--) {
+          if (groupMembers[i].group_id === groupId) groupMembers.splice(i, 1);
+        }
+      },
+
+      setDevices: async (groupId, deviceIds) => {
+        findEditableGroup(groupId);
+        deviceIds.forEach(findDevice);
+        for (let i = groupMembers.length - 1; i >= 0; i--) {
+          if (groupMembers[i].group_id === groupId) groupMembers.splice(i, 1);
+        }
+        groupMembers.push(...deviceIds.map((deviceId) => ({ group_id: groupId, device_id: deviceId })));
+      },
+    },
+
+    macros: {
+      list: async () =>
+        visibleMacros()
+          .map((macro) => ({
+            ...macro,
+            steps: macroSteps
+              .filter((step) => step.macro_id === macro.id)
+              .sort((a, b) => a.position - b.position)
+              .map((step) => ({ ...step })),
+            team: teams.find((team) => team.id === macro.team_id) ?? null,
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name)),
+
+      create: async (macro, createdBy) => {
+        const row: Macro = { id: nextId('macro'), ...macro, created_by: createdBy, created_at: now(), updated_at: now() };
+        macros.push(row);
+        return { ...row };
+      },
+
+      update: async (macroId, changes) => {
+        Object.assign(findEditableMacro(macroId), changes, { updated_at: now() });
+      },
+
+      remove: async (macroId) => {
+        findEditableMacro(macroId);
+        macros.splice(macros.findIndex((macro) => macro.id === macroId), 1);
+        for (const rows of [macroSteps, macroRuns]) {
+          for (let i = rows.length - 1; i >= 0; i--) {
+            if (rows[i].macro_id === macroId) rows.splice(i, 1);
+          }
+        }
+      },
+
+      setSteps: async (macroId, steps) => {
+        findEditableMacro(macroId);
+        steps.forEach((step) => findDevice(step.device_id));
+        for (let i = macroSteps.length - 1; i >= 0; i--) {
+          if (macroSteps[i].macro_id === macroId) macroSteps.splice(i, 1);
+        }
+        macroSteps.push(...steps.map((step, position) => ({ ...step, id: nextId('step'), macro_id: macroId, position })));
+      },
+
+      startRun: async (macroId, startedBy) => {
+        if (!visibleMacros().some((macro) => macro.id === macroId)) fail(`Unknown macro ${macroId}`);
+        const run: MacroRun = {
+          id: nextId('run'),
+          macro_id: macroId,
+          started_by: startedBy,
+          status: 'running',
+          current_step: null,
+          error: null,
+          started_at: now(),
+          finished_at: null,
+          heartbeat_at: now(),
+        };
+        macroRuns.push(run);
+        return { ...run };
+      },
+
+      updateRun: async (runId, changes) => {
+        const run = macroRuns.find((entry) => entry.id === runId) ?? fail(`Unknown macro run ${runId}`);
+        Object.assign(run, changes);
+      },
+    },
+
+    // Nothing fires schedules here, so they never get runs.
+    schedules: {
+      list: async (deviceId) =>
+        schedules
+          .filter((schedule) => schedule.device_id === deviceId && ['active', 'paused'].includes(schedule.status))
+          .sort((a, b) =>
+            a.next_run_at === null || b.next_run_at === null
+              ? Number(a.next_run_at === null) - Number(b.next_run_at === null)
+              : a.next_run_at.localeCompare(b.next_run_at)
+          )
+          .map((schedule) => ({ ...schedule })),
+
+      listRuns: async () => [],
+
+      create: async (deviceId, schedule, createdBy) => {
+        findDevice(deviceId);
+        const row: Schedule = {
+          id: nextId('schedule'),
+          device_id: deviceId,
+          ...schedule,
+          next_run_at: null,
+          last_run_at: null,
+          last_error: null,
+          status: 'active',
+          created_by: createdBy,
+          created_at: now(),
+          updated_at: now(),
+        };
+        row.next_run_at = getNextRunAt(row);
+        schedules.push(row);
+        notifySchedules(deviceId);
+      },
+
+      update: async (scheduleId, changes) => {
+        const schedule = findSchedule(scheduleId);
+        const nextRunAt = getNextRunAt({ ...schedule, ...changes });
+        Object.assign(schedule, changes, { next_run_at: nextRunAt, updated_at: now() });
+        notifySchedules(schedule.device_id);
+      },
+
+      setStatus: async (scheduleId, status) => {
+        const schedule = findSchedule(scheduleId);
+        const nextRunAt = getNextRunAt({ ...schedule, status });
+        Object.assign(schedule, { status, next_run_at: nextRunAt, updated_at: now() });
+        if (status === 'active') schedule.last_error = null;
+        notifySchedules(schedule.device_id);
+      },
+
+      subscribe: (deviceId, onChange) => {
+        const listener = { deviceId, onChange };
+        scheduleListeners.add(listener);
+        return () => scheduleListeners.delete(listener);
+      },
+    },
+
+    credentials: {
+      list: async (deviceId) => {
+        findOwnedDevice(deviceId);
+        return credentials
+          .filter((credential) => credential.device_id === deviceId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map((credential) => ({ ...credential }));
+      },
+
+      create: async (deviceId, label) => {
+        findOwnedDevice(deviceId);
+        return issueCredential(deviceId, label);
+      },
+
+      rotate: async (credentialId) => {
+        const credential =
+          credentials.find((entry) => entry.id === credentialId && !entry.revoked_at) ?? fail('Credential not found');
+        findOwnedDevice(credential.device_id);
+        credential.revoked_at = now();
+        return issueCredential(credential.device_id, credential.label);
+      },
+
+      revoke: async (credentialId) => {
+        const credential = credentials.find((entry) => entry.id === credentialId) ?? fail('Credential not found');
+        findOwnedDevice(credential.device_id);
+        credential.revoked_at ??= now();
+      },
+    },
+
+    liveLayouts: {
+      get: async (userId) => {
+        const layout = liveLayouts.find((entry) => entry.user_id === userId);
+        return layout ? { ...layout } : null;
+      },
+
+      save: async (userId, changes) => {
+        if (userId !== requireUser().id) fail('Users can only save their own live layout');
+        let layout = liveLayouts.find((entry) => entry.user_id === userId);
+        if (!layout) {
+          layout = { user_id: userId, room_ids: [], hotkeys: {}, cooldown_ms: 1500, updated_at: now() };
+          liveLayouts.push(layout);
+        }
+        Object.assign(layout, changes, { updated_at: now() });
+        return { ...layout };
+      },
+    },
+
+    analytics: {
+      getCommandStats: async ({ deviceIds, from, to, timeZone }) => {
+        const visible = visibleDevices().map((device) => device.id);
+        const rows = commands.filter(
+          (command) =>
+            deviceIds.includes(command.device_id) &&
+            visible.includes(command.device_id) &&
+            command.sent_at >= from &&
+            command.sent_at < to
+        );
+        const dayOf = (command: Command) =>
+          new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(
+            new Date(command.sent_at)
+          );
+        const groupBy = (key: (command: Command) => string) => {
+          const groups = new Map<string, Command[]>();
+          rows.forEach((command) => groups.set(key(command), [...(groups.get(key(command)) ?? []), command]));
+          return [...groups];
+        };
+        const none = { device_id: null, command_type: null, day: null };
+
+        return [
+          summarize(none, rows),
+          ...groupBy((command) => command.device_id).map(([device_id, group]) => summarize({ ...none, device_id }, group)),
+          ...groupBy((command) => command.command_type).map(([command_type, group]) =>
+            summarize({ ...none, command_type }, group)
+          ),
+          ...groupBy((command) => `${command.device_id} ${command.command_type}`).map(([, group]) =>
+            summarize({ ...none, device_id: group[0].device_id, command_type: group[0].command_type }, group)
+          ),
+          ...groupBy(dayOf).map(([day, group]) => summarize({ ...none, day }, group)),
+        ];
+      },
+
+      // No agent reports to an in-memory backend, so no device has presence history.
+      getUptime: async () => [],
+    },
+  };
+};
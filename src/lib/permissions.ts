@@ -0,0 +1,23 @@
+import type { Database } from './supabase';
+
+export type TeamRole = Database['public']['Tables']['team_members']['Row']['role'];
+
+/** Mirrors `team_role_rank()` in the database. */
+const ROLE_RANK: Record<TeamRole, number> = {
+  viewer: 1,
+  operator: 2,
+  admin: 3,
+  owner: 4,
+};
+
+export const TEAM_ROLES: { value: TeamRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Created the team; can rename and delete it' },
+  { value: 'admin', label: 'Admin', description: 'Manages members, roles, permissions and team devices' },
+  { value: 'operator', label: 'Operator', description: 'Sends commands' },
+  { value: 'viewer', label: 'Viewer', description: 'Watches status and history' },
+];
+
+export const getRoleLabel = (role: TeamRole) => TEAM_ROLES.find((entry) => entry.value === role)?.label ?? role;
+
+export const hasRole = (role: TeamRole | null | undefined, minimum: TeamRole) =>
+  role ? ROLE_RANK[role] >= ROLE_RANK[minimum] : false;
@@ -0,0 +1,294 @@
+import type { Database } from './database.types';
+import type { TeamRole } from './permissions';
+
+type Tables = Database['public']['Tables'];
+
+export type Device = Tables['devices']['Row'];
+/** A device with the teams it is shared with, as listed on the dashboard. */
+export type DeviceWithTeams = Device & { teams: { team_id: string; team: { name: string } | null }[] };
+/** Just enough of a device to list it under the teams it is shared with. */
+export type SharedDevice = Pick<Device, 'id' | 'name'> & { teams: { team_id: string }[] };
+export type DeviceChanges = Pick<Tables['devices']['Update'], 'name' | 'offline_after_seconds'>;
+export type Command = Tables['commands']['Row'];
+/** Lets the dashboard call a device's agent over the LAN; see issue_direct_token(). */
+export type DirectToken = Database['public']['Functions']['issue_direct_token']['Returns'];
+export type NewCommand = Tables['commands']['Insert'];
+export type CommandTypeRow = Tables['command_types']['Row'];
+export type Broadcast = Tables['command_broadcasts']['Row'];
+export type Team = Tables['teams']['Row'];
+export type TeamMember = Tables['team_members']['Row'];
+export type TeamInvitation = Tables['team_invitations']['Row'];
+/** An invitation addressed to the signed-in user, with the name of the team it is for. */
+export type ReceivedInvitation = TeamInvitation & { team: { name: string } | null };
+export type CommandPermission = Tables['team_command_permissions']['Row'];
+export type Room = Tables['rooms']['Row'];
+export type RoomDevice = Pick<Tables['room_devices']['Row'], 'device_id' | 'handles'>;
+/** A room with its devices and the team it is shared with, as listed on the dashboard. */
+export type RoomWithDevices = Room & { devices: RoomDevice[]; team: { name: string } | null };
+/**
+ * Outcome counts and latency percentiles for a group of commands. `device_id`,
+ * `command_type` and `day` name the group; the ones it isn't grouped by are null.
+ */
+export type CommandStats = Database['public']['Functions']['command_analytics']['Returns'][number];
+export type DeviceUptime = Database['public']['Functions']['device_uptime']['Returns'][number];
+export type NewRoom = Pick<Tables['rooms']['Insert'], 'key' | 'name' | 'description' | 'team_id'>;
+export type RoomChanges = Pick<Tables['rooms']['Update'], 'name' | 'description' | 'team_id'>;
+export type LiveLayout = Tables['live_layouts']['Row'];
+export type LiveLayoutChanges = Pick<LiveLayout, 'room_ids' | 'hotkeys' | 'cooldown_ms'>;
+export type DeviceGroup = Tables['device_groups']['Row'];
+/** A group with its devices and the team it is shared with, as listed on the dashboard. */
+export type DeviceGroupWithMembers = DeviceGroup & { members: { device_id: string }[]; team: { name: string } | null };
+export type DeviceGroupChanges = Pick<DeviceGroup, 'name' | 'team_id'>;
+export type Macro = Tables['macros']['Row'];
+export type MacroStep = Tables['macro_steps']['Row'];
+/** A macro with its steps in `position` order and the team it is shared with. */
+export type MacroWithSteps = Macro & { steps: MacroStep[]; team: { name: string } | null };
+export type MacroChanges = Pick<Macro, 'name' | 'description' | 'team_id'>;
+/** A step as edited; its position is its index in the list. */
+export type MacroStepDraft = Omit<MacroStep, 'id' | 'macro_id' | 'position'>;
+export type MacroRun = Tables['macro_runs']['Row'];
+export type MacroRunChanges = Pick<
+  Tables['macro_runs']['Update'],
+  'status' | 'current_step' | 'error' | 'finished_at' | 'heartbeat_at'
+>;
+export type Schedule = Tables['command_schedules']['Row'];
+export type ScheduleChanges = Pick<Schedule, 'command_type' | 'payload' | 'run_at' | 'cron' | 'timezone'>;
+/** A run of one of the device's schedules, with the command it sends. */
+export type ScheduleRun = Tables['schedule_runs']['Row'] & { schedule: { command_type: string } | null };
+export type DeviceCredential = Tables['device_credentials']['Row'];
+export type PairingCode = Tables['device_pairing_codes']['Row'];
+
+export interface AppUser {
+  id: string;
+  email?: string;
+}
+
+export type Unsubscribe = () => void;
+
+export interface CommandHistoryQuery {
+  deviceIds: string[];
+  status?: Command['status'];
+  commandType?: string;
+  sentBy?: string;
+  /** ISO timestamp, inclusive. */
+  from?: string;
+  /** ISO timestamp, exclusive. */
+  to?: string;
+  /**
+   * Keyset cursor: only commands after this one in `(sent_at, id)` order,
+   * newest first. The id breaks ties between commands sent in one statement,
+   * such as a broadcast.
+   */
+  before?: Pick<Command, 'sent_at' | 'id'> | null;
+  limit: number;
+}
+
+export interface AnalyticsQuery {
+  deviceIds: string[];
+  /** ISO timestamp, inclusive. */
+  from: string;
+  /** ISO timestamp, exclusive. */
+  to: string;
+  /** IANA time zone the days are counted in. */
+  timeZone: string;
+}
+
+export interface BroadcastRequest {
+  deviceIds: string[];
+  commandType: string;
+  payload: Record<string, unknown>;
+  userId: string;
+  groupId?: string | null;
+  /** Sending again with the same key returns the original broadcast instead of a new one. */
+  idempotencyKey: string;
+}
+
+export interface CommandSubscription {
+  /** Only this command. */
+  commandId?: string;
+  /** Only the commands of this broadcast. */
+  broadcastId?: string;
+  /** A command was inserted or updated. */
+  onCommand: (command: Command) => void;
+  /** The subscription is live; anything that changed before may have been missed. */
+  onSubscribed?: () => void;
+}
+
+export interface AuthRepository {
+  getUser: () => Promise<AppUser | null>;
+  onUserChange: (listener: (user: AppUser | null) => void) => Unsubscribe;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export interface DevicesRepository {
+  /** Devices the user owns or can reach through a team, newest first. */
+  list: () => Promise<DeviceWithTeams[]>;
+  /** Devices shared with at least one of the user's teams, by name. */
+  listShared: () => Promise<SharedDevice[]>;
+  listForTeam: (teamId: string) => Promise<Pick<Device, 'id' | 'name'>[]>;
+  create: (name: string, ownerId: string) => Promise<Device>;
+  update: (deviceId: string, changes: DeviceChanges) => Promise<void>;
+  remove: (deviceId: string) => Promise<void>;
+  listTeamIds: (deviceId: string) => Promise<string[]>;
+  share: (deviceId: string, teamIds: string[], addedBy: string) => Promise<void>;
+  unshare: (deviceId: string, teamId: string) => Promise<void>;
+  transfer: (deviceId: string, newOwnerEmail: string) => Promise<void>;
+  /** Token for the agent's local API. Rejects when the agent has not connected yet. */
+  issueDirectToken: (deviceId: string) => Promise<DirectToken>;
+  /** A new one-time code for `npm run pair`; replaces the device's unclaimed codes. */
+  createPairingCode: (deviceId: string) => Promise<PairingCode>;
+  /** Status, last-seen and address updates. Rows carry no joins. */
+  subscribe: (onDevice: (device: Device) => void) => Unsubscribe;
+}
+
+export interface CommandsRepository {
+  listTypes: () => Promise<CommandTypeRow[]>;
+  /**
+   * Queues a command. When its `idempotency_key` was already used for the
+   * device, resolves to the existing command with `duplicate` set instead.
+   */
+  send: (command: NewCommand) => Promise<{ command: Command; duplicate: boolean }>;
+  /**
+   * Fans one command out to several devices: records the broadcast, then
+   * queues one linked command per device in a single insert so either all
+   * targets get the command or none do.
+   */
+  broadcast: (request: BroadcastRequest) => Promise<{ broadcast: Broadcast; commands: Command[]; duplicate: boolean }>;
+  get: (commandId: string) => Promise<Command | null>;
+  /** The newest `limit` commands across the devices. */
+  listRecent: (deviceIds: string[], limit: number) => Promise<Command[]>;
+  /** Newest first, keyed on `sent_at` so pages stay stable while commands arrive. */
+  listHistory: (query: CommandHistoryQuery) => Promise<Command[]>;
+  listForBroadcast: (broadcastId: string) => Promise<Command[]>;
+  subscribe: (subscription: CommandSubscription) => Unsubscribe;
+}
+
+export interface TeamsRepository {
+  /** Teams the user belongs to or is invited to, by name. */
+  list: () => Promise<Team[]>;
+  /** Creates the team with its creator as owner. */
+  create: (name: string, createdBy: string) => Promise<Team>;
+  remove: (teamId: string) => Promise<void>;
+  /** Per-team minimum roles; all of the user's teams when `teamId` is omitted. */
+  listCommandPermissions: (teamId?: string) => Promise<CommandPermission[]>;
+  /** `null` removes the override so the registry default applies again. */
+  setCommandPermission: (teamId: string, commandType: string, minRole: TeamRole | null, updatedBy: string | null) => Promise<void>;
+}
+
+export interface MembersRepository {
+  /** The user's role per team id. Team creators are owners even without a membership row. */
+  getRoles: (userId: string) => Promise<Record<string, TeamRole>>;
+  list: (teamId: string) => Promise<TeamMember[]>;
+  /** Everyone in any of the teams. */
+  listUserIds: (teamIds: string[]) => Promise<string[]>;
+  changeRole: (memberId: string, role: TeamRole) => Promise<void>;
+  remove: (memberId: string) => Promise<void>;
+  invite: (teamId: string, email: string, role: TeamRole) => Promise<void>;
+  /** Pending invitations of a team, newest first. */
+  listInvitations: (teamId: string) => Promise<TeamInvitation[]>;
+  /** Pending, unexpired invitations addressed to `email`. */
+  listReceivedInvitations: (email: string) => Promise<ReceivedInvitation[]>;
+  respondToInvitation: (invitationId: string, accept: boolean) => Promise<void>;
+  revokeInvitation: (invitationId: string) => Promise<void>;
+}
+
+export interface RoomsRepository {
+  /** Rooms the user owns or can reach through a team, by name. */
+  list: () => Promise<RoomWithDevices[]>;
+  /** Rejects with code `23505` when a room with the same `key` already exists. */
+  create: (room: NewRoom, ownerId: string) => Promise<Room>;
+  update: (roomId: string, changes: RoomChanges) => Promise<void>;
+  remove: (roomId: string) => Promise<void>;
+  /** Replaces the room's devices and what each one handles. */
+  setDevices: (roomId: string, devices: RoomDevice[]) => Promise<void>;
+}
+
+export interface GroupsRepository {
+  /** Groups the user owns or can reach through a team, by name. */
+  list: () => Promise<DeviceGroupWithMembers[]>;
+  create: (group: DeviceGroupChanges, ownerId: string) => Promise<DeviceGroup>;
+  update: (groupId: string, changes: DeviceGroupChanges) => Promise<void>;
+  remove: (groupId: string) => Promise<void>;
+  /** Replaces the group's devices. */
+  setDevices: (groupId: string, deviceIds: string[]) => Promise<void>;
+}
+
+export interface MacrosRepository {
+  /** Macros the user created or can reach through a team, by name. */
+  list: () => Promise<MacroWithSteps[]>;
+  create: (macro: MacroChanges, createdBy: string) => Promise<Macro>;
+  update: (macroId: string, changes: MacroChanges) => Promise<void>;
+  remove: (macroId: string) => Promise<void>;
+  /** Replaces the macro's steps; positions follow the list order. */
+  setSteps: (macroId: string, steps: MacroStepDraft[]) => Promise<void>;
+  /** Records a new run as `running`. */
+  startRun: (macroId: string, startedBy: string) => Promise<MacroRun>;
+  updateRun: (runId: string, changes: MacroRunChanges) => Promise<void>;
+}
+
+export interface SchedulesRepository {
+  /** The device's active and paused schedules, next run first. */
+  list: (deviceId: string) => Promise<Schedule[]>;
+  /** The newest `limit` runs of the device's schedules. */
+  listRuns: (deviceId: string, limit: number) => Promise<ScheduleRun[]>;
+  create: (deviceId: string, schedule: ScheduleChanges, createdBy: string) => Promise<void>;
+  update: (scheduleId: string, changes: ScheduleChanges) => Promise<void>;
+  setStatus: (scheduleId: string, status: Schedule['status']) => Promise<void>;
+  /** Called whenever one of the device's schedules is created, changed or fired. */
+  subscribe: (deviceId: string, onChange: () => void) => Unsubscribe;
+}
+
+export interface CredentialsRepository {
+  /** The device's agent credentials, newest first, revoked ones included. */
+  list: (deviceId: string) => Promise<DeviceCredential[]>;
+  /** Resolves to the token, which cannot be read back later. */
+  create: (deviceId: string, label: string) => Promise<string>;
+  /** Revokes the credential and resolves to the token of its replacement. */
+  rotate: (credentialId: string) => Promise<string>;
+  revoke: (credentialId: string) => Promise<void>;
+}
+
+export interface LiveLayoutsRepository {
+  /** The user's live mode layout, or null before they save one. */
+  get: (userId: string) => Promise<LiveLayout | null>;
+  /** Creates or replaces the user's layout. */
+  save: (userId: string, layout: LiveLayoutChanges) => Promise<LiveLayout>;
+}
+
+export interface AnalyticsRepository {
+  /**
+   * Commands sent in the range, summarized per device, per command type, per
+   * command type on each device, per day and overall (the row with all three
+   * null).
+   */
+  getCommandStats: (query: AnalyticsQuery) => Promise<CommandStats[]>;
+  /** Time online per device, from its presence history. Devices without history are left out. */
+  getUptime: (query: AnalyticsQuery) => Promise<DeviceUptime[]>;
+}
+
+/**
+ * Everything the dashboard reads and writes: devices, commands, teams,
+ * members, rooms, groups, macros, schedules, agent credentials, live layouts
+ * and analytics. The Supabase repository is used in production; the in-memory
+ * one lets the app run without a project. Methods throw on failure.
+ */
+export interface Repository {
+  auth: AuthRepository;
+  devices: DevicesRepository;
+  commands: CommandsRepository;
+  teams: TeamsRepository;
+  members: MembersRepository;
+  rooms: RoomsRepository;
+  groups: GroupsRepository;
+  macros: MacrosRepository;
+  schedules: SchedulesRepository;
+  credentials: CredentialsRepository;
+  liveLayouts: LiveLayoutsRepository;
+  analytics: AnalyticsRepository;
+}
+
+/** Message of a thrown repository error, for toasts. */
+export const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string } | null)?.message || fallback;
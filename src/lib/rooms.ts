@@ -0,0 +1,99 @@
+import { ZOOM_CONFIG } from '../config';
+import { isDuplicateKeyError } from './commands';
+import type { CommandTypeRow, Device, RoomDevice, RoomsRepository, RoomWithDevices } from './repository';
+
+/** Values of `command_types.category` a room device can handle. */
+export const COMMAND_CATEGORIES = [
+  { value: 'zoom', label: 'Zoom' },
+  { value: 'music', label: 'Music' },
+];
+
+export const getCategoryLabel = (category: string) =>
+  COMMAND_CATEGORIES.find((entry) => entry.value === category)?.label ?? category;
+
+/**
+ * The room device a command goes to: the first one handling the command's
+ * category, or the room's only device for commands without a category.
+ */
+export const getRoomDeviceId = (
+  room: Pick<RoomWithDevices, 'devices'>,
+  commandType: Pick<CommandTypeRow, 'category'>
+): string | null => {
+  const { category } = commandType;
+  if (!category) return room.devices.length === 1 ? room.devices[0].device_id : null;
+  return room.devices.find((device) => device.handles.includes(category))?.device_id ?? null;
+};
+
+/**
+ * What a room controls for the user: its devices they can see (e.g. not
+ * shared with their team are left out), every command one of those devices
+ * handles with the device it goes to, and the devices reporting Zoom and
+ * player state.
+ */
+export const resolveRoom = <D extends Pick<Device, 'id'>, T extends Pick<CommandTypeRow, 'category'>>(
+  room: Pick<RoomWithDevices, 'devices'>,
+  devices: D[],
+  commandTypes: T[]
+) => {
+  const roomDevices = room.devices
+    .map((entry) => ({ ...entry, device: devices.find((device) => device.id === entry.device_id) }))
+    .filter((entry): entry is typeof entry & { device: D } => entry.device !== undefined);
+
+  const findDevice = (deviceId: string | null) => roomDevices.find((entry) => entry.device_id === deviceId)?.device;
+
+  const commands = commandTypes
+    .map((commandType) => ({ commandType, device: findDevice(getRoomDeviceId(room, commandType)) }))
+    .filter((entry): entry is typeof entry & { device: D } => entry.device !== undefined);
+
+  return {
+    devices: roomDevices,
+    commands,
+    zoomDevice: findDevice(getRoomDeviceId(room, { category: 'zoom' })),
+    musicDevice: findDevice(getRoomDeviceId(room, { category: 'music' })),
+  };
+};
+
+/** One entry per device, with every category it is configured for. */
+const toRoomDevices = (devices: Record<string, string>) =>
+  Object.entries(devices).reduce<RoomDevice[]>((result, [category, deviceId]) => {
+    if (!deviceId) return result;
+    const existing = result.find((device) => device.device_id === deviceId);
+    if (existing) existing.handles.push(category);
+    else result.push({ device_id: deviceId, handles: [category] });
+    return result;
+  }, []);
+
+/**
+ * Creates the `ZOOM_CONFIG` rooms that don't exist yet, with the configured
+ * devices the user can see. Existing rooms are left alone so edits made under
+ * Rooms stick. Resolves to the number of rooms created.
+ */
+export const syncConfiguredRooms = async (
+  rooms: RoomsRepository,
+  existing: RoomWithDevices[],
+  visibleDeviceIds: string[],
+  ownerId: string
+) => {
+  let created = 0;
+
+  for (const definition of Object.values(ZOOM_CONFIG)) {
+    if (existing.some((room) => room.key === definition.key)) continue;
+
+    const devices = toRoomDevices(definition.devices).filter((device) => visibleDeviceIds.includes(device.device_id));
+    if (devices.length === 0) continue;
+
+    try {
+      const room = await rooms.create(
+        { key: definition.key, name: definition.name, description: definition.description },
+        ownerId
+      );
+      await rooms.setDevices(room.id, devices);
+      created += 1;
+    } catch (error) {
+      // Someone else created the room first and hasn't shared it with us.
+      if (!isDuplicateKeyError(error as { code?: string })) throw error;
+    }
+  }
+
+  return created;
+};
@@ -1,123 +1,16 @@
 import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+let client: SupabaseClient<Database> | null = null;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+/**
+ * The shared client, created on first use so the in-memory backend runs
+ * without `VITE_SUPABASE_URL` and `VITE_SUPABASE_ANON_KEY`.
+ */
+export const getSupabase = () => {
+  client ??= createClient<Database>(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_ANON_KEY);
+  return client;
+};
 
-export interface Database {
-  public: {
-    Tables: {
-      teams: {
-        Row: {
-          id: string;
-          name: string;
-          created_by: string;
-          created_at: string;
-        };
-        Insert: {
-          id?: string;
-          name: string;
-          created_by: string;
-          created_at?: string;
-        };
-        Update: {
-          id?: string;
-          name?: string;
-          created_by?: string;
-          created_at?: string;
-        };
-      };
-      team_members: {
-        Row: {
-          id: string;
-          team_id: string;
-          user_id: string;
-          role: 'admin' | 'member';
-          joined_at: string;
-        };
-        Insert: {
-          id?: string;
-          team_id: string;
-          user_id: string;
-          role?: 'admin' | 'member';
-          joined_at?: string;
-        };
-        Update: {
-          id?: string;
-          team_id?: string;
-          user_id?: string;
-          role?: 'admin' | 'member';
-          joined_at?: string;
-        };
-      };
-      devices: {
-        Row: {
-          id: string;
-          name: string;
-          ip_address: string;
-          port: number;
-          owner_id: string;
-          team_id: string | null;
-          status: 'online' | 'offline' | 'unknown';
-          last_seen: string | null;
-          created_at: string;
-        };
-        Insert: {
-          id?: string;
-          name: string;
-          ip_address: string;
-          port: number;
-          owner_id: string;
-          team_id?: string | null;
-          status?: 'online' | 'offline' | 'unknown';
-          last_seen?: string | null;
-          created_at?: string;
-        };
-        Update: {
-          id?: string;
-          name?: string;
-          ip_address?: string;
-          port?: number;
-          owner_id?: string;
-          team_id?: string | null;
-          status?: 'online' | 'offline' | 'unknown';
-          last_seen?: string | null;
-          created_at?: string;
-        };
-      };
-      commands: {
-        Row: {
-          id: string;
-          device_id: string;
-          command_type: 'unmute_zoom' | 'next_track';
-          payload: Record<string, unknown>;
-          status: 'pending' | 'delivered' | 'executed' | 'failed';
-          sent_by: string;
-          sent_at: string;
-          executed_at: string | null;
-        };
-        Insert: {
-          id?: string;
-          device_id: string;
-          command_type: 'unmute_zoom' | 'next_track';
-          payload?: Record<string, unknown>;
-          status?: 'pending' | 'delivered' | 'executed' | 'failed';
-          sent_by: string;
-          sent_at?: string;
-          executed_at?: string | null;
-        };
-        Update: {
-          id?: string;
-          device_id?: string;
-          command_type?: 'unmute_zoom' | 'next_track';
-          payload?: Record<string, unknown>;
-          status?: 'pending' | 'delivered' | 'executed' | 'failed';
-          sent_by?: string;
-          sent_at?: string;
-          executed_at?: string | null;
-        };
-      };
-    };
-  };
-}
+export type { Database } from './database.types';
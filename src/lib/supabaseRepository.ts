@@ -0,0 +1,706 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { isDuplicateKeyError } from './commands';
+import type { TeamRole } from './permissions';
+import type { Command, Device, Repository } from './repository';
+
+let channelSequence = 0;
+
+export const createSupabaseRepository = (supabase: SupabaseClient<Database>): Repository => ({
+  auth: {
+    getUser: async () => {
+      const { data, error } = await supabase.auth.getSession();
+      if (error) throw error;
+      return data.session?.user ?? null;
+    },
+
+    onUserChange: (listener) => {
+      const {
+        data: { subscription },
+      } = supabase.auth.onAuthStateChange((_event, session) => listener(session?.user ?? null));
+      return () => subscription.unsubscribe();
+    },
+
+    signIn: async (email, password) => {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+    },
+
+    signUp: async (email, password) => {
+      const { error } = await supabase.auth.signUp({ email, password });
+      if (error) throw error;
+    },
+
+    signOut: async () => {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+    },
+  },
+
+  devices: {
+    list: async () => {
+      const { data, error } = await supabase
+        .from('devices')
+        .select('*, teams:device_teams(team_id, team:teams(name))')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    listShared: async () => {
+      const { data, error } = await supabase
+        .from('devices')
+        .select('id, name, teams:device_teams!inner(team_id)')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    listForTeam: async (teamId) => {
+      const { data, error } = await supabase
+        .from('devices')
+        .select('id, name, device_teams!inner(team_id)')
+        .eq('device_teams.team_id', teamId);
+
+      if (error) throw error;
+      return (data || []).map(({ id, name }) => ({ id, name }));
+    },
+
+    create: async (name, ownerId) => {
+      const { data, error } = await supabase.from('devices').insert({ name, owner_id: ownerId }).select().single();
+      if (error) throw error;
+      return data;
+    },
+
+    update: async (deviceId, changes) => {
+      const { error } = await supabase.from('devices').update(changes).eq('id', deviceId);
+      if (error) throw error;
+    },
+
+    remove: async (deviceId) => {
+      const { error } = await supabase.from('devices').delete().eq('id', deviceId);
+      if (error) throw error;
+    },
+
+    listTeamIds: async (deviceId) => {
+      const { data, error } = await supabase.from('device_teams').select('team_id').eq('device_id', deviceId);
+      if (error) throw error;
+      return (data || []).map((row) => row.team_id);
+    },
+
+    share: async (deviceId, teamIds, addedBy) => {
+      if (teamIds.length === 0) return;
+      const { error } = await supabase
+        .from('device_teams')
+        .insert(teamIds.map((teamId) => ({ device_id: deviceId, team_id: teamId, added_by: addedBy })));
+      if (error) throw error;
+    },
+
+    unshare: async (deviceId, teamId) => {
+      const { error } = await supabase.from('device_teams').delete().eq('device_id', deviceId).eq('team_id', teamId);
+      if (error) throw error;
+    },
+
+    transfer: async (deviceId, newOwnerEmail) => {
+      const { error } = await supabase.rpc('transfer_device', {
+        target_device: deviceId,
+        new_owner_email: newOwnerEmail,
+      });
+      if (error) throw error;
+    },
+
+    issueDirectToken: async (deviceId) => {
+      const { data, error } = await supabase.rpc('issue_direct_token', { target_device: deviceId });
+      if (error) throw error;
+      return data;
+    },
+
+    createPairingCode: async (deviceId) => {
+      const { data, error } = await supabase.rpc('create_pairing_code', { target_device: deviceId });
+      if (error) throw error;
+      return data;
+    },
+
+    subscribe: (onDevice) => {
+      channelSequence += 1;
+      const channel = supabase
+        .channel(`devices_changes_${channelSequence}`)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'devices' }, (payload) => {
+          onDevice(payload.new as Device);
+        })
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+  },
+
+  commands: {
+    listTypes: async () => {
+      const { data, error } = await supabase.from('command_types').select('*').order('sort_order', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+
+    send: async (command) => {
+      const { data, error } = await supabase.from('commands').insert(command).select().single();
+
+      if (isDuplicateKeyError(error) && command.idempotency_key) {
+        const { data: existing, error: existingError } = await supabase
+          .from('commands')
+          .select('*')
+          .eq('device_id', command.device_id)
+          .eq('idempotency_key', command.idempotency_key)
+          .single();
+
+        if (existingError) throw existingError;
+        return { command: existing, duplicate: true };
+      }
+
+      if (error) throw error;
+      return { command: data, duplicate: false };
+    },
+
+    broadcast: async ({ deviceIds, commandType, payload, userId, groupId = null, idempotencyKey }) => {
+      const { data: created, error: broadcastError } = await supabase
+        .from('command_broadcasts')
+        .insert({ command_type: commandType, payload, group_id: groupId, sent_by: userId, idempotency_key: idempotencyKey })
+        .select()
+        .single();
+
+      const duplicate = isDuplicateKeyError(broadcastError);
+      if (broadcastError && !duplicate) throw broadcastError;
+
+      let broadcast = created;
+      if (duplicate) {
+        const { data: existing, error: existingError } = await supabase
+          .from('command_broadcasts')
+          .select('*')
+          .eq('sent_by', userId)
+          .eq('idempotency_key', idempotencyKey)
+          .single();
+
+        if (existingError) throw existingError;
+        broadcast = existing;
+      }
+      if (!broadcast) throw new Error('Broadcast was not created');
+
+      // Per-device keys let a resend fill in a broadcast whose command insert
+      // failed, while devices that already have the command are left alone.
+      const { data: inserted, error: commandsError } = await supabase
+        .from('commands')
+        .upsert(
+          deviceIds.map((deviceId) => ({
+            device_id: deviceId,
+            command_type: commandType,
+            payload,
+            sent_by: userId,
+            status: 'pending' as const,
+            broadcast_id: broadcast.id,
+            idempotency_key: `broadcast:${broadcast.id}`,
+          })),
+          { onConflict: 'device_id,idempotency_key', ignoreDuplicates: true }
+        )
+        .select();
+
+      if (commandsError) throw commandsError;
+      if (!duplicate) return { broadcast, commands: inserted || [], duplicate };
+
+      const { data: commands, error: loadError } = await supabase
+        .from('commands')
+        .select('*')
+        .eq('broadcast_id', broadcast.id);
+
+      if (loadError) throw loadError;
+      return { broadcast, commands: commands || [], duplicate };
+    },
+
+    get: async (commandId) => {
+      const { data, error } = await supabase.from('commands').select('*').eq('id', commandId).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    listRecent: async (deviceIds, limit) => {
+      if (deviceIds.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('commands')
+        .select('*')
+        .in('device_id', deviceIds)
+        .order('sent_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    listHistory: async ({ deviceIds, status, commandType, sentBy, from, to, before, limit }) => {
+      let query = supabase
+        .from('commands')
+        .select('*')
+        .in('device_id', deviceIds)
+        .order('sent_at', { ascending: false })
+        .order('id', { ascending: false });
+
+      if (status) query = query.eq('status', status);
+      if (commandType) query = query.eq('command_type', commandType);
+      if (sentBy) query = query.eq('sent_by', sentBy);
+      if (from) query = query.gte('sent_at', from);
+      if (to) query = query.lt('sent_at', to);
+      if (before) {
+        query = query.or(`sent_at.lt."${before.sent_at}",and(sent_at.eq."${before.sent_at}",id.lt.${before.id})`);
+      }
+
+      const { data, error } = await query.limit(limit);
+      if (error) throw error;
+      return data || [];
+    },
+
+    listForBroadcast: async (broadcastId) => {
+      const { data, error } = await supabase.from('commands').select('*').eq('broadcast_id', broadcastId);
+      if (error) throw error;
+      return data || [];
+    },
+
+    subscribe: ({ commandId, broadcastId, onCommand, onSubscribed }) => {
+      channelSequence += 1;
+      const filter = commandId ? `id=eq.${commandId}` : broadcastId ? `broadcast_id=eq.${broadcastId}` : undefined;
+      const channel = supabase
+        .channel(`commands_changes_${channelSequence}`)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'commands', filter }, (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          onCommand(payload.new as Command);
+        })
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') onSubscribed?.();
+        });
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+  },
+
+  teams: {
+    list: async () => {
+      const { data, error } = await supabase.from('teams').select('*').order('name', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+
+    create: async (name, createdBy) => {
+      const { data, error } = await supabase.from('teams').insert({ name, created_by: createdBy }).select().single();
+      if (error) throw error;
+
+      const { error: memberError } = await supabase
+        .from('team_members')
+        .insert({ team_id: data.id, user_id: createdBy, role: 'owner' });
+      if (memberError) throw memberError;
+
+      return data;
+    },
+
+    remove: async (teamId) => {
+      const { error } = await supabase.from('teams').delete().eq('id', teamId);
+      if (error) throw error;
+    },
+
+    listCommandPermissions: async (teamId) => {
+      let query = supabase.from('team_command_permissions').select('*');
+      if (teamId) query = query.eq('team_id', teamId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+
+    setCommandPermission: async (teamId, commandType, minRole, updatedBy) => {
+      const { error } = minRole
+        ? await supabase.from('team_command_permissions').upsert({
+            team_id: teamId,
+            command_type: commandType,
+            min_role: minRole,
+            updated_by: updatedBy,
+            updated_at: new Date().toISOString(),
+          })
+        : await supabase
+            .from('team_command_permissions')
+            .delete()
+            .eq('team_id', teamId)
+            .eq('command_type', commandType);
+
+      if (error) throw error;
+    },
+  },
+
+  members: {
+    getRoles: async (userId) => {
+      const [membershipsResult, ownedResult] = await Promise.all([
+        supabase.from('team_members').select('team_id, role').eq('user_id', userId),
+        supabase.from('teams').select('id').eq('created_by', userId),
+      ]);
+
+      if (membershipsResult.error) throw membershipsResult.error;
+      if (ownedResult.error) throw ownedResult.error;
+
+      const roles: Record<string, TeamRole> = {};
+      for (const membership of membershipsResult.data || []) roles[membership.team_id] = membership.role;
+      for (const team of ownedResult.data || []) roles[team.id] = 'owner';
+      return roles;
+    },
+
+    list: async (teamId) => {
+      const { data, error } = await supabase.from('team_members').select('*').eq('team_id', teamId);
+      if (error) throw error;
+      return data || [];
+    },
+
+    listUserIds: async (teamIds) => {
+      if (teamIds.length === 0) return [];
+
+      const { data, error } = await supabase.from('team_members').select('user_id').in('team_id', teamIds);
+      if (error) throw error;
+      return [...new Set((data || []).map((member) => member.user_id))];
+    },
+
+    changeRole: async (memberId, role) => {
+      const { error } = await supabase.from('team_members').update({ role }).eq('id', memberId);
+      if (error) throw error;
+    },
+
+    remove: async (memberId) => {
+      const { error } = await supabase.from('team_members').delete().eq('id', memberId);
+      if (error) throw error;
+    },
+
+    invite: async (teamId, email, role) => {
+      const { error } = await supabase.rpc('invite_team_member', {
+        target_team: teamId,
+        invitee_email: email,
+        invitee_role: role,
+      });
+      if (error) throw error;
+    },
+
+    listInvitations: async (teamId) => {
+      const { data, error } = await supabase
+        .from('team_invitations')
+        .select('*')
+        .eq('team_id', teamId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    listReceivedInvitations: async (email) => {
+      const { data, error } = await supabase
+        .from('team_invitations')
+        .select('*, team:teams(name)')
+        .eq('email', email.toLowerCase())
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    respondToInvitation: async (invitationId, accept) => {
+      const { error } = await supabase.rpc(accept ? 'accept_team_invitation' : 'decline_team_invitation', {
+        invitation: invitationId,
+      });
+      if (error) throw error;
+    },
+
+    revokeInvitation: async (invitationId) => {
+      const { error } = await supabase.rpc('revoke_team_invitation', { invitation: invitationId });
+      if (error) throw error;
+    },
+  },
+
+  rooms: {
+    list: async () => {
+      const { data, error } = await supabase
+        .from('rooms')
+        .select('*, devices:room_devices(device_id, handles), team:teams(name)')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    create: async (room, ownerId) => {
+      const { data, error } = await supabase
+        .from('rooms')
+        .insert({ ...room, owner_id: ownerId })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+
+    update: async (roomId, changes) => {
+      const { error } = await supabase.from('rooms').update(changes).eq('id', roomId);
+      if (error) throw error;
+    },
+
+    remove: async (roomId) => {
+      const { error } = await supabase.from('rooms').delete().eq('id', roomId);
+      if (error) throw error;
+    },
+
+    setDevices: async (roomId, devices) => {
+      const { error: deleteError } = await supabase.from('room_devices').delete().eq('room_id', roomId);
+      if (deleteError) throw deleteError;
+      if (devices.length === 0) return;
+
+      const { error } = await supabase
+        .from('room_devices')
+        .insert(devices.map(({ device_id, handles }) => ({ room_id: roomId, device_id, handles })));
+      if (error) throw error;
+    },
+  },
+
+  groups: {
+    list: async () => {
+      const { data, error } = await supabase
+        .from('device_groups')
+        .select('*, members:device_group_members(device_id), team:teams(name)')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    create: async (group, ownerId) => {
+      const { data, error } = await supabase
+        .from('device_groups')
+        .insert({ ...group, owner_id: ownerId })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+
+    update: async (groupId, changes) => {
+      const { error } = await supabase.from('device_groups').update(changes).eq('id', groupId);
+      if (error) throw error;
+    },
+
+    remove: async (groupId) => {
+      const { error } = await supabase.from('device_groups').delete().eq('id', groupId);
+      if (error) throw error;
+    },
+
+    setDevices: async (groupId, deviceIds) => {
+      const { error: deleteError } = await supabase.from('device_group_members').delete().eq('group_id', groupId);
+      if (deleteError) throw deleteError;
+      if (deviceIds.length === 0) return;
+
+      const { error } = await supabase
+        .from('device_group_members')
+        .insert(deviceIds.map((deviceId) => ({ group_id: groupId, device_id: deviceId })));
+      if (error) throw error;
+    },
+  },
+
+  macros: {
+    list: async () => {
+      const { data, error } = await supabase
+        .from('macros')
+        .select('*, steps:macro_steps(*), team:teams(name)')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((macro) => ({ ...macro, steps: [...macro.steps].sort((a, b) => a.position - b.position) }));
+    },
+
+    create: async (macro, createdBy) => {
+      const { data, error } = await supabase
+        .from('macros')
+        .insert({ ...macro, created_by: createdBy })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+
+    update: async (macroId, changes) => {
+      const { error } = await supabase
+        .from('macros')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', macroId);
+      if (error) throw error;
+    },
+
+    remove: async (macroId) => {
+      const { error } = await supabase.from('macros').delete().eq('id', macroId);
+      if (error) throw error;
+    },
+
+    setSteps: async (macroId, steps) => {
+      const { error: deleteError } = await supabase.from('macro_steps').delete().eq('macro_id', macroId);
+      if (deleteError) throw deleteError;
+      if (steps.length === 0) return;
+
+      const { error } = await supabase
+        .from('macro_steps')
+        .insert(steps.map((step, position) => ({ ...step, macro_id: macroId, position })));
+      if (error) throw error;
+    },
+
+    startRun: async (macroId, startedBy) => {
+      const { data, error } = await supabase
+        .from('macro_runs')
+        .insert({ macro_id: macroId, started_by: startedBy })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+
+    updateRun: async (runId, changes) => {
+      const { error } = await supabase.from('macro_runs').update(changes).eq('id', runId);
+      if (error) throw error;
+    },
+  },
+
+  schedules: {
+    list: async (deviceId) => {
+      const { data, error } = await supabase
+        .from('command_schedules')
+        .select('*')
+        .eq('device_id', deviceId)
+        .in('status', ['active', 'paused'])
+        .order('next_run_at', { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    listRuns: async (deviceId, limit) => {
+      const { data, error } = await supabase
+        .from('schedule_runs')
+        .select('*, schedule:command_schedules!inner(command_type, device_id)')
+        .eq('schedule.device_id', deviceId)
+        .order('scheduled_for', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    create: async (deviceId, schedule, createdBy) => {
+      const { error } = await supabase
+        .from('command_schedules')
+        .insert({ ...schedule, device_id: deviceId, created_by: createdBy });
+      if (error) throw error;
+    },
+
+    update: async (scheduleId, changes) => {
+      const { error } = await supabase.from('command_schedules').update(changes).eq('id', scheduleId);
+      if (error) throw error;
+    },
+
+    setStatus: async (scheduleId, status) => {
+      const { error } = await supabase.from('command_schedules').update({ status }).eq('id', scheduleId);
+      if (error) throw error;
+    },
+
+    subscribe: (deviceId, onChange) => {
+      channelSequence += 1;
+      const channel = supabase
+        .channel(`command_schedules_${channelSequence}`)
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'command_schedules', filter: `device_id=eq.${deviceId}` },
+          () => onChange()
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+  },
+
+  credentials: {
+    list: async (deviceId) => {
+      const { data, error } = await supabase
+        .from('device_credentials')
+        .select('*')
+        .eq('device_id', deviceId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    create: async (deviceId, label) => {
+      const { data, error } = await supabase.rpc('create_device_credential', {
+        target_device: deviceId,
+        credential_label: label,
+      });
+      if (error) throw error;
+      return data;
+    },
+
+    rotate: async (credentialId) => {
+      const { data, error } = await supabase.rpc('rotate_device_credential', { credential: credentialId });
+      if (error) throw error;
+      return data;
+    },
+
+    revoke: async (credentialId) => {
+      const { error } = await supabase.rpc('revoke_device_credential', { credential: credentialId });
+      if (error) throw error;
+    },
+  },
+
+  liveLayouts: {
+    get: async (userId) => {
+      const { data, error } = await supabase.from('live_layouts').select('*').eq('user_id', userId).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    save: async (userId, layout) => {
+      const { data, error } = await supabase
+        .from('live_layouts')
+        .upsert({ ...layout, user_id: userId, updated_at: new Date().toISOString() })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+  },
+
+  analytics: {
+    getCommandStats: async ({ deviceIds, from, to, timeZone }) => {
+      const { data, error } = await supabase.rpc('command_analytics', {
+        target_devices: deviceIds,
+        range_start: from,
+        range_end: to,
+        tz: timeZone,
+      });
+      if (error) throw error;
+      return data || [];
+    },
+
+    getUptime: async ({ deviceIds, from, to }) => {
+      const { data, error } = await supabase.rpc('device_uptime', {
+        target_devices: deviceIds,
+        range_start: from,
+        range_end: to,
+      });
+      if (error) throw error;
+      return data || [];
+    },
+  },
+});
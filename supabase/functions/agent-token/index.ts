@@ -0,0 +1,65 @@
+/**
+ * Exchanges a device credential for a short-lived JWT.
+ *
+ * The JWT carries `device_id` and `credential_id` claims that the RLS policies
+ * check through `current_agent_device_id()`. Revoking the credential cuts the
+ * agent off immediately, even before the JWT expires.
+ *
+ * Secrets: AGENT_JWT_SECRET must be set to the project's JWT secret.
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { SignJWT } from 'npm:jose@5';
+
+const TOKEN_TTL_SECONDS = 60 * 60;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const sha256Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const { token } = await req.json().catch(() => ({ token: null }));
+  if (typeof token !== 'string' || !token) return json({ error: 'Missing token' }, 400);
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: credential, error } = await supabase
+    .from('device_credentials')
+    .select('id, device_id')
+    .eq('token_hash', await sha256Hex(token))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error looking up credential:', error);
+    return json({ error: 'Credential lookup failed' }, 500);
+  }
+  if (!credential) return json({ error: 'Invalid or revoked token' }, 401);
+
+  await supabase.from('device_credentials').update({ last_used_at: new Date().toISOString() }).eq('id', credential.id);
+
+  const expiresAt = Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS;
+  const accessToken = await new SignJWT({
+    role: 'authenticated',
+    device_id: credential.device_id,
+    credential_id: credential.id,
+  })
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setSubject(credential.device_id)
+    .setAudience('authenticated')
+    .setIssuedAt()
+    .setExpirationTime(expiresAt)
+    .sign(new TextEncoder().encode(Deno.env.get('AGENT_JWT_SECRET')!));
+
+  return json({ access_token: accessToken, expires_at: expiresAt, device_id: credential.device_id });
+});
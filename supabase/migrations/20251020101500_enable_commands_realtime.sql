@@ -0,0 +1,34 @@
+/*
+  # Realtime delivery of commands
+
+  ## Overview
+  Desktop agents subscribe to new `commands` rows for their device over a Supabase
+  Realtime channel instead of waiting for the next 5-second poll.
+
+  ## Changes
+  - Adds `commands` to the `supabase_realtime` publication so INSERT/UPDATE events are
+    broadcast to subscribed clients (RLS still applies to what each client receives)
+  - Adds a composite index used by the agents' catch-up query
+    (`device_id = ? AND status = 'pending' ORDER BY sent_at`)
+
+  ## Important Notes
+  1. Polling remains as a catch-up fallback after the agent (re)subscribes
+  2. Agents claim a command with a conditional `pending → delivered` update, so a command
+     seen both over Realtime and by a catch-up poll still executes exactly once
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'commands'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE commands;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_commands_device_pending
+  ON commands(device_id, sent_at)
+  WHERE status = 'pending';
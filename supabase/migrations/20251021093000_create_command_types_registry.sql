@@ -0,0 +1,106 @@
+/*
+  # Command Type Registry
+
+  ## Overview
+  Replaces the hard-coded `unmute_zoom` / `next_track` CHECK constraint with a data-driven
+  registry. Adding a command is now a single INSERT into `command_types`; the dashboard
+  renders its buttons and payload forms from this table.
+
+  ## New Tables
+
+  ### `command_types`
+  - `id` (text, primary key) - Command identifier stored in `commands.command_type`
+  - `label` (text) - Button label shown in the dashboard
+  - `description` (text, nullable) - Longer help text
+  - `icon` (text) - lucide-react icon name
+  - `payload_schema` (jsonb) - JSON Schema the command payload must satisfy
+  - `requires_confirmation` (boolean) - Whether the dashboard asks before sending
+  - `sort_order` (integer) - Button order on device cards
+  - `created_at` (timestamptz) - When the command type was registered
+
+  ## Changes
+  - `commands.command_type` now references `command_types(id)` instead of a CHECK list
+  - A trigger validates `commands.payload` against the command type's `payload_schema`
+    (via `pg_jsonschema`) on insert and whenever the payload changes
+
+  ## Security
+  - RLS enabled; authenticated users can read the registry
+  - There are no write policies: command types are managed by migrations / the SQL editor
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_jsonschema WITH SCHEMA extensions;
+
+-- Create command_types table
+CREATE TABLE IF NOT EXISTS command_types (
+  id text PRIMARY KEY CHECK (id ~ '^[a-z][a-z0-9_]*$'),
+  label text NOT NULL,
+  description text,
+  icon text NOT NULL DEFAULT 'Zap',
+  payload_schema jsonb NOT NULL DEFAULT '{"type": "object"}'::jsonb,
+  requires_confirmation boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Seed the existing commands
+INSERT INTO command_types (id, label, description, icon, payload_schema, sort_order)
+VALUES
+  (
+    'unmute_zoom',
+    'Unmute Zoom Audio',
+    'Unmute the host in the room''s Zoom meeting',
+    'Mic',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    10
+  ),
+  (
+    'next_track',
+    'Next AIMP Track',
+    'Skip to the next track in AIMP',
+    'Music',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    20
+  )
+ON CONFLICT (id) DO NOTHING;
+
+-- Replace the CHECK constraint with a reference to the registry
+ALTER TABLE commands DROP CONSTRAINT IF EXISTS commands_command_type_check;
+ALTER TABLE commands
+  ADD CONSTRAINT commands_command_type_fkey
+  FOREIGN KEY (command_type) REFERENCES command_types(id) ON UPDATE CASCADE;
+
+-- Validate payloads against the registry schema
+CREATE OR REPLACE FUNCTION validate_command_payload()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  schema jsonb;
+BEGIN
+  SELECT payload_schema INTO schema
+  FROM command_types
+  WHERE id = NEW.command_type;
+
+  IF NOT extensions.jsonb_matches_schema(schema::json, COALESCE(NEW.payload, '{}'::jsonb)) THEN
+    RAISE EXCEPTION 'Payload does not match the schema for command type %', NEW.command_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_command_payload ON commands;
+CREATE TRIGGER validate_command_payload
+  BEFORE INSERT OR UPDATE OF payload, command_type ON commands
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_command_payload();
+
+-- Enable Row Level Security
+ALTER TABLE command_types ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for command_types table
+CREATE POLICY "Authenticated users can view command types"
+  ON command_types FOR SELECT
+  TO authenticated
+  USING (true);
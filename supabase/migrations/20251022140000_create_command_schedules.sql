@@ -0,0 +1,398 @@
+/*
+  # Scheduled and Recurring Commands
+
+  ## Overview
+  Lets users queue a command for a future time ("next_track at 21:00") or on a cron-style
+  recurrence ("unmute Prime every Friday at 20:00"). Schedules are fired by `pg_cron`
+  inside the database, so they run whether or not a dashboard tab is open.
+
+  ## New Tables
+
+  ### `command_schedules`
+  - `id` (uuid, primary key) - Unique schedule identifier
+  - `device_id` (uuid) - Target device
+  - `command_type` (text) - Command to send (references `command_types`)
+  - `payload` (jsonb) - Command parameters, validated against the command type schema
+  - `run_at` (timestamptz) - Execute time for one-off schedules; start time for recurring ones
+  - `cron` (text, nullable) - Five-field cron expression (minute hour day month weekday)
+  - `timezone` (text) - IANA time zone the cron expression is evaluated in
+  - `next_run_at` (timestamptz, nullable) - Next time the schedule fires (maintained by trigger)
+  - `last_run_at` (timestamptz, nullable) - Last time the scheduler processed this schedule
+  - `status` (text) - active, paused, completed, cancelled
+  - `created_by` (uuid) - User who created the schedule (commands are sent as this user)
+  - `created_at` / `updated_at` (timestamptz)
+
+  ### `schedule_runs`
+  One row per occurrence the scheduler handled.
+  - `id` (uuid, primary key)
+  - `schedule_id` (uuid) - Parent schedule
+  - `scheduled_for` (timestamptz) - Occurrence time
+  - `status` (text) - fired, missed
+  - `command_id` (uuid, nullable) - Command inserted for a fired run
+  - `created_at` (timestamptz)
+
+  ## Changes
+  - `commands.schedule_id` links commands back to the schedule that sent them
+
+  ## Scheduler
+  - `fire_due_schedules()` runs every minute via `pg_cron`
+  - Occurrences more than 5 minutes late (e.g. the database was paused) are recorded as
+    `missed` instead of being sent late
+  - One-off schedules become `completed` after their run; recurring schedules advance
+    `next_run_at` with `cron_next_run()`
+
+  ## Security
+  - Users can view and create schedules for devices they own or share through a team
+  - Creators and device owners can edit, pause and cancel schedules
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Create command_schedules table
+CREATE TABLE IF NOT EXISTS command_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id uuid REFERENCES devices(id) ON DELETE CASCADE NOT NULL,
+  command_type text REFERENCES command_types(id) ON UPDATE CASCADE NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  run_at timestamptz NOT NULL,
+  cron text,
+  timezone text NOT NULL DEFAULT 'UTC',
+  next_run_at timestamptz,
+  last_run_at timestamptz,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'cancelled')),
+  created_by uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create schedule_runs table
+CREATE TABLE IF NOT EXISTS schedule_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id uuid REFERENCES command_schedules(id) ON DELETE CASCADE NOT NULL,
+  scheduled_for timestamptz NOT NULL,
+  status text NOT NULL CHECK (status IN ('fired', 'missed')),
+  command_id uuid REFERENCES commands(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE commands
+  ADD COLUMN IF NOT EXISTS schedule_id uuid REFERENCES command_schedules(id) ON DELETE SET NULL;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_command_schedules_device_id ON command_schedules(device_id);
+CREATE INDEX IF NOT EXISTS idx_command_schedules_due ON command_schedules(next_run_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule_id ON schedule_runs(schedule_id, scheduled_for DESC);
+
+-- Cron helpers
+
+-- Does one cron field (e.g. "*/15", "1-5", "0,30") match a value?
+-- `min_value` is where "*" starts counting steps (1 for day and month).
+CREATE OR REPLACE FUNCTION cron_field_matches(field text, value integer, min_value integer DEFAULT 0)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  part text;
+  range_part text;
+  step integer;
+  range_start integer;
+  range_end integer;
+BEGIN
+  FOREACH part IN ARRAY string_to_array(field, ',') LOOP
+    step := 1;
+    range_part := part;
+
+    IF position('/' IN part) > 0 THEN
+      range_part := split_part(part, '/', 1);
+      step := split_part(part, '/', 2)::integer;
+    END IF;
+
+    IF range_part = '*' THEN
+      range_start := min_value;
+      range_end := 59;
+    ELSIF position('-' IN range_part) > 0 THEN
+      range_start := split_part(range_part, '-', 1)::integer;
+      range_end := split_part(range_part, '-', 2)::integer;
+    ELSE
+      range_start := range_part::integer;
+      range_end := CASE WHEN position('/' IN part) > 0 THEN 59 ELSE range_start END;
+    END IF;
+
+    IF value BETWEEN range_start AND range_end AND (value - range_start) % step = 0 THEN
+      RETURN true;
+    END IF;
+  END LOOP;
+
+  RETURN false;
+END;
+$$;
+
+-- First time strictly after `after` that matches a five-field cron expression in `tz`.
+-- Days are skipped whole when they don't match, so a search spans at most ~1 year.
+CREATE OR REPLACE FUNCTION cron_next_run(expr text, after timestamptz, tz text DEFAULT 'UTC')
+RETURNS timestamptz
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  fields text[] := regexp_split_to_array(trim(expr), '\s+');
+  start_local timestamp := date_trunc('minute', after AT TIME ZONE tz) + interval '1 minute';
+  candidate_day date;
+  dom_matches boolean;
+  dow_matches boolean;
+  weekday integer;
+  first_hour integer;
+  first_minute integer;
+BEGIN
+  IF array_length(fields, 1) <> 5 THEN
+    RAISE EXCEPTION 'Cron expression must have 5 fields: %', expr USING ERRCODE = '22023';
+  END IF;
+
+  FOR day_offset IN 0..366 LOOP
+    candidate_day := start_local::date + day_offset;
+
+    IF NOT cron_field_matches(fields[4], extract(month FROM candidate_day)::integer, 1) THEN
+      CONTINUE;
+    END IF;
+
+    weekday := extract(dow FROM candidate_day)::integer;
+    dom_matches := cron_field_matches(fields[3], extract(day FROM candidate_day)::integer, 1);
+    -- Sunday may be written as 0 or 7
+    dow_matches := cron_field_matches(fields[5], weekday)
+      OR (weekday = 0 AND cron_field_matches(fields[5], 7));
+
+    -- Standard cron semantics: when both day-of-month and day-of-week are
+    -- restricted, either one matching is enough.
+    IF fields[3] <> '*' AND fields[5] <> '*' THEN
+      IF NOT (dom_matches OR dow_matches) THEN
+        CONTINUE;
+      END IF;
+    ELSIF NOT (dom_matches AND dow_matches) THEN
+      CONTINUE;
+    END IF;
+
+    first_hour := CASE WHEN day_offset = 0 THEN extract(hour FROM start_local)::integer ELSE 0 END;
+
+    FOR h IN first_hour..23 LOOP
+      IF NOT cron_field_matches(fields[2], h) THEN
+        CONTINUE;
+      END IF;
+
+      first_minute := CASE
+        WHEN day_offset = 0 AND h = first_hour THEN extract(minute FROM start_local)::integer
+        ELSE 0
+      END;
+
+      FOR m IN first_minute..59 LOOP
+        IF cron_field_matches(fields[1], m) THEN
+          RETURN (candidate_day + make_time(h, m, 0)) AT TIME ZONE tz;
+        END IF;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Keep next_run_at in sync and validate the payload
+CREATE OR REPLACE FUNCTION prepare_command_schedule()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  type_schema jsonb;
+BEGIN
+  SELECT payload_schema INTO type_schema
+  FROM command_types
+  WHERE id = NEW.command_type;
+
+  IF NOT extensions.jsonb_matches_schema(type_schema::json, NEW.payload) THEN
+    RAISE EXCEPTION 'Payload does not match the schema for command type %', NEW.command_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  NEW.updated_at := now();
+
+  IF TG_OP = 'INSERT'
+    OR NEW.run_at IS DISTINCT FROM OLD.run_at
+    OR NEW.cron IS DISTINCT FROM OLD.cron
+    OR NEW.timezone IS DISTINCT FROM OLD.timezone
+    OR (NEW.status = 'active' AND OLD.status <> 'active')
+  THEN
+    IF NEW.status <> 'active' THEN
+      NEW.next_run_at := NULL;
+    ELSIF NEW.cron IS NULL THEN
+      NEW.next_run_at := NEW.run_at;
+    ELSE
+      NEW.next_run_at := cron_next_run(NEW.cron, greatest(NEW.run_at, now()) - interval '1 minute', NEW.timezone);
+    END IF;
+  END IF;
+
+  IF NEW.status IN ('paused', 'completed', 'cancelled') THEN
+    NEW.next_run_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_command_schedule ON command_schedules;
+CREATE TRIGGER prepare_command_schedule
+  BEFORE INSERT OR UPDATE ON command_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_command_schedule();
+
+-- Fire every due schedule. Called by pg_cron once a minute.
+CREATE OR REPLACE FUNCTION fire_due_schedules()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule command_schedules%ROWTYPE;
+  occurrence timestamptz;
+  new_command_id uuid;
+  fired integer := 0;
+  grace interval := interval '5 minutes';
+BEGIN
+  FOR schedule IN
+    SELECT * FROM command_schedules
+    WHERE status = 'active'
+    AND next_run_at <= now()
+    ORDER BY next_run_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    occurrence := schedule.next_run_at;
+
+    -- Record every occurrence that is too late to send as missed
+    WHILE occurrence IS NOT NULL AND occurrence < now() - grace LOOP
+      INSERT INTO schedule_runs (schedule_id, scheduled_for, status)
+      VALUES (schedule.id, occurrence, 'missed');
+
+      occurrence := CASE
+        WHEN schedule.cron IS NULL THEN NULL
+        ELSE cron_next_run(schedule.cron, occurrence, schedule.timezone)
+      END;
+    END LOOP;
+
+    IF occurrence IS NOT NULL AND occurrence <= now() THEN
+      INSERT INTO commands (device_id, command_type, payload, sent_by, schedule_id)
+      VALUES (schedule.device_id, schedule.command_type, schedule.payload, schedule.created_by, schedule.id)
+      RETURNING id INTO new_command_id;
+
+      INSERT INTO schedule_runs (schedule_id, scheduled_for, status, command_id)
+      VALUES (schedule.id, occurrence, 'fired', new_command_id);
+
+      fired := fired + 1;
+    END IF;
+
+    IF schedule.cron IS NULL THEN
+      UPDATE command_schedules
+      SET status = 'completed', last_run_at = now()
+      WHERE id = schedule.id;
+    ELSE
+      UPDATE command_schedules
+      SET next_run_at = cron_next_run(schedule.cron, greatest(occurrence, now()), schedule.timezone),
+        last_run_at = now()
+      WHERE id = schedule.id;
+    END IF;
+  END LOOP;
+
+  RETURN fired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION fire_due_schedules() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('fire-command-schedules', '* * * * *', $$SELECT public.fire_due_schedules()$$);
+
+-- Enable Row Level Security
+ALTER TABLE command_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_runs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for command_schedules table
+CREATE POLICY "Users can view schedules for accessible devices"
+  ON command_schedules FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM devices
+      WHERE devices.id = command_schedules.device_id
+      AND (
+        devices.owner_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM team_members
+          WHERE team_members.team_id = devices.team_id
+          AND team_members.user_id = auth.uid()
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can create schedules for accessible devices"
+  ON command_schedules FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM devices
+      WHERE devices.id = command_schedules.device_id
+      AND (
+        devices.owner_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM team_members
+          WHERE team_members.team_id = devices.team_id
+          AND team_members.user_id = auth.uid()
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Creators and device owners can update schedules"
+  ON command_schedules FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM devices
+      WHERE devices.id = command_schedules.device_id
+      AND devices.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    created_by = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM devices
+      WHERE devices.id = command_schedules.device_id
+      AND devices.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Creators and device owners can delete schedules"
+  ON command_schedules FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM devices
+      WHERE devices.id = command_schedules.device_id
+      AND devices.owner_id = auth.uid()
+    )
+  );
+
+-- RLS Policies for schedule_runs table
+CREATE POLICY "Users can view runs of visible schedules"
+  ON schedule_runs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM command_schedules
+      WHERE command_schedules.id = schedule_runs.schedule_id
+    )
+  );
+
+-- Realtime updates for the schedules list
+ALTER PUBLICATION supabase_realtime ADD TABLE command_schedules;
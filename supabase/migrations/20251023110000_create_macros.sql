@@ -0,0 +1,234 @@
+/*
+  # Multi-step Command Macros
+
+  ## Overview
+  Saved sequences of commands across devices, e.g. the show opening:
+  unmute Prime → wait 3s → next_track on VIP → unmute VIP.
+  A macro run is tracked as one unit and every command it sends links back to the run.
+
+  ## New Tables
+
+  ### `macros`
+  - `id` (uuid, primary key) - Unique macro identifier
+  - `name` (text) - Macro name
+  - `description` (text, nullable) - What the macro is for
+  - `team_id` (uuid, nullable) - Team the macro is shared with
+  - `created_by` (uuid) - User who created the macro
+  - `created_at` / `updated_at` (timestamptz)
+
+  ### `macro_steps`
+  - `id` (uuid, primary key)
+  - `macro_id` (uuid) - Parent macro
+  - `position` (integer) - Step order
+  - `device_id` (uuid) - Target device
+  - `command_type` (text) - Command to send (references `command_types`)
+  - `payload` (jsonb) - Command parameters
+  - `delay_ms` (integer) - Wait before sending this step
+  - `stop_on_failure` (boolean) - Abort the run when this step fails
+
+  ### `macro_runs`
+  - `id` (uuid, primary key)
+  - `macro_id` (uuid) - Macro being run
+  - `started_by` (uuid) - User who started the run
+  - `status` (text) - running, completed, failed, cancelled
+  - `current_step` (integer) - Position of the step in progress
+  - `error` (text, nullable) - Why the run stopped
+  - `started_at` / `finished_at` (timestamptz)
+
+  ## Changes
+  - `commands.macro_run_id` / `commands.macro_step_id` link each command to its run and step
+
+  ## Security
+  - Macros are visible to their creator and, when shared, to members of the team
+  - Creators and team admins can edit and delete macros
+  - Anyone who can see a macro can run it; the commands themselves are still subject to
+    the `commands` insert policies
+*/
+
+-- Create macros table
+CREATE TABLE IF NOT EXISTS macros (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  team_id uuid REFERENCES teams(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create macro_steps table
+CREATE TABLE IF NOT EXISTS macro_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  macro_id uuid REFERENCES macros(id) ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL,
+  device_id uuid REFERENCES devices(id) ON DELETE CASCADE NOT NULL,
+  command_type text REFERENCES command_types(id) ON UPDATE CASCADE NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  delay_ms integer NOT NULL DEFAULT 0 CHECK (delay_ms >= 0 AND delay_ms <= 3600000),
+  stop_on_failure boolean NOT NULL DEFAULT true,
+  UNIQUE(macro_id, position)
+);
+
+-- Create macro_runs table
+CREATE TABLE IF NOT EXISTS macro_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  macro_id uuid REFERENCES macros(id) ON DELETE CASCADE NOT NULL,
+  started_by uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+  current_step integer,
+  error text,
+  started_at timestamptz DEFAULT now() NOT NULL,
+  finished_at timestamptz
+);
+
+ALTER TABLE commands
+  ADD COLUMN IF NOT EXISTS macro_run_id uuid REFERENCES macro_runs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS macro_step_id uuid REFERENCES macro_steps(id) ON DELETE SET NULL;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_macros_team_id ON macros(team_id);
+CREATE INDEX IF NOT EXISTS idx_macro_steps_macro_id ON macro_steps(macro_id, position);
+CREATE INDEX IF NOT EXISTS idx_macro_runs_macro_id ON macro_runs(macro_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_commands_macro_run_id ON commands(macro_run_id);
+
+-- Enable Row Level Security
+ALTER TABLE macros ENABLE ROW LEVEL SECURITY;
+ALTER TABLE macro_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE macro_runs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for macros table
+CREATE POLICY "Users can view their own and team macros"
+  ON macros FOR SELECT
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    (
+      team_id IS NOT NULL AND
+      EXISTS (
+        SELECT 1 FROM team_members
+        WHERE team_members.team_id = macros.team_id
+        AND team_members.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can create macros"
+  ON macros FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid() AND
+    (
+      team_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM team_members
+        WHERE team_members.team_id = macros.team_id
+        AND team_members.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Creators and team admins can update macros"
+  ON macros FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = macros.team_id
+      AND teams.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    team_id IS NULL OR
+    EXISTS (
+      SELECT 1 FROM team_members
+      WHERE team_members.team_id = macros.team_id
+      AND team_members.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Creators and team admins can delete macros"
+  ON macros FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = macros.team_id
+      AND teams.created_by = auth.uid()
+    )
+  );
+
+-- RLS Policies for macro_steps table
+CREATE POLICY "Users can view steps of visible macros"
+  ON macro_steps FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM macros
+      WHERE macros.id = macro_steps.macro_id
+    )
+  );
+
+CREATE POLICY "Macro editors can manage steps"
+  ON macro_steps FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM macros
+      WHERE macros.id = macro_steps.macro_id
+      AND (
+        macros.created_by = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM teams
+          WHERE teams.id = macros.team_id
+          AND teams.created_by = auth.uid()
+        )
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM macros
+      WHERE macros.id = macro_steps.macro_id
+      AND (
+        macros.created_by = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM teams
+          WHERE teams.id = macros.team_id
+          AND teams.created_by = auth.uid()
+        )
+      )
+    )
+  );
+
+-- RLS Policies for macro_runs table
+CREATE POLICY "Users can view runs of visible macros"
+  ON macro_runs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM macros
+      WHERE macros.id = macro_runs.macro_id
+    )
+  );
+
+CREATE POLICY "Users can start runs of visible macros"
+  ON macro_runs FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    started_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM macros
+      WHERE macros.id = macro_runs.macro_id
+    )
+  );
+
+CREATE POLICY "Users can update their own macro runs"
+  ON macro_runs FOR UPDATE
+  TO authenticated
+  USING (started_by = auth.uid())
+  WITH CHECK (started_by = auth.uid());
+
+-- Realtime updates for run progress
+ALTER PUBLICATION supabase_realtime ADD TABLE macro_runs;
@@ -0,0 +1,197 @@
+/*
+  # Device Groups and Command Broadcasts
+
+  ## Overview
+  Sends one command to several devices at once, e.g. unmute both Prime and VIP.
+  Targets are either a saved device group or an ad-hoc selection on the dashboard.
+
+  ## New Tables
+
+  ### `device_groups`
+  - `id` (uuid, primary key) - Unique group identifier
+  - `name` (text) - Group name, e.g. "All rooms"
+  - `owner_id` (uuid) - User who created the group
+  - `team_id` (uuid, nullable) - Team the group is shared with
+  - `created_at` (timestamptz)
+
+  ### `device_group_members`
+  - `group_id` (uuid) - Group
+  - `device_id` (uuid) - Device in the group
+
+  ### `command_broadcasts`
+  - `id` (uuid, primary key) - Unique broadcast identifier
+  - `command_type` (text) - Command sent to every target
+  - `payload` (jsonb) - Command parameters
+  - `group_id` (uuid, nullable) - Group the targets came from, if any
+  - `sent_by` (uuid) - User who sent the broadcast
+  - `created_at` (timestamptz)
+
+  ## Changes
+  - `commands.broadcast_id` links each fanned-out command to its broadcast
+
+  ## Security
+  - Groups are visible to their owner and, when shared, to members of the team
+  - Owners and team admins can edit and delete groups
+  - Broadcasts are visible to the user who sent them; the commands themselves are
+    still subject to the `commands` insert policies
+*/
+
+-- Create device_groups table
+CREATE TABLE IF NOT EXISTS device_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  team_id uuid REFERENCES teams(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Create device_group_members table
+CREATE TABLE IF NOT EXISTS device_group_members (
+  group_id uuid REFERENCES device_groups(id) ON DELETE CASCADE NOT NULL,
+  device_id uuid REFERENCES devices(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (group_id, device_id)
+);
+
+-- Create command_broadcasts table
+CREATE TABLE IF NOT EXISTS command_broadcasts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  command_type text REFERENCES command_types(id) ON UPDATE CASCADE NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  group_id uuid REFERENCES device_groups(id) ON DELETE SET NULL,
+  sent_by uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE commands
+  ADD COLUMN IF NOT EXISTS broadcast_id uuid REFERENCES command_broadcasts(id) ON DELETE SET NULL;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_device_groups_team_id ON device_groups(team_id);
+CREATE INDEX IF NOT EXISTS idx_device_group_members_device_id ON device_group_members(device_id);
+CREATE INDEX IF NOT EXISTS idx_commands_broadcast_id ON commands(broadcast_id);
+
+-- Enable Row Level Security
+ALTER TABLE device_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE device_group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE command_broadcasts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for device_groups table
+CREATE POLICY "Users can view their own and team device groups"
+  ON device_groups FOR SELECT
+  TO authenticated
+  USING (
+    owner_id = auth.uid() OR
+    (
+      team_id IS NOT NULL AND
+      EXISTS (
+        SELECT 1 FROM team_members
+        WHERE team_members.team_id = device_groups.team_id
+        AND team_members.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can create device groups"
+  ON device_groups FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    owner_id = auth.uid() AND
+    (
+      team_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM team_members
+        WHERE team_members.team_id = device_groups.team_id
+        AND team_members.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Owners and team admins can update device groups"
+  ON device_groups FOR UPDATE
+  TO authenticated
+  USING (
+    owner_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = device_groups.team_id
+      AND teams.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    team_id IS NULL OR
+    EXISTS (
+      SELECT 1 FROM team_members
+      WHERE team_members.team_id = device_groups.team_id
+      AND team_members.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners and team admins can delete device groups"
+  ON device_groups FOR DELETE
+  TO authenticated
+  USING (
+    owner_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = device_groups.team_id
+      AND teams.created_by = auth.uid()
+    )
+  );
+
+-- RLS Policies for device_group_members table
+CREATE POLICY "Users can view members of visible device groups"
+  ON device_group_members FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM device_groups
+      WHERE device_groups.id = device_group_members.group_id
+    )
+  );
+
+CREATE POLICY "Group editors can manage members"
+  ON device_group_members FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM device_groups
+      WHERE device_groups.id = device_group_members.group_id
+      AND (
+        device_groups.owner_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM teams
+          WHERE teams.id = device_groups.team_id
+          AND teams.created_by = auth.uid()
+        )
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM device_groups
+      WHERE device_groups.id = device_group_members.group_id
+      AND (
+        device_groups.owner_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM teams
+          WHERE teams.id = device_groups.team_id
+          AND teams.created_by = auth.uid()
+        )
+      )
+    ) AND
+    EXISTS (
+      SELECT 1 FROM devices
+      WHERE devices.id = device_group_members.device_id
+    )
+  );
+
+-- RLS Policies for command_broadcasts table
+CREATE POLICY "Users can view their own broadcasts"
+  ON command_broadcasts FOR SELECT
+  TO authenticated
+  USING (sent_by = auth.uid());
+
+CREATE POLICY "Users can create broadcasts"
+  ON command_broadcasts FOR INSERT
+  TO authenticated
+  WITH CHECK (sent_by = auth.uid());
@@ -0,0 +1,134 @@
+/*
+  # Server-side Device Presence
+
+  ## Overview
+  The backend now owns `devices.status`. Agents report in through `device_heartbeat`,
+  which stamps `last_seen` with the database clock, and a pg_cron job flips devices
+  whose heartbeat has gone stale to offline. A crashed agent no longer stays "online".
+
+  ## Changes
+
+  ### `devices`
+  - `offline_after_seconds` (integer, default 60) - How long after the last heartbeat
+    the device is considered offline
+  - `status` and `last_seen` can only be changed by the presence functions; direct
+    updates to those columns are ignored
+  - Added to the realtime publication so dashboards see presence changes live
+
+  ## New Functions
+  - `device_heartbeat(target_device, new_status)` - Heartbeat contract for agents:
+    `online` on every beat, `offline` on a clean shutdown. Returns the recorded `last_seen`.
+  - `mark_stale_devices_offline()` - Marks online devices offline once `last_seen` is older
+    than their threshold. Run by pg_cron every 15 seconds.
+
+  ## Security
+  - `device_heartbeat` requires the caller to be the device owner or a member of its team
+  - `mark_stale_devices_offline` is not callable by clients
+
+  ## Important Notes
+  - Agents should beat at least twice per threshold (the agent defaults to every 15s
+    against the 60s default)
+*/
+
+ALTER TABLE devices
+  ADD COLUMN IF NOT EXISTS offline_after_seconds integer NOT NULL DEFAULT 60
+    CHECK (offline_after_seconds >= 30 AND offline_after_seconds <= 86400);
+
+CREATE INDEX IF NOT EXISTS idx_devices_online_last_seen ON devices(last_seen) WHERE status = 'online';
+
+-- Keep status/last_seen under the control of the presence functions below
+CREATE OR REPLACE FUNCTION protect_device_presence()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.presence_write', true) IS DISTINCT FROM 'on' THEN
+    NEW.status := OLD.status;
+    NEW.last_seen := OLD.last_seen;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_device_presence ON devices;
+CREATE TRIGGER protect_device_presence
+  BEFORE UPDATE ON devices
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_device_presence();
+
+-- Heartbeat contract for agents
+CREATE OR REPLACE FUNCTION device_heartbeat(target_device uuid, new_status text DEFAULT 'online')
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  seen_at timestamptz := now();
+BEGIN
+  IF new_status NOT IN ('online', 'offline') THEN
+    RAISE EXCEPTION 'Invalid heartbeat status: %', new_status;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM devices
+    WHERE devices.id = target_device
+    AND (
+      devices.owner_id = auth.uid() OR
+      EXISTS (
+        SELECT 1 FROM team_members
+        WHERE team_members.team_id = devices.team_id
+        AND team_members.user_id = auth.uid()
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Device % not found', target_device;
+  END IF;
+
+  PERFORM set_config('app.presence_write', 'on', true);
+
+  UPDATE devices
+  SET status = new_status, last_seen = seen_at
+  WHERE id = target_device;
+
+  PERFORM set_config('app.presence_write', 'off', true);
+
+  RETURN seen_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION device_heartbeat(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION device_heartbeat(uuid, text) TO authenticated;
+
+-- Flip devices with a stale heartbeat to offline. Called by pg_cron.
+CREATE OR REPLACE FUNCTION mark_stale_devices_offline()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  marked integer;
+BEGIN
+  PERFORM set_config('app.presence_write', 'on', true);
+
+  UPDATE devices
+  SET status = 'offline'
+  WHERE status = 'online'
+  AND (last_seen IS NULL OR last_seen < now() - make_interval(secs => offline_after_seconds));
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+
+  PERFORM set_config('app.presence_write', 'off', true);
+
+  RETURN marked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_stale_devices_offline() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('mark-stale-devices-offline', '15 seconds', $$SELECT public.mark_stale_devices_offline()$$);
+
+-- Realtime updates for presence
+ALTER PUBLICATION supabase_realtime ADD TABLE devices;
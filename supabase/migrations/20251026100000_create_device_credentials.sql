@@ -0,0 +1,236 @@
+/*
+  # Per-device Agent Credentials
+
+  ## Overview
+  Room PCs no longer hold the service-role key. Each agent gets a credential scoped to a
+  single device. The `agent-token` edge function exchanges it for a short-lived JWT
+  carrying `device_id` and `credential_id` claims. With that JWT an agent can only read
+  its own device's commands, update their status and send heartbeats.
+
+  ## New Tables
+
+  ### `device_credentials`
+  - `id` (uuid, primary key) - Unique credential identifier
+  - `device_id` (uuid) - Device the credential is scoped to
+  - `label` (text) - Where the credential is used, e.g. "Prime room PC"
+  - `token_hash` (text) - SHA-256 of the token; the token itself is only shown once
+  - `token_prefix` (text) - First characters of the token, to tell credentials apart
+  - `created_by` (uuid) - Owner who created the credential
+  - `created_at` (timestamptz)
+  - `last_used_at` (timestamptz, nullable) - Last token exchange
+  - `revoked_at` (timestamptz, nullable) - Set when revoked or rotated
+
+  ## New Functions
+  - `create_device_credential(target_device, credential_label)` - Returns a new token
+  - `rotate_device_credential(credential)` - Revokes a credential and returns a replacement token
+  - `revoke_device_credential(credential)` - Revokes a credential
+  - `current_agent_device_id()` - Device of the calling agent, or null for users and
+    revoked credentials
+
+  ## Security
+  - Removed the "System can update command status" policy, which let any user rewrite
+    any command
+  - Agents can view and update commands of their own device only, and may change only
+    `status` and `executed_at`
+  - `device_heartbeat` accepts agents for their own device
+  - Only device owners can see and manage credentials; revocation takes effect immediately
+*/
+
+-- Create device_credentials table
+CREATE TABLE IF NOT EXISTS device_credentials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id uuid REFERENCES devices(id) ON DELETE CASCADE NOT NULL,
+  label text NOT NULL,
+  token_hash text NOT NULL UNIQUE,
+  token_prefix text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_credentials_device_id ON device_credentials(device_id);
+
+-- Enable Row Level Security
+ALTER TABLE device_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Device owners can view credentials"
+  ON device_credentials FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM devices
+      WHERE devices.id = device_credentials.device_id
+      AND devices.owner_id = auth.uid()
+    )
+  );
+
+-- Resolve the calling agent from its JWT claims
+CREATE OR REPLACE FUNCTION current_agent_device_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT device_credentials.device_id
+  FROM device_credentials
+  WHERE device_credentials.id = nullif(auth.jwt() ->> 'credential_id', '')::uuid
+  AND device_credentials.device_id = nullif(auth.jwt() ->> 'device_id', '')::uuid
+  AND device_credentials.revoked_at IS NULL
+$$;
+
+-- Issue a token for a device. The plain token is returned once and never stored.
+CREATE OR REPLACE FUNCTION create_device_credential(target_device uuid, credential_label text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  token text := 'zda_' || encode(extensions.gen_random_bytes(32), 'hex');
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM devices
+    WHERE devices.id = target_device
+    AND devices.owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the device owner can create credentials';
+  END IF;
+
+  INSERT INTO device_credentials (device_id, label, token_hash, token_prefix, created_by)
+  VALUES (
+    target_device,
+    credential_label,
+    encode(extensions.digest(token, 'sha256'), 'hex'),
+    left(token, 12),
+    auth.uid()
+  );
+
+  RETURN token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_device_credential(credential uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE device_credentials
+  SET revoked_at = now()
+  WHERE id = credential
+  AND revoked_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM devices
+    WHERE devices.id = device_credentials.device_id
+    AND devices.owner_id = auth.uid()
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credential not found or already revoked';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rotate_device_credential(credential uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing device_credentials%ROWTYPE;
+BEGIN
+  SELECT * INTO existing FROM device_credentials WHERE id = credential;
+
+  PERFORM revoke_device_credential(credential);
+
+  RETURN create_device_credential(existing.device_id, existing.label);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_device_credential(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION revoke_device_credential(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION rotate_device_credential(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_device_credential(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_device_credential(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION rotate_device_credential(uuid) TO authenticated;
+
+-- Replace the open update policy with agent-scoped access
+DROP POLICY IF EXISTS "System can update command status" ON commands;
+
+CREATE POLICY "Agents can view their device's commands"
+  ON commands FOR SELECT
+  TO authenticated
+  USING (device_id = current_agent_device_id());
+
+CREATE POLICY "Agents can update their device's commands"
+  ON commands FOR UPDATE
+  TO authenticated
+  USING (device_id = current_agent_device_id())
+  WITH CHECK (device_id = current_agent_device_id());
+
+-- Agents may only move a command through its lifecycle
+CREATE OR REPLACE FUNCTION protect_agent_command_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_agent_device_id() IS NOT NULL
+    AND (to_jsonb(NEW) - 'status' - 'executed_at') IS DISTINCT FROM (to_jsonb(OLD) - 'status' - 'executed_at')
+  THEN
+    RAISE EXCEPTION 'Agents can only update command status';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_agent_command_update ON commands;
+CREATE TRIGGER protect_agent_command_update
+  BEFORE UPDATE ON commands
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_agent_command_update();
+
+-- Heartbeats from agents for their own device
+CREATE OR REPLACE FUNCTION device_heartbeat(target_device uuid, new_status text DEFAULT 'online')
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  seen_at timestamptz := now();
+BEGIN
+  IF new_status NOT IN ('online', 'offline') THEN
+    RAISE EXCEPTION 'Invalid heartbeat status: %', new_status;
+  END IF;
+
+  IF target_device IS DISTINCT FROM current_agent_device_id() AND NOT EXISTS (
+    SELECT 1 FROM devices
+    WHERE devices.id = target_device
+    AND (
+      devices.owner_id = auth.uid() OR
+      EXISTS (
+        SELECT 1 FROM team_members
+        WHERE team_members.team_id = devices.team_id
+        AND team_members.user_id = auth.uid()
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Device % not found', target_device;
+  END IF;
+
+  PERFORM set_config('app.presence_write', 'on', true);
+
+  UPDATE devices
+  SET status = new_status, last_seen = seen_at
+  WHERE id = target_device;
+
+  PERFORM set_config('app.presence_write', 'off', true);
+
+  RETURN seen_at;
+END;
+$$;
@@ -0,0 +1,241 @@
+/*
+  # Device Pairing with One-time Codes
+
+  ## Overview
+  "Add Device" now issues a short-lived pairing code instead of asking for an IP and port.
+  The agent on the room PC claims the code once. In exchange it gets its device ID and a
+  device credential, and it reports its own address. Nobody copies UUIDs out of the database.
+
+  ## New Tables
+
+  ### `device_pairing_codes`
+  - `id` (uuid, primary key)
+  - `device_id` (uuid) - Device being paired
+  - `code` (text, unique) - Code shown in the dashboard, e.g. `K7PM-2QXD`
+  - `created_by` (uuid) - Owner who issued the code
+  - `created_at` (timestamptz)
+  - `expires_at` (timestamptz) - Codes are valid for 10 minutes
+  - `claimed_at` (timestamptz, nullable) - Set when an agent used the code
+
+  ## Changes
+
+  ### `devices`
+  - `ip_address` / `port` are nullable and filled in by the agent
+  - `paired_at` (timestamptz, nullable) - When an agent last paired with the device
+
+  ## New Functions
+  - `create_pairing_code(target_device)` - Issues a code, replacing any unclaimed one
+  - `claim_pairing_code(pairing_code, agent_ip, agent_port)` - Used by the agent; returns
+    the device ID, device name and a new credential token
+  - `report_device_address(agent_ip, agent_port)` - Agents update their address on startup
+  - `issue_device_credential(...)` - Internal helper shared with `create_device_credential`
+
+  ## Security
+  - Only device owners can issue and view pairing codes
+  - `claim_pairing_code` is callable with the anon key; a code works once and only
+    before it expires
+*/
+
+ALTER TABLE devices
+  ALTER COLUMN ip_address DROP NOT NULL,
+  ALTER COLUMN port DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS paired_at timestamptz;
+
+-- Create device_pairing_codes table
+CREATE TABLE IF NOT EXISTS device_pairing_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id uuid REFERENCES devices(id) ON DELETE CASCADE NOT NULL,
+  code text NOT NULL UNIQUE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  expires_at timestamptz NOT NULL,
+  claimed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_pairing_codes_device_id ON device_pairing_codes(device_id);
+
+-- Enable Row Level Security
+ALTER TABLE device_pairing_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Device owners can view pairing codes"
+  ON device_pairing_codes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM devices
+      WHERE devices.id = device_pairing_codes.device_id
+      AND devices.owner_id = auth.uid()
+    )
+  );
+
+-- Token issuing without the owner check, for functions that have already authorized the caller
+CREATE OR REPLACE FUNCTION issue_device_credential(target_device uuid, credential_label text, issued_by uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  token text := 'zda_' || encode(extensions.gen_random_bytes(32), 'hex');
+BEGIN
+  INSERT INTO device_credentials (device_id, label, token_hash, token_prefix, created_by)
+  VALUES (
+    target_device,
+    credential_label,
+    encode(extensions.digest(token, 'sha256'), 'hex'),
+    left(token, 12),
+    issued_by
+  );
+
+  RETURN token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION issue_device_credential(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_device_credential(target_device uuid, credential_label text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM devices
+    WHERE devices.id = target_device
+    AND devices.owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the device owner can create credentials';
+  END IF;
+
+  RETURN issue_device_credential(target_device, credential_label, auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_pairing_code(target_device uuid)
+RETURNS device_pairing_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  alphabet text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  random_bytes bytea;
+  new_code text;
+  issued device_pairing_codes%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM devices
+    WHERE devices.id = target_device
+    AND devices.owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the device owner can pair it';
+  END IF;
+
+  DELETE FROM device_pairing_codes
+  WHERE device_id = target_device
+  AND claimed_at IS NULL;
+
+  LOOP
+    random_bytes := extensions.gen_random_bytes(8);
+    new_code := '';
+    FOR i IN 0..7 LOOP
+      new_code := new_code || substr(alphabet, get_byte(random_bytes, i) % 32 + 1, 1);
+      IF i = 3 THEN
+        new_code := new_code || '-';
+      END IF;
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM device_pairing_codes WHERE code = new_code);
+  END LOOP;
+
+  INSERT INTO device_pairing_codes (device_id, code, created_by, expires_at)
+  VALUES (target_device, new_code, auth.uid(), now() + interval '10 minutes')
+  RETURNING * INTO issued;
+
+  RETURN issued;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_pairing_code(pairing_code text, agent_ip text, agent_port integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pairing device_pairing_codes%ROWTYPE;
+  paired_device devices%ROWTYPE;
+  token text;
+BEGIN
+  IF agent_ip IS NOT NULL AND agent_ip::inet IS NULL THEN
+    RAISE EXCEPTION 'Invalid IP address';
+  END IF;
+  IF agent_port IS NOT NULL AND (agent_port < 1 OR agent_port > 65535) THEN
+    RAISE EXCEPTION 'Invalid port';
+  END IF;
+
+  SELECT * INTO pairing
+  FROM device_pairing_codes
+  WHERE code = upper(trim(pairing_code))
+  AND claimed_at IS NULL
+  AND expires_at > now()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired pairing code';
+  END IF;
+
+  UPDATE device_pairing_codes
+  SET claimed_at = now()
+  WHERE id = pairing.id;
+
+  UPDATE devices
+  SET ip_address = agent_ip, port = agent_port, paired_at = now()
+  WHERE id = pairing.device_id
+  RETURNING * INTO paired_device;
+
+  token := issue_device_credential(
+    pairing.device_id,
+    'Paired ' || to_char(now(), 'YYYY-MM-DD HH24:MI'),
+    pairing.created_by
+  );
+
+  RETURN jsonb_build_object(
+    'device_id', paired_device.id,
+    'device_name', paired_device.name,
+    'token', token
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION report_device_address(agent_ip text, agent_port integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  agent_device uuid := current_agent_device_id();
+BEGIN
+  IF agent_device IS NULL THEN
+    RAISE EXCEPTION 'Only agents can report their address';
+  END IF;
+  IF agent_ip IS NOT NULL AND agent_ip::inet IS NULL THEN
+    RAISE EXCEPTION 'Invalid IP address';
+  END IF;
+  IF agent_port IS NOT NULL AND (agent_port < 1 OR agent_port > 65535) THEN
+    RAISE EXCEPTION 'Invalid port';
+  END IF;
+
+  UPDATE devices
+  SET ip_address = agent_ip, port = agent_port
+  WHERE id = agent_device;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_pairing_code(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION report_device_address(text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_pairing_code(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION claim_pairing_code(text, text, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION report_device_address(text, integer) TO authenticated;
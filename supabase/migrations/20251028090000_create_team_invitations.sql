@@ -0,0 +1,250 @@
+/*
+  # Team Invitations
+
+  ## Overview
+  Adding a team member used to look the user up in `auth.users`, which the client cannot read.
+  Admins now invite an email address instead. The invitation stays pending until the invitee
+  accepts or declines it, an admin revokes it, or it expires after 7 days. Invitees see it as
+  soon as they sign in with that address, including accounts created after the invite was sent.
+
+  ## New Tables
+
+  ### `team_invitations`
+  - `id` (uuid, primary key)
+  - `team_id` (uuid) - Team the invitee joins
+  - `email` (text) - Invited address, stored lower-case
+  - `role` (text) - Role granted on accept: 'admin' or 'member'
+  - `status` (text) - 'pending', 'accepted', 'declined', 'revoked' or 'expired'
+  - `invited_by` (uuid) - Admin who sent the invitation
+  - `created_at` (timestamptz)
+  - `expires_at` (timestamptz) - Pending invitations stop working after this
+  - `responded_at` (timestamptz, nullable) - When the status left 'pending'
+
+  ## New Functions
+  - `is_team_admin(target_team)` - Team creator or a member with the 'admin' role
+  - `invite_team_member(target_team, invitee_email, invitee_role)` - Creates a pending invitation
+  - `accept_team_invitation(invitation)` - Adds the caller to the team
+  - `decline_team_invitation(invitation)`
+  - `revoke_team_invitation(invitation)` - Admins withdraw a pending invitation
+  - `claim_own_invitation(invitation)` - Internal helper shared by accept and decline
+
+  ## Security
+  - Team admins can view every invitation of their team
+  - Invitees can view only invitations sent to their own email (from the JWT)
+  - Invitees can view the name of a team that has a pending invitation for them
+  - All changes go through the functions above; there are no direct write policies
+
+  ## Important Notes
+  1. An address can have at most one pending invitation per team
+  2. Pending invitations past `expires_at` are marked 'expired' the next time the team invites
+     that address; until then the functions treat them as expired
+*/
+
+-- Create team_invitations table
+CREATE TABLE IF NOT EXISTS team_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL CHECK (email = lower(email)),
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked', 'expired')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  expires_at timestamptz DEFAULT now() + interval '7 days' NOT NULL,
+  responded_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_invitations_team_id ON team_invitations(team_id);
+CREATE INDEX IF NOT EXISTS idx_team_invitations_email ON team_invitations(email);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_invitations_one_pending
+  ON team_invitations(team_id, email)
+  WHERE status = 'pending';
+
+-- Runs as definer so policies on team_members can call it without recursing
+CREATE OR REPLACE FUNCTION is_team_admin(target_team uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM teams
+    WHERE teams.id = target_team
+    AND teams.created_by = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_members.team_id = target_team
+    AND team_members.user_id = auth.uid()
+    AND team_members.role = 'admin'
+  );
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE team_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team admins can view team invitations"
+  ON team_invitations FOR SELECT
+  TO authenticated
+  USING (is_team_admin(team_id));
+
+CREATE POLICY "Invitees can view their invitations"
+  ON team_invitations FOR SELECT
+  TO authenticated
+  USING (email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Invitees can view teams they are invited to"
+  ON teams FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM team_invitations
+      WHERE team_invitations.team_id = teams.id
+      AND team_invitations.email = lower(auth.jwt() ->> 'email')
+      AND team_invitations.status = 'pending'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION invite_team_member(target_team uuid, invitee_email text, invitee_role text DEFAULT 'member')
+RETURNS team_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  normalized_email text := lower(trim(invitee_email));
+  invitation team_invitations%ROWTYPE;
+BEGIN
+  IF NOT is_team_admin(target_team) THEN
+    RAISE EXCEPTION 'Only team admins can invite members';
+  END IF;
+  IF normalized_email !~ '^[^@\s]+@[^@\s]+$' THEN
+    RAISE EXCEPTION 'Invalid email address';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM team_members
+    JOIN auth.users ON auth.users.id = team_members.user_id
+    WHERE team_members.team_id = target_team
+    AND lower(auth.users.email) = normalized_email
+  ) THEN
+    RAISE EXCEPTION 'This user is already a member of the team';
+  END IF;
+
+  UPDATE team_invitations
+  SET status = 'expired', responded_at = expires_at
+  WHERE team_id = target_team
+  AND email = normalized_email
+  AND status = 'pending'
+  AND expires_at <= now();
+
+  IF EXISTS (
+    SELECT 1 FROM team_invitations
+    WHERE team_id = target_team
+    AND email = normalized_email
+    AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'This address already has a pending invitation';
+  END IF;
+
+  INSERT INTO team_invitations (team_id, email, role, invited_by)
+  VALUES (target_team, normalized_email, invitee_role, auth.uid())
+  RETURNING * INTO invitation;
+
+  RETURN invitation;
+END;
+$$;
+
+-- Locks a pending, unexpired invitation addressed to the caller
+CREATE OR REPLACE FUNCTION claim_own_invitation(invitation uuid)
+RETURNS team_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found team_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO found
+  FROM team_invitations
+  WHERE id = invitation
+  AND email = lower(auth.jwt() ->> 'email')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF found.status <> 'pending' THEN
+    RAISE EXCEPTION 'Invitation is already %', found.status;
+  END IF;
+  IF found.expires_at <= now() THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+
+  RETURN found;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_team_invitation(invitation uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found team_invitations%ROWTYPE := claim_own_invitation(invitation);
+BEGIN
+  INSERT INTO team_members (team_id, user_id, role)
+  VALUES (found.team_id, auth.uid(), found.role)
+  ON CONFLICT (team_id, user_id) DO NOTHING;
+
+  UPDATE team_invitations
+  SET status = 'accepted', responded_at = now()
+  WHERE id = found.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_team_invitation(invitation uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found team_invitations%ROWTYPE := claim_own_invitation(invitation);
+BEGIN
+  UPDATE team_invitations
+  SET status = 'declined', responded_at = now()
+  WHERE id = found.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_team_invitation(invitation uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE team_invitations
+  SET status = 'revoked', responded_at = now()
+  WHERE id = invitation
+  AND status = 'pending'
+  AND is_team_admin(team_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found or no longer pending';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_team_admin(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION invite_team_member(uuid, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION claim_own_invitation(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION accept_team_invitation(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION decline_team_invitation(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION revoke_team_invitation(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_team_admin(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION invite_team_member(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_team_invitation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION decline_team_invitation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_team_invitation(uuid) TO authenticated;
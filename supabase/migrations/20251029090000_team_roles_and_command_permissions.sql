@@ -0,0 +1,442 @@
+/*
+  # Team Roles and Command Permissions
+
+  ## Overview
+  Admin checks used to compare `teams.created_by` with the caller, so `team_members.role`
+  had no effect, and every member could send every command. Team members now have one of
+  four roles, and the policies check them:
+
+  | Role | Can |
+  |------|-----|
+  | `owner` | Everything an admin can; the team creator, exactly one per team |
+  | `admin` | Manage members, roles, invitations, command permissions, team devices, macros and groups |
+  | `operator` | Send commands that require `operator` or lower |
+  | `viewer` | See team devices, command status and history; send only commands opened up to viewers |
+
+  Device owners can always send every command to their own devices.
+
+  ## New Tables
+
+  ### `team_command_permissions`
+  - `team_id` (uuid) - Team the override applies to
+  - `command_type` (text) - Command type being overridden
+  - `min_role` (text) - Lowest role allowed to send it on the team's devices
+  - `updated_by` (uuid) - Admin who set the override
+  - `updated_at` (timestamptz)
+
+  ## Changes
+  - `team_members.role` is 'owner', 'admin', 'operator' or 'viewer' (default 'operator').
+    Former 'member' rows become 'operator', so nobody loses access. Team creators get an
+    'owner' row.
+  - `team_invitations.role` is 'admin', 'operator' or 'viewer'
+  - `command_types.min_role` (text) - Default lowest role allowed to send the command
+    (default 'operator')
+
+  ## New Functions
+  - `team_role(target_team)` - The caller's role in a team, or NULL
+  - `team_role_rank(role)` - viewer 1, operator 2, admin 3, owner 4
+  - `has_team_role(target_team, minimum)` - The caller's role is at least `minimum`
+  - `command_min_role(target_team, command)` - Team override, else `command_types.min_role`
+  - `can_send_command(target_device, command)` - Device owner, or a team role that meets
+    `command_min_role`
+  - `is_team_admin(target_team)` now means role 'admin' or 'owner'
+
+  ## Security
+  - Admin policies on team devices, members, macros, macro steps, device groups and group members
+    use `is_team_admin()` instead of `teams.created_by`
+  - Admins can add, re-role and remove members but cannot create, change or remove the owner
+  - Sending commands to team devices and creating schedules require `can_send_command()`
+  - Team members can view their team's command permissions; admins manage them
+
+  ## Important Notes
+  1. Renaming and deleting a team stays with the owner
+  2. Schedules are checked when they are created or edited. A schedule keeps firing if its
+     creator is demoted later; the device owner or an admin can pause it
+*/
+
+-- Roles on team_members
+ALTER TABLE team_members DROP CONSTRAINT IF EXISTS team_members_role_check;
+
+UPDATE team_members SET role = 'operator' WHERE role = 'member';
+
+INSERT INTO team_members (team_id, user_id, role)
+SELECT id, created_by, 'owner' FROM teams
+ON CONFLICT (team_id, user_id) DO UPDATE SET role = 'owner';
+
+ALTER TABLE team_members
+  ALTER COLUMN role SET DEFAULT 'operator',
+  ADD CONSTRAINT team_members_role_check CHECK (role IN ('owner', 'admin', 'operator', 'viewer'));
+
+-- Roles on team_invitations
+ALTER TABLE team_invitations DROP CONSTRAINT IF EXISTS team_invitations_role_check;
+
+UPDATE team_invitations SET role = 'operator' WHERE role = 'member';
+
+ALTER TABLE team_invitations
+  ALTER COLUMN role SET DEFAULT 'operator',
+  ADD CONSTRAINT team_invitations_role_check CHECK (role IN ('admin', 'operator', 'viewer'));
+
+-- Default permission per command type
+ALTER TABLE command_types
+  ADD COLUMN IF NOT EXISTS min_role text NOT NULL DEFAULT 'operator'
+  CHECK (min_role IN ('owner', 'admin', 'operator', 'viewer'));
+
+-- Create team_command_permissions table
+CREATE TABLE IF NOT EXISTS team_command_permissions (
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  command_type text REFERENCES command_types(id) ON UPDATE CASCADE ON DELETE CASCADE NOT NULL,
+  min_role text NOT NULL CHECK (min_role IN ('owner', 'admin', 'operator', 'viewer')),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (team_id, command_type)
+);
+
+-- Role helpers. They run as definer so policies on team_members can call them without recursing.
+CREATE OR REPLACE FUNCTION team_role_rank(role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE role
+    WHEN 'owner' THEN 4
+    WHEN 'admin' THEN 3
+    WHEN 'operator' THEN 2
+    WHEN 'viewer' THEN 1
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION team_role(target_team uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM teams
+      WHERE teams.id = target_team
+      AND teams.created_by = auth.uid()
+    ) THEN 'owner'
+    ELSE (
+      SELECT team_members.role FROM team_members
+      WHERE team_members.team_id = target_team
+      AND team_members.user_id = auth.uid()
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_team_role(target_team uuid, minimum text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT team_role_rank(team_role(target_team)) >= team_role_rank(minimum);
+$$;
+
+CREATE OR REPLACE FUNCTION is_team_admin(target_team uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_team_role(target_team, 'admin');
+$$;
+
+CREATE OR REPLACE FUNCTION command_min_role(target_team uuid, command text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT team_command_permissions.min_role FROM team_command_permissions
+      WHERE team_command_permissions.team_id = target_team
+      AND team_command_permissions.command_type = command
+    ),
+    (SELECT command_types.min_role FROM command_types WHERE command_types.id = command),
+    'operator'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_send_command(target_device uuid, command text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM devices
+    WHERE devices.id = target_device
+    AND (
+      devices.owner_id = auth.uid() OR
+      (
+        devices.team_id IS NOT NULL AND
+        has_team_role(devices.team_id, command_min_role(devices.team_id, command))
+      )
+    )
+  );
+$$;
+
+-- Invitations default to 'operator' now that 'member' is gone
+CREATE OR REPLACE FUNCTION invite_team_member(target_team uuid, invitee_email text, invitee_role text DEFAULT 'operator')
+RETURNS team_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  normalized_email text := lower(trim(invitee_email));
+  invitation team_invitations%ROWTYPE;
+BEGIN
+  IF NOT is_team_admin(target_team) THEN
+    RAISE EXCEPTION 'Only team admins can invite members';
+  END IF;
+  IF normalized_email !~ '^[^@\s]+@[^@\s]+$' THEN
+    RAISE EXCEPTION 'Invalid email address';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM team_members
+    JOIN auth.users ON auth.users.id = team_members.user_id
+    WHERE team_members.team_id = target_team
+    AND lower(auth.users.email) = normalized_email
+  ) THEN
+    RAISE EXCEPTION 'This user is already a member of the team';
+  END IF;
+
+  UPDATE team_invitations
+  SET status = 'expired', responded_at = expires_at
+  WHERE team_id = target_team
+  AND email = normalized_email
+  AND status = 'pending'
+  AND expires_at <= now();
+
+  IF EXISTS (
+    SELECT 1 FROM team_invitations
+    WHERE team_id = target_team
+    AND email = normalized_email
+    AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'This address already has a pending invitation';
+  END IF;
+
+  INSERT INTO team_invitations (team_id, email, role, invited_by)
+  VALUES (target_team, normalized_email, invitee_role, auth.uid())
+  RETURNING * INTO invitation;
+
+  RETURN invitation;
+END;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE team_command_permissions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for team_command_permissions table
+CREATE POLICY "Team members can view command permissions"
+  ON team_command_permissions FOR SELECT
+  TO authenticated
+  USING (has_team_role(team_id, 'viewer'));
+
+CREATE POLICY "Team admins can manage command permissions"
+  ON team_command_permissions FOR ALL
+  TO authenticated
+  USING (is_team_admin(team_id))
+  WITH CHECK (is_team_admin(team_id));
+
+-- team_members: admins instead of the team creator, and the owner row is off limits
+DROP POLICY IF EXISTS "Team admins can add members" ON team_members;
+DROP POLICY IF EXISTS "Team admins can remove members" ON team_members;
+
+CREATE POLICY "Team admins can add members"
+  ON team_members FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_team_admin(team_id) AND
+    (role <> 'owner' OR (user_id = auth.uid() AND team_role(team_id) = 'owner'))
+  );
+
+CREATE POLICY "Team admins can change member roles"
+  ON team_members FOR UPDATE
+  TO authenticated
+  USING (is_team_admin(team_id) AND role <> 'owner')
+  WITH CHECK (is_team_admin(team_id) AND role <> 'owner');
+
+CREATE POLICY "Team admins can remove members"
+  ON team_members FOR DELETE
+  TO authenticated
+  USING (is_team_admin(team_id) AND role <> 'owner');
+
+-- devices
+DROP POLICY IF EXISTS "Team admins can update team devices" ON devices;
+
+CREATE POLICY "Team admins can update team devices"
+  ON devices FOR UPDATE
+  TO authenticated
+  USING (team_id IS NOT NULL AND is_team_admin(team_id))
+  WITH CHECK (team_id IS NOT NULL AND is_team_admin(team_id));
+
+-- commands
+DROP POLICY IF EXISTS "Team members can send commands to team devices" ON commands;
+
+CREATE POLICY "Team members can send permitted commands to team devices"
+  ON commands FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sent_by = auth.uid() AND
+    can_send_command(device_id, command_type)
+  );
+
+-- command_schedules
+DROP POLICY IF EXISTS "Users can create schedules for accessible devices" ON command_schedules;
+DROP POLICY IF EXISTS "Creators and device owners can update schedules" ON command_schedules;
+
+CREATE POLICY "Users can create schedules for permitted commands"
+  ON command_schedules FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid() AND
+    can_send_command(device_id, command_type)
+  );
+
+CREATE POLICY "Creators, device owners and team admins can update schedules"
+  ON command_schedules FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM devices
+      WHERE devices.id = command_schedules.device_id
+      AND (
+        devices.owner_id = auth.uid() OR
+        (devices.team_id IS NOT NULL AND is_team_admin(devices.team_id))
+      )
+    )
+  )
+  WITH CHECK (can_send_command(device_id, command_type));
+
+-- macros and macro_steps
+DROP POLICY IF EXISTS "Creators and team admins can update macros" ON macros;
+DROP POLICY IF EXISTS "Creators and team admins can delete macros" ON macros;
+DROP POLICY IF EXISTS "Macro editors can manage steps" ON macro_steps;
+
+CREATE POLICY "Creators and team admins can update macros"
+  ON macros FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    (team_id IS NOT NULL AND is_team_admin(team_id))
+  )
+  WITH CHECK (
+    team_id IS NULL OR
+    EXISTS (
+      SELECT 1 FROM team_members
+      WHERE team_members.team_id = macros.team_id
+      AND team_members.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Creators and team admins can delete macros"
+  ON macros FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    (team_id IS NOT NULL AND is_team_admin(team_id))
+  );
+
+CREATE POLICY "Macro editors can manage steps"
+  ON macro_steps FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM macros
+      WHERE macros.id = macro_steps.macro_id
+      AND (
+        macros.created_by = auth.uid() OR
+        (macros.team_id IS NOT NULL AND is_team_admin(macros.team_id))
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM macros
+      WHERE macros.id = macro_steps.macro_id
+      AND (
+        macros.created_by = auth.uid() OR
+        (macros.team_id IS NOT NULL AND is_team_admin(macros.team_id))
+      )
+    )
+  );
+
+-- device_groups and device_group_members
+DROP POLICY IF EXISTS "Owners and team admins can update device groups" ON device_groups;
+DROP POLICY IF EXISTS "Owners and team admins can delete device groups" ON device_groups;
+DROP POLICY IF EXISTS "Group editors can manage members" ON device_group_members;
+
+CREATE POLICY "Owners and team admins can update device groups"
+  ON device_groups FOR UPDATE
+  TO authenticated
+  USING (
+    owner_id = auth.uid() OR
+    (team_id IS NOT NULL AND is_team_admin(team_id))
+  )
+  WITH CHECK (
+    team_id IS NULL OR
+    EXISTS (
+      SELECT 1 FROM team_members
+      WHERE team_members.team_id = device_groups.team_id
+      AND team_members.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners and team admins can delete device groups"
+  ON device_groups FOR DELETE
+  TO authenticated
+  USING (
+    owner_id = auth.uid() OR
+    (team_id IS NOT NULL AND is_team_admin(team_id))
+  );
+
+CREATE POLICY "Group editors can manage members"
+  ON device_group_members FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM device_groups
+      WHERE device_groups.id = device_group_members.group_id
+      AND (
+        device_groups.owner_id = auth.uid() OR
+        (device_groups.team_id IS NOT NULL AND is_team_admin(device_groups.team_id))
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM device_groups
+      WHERE device_groups.id = device_group_members.group_id
+      AND (
+        device_groups.owner_id = auth.uid() OR
+        (device_groups.team_id IS NOT NULL AND is_team_admin(device_groups.team_id))
+      )
+    ) AND
+    EXISTS (
+      SELECT 1 FROM devices
+      WHERE devices.id = device_group_members.device_id
+    )
+  );
+
+REVOKE EXECUTE ON FUNCTION team_role(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION has_team_role(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION command_min_role(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION can_send_command(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION team_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION has_team_role(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION command_min_role(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_send_command(uuid, text) TO authenticated;
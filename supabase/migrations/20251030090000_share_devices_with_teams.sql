@@ -0,0 +1,281 @@
+/*
+  # Share Devices with Several Teams, Transfer Ownership
+
+  ## Overview
+  `devices.team_id` allowed one team per device, and nothing in the app ever set it. Devices are
+  now shared through `device_teams`, so one device can be controlled by several teams. Owners can
+  also hand a device over to another user.
+
+  ## New Tables
+
+  ### `device_teams`
+  - `device_id` (uuid) - Shared device
+  - `team_id` (uuid) - Team that can see and control it
+  - `added_by` (uuid) - Who shared it
+  - `added_at` (timestamptz)
+
+  ## Changes
+  - Existing `devices.team_id` values are copied into `device_teams`, then the column is dropped
+  - Every policy and function that read `devices.team_id` now reads `device_teams`:
+    device and command visibility, team admin device edits, schedules, `device_heartbeat()`
+    and `can_send_command()`
+  - `devices.owner_id` can only change through `transfer_device()`
+
+  ## New Functions
+  - `is_device_owner(target_device)` - Lets `device_teams` policies check ownership without
+    recursing into the `devices` policies
+  - `transfer_device(target_device, new_owner_email)` - Hands the device to another user
+
+  ## Security
+  - Device owners can share a device with teams they belong to
+  - Device owners and admins of the team can unshare it
+  - Owners and team members can see which teams a device is shared with
+  - After a transfer the previous owner keeps access only through shared teams
+
+  ## Important Notes
+  1. Transfers take effect immediately; the new owner does not have to accept
+  2. Agent credentials belong to the device and keep working after a transfer
+*/
+
+-- Create device_teams table
+CREATE TABLE IF NOT EXISTS device_teams (
+  device_id uuid REFERENCES devices(id) ON DELETE CASCADE NOT NULL,
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  added_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  added_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (device_id, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_teams_team_id ON device_teams(team_id);
+
+INSERT INTO device_teams (device_id, team_id, added_by)
+SELECT id, team_id, owner_id FROM devices
+WHERE team_id IS NOT NULL
+ON CONFLICT (device_id, team_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION is_device_owner(target_device uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM devices
+    WHERE devices.id = target_device
+    AND devices.owner_id = auth.uid()
+  );
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE device_teams ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for device_teams table
+CREATE POLICY "Owners and team members can view device sharing"
+  ON device_teams FOR SELECT
+  TO authenticated
+  USING (is_device_owner(device_id) OR has_team_role(team_id, 'viewer'));
+
+CREATE POLICY "Device owners can share with their teams"
+  ON device_teams FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    added_by = auth.uid() AND
+    is_device_owner(device_id) AND
+    has_team_role(team_id, 'viewer')
+  );
+
+CREATE POLICY "Device owners and team admins can unshare"
+  ON device_teams FOR DELETE
+  TO authenticated
+  USING (is_device_owner(device_id) OR is_team_admin(team_id));
+
+-- Policies that read devices.team_id
+DROP POLICY IF EXISTS "Team members can view team devices" ON devices;
+DROP POLICY IF EXISTS "Team admins can update team devices" ON devices;
+DROP POLICY IF EXISTS "Team members can view commands for team devices" ON commands;
+DROP POLICY IF EXISTS "Users can view schedules for accessible devices" ON command_schedules;
+DROP POLICY IF EXISTS "Creators, device owners and team admins can update schedules" ON command_schedules;
+
+CREATE POLICY "Team members can view team devices"
+  ON devices FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM device_teams
+      WHERE device_teams.device_id = devices.id
+      AND has_team_role(device_teams.team_id, 'viewer')
+    )
+  );
+
+CREATE POLICY "Team admins can update team devices"
+  ON devices FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM device_teams
+      WHERE device_teams.device_id = devices.id
+      AND is_team_admin(device_teams.team_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM device_teams
+      WHERE device_teams.device_id = devices.id
+      AND is_team_admin(device_teams.team_id)
+    )
+  );
+
+CREATE POLICY "Team members can view commands for team devices"
+  ON commands FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM device_teams
+      WHERE device_teams.device_id = commands.device_id
+      AND has_team_role(device_teams.team_id, 'viewer')
+    )
+  );
+
+CREATE POLICY "Users can view schedules for accessible devices"
+  ON command_schedules FOR SELECT
+  TO authenticated
+  USING (
+    is_device_owner(device_id) OR
+    EXISTS (
+      SELECT 1 FROM device_teams
+      WHERE device_teams.device_id = command_schedules.device_id
+      AND has_team_role(device_teams.team_id, 'viewer')
+    )
+  );
+
+CREATE POLICY "Creators, device owners and team admins can update schedules"
+  ON command_schedules FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid() OR
+    is_device_owner(device_id) OR
+    EXISTS (
+      SELECT 1 FROM device_teams
+      WHERE device_teams.device_id = command_schedules.device_id
+      AND is_team_admin(device_teams.team_id)
+    )
+  )
+  WITH CHECK (can_send_command(device_id, command_type));
+
+CREATE OR REPLACE FUNCTION can_send_command(target_device uuid, command text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_device_owner(target_device) OR EXISTS (
+    SELECT 1 FROM device_teams
+    WHERE device_teams.device_id = target_device
+    AND has_team_role(device_teams.team_id, command_min_role(device_teams.team_id, command))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION device_heartbeat(target_device uuid, new_status text DEFAULT 'online')
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  seen_at timestamptz := now();
+BEGIN
+  IF new_status NOT IN ('online', 'offline') THEN
+    RAISE EXCEPTION 'Invalid heartbeat status: %', new_status;
+  END IF;
+
+  IF target_device IS DISTINCT FROM current_agent_device_id()
+    AND NOT is_device_owner(target_device)
+    AND NOT EXISTS (
+      SELECT 1 FROM device_teams
+      WHERE device_teams.device_id = target_device
+      AND has_team_role(device_teams.team_id, 'viewer')
+    )
+  THEN
+    RAISE EXCEPTION 'Device % not found', target_device;
+  END IF;
+
+  PERFORM set_config('app.presence_write', 'on', true);
+
+  UPDATE devices
+  SET status = new_status, last_seen = seen_at
+  WHERE id = target_device;
+
+  PERFORM set_config('app.presence_write', 'off', true);
+
+  RETURN seen_at;
+END;
+$$;
+
+ALTER TABLE devices DROP COLUMN IF EXISTS team_id;
+
+-- Ownership changes only through transfer_device()
+CREATE OR REPLACE FUNCTION protect_device_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    AND current_setting('app.device_transfer', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Use transfer_device() to change the owner of a device';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_device_owner ON devices;
+CREATE TRIGGER protect_device_owner
+  BEFORE UPDATE OF owner_id ON devices
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_device_owner();
+
+CREATE OR REPLACE FUNCTION transfer_device(target_device uuid, new_owner_email text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_owner uuid;
+BEGIN
+  IF NOT is_device_owner(target_device) THEN
+    RAISE EXCEPTION 'Only the device owner can transfer it';
+  END IF;
+
+  SELECT id INTO new_owner
+  FROM auth.users
+  WHERE lower(email) = lower(trim(new_owner_email));
+
+  IF new_owner IS NULL THEN
+    RAISE EXCEPTION 'No user with that email';
+  END IF;
+  IF new_owner = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this device';
+  END IF;
+
+  -- Pairing codes were issued by the previous owner
+  DELETE FROM device_pairing_codes
+  WHERE device_id = target_device
+  AND claimed_at IS NULL;
+
+  PERFORM set_config('app.device_transfer', 'on', true);
+
+  UPDATE devices
+  SET owner_id = new_owner
+  WHERE id = target_device;
+
+  PERFORM set_config('app.device_transfer', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_device_owner(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION transfer_device(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_device_owner(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION transfer_device(uuid, text) TO authenticated;
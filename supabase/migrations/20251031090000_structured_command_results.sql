@@ -0,0 +1,58 @@
+/*
+  # Structured Command Results
+
+  ## Overview
+  A command used to record only a status and `executed_at`, so a failed unmute gave
+  no reason. Agents now report what happened: an error code and message when a
+  handler fails, the handler's output when it succeeds (e.g. the new track title),
+  and when the command was delivered, started and finished.
+
+  ## Changes
+
+  ### `commands`
+  - `delivered_at` (timestamptz, nullable) - When an agent claimed the command
+  - `started_at` (timestamptz, nullable) - When the handler started
+  - `finished_at` (timestamptz, nullable) - When the handler finished, successfully or not
+  - `result` (jsonb, nullable) - Output reported by the handler, at most 16 KB
+  - `error_code` (text, nullable) - Machine-readable failure reason, e.g. `bridge_unreachable`
+  - `error_message` (text, nullable) - Human-readable failure reason
+
+  ## Security
+  - `protect_agent_command_update` now lets agents write the new columns as well as
+    `status` and `executed_at`; everything else stays read-only for them
+
+  ## Important Notes
+  - `executed_at` is still set on success, so existing latency figures are unchanged
+  - Timestamps come from the agent's clock
+*/
+
+ALTER TABLE commands
+  ADD COLUMN IF NOT EXISTS delivered_at timestamptz,
+  ADD COLUMN IF NOT EXISTS started_at timestamptz,
+  ADD COLUMN IF NOT EXISTS finished_at timestamptz,
+  ADD COLUMN IF NOT EXISTS result jsonb,
+  ADD COLUMN IF NOT EXISTS error_code text,
+  ADD COLUMN IF NOT EXISTS error_message text;
+
+ALTER TABLE commands
+  ADD CONSTRAINT commands_result_size CHECK (result IS NULL OR octet_length(result::text) <= 16384);
+
+-- Agents may move a command through its lifecycle and report its outcome
+CREATE OR REPLACE FUNCTION protect_agent_command_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  agent_columns text[] := ARRAY[
+    'status', 'executed_at', 'delivered_at', 'started_at', 'finished_at', 'result', 'error_code', 'error_message'
+  ];
+BEGIN
+  IF current_agent_device_id() IS NOT NULL
+    AND (to_jsonb(NEW) - agent_columns) IS DISTINCT FROM (to_jsonb(OLD) - agent_columns)
+  THEN
+    RAISE EXCEPTION 'Agents can only update command status and results';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
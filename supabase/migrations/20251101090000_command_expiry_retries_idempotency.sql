@@ -0,0 +1,180 @@
+/*
+  # Command Expiry, Retries and Idempotency
+
+  ## Overview
+  A `next_track` sent while an agent was offline used to run whenever the agent came back,
+  possibly hours later, and a double-click queued the command twice. Commands now expire
+  after a per-type TTL, transient agent failures are retried with backoff, and an
+  idempotency key makes sure one click (or one network retry) never runs a command twice.
+
+  ## Changes
+
+  ### `command_types`
+  - `ttl_seconds` (integer, nullable) - How long a command may wait for an agent; null never expires
+  - `max_attempts` (integer) - How often an agent may try a command that failed transiently
+
+  ### `commands`
+  - `status` may now be `expired`
+  - `expires_at` (timestamptz, nullable) - Filled from the command type's TTL on insert
+  - `attempts` (integer) - How many times an agent has claimed the command
+  - `max_attempts` (integer) - Filled from the command type on insert
+  - `next_attempt_at` (timestamptz, nullable) - Earliest time a retry may be claimed
+  - `idempotency_key` (text, nullable) - Unique per device; a second insert with the same key fails
+
+  ### `command_broadcasts`
+  - `idempotency_key` (text, nullable) - Unique per sender
+
+  ## New Functions
+  - `claim_command(target_command)` - Used by agents instead of a plain update. Expires the
+    command if it is too old, otherwise moves it to `delivered`, stamps `delivered_at` and
+    counts the attempt. Returns the claimed row, or no row.
+  - `expire_stale_commands()` - Runs every 15 seconds via `pg_cron` and expires pending
+    commands nobody picked up in time
+
+  ## Security
+  - Agents may additionally write `next_attempt_at` and `attempts` (to schedule a retry)
+
+  ## Important Notes
+  - Existing commands keep `expires_at` null and `max_attempts` 1, so they behave as before
+  - `delivered_at` is now stamped by the database when the command is claimed
+*/
+
+ALTER TABLE command_types
+  ADD COLUMN IF NOT EXISTS ttl_seconds integer DEFAULT 300 CHECK (ttl_seconds IS NULL OR ttl_seconds > 0),
+  ADD COLUMN IF NOT EXISTS max_attempts integer NOT NULL DEFAULT 3 CHECK (max_attempts BETWEEN 1 AND 10);
+
+-- A skipped track is only wanted right away
+UPDATE command_types SET ttl_seconds = 60 WHERE id = 'next_track';
+
+ALTER TABLE commands DROP CONSTRAINT IF EXISTS commands_status_check;
+ALTER TABLE commands
+  ADD CONSTRAINT commands_status_check CHECK (status IN ('pending', 'delivered', 'executed', 'failed', 'expired'));
+
+ALTER TABLE commands
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz,
+  ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+-- New rows get max_attempts from their command type
+ALTER TABLE commands ALTER COLUMN max_attempts DROP DEFAULT;
+
+ALTER TABLE commands
+  ADD CONSTRAINT commands_idempotency_key_unique UNIQUE (device_id, idempotency_key);
+
+ALTER TABLE command_broadcasts
+  ADD COLUMN IF NOT EXISTS idempotency_key text,
+  ADD CONSTRAINT command_broadcasts_idempotency_key_unique UNIQUE (sent_by, idempotency_key);
+
+CREATE INDEX IF NOT EXISTS idx_commands_pending_expires_at ON commands(expires_at) WHERE status = 'pending';
+
+-- Fill in expiry and retry policy from the command type
+CREATE OR REPLACE FUNCTION prepare_command_delivery()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  registered command_types%ROWTYPE;
+BEGIN
+  SELECT * INTO registered
+  FROM command_types
+  WHERE id = NEW.command_type;
+
+  IF NEW.expires_at IS NULL AND registered.ttl_seconds IS NOT NULL THEN
+    NEW.expires_at := now() + make_interval(secs => registered.ttl_seconds);
+  END IF;
+  NEW.max_attempts := COALESCE(NEW.max_attempts, registered.max_attempts, 1);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_command_delivery ON commands;
+CREATE TRIGGER prepare_command_delivery
+  BEFORE INSERT ON commands
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_command_delivery();
+
+-- Agents may move a command through its lifecycle, report its outcome and schedule a retry
+CREATE OR REPLACE FUNCTION protect_agent_command_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  agent_columns text[] := ARRAY[
+    'status', 'executed_at', 'delivered_at', 'started_at', 'finished_at', 'result', 'error_code', 'error_message',
+    'attempts', 'next_attempt_at'
+  ];
+BEGIN
+  IF current_agent_device_id() IS NOT NULL
+    AND (to_jsonb(NEW) - agent_columns) IS DISTINCT FROM (to_jsonb(OLD) - agent_columns)
+  THEN
+    RAISE EXCEPTION 'Agents can only update command status and results';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs as the calling agent, so the agent update policy still scopes it to its own device
+CREATE OR REPLACE FUNCTION claim_command(target_command uuid)
+RETURNS SETOF commands
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  agent_device uuid := current_agent_device_id();
+  claimed commands%ROWTYPE;
+BEGIN
+  IF agent_device IS NULL THEN
+    RAISE EXCEPTION 'Only agents can claim commands';
+  END IF;
+
+  UPDATE commands
+  SET status = 'expired', finished_at = now()
+  WHERE id = target_command
+  AND device_id = agent_device
+  AND status = 'pending'
+  AND expires_at <= now();
+
+  UPDATE commands
+  SET status = 'delivered', delivered_at = now(), attempts = attempts + 1
+  WHERE id = target_command
+  AND device_id = agent_device
+  AND status = 'pending'
+  AND (next_attempt_at IS NULL OR next_attempt_at <= now())
+  RETURNING * INTO claimed;
+
+  IF FOUND THEN
+    RETURN NEXT claimed;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_command(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_command(uuid) TO authenticated;
+
+-- Expire commands nobody picked up in time. Called by pg_cron every 15 seconds.
+CREATE OR REPLACE FUNCTION expire_stale_commands()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired integer;
+BEGIN
+  UPDATE commands
+  SET status = 'expired', finished_at = now()
+  WHERE status = 'pending'
+  AND expires_at <= now();
+
+  GET DIAGNOSTICS expired = ROW_COUNT;
+  RETURN expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_stale_commands() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('expire-stale-commands', '15 seconds', $$SELECT public.expire_stale_commands()$$);
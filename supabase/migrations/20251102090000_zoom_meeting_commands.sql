@@ -0,0 +1,158 @@
+/*
+  # Zoom Meeting Commands
+
+  ## Overview
+  `unmute_zoom` was the only Zoom action. This registers the rest of the meeting controls
+  the rooms need: muting, camera, screen share, recording and host controls. Agents run
+  them through their `ZoomController` adapter; the dashboard picks them up from the
+  registry like any other command type.
+
+  ## New Command Types
+  - `mute_zoom` / `unmute_zoom` - Host microphone
+  - `start_zoom_video` / `stop_zoom_video` - Host camera
+  - `start_zoom_share` - Share a screen; payload `screen` (integer, 1-8, default 1)
+  - `stop_zoom_share` - Stop sharing
+  - `start_zoom_recording` - Payload `target` (`cloud` or `local`, default `cloud`)
+  - `stop_zoom_recording` - Asks for confirmation
+  - `mute_all_zoom` - Mutes every participant; payload `allow_unmute` (boolean, default true);
+    asks for confirmation
+  - `lock_zoom_meeting` - Payload `locked` (boolean, default true; false unlocks); asks for
+    confirmation
+
+  ## Security
+  - Recording and locking the meeting default to `admin`; everything else to `operator`.
+    Teams can override either under **Manage** → **Command Permissions**
+
+  ## Important Notes
+  - All Zoom commands expire after 60 seconds: acting on a meeting minutes late is worse
+    than not acting
+*/
+
+INSERT INTO command_types (id, label, description, icon, payload_schema, requires_confirmation, sort_order, min_role, ttl_seconds)
+VALUES
+  (
+    'mute_zoom',
+    'Mute Zoom Audio',
+    'Mute the host in the room''s Zoom meeting',
+    'MicOff',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    false,
+    9,
+    'operator',
+    60
+  ),
+  (
+    'start_zoom_video',
+    'Start Zoom Video',
+    'Turn the host''s camera on',
+    'Video',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    false,
+    11,
+    'operator',
+    60
+  ),
+  (
+    'stop_zoom_video',
+    'Stop Zoom Video',
+    'Turn the host''s camera off',
+    'VideoOff',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    false,
+    12,
+    'operator',
+    60
+  ),
+  (
+    'start_zoom_share',
+    'Share Screen',
+    'Share one of the room PC''s screens in the meeting',
+    'ScreenShare',
+    '{
+      "type": "object",
+      "properties": {
+        "screen": { "type": "integer", "title": "Screen", "minimum": 1, "maximum": 8, "default": 1 }
+      },
+      "additionalProperties": false
+    }'::jsonb,
+    false,
+    13,
+    'operator',
+    60
+  ),
+  (
+    'stop_zoom_share',
+    'Stop Sharing',
+    'Stop sharing the screen',
+    'ScreenShareOff',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    false,
+    14,
+    'operator',
+    60
+  ),
+  (
+    'start_zoom_recording',
+    'Start Recording',
+    'Start recording the meeting',
+    'CircleDot',
+    '{
+      "type": "object",
+      "properties": {
+        "target": { "type": "string", "title": "Record to", "enum": ["cloud", "local"], "default": "cloud" }
+      },
+      "additionalProperties": false
+    }'::jsonb,
+    false,
+    15,
+    'admin',
+    60
+  ),
+  (
+    'stop_zoom_recording',
+    'Stop Recording',
+    'Stop recording the meeting',
+    'StopCircle',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    true,
+    16,
+    'admin',
+    60
+  ),
+  (
+    'mute_all_zoom',
+    'Mute All Participants',
+    'Mute everyone in the meeting except the host',
+    'VolumeX',
+    '{
+      "type": "object",
+      "properties": {
+        "allow_unmute": { "type": "boolean", "title": "Let participants unmute themselves", "default": true }
+      },
+      "additionalProperties": false
+    }'::jsonb,
+    true,
+    17,
+    'operator',
+    60
+  ),
+  (
+    'lock_zoom_meeting',
+    'Lock Meeting',
+    'Stop new participants from joining; untick to unlock',
+    'Lock',
+    '{
+      "type": "object",
+      "properties": {
+        "locked": { "type": "boolean", "title": "Locked", "default": true }
+      },
+      "additionalProperties": false
+    }'::jsonb,
+    true,
+    18,
+    'admin',
+    60
+  )
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE command_types SET ttl_seconds = 60 WHERE id = 'unmute_zoom';
@@ -0,0 +1,183 @@
+/*
+  # Music Player Commands and Now Playing
+
+  ## Overview
+  `next_track` was the only AIMP action. This registers the rest of the player controls
+  and lets agents report what is playing after each music command, so the device card
+  shows the current track.
+
+  ## New Command Types
+  - `play_music` / `pause_music` / `stop_music`
+  - `previous_track` (`next_track` already exists)
+  - `set_volume` - Payload `level` (integer, 0-100)
+  - `change_volume` - Payload `step` (integer, -100 to 100; negative is quieter)
+  - `seek_track` - Payload `position_seconds` (integer, 0 or more)
+  - `toggle_shuffle` / `toggle_repeat`
+  - `play_track` - Payload `index` (integer, 1-based position in the current playlist)
+
+  ## Changes
+
+  ### `devices`
+  - `now_playing` (jsonb, nullable) - Last player state the agent reported: `title`, `artist`,
+    `state` (`playing`, `paused` or `stopped`), `position_seconds`, `duration_seconds`,
+    `volume`, `shuffle`, `repeat`. At most 4 KB
+  - `now_playing_at` (timestamptz, nullable) - When it was reported, stamped by the database
+
+  ## New Functions
+  - `report_now_playing(now_playing)` - Used by agents; updates their own device only
+
+  ## Security
+  - Only agents can report; the device comes from the agent's credential
+  - The music commands default to `operator`
+*/
+
+ALTER TABLE devices
+  ADD COLUMN IF NOT EXISTS now_playing jsonb
+    CHECK (now_playing IS NULL OR (jsonb_typeof(now_playing) = 'object' AND pg_column_size(now_playing) <= 4096)),
+  ADD COLUMN IF NOT EXISTS now_playing_at timestamptz;
+
+INSERT INTO command_types (id, label, description, icon, payload_schema, sort_order, ttl_seconds)
+VALUES
+  (
+    'play_music',
+    'Play',
+    'Start or resume AIMP playback',
+    'Play',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    21,
+    60
+  ),
+  (
+    'pause_music',
+    'Pause',
+    'Pause AIMP playback',
+    'Pause',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    22,
+    60
+  ),
+  (
+    'stop_music',
+    'Stop',
+    'Stop AIMP playback',
+    'Square',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    23,
+    60
+  ),
+  (
+    'previous_track',
+    'Previous Track',
+    'Go back to the previous track in AIMP',
+    'SkipBack',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    24,
+    60
+  ),
+  (
+    'play_track',
+    'Play Track',
+    'Play a track by its number in the current playlist',
+    'ListMusic',
+    '{
+      "type": "object",
+      "properties": {
+        "index": { "type": "integer", "title": "Track number", "minimum": 1, "default": 1 }
+      },
+      "required": ["index"],
+      "additionalProperties": false
+    }'::jsonb,
+    25,
+    60
+  ),
+  (
+    'seek_track',
+    'Seek',
+    'Jump to a position in the current track',
+    'FastForward',
+    '{
+      "type": "object",
+      "properties": {
+        "position_seconds": { "type": "integer", "title": "Position (seconds)", "minimum": 0, "default": 0 }
+      },
+      "required": ["position_seconds"],
+      "additionalProperties": false
+    }'::jsonb,
+    26,
+    60
+  ),
+  (
+    'set_volume',
+    'Set Volume',
+    'Set the AIMP volume',
+    'Volume2',
+    '{
+      "type": "object",
+      "properties": {
+        "level": { "type": "integer", "title": "Level", "minimum": 0, "maximum": 100, "default": 50 }
+      },
+      "required": ["level"],
+      "additionalProperties": false
+    }'::jsonb,
+    27,
+    60
+  ),
+  (
+    'change_volume',
+    'Change Volume',
+    'Turn the AIMP volume up or down by a step',
+    'Volume1',
+    '{
+      "type": "object",
+      "properties": {
+        "step": { "type": "integer", "title": "Step (negative is quieter)", "minimum": -100, "maximum": 100, "default": 10 }
+      },
+      "required": ["step"],
+      "additionalProperties": false
+    }'::jsonb,
+    28,
+    60
+  ),
+  (
+    'toggle_shuffle',
+    'Toggle Shuffle',
+    'Turn AIMP shuffle on or off',
+    'Shuffle',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    29,
+    60
+  ),
+  (
+    'toggle_repeat',
+    'Toggle Repeat',
+    'Turn AIMP repeat on or off',
+    'Repeat',
+    '{"type": "object", "properties": {}, "additionalProperties": false}'::jsonb,
+    30,
+    60
+  )
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE command_types SET ttl_seconds = 60 WHERE id = 'next_track';
+
+CREATE OR REPLACE FUNCTION report_now_playing(now_playing jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  agent_device uuid := current_agent_device_id();
+BEGIN
+  IF agent_device IS NULL THEN
+    RAISE EXCEPTION 'Only agents can report what is playing';
+  END IF;
+
+  UPDATE devices
+  SET now_playing = report_now_playing.now_playing, now_playing_at = now()
+  WHERE id = agent_device;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION report_now_playing(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION report_now_playing(jsonb) TO authenticated;
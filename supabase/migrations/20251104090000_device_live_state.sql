@@ -0,0 +1,85 @@
+/*
+  # Live Device State
+
+  ## Overview
+  Device cards only showed presence, so operators sent "Unmute" without knowing whether the
+  host was muted. Agents now report a Zoom state snapshot next to the now-playing info
+  (periodically and after every command), and command types can declare the state they
+  need so the dashboard disables buttons that make no sense right now.
+
+  ## Changes
+
+  ### `devices`
+  - `zoom_state` (jsonb, nullable) - Last Zoom state the agent reported: `in_meeting`,
+    `meeting_id`, `muted`, `video_on`, `participant_count`, `recording`, `sharing`. At most 4 KB
+  - `zoom_state_at` (timestamptz, nullable) - When it was reported, stamped by the database
+
+  ### `command_types`
+  - `enabled_when` (jsonb, nullable) - State the command needs, keyed by `<column>.<field>` of
+    `devices`, e.g. `{"zoom_state.muted": true}`; an array value lists several allowed values.
+    Null means always available
+
+  ## New Functions
+  - `report_zoom_state(zoom_state)` - Used by agents; updates their own device only
+
+  ## Important Notes
+  - `enabled_when` only drives the dashboard. The database still accepts the command, so a
+    stale snapshot never blocks an operator who knows better (e.g. via the API)
+  - Fields the agent did not report, and devices that are not online, don't disable anything
+*/
+
+ALTER TABLE devices
+  ADD COLUMN IF NOT EXISTS zoom_state jsonb
+    CHECK (zoom_state IS NULL OR (jsonb_typeof(zoom_state) = 'object' AND pg_column_size(zoom_state) <= 4096)),
+  ADD COLUMN IF NOT EXISTS zoom_state_at timestamptz;
+
+ALTER TABLE command_types
+  ADD COLUMN IF NOT EXISTS enabled_when jsonb
+    CHECK (enabled_when IS NULL OR jsonb_typeof(enabled_when) = 'object');
+
+UPDATE command_types SET enabled_when = '{"zoom_state.in_meeting": true, "zoom_state.muted": false}'::jsonb
+  WHERE id = 'mute_zoom';
+UPDATE command_types SET enabled_when = '{"zoom_state.in_meeting": true, "zoom_state.muted": true}'::jsonb
+  WHERE id = 'unmute_zoom';
+UPDATE command_types SET enabled_when = '{"zoom_state.in_meeting": true, "zoom_state.video_on": false}'::jsonb
+  WHERE id = 'start_zoom_video';
+UPDATE command_types SET enabled_when = '{"zoom_state.in_meeting": true, "zoom_state.video_on": true}'::jsonb
+  WHERE id = 'stop_zoom_video';
+UPDATE command_types SET enabled_when = '{"zoom_state.in_meeting": true, "zoom_state.sharing": false}'::jsonb
+  WHERE id = 'start_zoom_share';
+UPDATE command_types SET enabled_when = '{"zoom_state.in_meeting": true, "zoom_state.sharing": true}'::jsonb
+  WHERE id = 'stop_zoom_share';
+UPDATE command_types SET enabled_when = '{"zoom_state.in_meeting": true, "zoom_state.recording": false}'::jsonb
+  WHERE id = 'start_zoom_recording';
+UPDATE command_types SET enabled_when = '{"zoom_state.in_meeting": true, "zoom_state.recording": true}'::jsonb
+  WHERE id = 'stop_zoom_recording';
+UPDATE command_types SET enabled_when = '{"zoom_state.in_meeting": true}'::jsonb
+  WHERE id IN ('mute_all_zoom', 'lock_zoom_meeting');
+UPDATE command_types SET enabled_when = '{"now_playing.state": ["paused", "stopped"]}'::jsonb
+  WHERE id = 'play_music';
+UPDATE command_types SET enabled_when = '{"now_playing.state": "playing"}'::jsonb
+  WHERE id = 'pause_music';
+UPDATE command_types SET enabled_when = '{"now_playing.state": ["playing", "paused"]}'::jsonb
+  WHERE id = 'stop_music';
+
+CREATE OR REPLACE FUNCTION report_zoom_state(zoom_state jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  agent_device uuid := current_agent_device_id();
+BEGIN
+  IF agent_device IS NULL THEN
+    RAISE EXCEPTION 'Only agents can report Zoom state';
+  END IF;
+
+  UPDATE devices
+  SET zoom_state = report_zoom_state.zoom_state, zoom_state_at = now()
+  WHERE id = agent_device;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION report_zoom_state(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION report_zoom_state(jsonb) TO authenticated;
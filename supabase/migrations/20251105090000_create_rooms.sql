@@ -0,0 +1,156 @@
+/*
+  # Rooms
+
+  ## Overview
+  The Prime and VIP rooms only existed as `ZOOM_CONFIG` entries nothing read. A room is now a
+  real record that owns the devices in it (e.g. the Zoom PC and the music PC), each marked
+  with the kinds of commands it handles. The dashboard sends room commands to whichever of
+  the room's devices handles the command's category, so operators don't have to know which
+  PC runs what. The dashboard creates the rooms defined in its config the first time someone
+  who can see their devices signs in.
+
+  ## New Tables
+
+  ### `rooms`
+  - `id` (uuid, primary key)
+  - `key` (text, unique, nullable) - Config key (`prime`, `vip`) for rooms created from the
+    dashboard config; null for rooms created by hand
+  - `name` (text) - e.g. "Prime"
+  - `description` (text, nullable)
+  - `owner_id` (uuid) - User who created the room
+  - `team_id` (uuid, nullable) - Team the room is shared with
+  - `created_at` (timestamptz)
+
+  ### `room_devices`
+  - `room_id` (uuid) - Room
+  - `device_id` (uuid) - Device in the room
+  - `handles` (text[]) - Command categories the device runs for the room, e.g. `{zoom}`
+  - `added_at` (timestamptz)
+
+  ## Changes
+  - `command_types.category` (text, nullable) - `zoom` or `music` for the shipped commands;
+    decides which room device a room command goes to
+
+  ## Security
+  - Rooms are visible to their owner and, when shared, to members of the team, like device groups
+  - Owners and team admins can edit and delete rooms and their devices
+  - Only devices the user can see can be put in a room. Seeing a room does not grant access to
+    its devices: each command is still checked against the target device's policies
+
+  ## Important Notes
+  - A command type without a category goes to the room's only device, or nowhere if the room
+    has several
+  - Two devices in one room should not handle the same category; the dashboard uses the first
+*/
+
+CREATE TABLE IF NOT EXISTS rooms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key text UNIQUE CHECK (key IS NULL OR key ~ '^[a-z0-9_-]+$'),
+  name text NOT NULL,
+  description text,
+  owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  team_id uuid REFERENCES teams(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS room_devices (
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  device_id uuid REFERENCES devices(id) ON DELETE CASCADE NOT NULL,
+  handles text[] DEFAULT '{}' NOT NULL,
+  added_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (room_id, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rooms_team_id ON rooms(team_id);
+CREATE INDEX IF NOT EXISTS idx_room_devices_device_id ON room_devices(device_id);
+
+ALTER TABLE command_types
+  ADD COLUMN IF NOT EXISTS category text;
+
+UPDATE command_types SET category = 'zoom'
+  WHERE id IN (
+    'mute_zoom', 'unmute_zoom', 'start_zoom_video', 'stop_zoom_video', 'start_zoom_share', 'stop_zoom_share',
+    'start_zoom_recording', 'stop_zoom_recording', 'mute_all_zoom', 'lock_zoom_meeting'
+  );
+UPDATE command_types SET category = 'music'
+  WHERE id IN (
+    'next_track', 'previous_track', 'play_music', 'pause_music', 'stop_music', 'play_track', 'seek_track',
+    'set_volume', 'change_volume', 'toggle_shuffle', 'toggle_repeat'
+  );
+
+-- Enable Row Level Security
+ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_devices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for rooms table
+CREATE POLICY "Users can view their own and team rooms"
+  ON rooms FOR SELECT
+  TO authenticated
+  USING (
+    owner_id = auth.uid() OR
+    (team_id IS NOT NULL AND has_team_role(team_id, 'viewer'))
+  );
+
+CREATE POLICY "Users can create rooms"
+  ON rooms FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    owner_id = auth.uid() AND
+    (team_id IS NULL OR has_team_role(team_id, 'viewer'))
+  );
+
+CREATE POLICY "Owners and team admins can update rooms"
+  ON rooms FOR UPDATE
+  TO authenticated
+  USING (
+    owner_id = auth.uid() OR
+    (team_id IS NOT NULL AND is_team_admin(team_id))
+  )
+  WITH CHECK (team_id IS NULL OR has_team_role(team_id, 'viewer'));
+
+CREATE POLICY "Owners and team admins can delete rooms"
+  ON rooms FOR DELETE
+  TO authenticated
+  USING (
+    owner_id = auth.uid() OR
+    (team_id IS NOT NULL AND is_team_admin(team_id))
+  );
+
+-- RLS Policies for room_devices table
+CREATE POLICY "Users can view devices of visible rooms"
+  ON room_devices FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM rooms
+      WHERE rooms.id = room_devices.room_id
+    )
+  );
+
+CREATE POLICY "Room editors can manage room devices"
+  ON room_devices FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM rooms
+      WHERE rooms.id = room_devices.room_id
+      AND (
+        rooms.owner_id = auth.uid() OR
+        (rooms.team_id IS NOT NULL AND is_team_admin(rooms.team_id))
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM rooms
+      WHERE rooms.id = room_devices.room_id
+      AND (
+        rooms.owner_id = auth.uid() OR
+        (rooms.team_id IS NOT NULL AND is_team_admin(rooms.team_id))
+      )
+    ) AND
+    EXISTS (
+      SELECT 1 FROM devices
+      WHERE devices.id = room_devices.device_id
+    )
+  );
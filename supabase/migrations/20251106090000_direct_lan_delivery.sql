@@ -0,0 +1,253 @@
+/*
+  # Direct LAN Delivery
+
+  ## Overview
+  Every command travelled through the Supabase queue, even when the dashboard sat on the
+  same network as the agent: slow, and impossible while the venue's internet was down. An
+  agent can now accept commands over HTTP on its advertised `ip_address` and `port`. The
+  dashboard asks the database for a short-lived token that lists the commands the user may
+  send to the device, posts the command and the token straight to the agent, and falls back
+  to the queue when the agent can't be reached. The agent checks the token's signature
+  offline, runs the command and records it in `commands` itself, as soon as it can reach
+  the database.
+
+  ## New Tables
+
+  ### `device_direct_keys`
+  - `device_id` (uuid, primary key) - Device
+  - `secret` (text) - Key the device's direct delivery tokens are signed with
+  - `created_at` (timestamptz)
+
+  ## Changes
+
+  ### `devices`
+  - `direct_delivery` (boolean) - The agent accepts commands over the LAN; set by the agent
+
+  ### `commands`
+  - `delivery_path` (text) - `queue` or `direct`: how the command reached the agent
+
+  ## New Functions
+  - `report_direct_delivery(enabled)` - Used by agents on start; turns direct delivery on or
+    off for their own device and returns the signing key while it is on
+  - `issue_direct_token(target_device)` - Used by the dashboard; returns a token valid for
+    12 hours naming the user, the device and the command types the user may send to it
+  - `record_direct_command(command)` - Used by agents; inserts a command they received
+    directly, or updates it with its latest outcome
+
+  ## Security
+  - `device_direct_keys` has RLS enabled and no policies: only the functions above read it
+  - A token carries the permissions the user had when it was issued. Role changes apply to
+    direct delivery once the dashboard's token expires
+  - Agents may additionally write `delivery_path`, so a queued command the agent already ran
+    directly is recorded as such
+  - Tokens travel in plain HTTP on the LAN; run direct delivery on trusted networks only
+
+  ## Important Notes
+  - Deleting a device's row in `device_direct_keys` rotates its key: tokens issued before stop
+    working and the agent picks up the new key on its next start
+  - A direct command is never retried; `max_attempts` is 1
+  - When the direct request fails the dashboard queues the command with the same idempotency
+    key, so a command that did reach the agent is not run twice
+*/
+
+CREATE TABLE IF NOT EXISTS device_direct_keys (
+  device_id uuid PRIMARY KEY REFERENCES devices(id) ON DELETE CASCADE,
+  secret text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE device_direct_keys ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE devices
+  ADD COLUMN IF NOT EXISTS direct_delivery boolean NOT NULL DEFAULT false;
+
+ALTER TABLE commands
+  ADD COLUMN IF NOT EXISTS delivery_path text NOT NULL DEFAULT 'queue'
+    CHECK (delivery_path IN ('queue', 'direct'));
+
+-- Agents may also mark a queued command as delivered directly
+CREATE OR REPLACE FUNCTION protect_agent_command_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  agent_columns text[] := ARRAY[
+    'status', 'executed_at', 'delivered_at', 'started_at', 'finished_at', 'result', 'error_code', 'error_message',
+    'attempts', 'next_attempt_at', 'delivery_path'
+  ];
+BEGIN
+  IF current_agent_device_id() IS NOT NULL
+    AND (to_jsonb(NEW) - agent_columns) IS DISTINCT FROM (to_jsonb(OLD) - agent_columns)
+  THEN
+    RAISE EXCEPTION 'Agents can only update command status and results';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION report_direct_delivery(enabled boolean)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  agent_device uuid := current_agent_device_id();
+  key text;
+BEGIN
+  IF agent_device IS NULL THEN
+    RAISE EXCEPTION 'Only agents can report direct delivery';
+  END IF;
+
+  UPDATE devices
+  SET direct_delivery = enabled
+  WHERE id = agent_device;
+
+  IF NOT enabled THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO device_direct_keys (device_id, secret)
+  VALUES (agent_device, encode(extensions.gen_random_bytes(32), 'hex'))
+  ON CONFLICT (device_id) DO NOTHING;
+
+  SELECT secret INTO key
+  FROM device_direct_keys
+  WHERE device_id = agent_device;
+
+  RETURN key;
+END;
+$$;
+
+-- Token: hex-encoded JSON claims, a dot, and the hex HMAC-SHA256 of the claims part
+CREATE OR REPLACE FUNCTION issue_direct_token(target_device uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  key text;
+  allowed text[];
+  expires timestamptz := now() + interval '12 hours';
+  claims text;
+BEGIN
+  IF auth.uid() IS NULL OR current_agent_device_id() IS NOT NULL THEN
+    RAISE EXCEPTION 'Only users can request direct delivery tokens';
+  END IF;
+
+  SELECT device_direct_keys.secret INTO key
+  FROM devices
+  JOIN device_direct_keys ON device_direct_keys.device_id = devices.id
+  WHERE devices.id = target_device
+  AND devices.direct_delivery;
+
+  IF key IS NULL THEN
+    RAISE EXCEPTION 'Direct delivery is not enabled for this device';
+  END IF;
+
+  SELECT array_agg(id ORDER BY id) INTO allowed
+  FROM command_types
+  WHERE can_send_command(target_device, id);
+
+  IF allowed IS NULL THEN
+    RAISE EXCEPTION 'You cannot send commands to this device';
+  END IF;
+
+  claims := encode(
+    convert_to(
+      jsonb_build_object(
+        'device_id', target_device,
+        'user_id', auth.uid(),
+        'command_types', to_jsonb(allowed),
+        'expires_at', floor(extract(epoch FROM expires))::bigint
+      )::text,
+      'UTF8'
+    ),
+    'hex'
+  );
+
+  RETURN jsonb_build_object(
+    'token', claims || '.' || encode(extensions.hmac(claims, key, 'sha256'), 'hex'),
+    'expires_at', expires
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_direct_command(command jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  agent_device uuid := current_agent_device_id();
+  command_id uuid := (command->>'id')::uuid;
+  key text := command->>'idempotency_key';
+BEGIN
+  IF agent_device IS NULL THEN
+    RAISE EXCEPTION 'Only agents can record direct commands';
+  END IF;
+  IF (command->>'device_id')::uuid IS DISTINCT FROM agent_device THEN
+    RAISE EXCEPTION 'Agents can only record their own commands';
+  END IF;
+  IF command->>'status' NOT IN ('delivered', 'executed', 'failed') THEN
+    RAISE EXCEPTION 'Invalid direct command status: %', command->>'status';
+  END IF;
+
+  -- The same command, or the dashboard's queued fallback for it (same idempotency key)
+  UPDATE commands
+  SET
+    status = command->>'status',
+    delivery_path = 'direct',
+    delivered_at = (command->>'delivered_at')::timestamptz,
+    started_at = (command->>'started_at')::timestamptz,
+    finished_at = (command->>'finished_at')::timestamptz,
+    executed_at = (command->>'executed_at')::timestamptz,
+    result = NULLIF(command->'result', 'null'::jsonb),
+    error_code = command->>'error_code',
+    error_message = command->>'error_message',
+    attempts = 1
+  WHERE device_id = agent_device
+  AND (id = command_id OR (key IS NOT NULL AND idempotency_key = key))
+  AND (delivery_path = 'direct' OR status IN ('pending', 'expired'));
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO commands (
+    id, device_id, command_type, payload, status, sent_by, sent_at, delivered_at, started_at, finished_at,
+    executed_at, result, error_code, error_message, attempts, max_attempts, idempotency_key, delivery_path
+  )
+  VALUES (
+    command_id,
+    agent_device,
+    command->>'command_type',
+    COALESCE(command->'payload', '{}'::jsonb),
+    command->>'status',
+    (command->>'sent_by')::uuid,
+    (command->>'sent_at')::timestamptz,
+    (command->>'delivered_at')::timestamptz,
+    (command->>'started_at')::timestamptz,
+    (command->>'finished_at')::timestamptz,
+    (command->>'executed_at')::timestamptz,
+    NULLIF(command->'result', 'null'::jsonb),
+    command->>'error_code',
+    command->>'error_message',
+    1,
+    1,
+    key,
+    'direct'
+  )
+  ON CONFLICT (id) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION report_direct_delivery(boolean) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION issue_direct_token(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION record_direct_command(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION report_direct_delivery(boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION issue_direct_token(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_direct_command(jsonb) TO authenticated;
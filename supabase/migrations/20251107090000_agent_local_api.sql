@@ -0,0 +1,106 @@
+/*
+  # Agent Local API
+
+  ## Overview
+  Nothing checked that the address on a device card pointed at a running agent. Every agent
+  now serves a small local API on its advertised port (health, version, capabilities and,
+  with direct delivery on, command execution), and the device modals test it before saving.
+  The API uses the direct delivery tokens, so a device needs a signing key even when direct
+  delivery is off, and users who may only view a device need a token for the health check.
+
+  ## Changes
+  - `report_direct_delivery(enabled)` - Now returns the signing key whether direct delivery is
+    on or off; the agent uses it to check every local API request
+  - `issue_direct_token(target_device)` - No longer requires direct delivery. Any user who can
+    see the device gets a token; its command list may be empty
+
+  ## Security
+  - Tokens are still only issued for devices the user can see, and only list the commands the
+    user's role may send. Agents with direct delivery off refuse commands regardless of the token
+*/
+
+CREATE OR REPLACE FUNCTION report_direct_delivery(enabled boolean)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  agent_device uuid := current_agent_device_id();
+  key text;
+BEGIN
+  IF agent_device IS NULL THEN
+    RAISE EXCEPTION 'Only agents can report direct delivery';
+  END IF;
+
+  UPDATE devices
+  SET direct_delivery = enabled
+  WHERE id = agent_device;
+
+  INSERT INTO device_direct_keys (device_id, secret)
+  VALUES (agent_device, encode(extensions.gen_random_bytes(32), 'hex'))
+  ON CONFLICT (device_id) DO NOTHING;
+
+  SELECT secret INTO key
+  FROM device_direct_keys
+  WHERE device_id = agent_device;
+
+  RETURN key;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_direct_token(target_device uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  key text;
+  allowed text[];
+  expires timestamptz := now() + interval '12 hours';
+  claims text;
+BEGIN
+  IF auth.uid() IS NULL OR current_agent_device_id() IS NOT NULL THEN
+    RAISE EXCEPTION 'Only users can request direct delivery tokens';
+  END IF;
+
+  IF NOT is_device_owner(target_device) AND NOT EXISTS (
+    SELECT 1 FROM device_teams
+    WHERE device_teams.device_id = target_device
+    AND has_team_role(device_teams.team_id, 'viewer')
+  ) THEN
+    RAISE EXCEPTION 'Device not found';
+  END IF;
+
+  SELECT secret INTO key
+  FROM device_direct_keys
+  WHERE device_id = target_device;
+
+  IF key IS NULL THEN
+    RAISE EXCEPTION 'The agent has not connected yet';
+  END IF;
+
+  SELECT COALESCE(array_agg(id ORDER BY id), '{}') INTO allowed
+  FROM command_types
+  WHERE can_send_command(target_device, id);
+
+  claims := encode(
+    convert_to(
+      jsonb_build_object(
+        'device_id', target_device,
+        'user_id', auth.uid(),
+        'command_types', to_jsonb(allowed),
+        'expires_at', floor(extract(epoch FROM expires))::bigint
+      )::text,
+      'UTF8'
+    ),
+    'hex'
+  );
+
+  RETURN jsonb_build_object(
+    'token', claims || '.' || encode(extensions.hmac(claims, key, 'sha256'), 'hex'),
+    'expires_at', expires
+  );
+END;
+$$;
@@ -0,0 +1,173 @@
+/*
+  # Command Analytics
+
+  ## Overview
+  Questions like "how often did VIP unmute fail last month" or "how long do commands take"
+  needed a CSV export and a spreadsheet. The dashboard's analytics view now asks the database
+  for outcome counts and latency percentiles per device, per command type and per day, and
+  for each device's uptime. Heartbeats only ever overwrote `devices.status`, so presence
+  changes are now kept as a history to compute uptime from.
+
+  ## New Tables
+
+  ### `device_presence_events`
+  - `id` (uuid, primary key)
+  - `device_id` (uuid, references devices) - Cascades on delete
+  - `status` (text) - The status the device changed to: `online`, `offline` or `unknown`
+  - `changed_at` (timestamptz) - When it changed
+
+  ## New Functions
+  - `record_device_presence()` - Trigger on `devices`: appends an event whenever `status`
+    changes, whether through a heartbeat or `mark_stale_devices_offline()`
+  - `command_analytics(target_devices, range_start, range_end, tz)` - Commands sent in the
+    range, grouped by device, by command type, by day (in `tz`) and overall. Each row has the
+    total, the executed, failed and expired counts and the p50/p95 latency in milliseconds from
+    `sent_at` to `executed_at`. The columns the row is not grouped by are null
+  - `device_uptime(target_devices, range_start, range_end)` - Seconds each device spent online
+    within the range, and how many seconds of the range its presence history covers
+
+  ## Security
+  - RLS enabled on `device_presence_events`: readable by device owners and members of the
+    teams the device is shared with; only the trigger writes to it
+  - Both analytics functions run with the caller's rights, so they only count the commands and
+    presence events the caller can see
+
+  ## Important Notes
+  - Existing devices get one event with their current status, so their history starts now
+    instead of being empty. Uptime for time before the first event is unknown and is left out
+    of `tracked_seconds` rather than counted as downtime
+  - Latency percentiles only include commands with an `executed_at`
+*/
+
+CREATE TABLE IF NOT EXISTS device_presence_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id uuid NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('online', 'offline', 'unknown')),
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_presence_events_device_changed ON device_presence_events(device_id, changed_at);
+
+ALTER TABLE device_presence_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners and team members can view device presence"
+  ON device_presence_events FOR SELECT
+  TO authenticated
+  USING (
+    is_device_owner(device_id) OR
+    EXISTS (
+      SELECT 1 FROM device_teams
+      WHERE device_teams.device_id = device_presence_events.device_id
+      AND has_team_role(device_teams.team_id, 'viewer')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION record_device_presence()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO device_presence_events (device_id, status)
+  VALUES (NEW.id, NEW.status);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_device_presence ON devices;
+CREATE TRIGGER record_device_presence
+  AFTER UPDATE OF status ON devices
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION record_device_presence();
+
+INSERT INTO device_presence_events (device_id, status)
+SELECT id, status FROM devices
+WHERE NOT EXISTS (
+  SELECT 1 FROM device_presence_events
+  WHERE device_presence_events.device_id = devices.id
+);
+
+CREATE OR REPLACE FUNCTION command_analytics(
+  target_devices uuid[],
+  range_start timestamptz,
+  range_end timestamptz,
+  tz text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  device_id uuid,
+  command_type text,
+  day date,
+  total bigint,
+  executed bigint,
+  failed bigint,
+  expired bigint,
+  p50_ms double precision,
+  p95_ms double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    c.device_id,
+    c.command_type,
+    (c.sent_at AT TIME ZONE tz)::date,
+    count(*),
+    count(*) FILTER (WHERE c.status = 'executed'),
+    count(*) FILTER (WHERE c.status = 'failed'),
+    count(*) FILTER (WHERE c.status = 'expired'),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY extract(epoch FROM c.executed_at - c.sent_at) * 1000)
+      FILTER (WHERE c.executed_at IS NOT NULL),
+    percentile_cont(0.95) WITHIN GROUP (ORDER BY extract(epoch FROM c.executed_at - c.sent_at) * 1000)
+      FILTER (WHERE c.executed_at IS NOT NULL)
+  FROM commands c
+  WHERE c.device_id = ANY(target_devices)
+  AND c.sent_at >= range_start
+  AND c.sent_at < range_end
+  GROUP BY GROUPING SETS ((c.device_id), (c.command_type), ((c.sent_at AT TIME ZONE tz)::date), ());
+$$;
+
+REVOKE EXECUTE ON FUNCTION command_analytics(uuid[], timestamptz, timestamptz, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION command_analytics(uuid[], timestamptz, timestamptz, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION device_uptime(target_devices uuid[], range_start timestamptz, range_end timestamptz)
+RETURNS TABLE (
+  device_id uuid,
+  online_seconds double precision,
+  tracked_seconds double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH spans AS (
+    -- Each event lasts until the next one, clipped to the range (and to now)
+    SELECT
+      e.device_id,
+      e.status,
+      greatest(e.changed_at, range_start) AS span_start,
+      least(
+        coalesce(lead(e.changed_at) OVER (PARTITION BY e.device_id ORDER BY e.changed_at), 'infinity'),
+        range_end,
+        now()
+      ) AS span_end
+    FROM device_presence_events e
+    WHERE e.device_id = ANY(target_devices)
+    AND e.changed_at < least(range_end, now())
+  )
+  SELECT
+    spans.device_id,
+    coalesce(sum(extract(epoch FROM span_end - span_start)) FILTER (WHERE status = 'online'), 0)::double precision,
+    sum(extract(epoch FROM span_end - span_start))::double precision
+  FROM spans
+  WHERE span_end > span_start
+  GROUP BY spans.device_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION device_uptime(uuid[], timestamptz, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION device_uptime(uuid[], timestamptz, timestamptz) TO authenticated;
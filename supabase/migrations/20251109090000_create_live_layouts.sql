@@ -0,0 +1,60 @@
+/*
+  # Live Layouts
+
+  ## Overview
+  During a set, operators work from a full-screen live mode that shows only the rooms they pick,
+  with big command buttons and keyboard shortcuts (e.g. P for "Unmute" in Prime). Each
+  operator's choice of rooms, shortcuts and double-fire guard is saved here, so it follows them
+  to whichever computer runs the show.
+
+  ## New Tables
+
+  ### `live_layouts`
+  - `user_id` (uuid, primary key) - The operator the layout belongs to
+  - `room_ids` (uuid[]) - Rooms shown in live mode, in order. Empty shows every room
+  - `hotkeys` (jsonb) - Shortcuts keyed by the lower-case key, each naming a room and a command
+    type: `{"p": {"room_id": "…", "command_type": "unmute_zoom"}}`
+  - `cooldown_ms` (integer, default 1500) - How long a button ignores further presses after
+    firing, 0 to 10000
+  - `updated_at` (timestamptz)
+
+  ## Security
+  - RLS enabled: users read and write only their own layout
+  - A layout grants nothing: rooms the user can no longer see are skipped, and every command
+    is still checked against the target device's policies
+
+  ## Important Notes
+  - Deleted rooms are not removed from `room_ids` or `hotkeys`; the dashboard ignores them
+*/
+
+CREATE TABLE IF NOT EXISTS live_layouts (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  room_ids uuid[] DEFAULT '{}' NOT NULL,
+  hotkeys jsonb DEFAULT '{}'::jsonb NOT NULL CHECK (jsonb_typeof(hotkeys) = 'object'),
+  cooldown_ms integer DEFAULT 1500 NOT NULL CHECK (cooldown_ms >= 0 AND cooldown_ms <= 10000),
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE live_layouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own live layout"
+  ON live_layouts FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own live layout"
+  ON live_layouts FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own live layout"
+  ON live_layouts FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own live layout"
+  ON live_layouts FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,80 @@
+/*
+  # Keep the Next Schedule Run After an Outage
+
+  ## Overview
+  When the scheduler caught up after the database had been down, the missed-run loop could stop
+  on an occurrence that was still in the future. `fire_due_schedules()` then advanced
+  `next_run_at` past that occurrence, so it was never sent. E.g. an hourly schedule with the
+  database down from 19:00 to 20:30 recorded 19:00 and 20:00 as missed and moved on to 22:00,
+  losing the 21:00 run.
+
+  ## Changes
+  - `fire_due_schedules()` - Keeps an occurrence the catch-up loop stopped on as `next_run_at`
+    when it has not happened yet
+*/
+
+CREATE OR REPLACE FUNCTION fire_due_schedules()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule command_schedules%ROWTYPE;
+  occurrence timestamptz;
+  new_command_id uuid;
+  fired integer := 0;
+  grace interval := interval '5 minutes';
+BEGIN
+  FOR schedule IN
+    SELECT * FROM command_schedules
+    WHERE status = 'active'
+    AND next_run_at <= now()
+    ORDER BY next_run_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    occurrence := schedule.next_run_at;
+
+    -- Record every occurrence that is too late to send as missed
+    WHILE occurrence IS NOT NULL AND occurrence < now() - grace LOOP
+      INSERT INTO schedule_runs (schedule_id, scheduled_for, status)
+      VALUES (schedule.id, occurrence, 'missed');
+
+      occurrence := CASE
+        WHEN schedule.cron IS NULL THEN NULL
+        ELSE cron_next_run(schedule.cron, occurrence, schedule.timezone)
+      END;
+    END LOOP;
+
+    IF occurrence IS NOT NULL AND occurrence <= now() THEN
+      INSERT INTO commands (device_id, command_type, payload, sent_by, schedule_id)
+      VALUES (schedule.device_id, schedule.command_type, schedule.payload, schedule.created_by, schedule.id)
+      RETURNING id INTO new_command_id;
+
+      INSERT INTO schedule_runs (schedule_id, scheduled_for, status, command_id)
+      VALUES (schedule.id, occurrence, 'fired', new_command_id);
+
+      fired := fired + 1;
+    END IF;
+
+    IF schedule.cron IS NULL THEN
+      UPDATE command_schedules
+      SET status = 'completed', last_run_at = now()
+      WHERE id = schedule.id;
+    ELSE
+      UPDATE command_schedules
+      SET next_run_at = CASE
+          -- The catch-up loop stopped on a run that is still to come
+          WHEN occurrence > now() THEN occurrence
+          ELSE cron_next_run(schedule.cron, greatest(occurrence, now()), schedule.timezone)
+        END,
+        last_run_at = now()
+      WHERE id = schedule.id;
+    END IF;
+  END LOOP;
+
+  RETURN fired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION fire_due_schedules() FROM PUBLIC, anon, authenticated;
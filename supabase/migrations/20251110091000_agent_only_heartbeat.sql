@@ -0,0 +1,48 @@
+/*
+  # Only Agents Report Device Presence
+
+  ## Overview
+  `device_heartbeat()` still accepted the device's owner and any member of a team the device is
+  shared with, viewers included. Any of them could mark a room PC online while its agent was
+  down, or offline while it was running. Agents sign in with their own credential and the
+  dashboard never calls it. Only the device's agent may report its presence now.
+
+  ## Security
+  - `device_heartbeat()` only accepts an agent heartbeating its own device
+    (`current_agent_device_id()`); owners and team members get "Device not found"
+
+  ## Important Notes
+  - Offline detection is unchanged: `mark_stale_devices_offline()` runs from `pg_cron`
+*/
+
+CREATE OR REPLACE FUNCTION device_heartbeat(target_device uuid, new_status text DEFAULT 'online')
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  seen_at timestamptz := now();
+BEGIN
+  IF new_status NOT IN ('online', 'offline') THEN
+    RAISE EXCEPTION 'Invalid heartbeat status: %', new_status;
+  END IF;
+
+  IF target_device IS NULL OR target_device IS DISTINCT FROM current_agent_device_id() THEN
+    RAISE EXCEPTION 'Device % not found', target_device;
+  END IF;
+
+  PERFORM set_config('app.presence_write', 'on', true);
+
+  UPDATE devices
+  SET status = new_status, last_seen = seen_at
+  WHERE id = target_device;
+
+  PERFORM set_config('app.presence_write', 'off', true);
+
+  RETURN seen_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION device_heartbeat(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION device_heartbeat(uuid, text) TO authenticated;
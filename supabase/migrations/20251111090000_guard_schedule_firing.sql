@@ -0,0 +1,212 @@
+/*
+  # Guard Schedule Firing
+
+  ## Overview
+  `fire_due_schedules()` fired every due schedule in one transaction. One schedule whose payload
+  no longer matched its command type's schema made the `commands` insert raise, the whole run
+  rolled back, and no other schedule fired that minute or any minute after. Schedules also kept
+  sending as their creator after the creator was demoted, left the team, or lost the device
+  share. A cron expression that never matches (e.g. `0 0 31 2 *`) was saved as an active
+  schedule with no next run.
+
+  ## Changes
+  - `command_schedules.last_error` (text, nullable) - Why the scheduler paused the schedule;
+    cleared when it is resumed
+  - `schedule_runs.status` may be 'failed'; `schedule_runs.error_message` (text, nullable) says why
+  - `fire_due_schedules()` handles each schedule on its own. A schedule that fails is paused
+    with `last_error` set and a 'failed' run; the others still fire
+  - `fire_due_schedules()` checks that the creator may still send the command before firing
+  - `prepare_command_schedule()` rejects cron expressions with no run in the next year, and only
+    re-validates the payload when the payload or command type changes, so the scheduler can
+    still advance or pause a schedule whose payload went stale
+
+  ## New Functions
+  - `user_can_send_command(target_user, target_device, command)` - `can_send_command()` for a
+    given user instead of the caller
+  - `can_send_command()` now calls it with `auth.uid()`
+
+  ## Important Notes
+  - A schedule paused by the scheduler is resumed like any other; it is paused again on its next
+    run if the problem remains
+*/
+
+ALTER TABLE command_schedules
+  ADD COLUMN IF NOT EXISTS last_error text;
+
+ALTER TABLE schedule_runs
+  ADD COLUMN IF NOT EXISTS error_message text;
+
+ALTER TABLE schedule_runs DROP CONSTRAINT IF EXISTS schedule_runs_status_check;
+ALTER TABLE schedule_runs
+  ADD CONSTRAINT schedule_runs_status_check CHECK (status IN ('fired', 'missed', 'failed'));
+
+CREATE OR REPLACE FUNCTION user_can_send_command(target_user uuid, target_device uuid, command text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM devices
+    WHERE devices.id = target_device
+    AND devices.owner_id = target_user
+  ) OR EXISTS (
+    SELECT 1 FROM device_teams
+    JOIN teams ON teams.id = device_teams.team_id
+    LEFT JOIN team_members
+      ON team_members.team_id = device_teams.team_id
+      AND team_members.user_id = target_user
+    WHERE device_teams.device_id = target_device
+    AND team_role_rank(CASE WHEN teams.created_by = target_user THEN 'owner' ELSE team_members.role END)
+      >= team_role_rank(command_min_role(device_teams.team_id, command))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_send_command(target_device uuid, command text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_can_send_command(auth.uid(), target_device, command);
+$$;
+
+CREATE OR REPLACE FUNCTION prepare_command_schedule()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  type_schema jsonb;
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.payload IS DISTINCT FROM OLD.payload
+    OR NEW.command_type IS DISTINCT FROM OLD.command_type
+  THEN
+    SELECT payload_schema INTO type_schema
+    FROM command_types
+    WHERE id = NEW.command_type;
+
+    IF NOT extensions.jsonb_matches_schema(type_schema::json, NEW.payload) THEN
+      RAISE EXCEPTION 'Payload does not match the schema for command type %', NEW.command_type
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+
+  IF TG_OP = 'INSERT'
+    OR NEW.run_at IS DISTINCT FROM OLD.run_at
+    OR NEW.cron IS DISTINCT FROM OLD.cron
+    OR NEW.timezone IS DISTINCT FROM OLD.timezone
+    OR (NEW.status = 'active' AND OLD.status <> 'active')
+  THEN
+    IF NEW.status <> 'active' THEN
+      NEW.next_run_at := NULL;
+    ELSIF NEW.cron IS NULL THEN
+      NEW.next_run_at := NEW.run_at;
+    ELSE
+      NEW.next_run_at := cron_next_run(NEW.cron, greatest(NEW.run_at, now()) - interval '1 minute', NEW.timezone);
+
+      IF NEW.next_run_at IS NULL THEN
+        RAISE EXCEPTION 'Cron expression % has no run in the next year', NEW.cron
+          USING ERRCODE = '22023';
+      END IF;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'active' AND (TG_OP = 'INSERT' OR OLD.status <> 'active') THEN
+    NEW.last_error := NULL;
+  END IF;
+
+  IF NEW.status IN ('paused', 'completed', 'cancelled') THEN
+    NEW.next_run_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fire_due_schedules()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule command_schedules%ROWTYPE;
+  occurrence timestamptz;
+  new_command_id uuid;
+  fired integer := 0;
+  grace interval := interval '5 minutes';
+BEGIN
+  FOR schedule IN
+    SELECT * FROM command_schedules
+    WHERE status = 'active'
+    AND next_run_at <= now()
+    ORDER BY next_run_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    occurrence := schedule.next_run_at;
+
+    -- Each schedule runs in its own subtransaction, so one failing schedule
+    -- rolls back only its own runs and the rest still fire
+    BEGIN
+      -- Record every occurrence that is too late to send as missed
+      WHILE occurrence IS NOT NULL AND occurrence < now() - grace LOOP
+        INSERT INTO schedule_runs (schedule_id, scheduled_for, status)
+        VALUES (schedule.id, occurrence, 'missed');
+
+        occurrence := CASE
+          WHEN schedule.cron IS NULL THEN NULL
+          ELSE cron_next_run(schedule.cron, occurrence, schedule.timezone)
+        END;
+      END LOOP;
+
+      IF occurrence IS NOT NULL AND occurrence <= now() THEN
+        IF NOT user_can_send_command(schedule.created_by, schedule.device_id, schedule.command_type) THEN
+          RAISE EXCEPTION 'The schedule creator may no longer send % to this device', schedule.command_type
+            USING ERRCODE = '42501';
+        END IF;
+
+        INSERT INTO commands (device_id, command_type, payload, sent_by, schedule_id)
+        VALUES (schedule.device_id, schedule.command_type, schedule.payload, schedule.created_by, schedule.id)
+        RETURNING id INTO new_command_id;
+
+        INSERT INTO schedule_runs (schedule_id, scheduled_for, status, command_id)
+        VALUES (schedule.id, occurrence, 'fired', new_command_id);
+
+        fired := fired + 1;
+      END IF;
+
+      IF schedule.cron IS NULL THEN
+        UPDATE command_schedules
+        SET status = 'completed', last_run_at = now()
+        WHERE id = schedule.id;
+      ELSE
+        UPDATE command_schedules
+        SET next_run_at = CASE
+            -- The catch-up loop stopped on a run that is still to come
+            WHEN occurrence > now() THEN occurrence
+            ELSE cron_next_run(schedule.cron, greatest(occurrence, now()), schedule.timezone)
+          END,
+          last_run_at = now()
+        WHERE id = schedule.id;
+      END IF;
+    EXCEPTION WHEN others THEN
+      INSERT INTO schedule_runs (schedule_id, scheduled_for, status, error_message)
+      VALUES (schedule.id, coalesce(occurrence, schedule.next_run_at), 'failed', SQLERRM);
+
+      UPDATE command_schedules
+      SET status = 'paused', last_error = SQLERRM, last_run_at = now()
+      WHERE id = schedule.id;
+    END;
+  END LOOP;
+
+  RETURN fired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION user_can_send_command(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fire_due_schedules() FROM PUBLIC, anon, authenticated;
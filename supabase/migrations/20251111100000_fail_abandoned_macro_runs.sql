@@ -0,0 +1,52 @@
+/*
+  # Fail Abandoned Macro Runs
+
+  ## Overview
+  Macros run from the dashboard tab that started them. When that tab was closed or reloaded
+  mid-run, its `macro_runs` row stayed `running` forever. The runner now stamps the row every
+  30 seconds while it runs, and a `pg_cron` job fails runs whose stamp went stale.
+
+  ## Changes
+  - `macro_runs.heartbeat_at` (timestamptz) - Last time the dashboard running the macro checked
+    in; starts at the run's start
+
+  ## New Functions
+  - `fail_abandoned_macro_runs()` - Marks runs that are still `running` but have not checked in
+    for 3 minutes as `failed`. Runs every minute via `pg_cron`
+
+  ## Important Notes
+  - Browsers slow down timers in background tabs to about once a minute, so the cutoff leaves
+    room for a hidden tab that is still running its macro
+  - Commands a failed run already sent are left alone; they finish or expire like any other
+*/
+
+ALTER TABLE macro_runs
+  ADD COLUMN IF NOT EXISTS heartbeat_at timestamptz DEFAULT now() NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_macro_runs_running ON macro_runs(heartbeat_at) WHERE status = 'running';
+
+CREATE OR REPLACE FUNCTION fail_abandoned_macro_runs()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  failed integer;
+BEGIN
+  UPDATE macro_runs
+  SET status = 'failed',
+    error = 'The dashboard running this macro was closed',
+    finished_at = now()
+  WHERE status = 'running'
+  AND heartbeat_at < now() - interval '3 minutes';
+
+  GET DIAGNOSTICS failed = ROW_COUNT;
+
+  RETURN failed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION fail_abandoned_macro_runs() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('fail-abandoned-macro-runs', '* * * * *', $$SELECT public.fail_abandoned_macro_runs()$$);
@@ -0,0 +1,133 @@
+/*
+  # Verify Direct Commands
+
+  ## Overview
+  `record_direct_command()` stored whatever the agent sent: any sender, any command type, any
+  payload. A leaked device credential could write commands "sent by" any user and forge the
+  audit trail. It also raised on a clash with the queued fallback's idempotency key, on a
+  payload the schema rejects and on an unknown status, and the agent retried such a command
+  on every poll forever.
+
+  ## Changes
+  - `record_direct_command(command, token)` - Takes the direct delivery token the command
+    arrived with, replacing `record_direct_command(command)`:
+    - The token must be signed with the device's key, name the device and the command type,
+      and have been valid when the agent received the command (`sent_at`)
+    - `sent_by` comes from the token's `user_id`, not from the command
+    - The user must still be allowed to send the command to the device
+    - An insert that clashes with an existing row, on `id` or on the device's idempotency key,
+      is skipped
+  - Errors the agent can't fix by retrying use SQLSTATE 22023 (invalid input) or 42501 (not
+    allowed), like the payload schema check, so the agent drops the command instead of retrying
+
+  ## Security
+  - An agent holds its device's signing key, so a token proves less than a user's session. What
+    it does guarantee is that only a user who may send the command to the device can appear as
+    its sender
+*/
+
+DROP FUNCTION IF EXISTS record_direct_command(jsonb);
+
+CREATE OR REPLACE FUNCTION record_direct_command(command jsonb, token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  agent_device uuid := current_agent_device_id();
+  command_id uuid := (command->>'id')::uuid;
+  key text := command->>'idempotency_key';
+  sent_at timestamptz := COALESCE((command->>'sent_at')::timestamptz, now());
+  signing_key text;
+  claims_part text := split_part(token, '.', 1);
+  claims jsonb;
+BEGIN
+  IF agent_device IS NULL THEN
+    RAISE EXCEPTION 'Only agents can record direct commands' USING ERRCODE = '42501';
+  END IF;
+  IF (command->>'device_id')::uuid IS DISTINCT FROM agent_device THEN
+    RAISE EXCEPTION 'Agents can only record their own commands' USING ERRCODE = '42501';
+  END IF;
+  IF command->>'status' IS NULL OR command->>'status' NOT IN ('delivered', 'executed', 'failed') THEN
+    RAISE EXCEPTION 'Invalid direct command status: %', command->>'status' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT secret INTO signing_key
+  FROM device_direct_keys
+  WHERE device_id = agent_device;
+
+  IF signing_key IS NULL
+    OR claims_part = ''
+    OR encode(extensions.hmac(claims_part, signing_key, 'sha256'), 'hex') IS DISTINCT FROM split_part(token, '.', 2)
+  THEN
+    RAISE EXCEPTION 'Invalid direct delivery token' USING ERRCODE = '42501';
+  END IF;
+
+  claims := convert_from(decode(claims_part, 'hex'), 'UTF8')::jsonb;
+
+  IF (claims->>'device_id')::uuid IS DISTINCT FROM agent_device
+    OR NOT (claims->'command_types') ? (command->>'command_type')
+  THEN
+    RAISE EXCEPTION 'The token does not allow % on this device', command->>'command_type' USING ERRCODE = '42501';
+  END IF;
+  -- Recorded later while offline is fine; received after expiry is not
+  IF sent_at > now() + interval '1 minute' OR sent_at > to_timestamp((claims->>'expires_at')::bigint) THEN
+    RAISE EXCEPTION 'The token had expired when the command was received' USING ERRCODE = '42501';
+  END IF;
+  IF NOT user_can_send_command((claims->>'user_id')::uuid, agent_device, command->>'command_type') THEN
+    RAISE EXCEPTION 'The sender may no longer send % to this device', command->>'command_type' USING ERRCODE = '42501';
+  END IF;
+
+  -- The same command, or the dashboard's queued fallback for it (same idempotency key)
+  UPDATE commands
+  SET
+    status = command->>'status',
+    delivery_path = 'direct',
+    delivered_at = (command->>'delivered_at')::timestamptz,
+    started_at = (command->>'started_at')::timestamptz,
+    finished_at = (command->>'finished_at')::timestamptz,
+    executed_at = (command->>'executed_at')::timestamptz,
+    result = NULLIF(command->'result', 'null'::jsonb),
+    error_code = command->>'error_code',
+    error_message = command->>'error_message',
+    attempts = 1
+  WHERE device_id = agent_device
+  AND (id = command_id OR (key IS NOT NULL AND idempotency_key = key))
+  AND (delivery_path = 'direct' OR status IN ('pending', 'expired'));
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  -- No target: skips a clash on the id and on (device_id, idempotency_key) alike
+  INSERT INTO commands (
+    id, device_id, command_type, payload, status, sent_by, sent_at, delivered_at, started_at, finished_at,
+    executed_at, result, error_code, error_message, attempts, max_attempts, idempotency_key, delivery_path
+  )
+  VALUES (
+    command_id,
+    agent_device,
+    command->>'command_type',
+    COALESCE(command->'payload', '{}'::jsonb),
+    command->>'status',
+    (claims->>'user_id')::uuid,
+    sent_at,
+    (command->>'delivered_at')::timestamptz,
+    (command->>'started_at')::timestamptz,
+    (command->>'finished_at')::timestamptz,
+    (command->>'executed_at')::timestamptz,
+    NULLIF(command->'result', 'null'::jsonb),
+    command->>'error_code',
+    command->>'error_message',
+    1,
+    1,
+    key,
+    'direct'
+  )
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_direct_command(jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_direct_command(jsonb, text) TO authenticated;
@@ -0,0 +1,72 @@
+/*
+  # Shorten Direct Delivery Tokens
+
+  ## Overview
+  Direct delivery tokens were valid for 12 hours. A token read off the LAN, or kept by a user
+  who was since removed from the team, kept working for the rest of that time. Tokens are now
+  valid for 10 minutes; the dashboard asks for a new one when its cached token is close to
+  expiring.
+
+  ## Changes
+  - `issue_direct_token(target_device)` - Tokens expire after 10 minutes instead of 12 hours
+
+  ## Important Notes
+  - While the venue's internet is down the dashboard can't renew its token, so direct delivery
+    keeps working only until the cached token expires, at most 10 minutes
+*/
+
+CREATE OR REPLACE FUNCTION issue_direct_token(target_device uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  key text;
+  allowed text[];
+  expires timestamptz := now() + interval '10 minutes';
+  claims text;
+BEGIN
+  IF auth.uid() IS NULL OR current_agent_device_id() IS NOT NULL THEN
+    RAISE EXCEPTION 'Only users can request direct delivery tokens';
+  END IF;
+
+  IF NOT is_device_owner(target_device) AND NOT EXISTS (
+    SELECT 1 FROM device_teams
+    WHERE device_teams.device_id = target_device
+    AND has_team_role(device_teams.team_id, 'viewer')
+  ) THEN
+    RAISE EXCEPTION 'Device not found';
+  END IF;
+
+  SELECT secret INTO key
+  FROM device_direct_keys
+  WHERE device_id = target_device;
+
+  IF key IS NULL THEN
+    RAISE EXCEPTION 'The agent has not connected yet';
+  END IF;
+
+  SELECT COALESCE(array_agg(id ORDER BY id), '{}') INTO allowed
+  FROM command_types
+  WHERE can_send_command(target_device, id);
+
+  claims := encode(
+    convert_to(
+      jsonb_build_object(
+        'device_id', target_device,
+        'user_id', auth.uid(),
+        'command_types', to_jsonb(allowed),
+        'expires_at', floor(extract(epoch FROM expires))::bigint
+      )::text,
+      'UTF8'
+    ),
+    'hex'
+  );
+
+  RETURN jsonb_build_object(
+    'token', claims || '.' || encode(extensions.hmac(claims, key, 'sha256'), 'hex'),
+    'expires_at', expires
+  );
+END;
+$$;
@@ -0,0 +1,60 @@
+/*
+  # Command Analytics per Device and Command Type
+
+  ## Overview
+  `command_analytics()` summarized commands per device and per command type, but not per command
+  type on each device, so "how often did VIP unmute fail" still needed an export. It now also
+  returns a row for every command type on every device.
+
+  ## Changes
+  - `command_analytics(target_devices, range_start, range_end, tz)` - Adds the
+    `(device_id, command_type)` grouping set. Those rows have both columns set and `day` null;
+    the other rows are unchanged
+*/
+
+CREATE OR REPLACE FUNCTION command_analytics(
+  target_devices uuid[],
+  range_start timestamptz,
+  range_end timestamptz,
+  tz text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  device_id uuid,
+  command_type text,
+  day date,
+  total bigint,
+  executed bigint,
+  failed bigint,
+  expired bigint,
+  p50_ms double precision,
+  p95_ms double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    c.device_id,
+    c.command_type,
+    (c.sent_at AT TIME ZONE tz)::date,
+    count(*),
+    count(*) FILTER (WHERE c.status = 'executed'),
+    count(*) FILTER (WHERE c.status = 'failed'),
+    count(*) FILTER (WHERE c.status = 'expired'),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY extract(epoch FROM c.executed_at - c.sent_at) * 1000)
+      FILTER (WHERE c.executed_at IS NOT NULL),
+    percentile_cont(0.95) WITHIN GROUP (ORDER BY extract(epoch FROM c.executed_at - c.sent_at) * 1000)
+      FILTER (WHERE c.executed_at IS NOT NULL)
+  FROM commands c
+  WHERE c.device_id = ANY(target_devices)
+  AND c.sent_at >= range_start
+  AND c.sent_at < range_end
+  GROUP BY GROUPING SETS (
+    (c.device_id),
+    (c.command_type),
+    (c.device_id, c.command_type),
+    ((c.sent_at AT TIME ZONE tz)::date),
+    ()
+  );
+$$;